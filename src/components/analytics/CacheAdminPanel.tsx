@@ -0,0 +1,400 @@
+import { useState, useEffect, useCallback } from "react";
+import { getSupabaseClient } from "@/integrations/supabase/lazyClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Pin, PinOff, Trash2, ShieldAlert } from "lucide-react";
+import { ComposedChart, Bar, Line, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer } from "recharts";
+
+interface CacheStats {
+  summary: {
+    days: number;
+    total_lookups: number;
+    hit_rate: number;
+    exact_hits: number;
+    live_entries: number;
+    pinned_entries: number;
+  };
+  similarity_bands: { band: string; lookups: number; hits: number; hit_rate: number }[];
+}
+
+interface CacheEntry {
+  id: string;
+  query_text: string;
+  scope: string;
+  task_type: string;
+  model_used: string;
+  hit_count: number | null;
+  pinned: boolean;
+  created_at: string;
+}
+
+interface CacheCluster {
+  size: number;
+  total_hits: number;
+  entries: CacheEntry[];
+}
+
+interface CacheSetting {
+  task_type: string;
+  similarity_threshold: number;
+  ttl_days: number;
+}
+
+const TASK_TYPES = ["default", "chat", "analysis", "recommendation"];
+
+// Personal scopes carry user and card ids; show only the kind
+function scopeLabel(scope: string): string {
+  return scope.startsWith("user:") ? "user" : scope;
+}
+
+export function CacheAdminPanel() {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [restricted, setRestricted] = useState(false);
+  const [stats, setStats] = useState<CacheStats | null>(null);
+  const [entries, setEntries] = useState<CacheEntry[]>([]);
+  const [clusters, setClusters] = useState<CacheCluster[]>([]);
+  const [settings, setSettings] = useState<CacheSetting[]>([]);
+
+  const [settingsTask, setSettingsTask] = useState("default");
+  const [threshold, setThreshold] = useState("");
+  const [ttlDays, setTtlDays] = useState("");
+  const [purgeScope, setPurgeScope] = useState("");
+  const [purgeModel, setPurgeModel] = useState("");
+  const [purgeDays, setPurgeDays] = useState("");
+  const [curatedQuery, setCuratedQuery] = useState("");
+  const [curatedResponse, setCuratedResponse] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const invoke = useCallback(async (body: Record<string, unknown>) => {
+    const sb = getSupabaseClient();
+    if (!sb) throw new Error("Backend not configured");
+    const { data, error } = await sb.functions.invoke("analytics", { body });
+    if (error) throw error;
+    return data;
+  }, []);
+
+  const fetchCache = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [statsData, entriesData, clustersData, settingsData] = await Promise.all([
+        invoke({ action: "cache-stats" }),
+        invoke({ action: "cache-entries", limit: 20 }),
+        invoke({ action: "cache-clusters" }),
+        invoke({ action: "cache-settings" }),
+      ]);
+      setStats(statsData);
+      setEntries(entriesData.entries || []);
+      setClusters(clustersData.clusters || []);
+      setSettings(settingsData.settings || []);
+      setRestricted(false);
+    } catch (error) {
+      // Cache administration is admin-only; other users get a 403
+      console.error("Error fetching cache analytics:", error);
+      setRestricted(true);
+    } finally {
+      setLoading(false);
+    }
+  }, [invoke]);
+
+  useEffect(() => {
+    fetchCache();
+  }, [fetchCache]);
+
+  // Prefill the settings form with the stored (or default) values for the chosen task type
+  useEffect(() => {
+    const current = settings.find((s) => s.task_type === settingsTask) ?? settings.find((s) => s.task_type === "default");
+    setThreshold(current ? String(current.similarity_threshold) : "");
+    setTtlDays(current ? String(current.ttl_days) : "");
+  }, [settings, settingsTask]);
+
+  const runAction = async (body: Record<string, unknown>, success: (data: Record<string, unknown>) => string) => {
+    setBusy(true);
+    try {
+      const data = await invoke(body);
+      toast({ title: "Cache updated", description: success(data) });
+      await fetchCache();
+    } catch (error) {
+      console.error("Cache action failed:", error);
+      toast({ variant: "destructive", title: "Error", description: "The cache action failed" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const saveSettings = () =>
+    runAction(
+      { action: "cache-settings", taskType: settingsTask, similarityThreshold: Number(threshold), ttlDays: Number(ttlDays) },
+      () => `Saved settings for ${settingsTask}`
+    );
+
+  const purge = () =>
+    runAction(
+      {
+        action: "cache-purge",
+        scope: purgeScope || undefined,
+        model: purgeModel || undefined,
+        olderThanDays: purgeDays ? Number(purgeDays) : undefined,
+      },
+      (data) => `Purged ${data.purged} entries`
+    );
+
+  const togglePin = (entry: CacheEntry) =>
+    runAction(
+      { action: "cache-pin", entryId: entry.id, pinned: !entry.pinned },
+      () => (entry.pinned ? "Entry unpinned" : "Entry pinned")
+    );
+
+  const pinCurated = () =>
+    runAction(
+      { action: "cache-pin", query: curatedQuery, response: curatedResponse },
+      () => {
+        setCuratedQuery("");
+        setCuratedResponse("");
+        return "Curated answer pinned";
+      }
+    );
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (restricted) {
+    return (
+      <Card className="glass-card">
+        <CardContent className="pt-6 flex items-center gap-3 text-muted-foreground">
+          <ShieldAlert className="w-5 h-5" />
+          Cache administration is available to admins only.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const bandData = (stats?.similarity_bands || []).map((b) => ({ ...b, hit_rate: b.hit_rate * 100 }));
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Card className="glass-card">
+          <CardContent className="pt-6">
+            <p className="text-2xl font-bold">{((stats?.summary.hit_rate || 0) * 100).toFixed(1)}%</p>
+            <p className="text-xs text-muted-foreground">Hit Rate ({stats?.summary.days || 0} days)</p>
+          </CardContent>
+        </Card>
+        <Card className="glass-card">
+          <CardContent className="pt-6">
+            <p className="text-2xl font-bold">{stats?.summary.total_lookups || 0}</p>
+            <p className="text-xs text-muted-foreground">Lookups ({stats?.summary.exact_hits || 0} exact hits)</p>
+          </CardContent>
+        </Card>
+        <Card className="glass-card">
+          <CardContent className="pt-6">
+            <p className="text-2xl font-bold">{stats?.summary.live_entries || 0}</p>
+            <p className="text-xs text-muted-foreground">Live Entries</p>
+          </CardContent>
+        </Card>
+        <Card className="glass-card">
+          <CardContent className="pt-6">
+            <p className="text-2xl font-bold">{stats?.summary.pinned_entries || 0}</p>
+            <p className="text-xs text-muted-foreground">Pinned Entries</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle>Hit Rate by Similarity</CardTitle>
+          <CardDescription>
+            Lookups by the similarity of the closest cached entry. Misses in bands just below the threshold are
+            answers a lower threshold would have served.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ResponsiveContainer width="100%" height={300}>
+            <ComposedChart data={bandData}>
+              <XAxis dataKey="band" />
+              <YAxis yAxisId="left" />
+              <YAxis yAxisId="right" orientation="right" domain={[0, 100]} unit="%" />
+              <Tooltip />
+              <Legend />
+              <Bar yAxisId="left" dataKey="lookups" fill="hsl(199, 89%, 48%)" name="Lookups" />
+              <Line yAxisId="right" dataKey="hit_rate" stroke="hsl(160, 84%, 39%)" name="Hit Rate (%)" />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle>Top Entries</CardTitle>
+          <CardDescription>Live entries with the most hits</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {entries.length === 0 ? (
+            <p className="text-muted-foreground">The cache is empty.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Query</TableHead>
+                  <TableHead>Scope</TableHead>
+                  <TableHead>Task</TableHead>
+                  <TableHead>Model</TableHead>
+                  <TableHead className="text-right">Hits</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="max-w-xs truncate">{entry.query_text}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{scopeLabel(entry.scope)}</Badge>
+                    </TableCell>
+                    <TableCell>{entry.task_type}</TableCell>
+                    <TableCell className="text-xs">{entry.model_used.split("/")[1] || entry.model_used}</TableCell>
+                    <TableCell className="text-right">{entry.hit_count || 0}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" disabled={busy} onClick={() => togglePin(entry)}>
+                        {entry.pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle>Near-Duplicate Clusters</CardTitle>
+          <CardDescription>Entries in the same scope whose questions are at least 90% similar</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {clusters.length === 0 ? (
+            <p className="text-muted-foreground">No near-duplicates found.</p>
+          ) : (
+            <div className="space-y-4">
+              {clusters.slice(0, 10).map((cluster) => (
+                <div key={cluster.entries[0]?.id} className="space-y-1">
+                  <p className="text-sm font-medium">
+                    {cluster.size} entries · {cluster.total_hits} hits
+                  </p>
+                  <ul className="text-sm text-muted-foreground space-y-1">
+                    {cluster.entries.map((entry) => (
+                      <li key={entry.id} className="truncate">
+                        • {entry.query_text} <span className="text-xs">({entry.hit_count || 0})</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card className="glass-card">
+          <CardHeader>
+            <CardTitle>Threshold & TTL</CardTitle>
+            <CardDescription>Task types without their own settings use "default"</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label>Task Type</Label>
+              <Select value={settingsTask} onValueChange={setSettingsTask}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TASK_TYPES.map((task) => (
+                    <SelectItem key={task} value={task}>
+                      {task}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="cache-threshold">Similarity Threshold</Label>
+                <Input
+                  id="cache-threshold"
+                  type="number"
+                  step="0.005"
+                  min="0.5"
+                  max="1"
+                  value={threshold}
+                  onChange={(e) => setThreshold(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="cache-ttl">TTL (days)</Label>
+                <Input id="cache-ttl" type="number" min="1" value={ttlDays} onChange={(e) => setTtlDays(e.target.value)} />
+              </div>
+            </div>
+            <Button onClick={saveSettings} disabled={busy || !threshold || !ttlDays}>
+              Save Settings
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card className="glass-card">
+          <CardHeader>
+            <CardTitle>Purge</CardTitle>
+            <CardDescription>Delete entries matching every filter given. Pinned entries are kept.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="purge-scope">Scope prefix</Label>
+              <Input id="purge-scope" placeholder="public, curated or user:<id>" value={purgeScope} onChange={(e) => setPurgeScope(e.target.value)} />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="purge-model">Model</Label>
+                <Input id="purge-model" placeholder="google/gemini-2.5-flash" value={purgeModel} onChange={(e) => setPurgeModel(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="purge-days">Older than (days)</Label>
+                <Input id="purge-days" type="number" min="0" value={purgeDays} onChange={(e) => setPurgeDays(e.target.value)} />
+              </div>
+            </div>
+            <Button variant="destructive" onClick={purge} disabled={busy || (!purgeScope && !purgeModel && !purgeDays)}>
+              <Trash2 className="w-4 h-4 mr-2" />
+              Purge Entries
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle>Pin a Curated Answer</CardTitle>
+          <CardDescription>Served to every user for this question and close paraphrases, and never expires</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Input placeholder="Question" value={curatedQuery} onChange={(e) => setCuratedQuery(e.target.value)} />
+          <Textarea placeholder="Answer (markdown)" rows={5} value={curatedResponse} onChange={(e) => setCuratedResponse(e.target.value)} />
+          <Button onClick={pinCurated} disabled={busy || !curatedQuery.trim() || !curatedResponse.trim()}>
+            <Pin className="w-4 h-4 mr-2" />
+            Pin Answer
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { useState, useEffect } from "react";
+import { getSupabaseClient } from "@/integrations/supabase/lazyClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Loader2 } from "lucide-react";
+
+interface QuotaLimit {
+  limit: number;
+  used: number;
+  remaining: number;
+  resetAt: string;
+}
+
+interface QuotaAllowance {
+  scope: "user" | "organization";
+  requestsPerMinute: QuotaLimit | null;
+  monthlyTokens: QuotaLimit | null;
+  monthlyCostUsd: QuotaLimit | null;
+}
+
+function QuotaRow({ label, quota, format }: { label: string; quota: QuotaLimit | null; format: (value: number) => string }) {
+  if (!quota) {
+    return (
+      <div className="flex justify-between text-sm">
+        <span>{label}</span>
+        <span className="text-muted-foreground">Unlimited</span>
+      </div>
+    );
+  }
+
+  const percent = quota.limit > 0 ? Math.min((quota.used / quota.limit) * 100, 100) : 100;
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-sm">
+        <span>{label}</span>
+        <span className={percent >= 90 ? "text-destructive" : "text-muted-foreground"}>
+          {format(quota.used)} / {format(quota.limit)}
+        </span>
+      </div>
+      <Progress value={percent} />
+    </div>
+  );
+}
+
+export function QuotaUsageCard() {
+  const [loading, setLoading] = useState(true);
+  const [allowances, setAllowances] = useState<QuotaAllowance[]>([]);
+
+  useEffect(() => {
+    const fetchQuota = async () => {
+      try {
+        const sb = getSupabaseClient();
+        if (!sb) return;
+        const { data, error } = await sb.functions.invoke("analytics", { body: { action: "quota-status" } });
+        if (error) throw error;
+        setAllowances(data.allowances || []);
+      } catch (error) {
+        console.error("Error fetching quota status:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchQuota();
+  }, []);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (allowances.length === 0) return null;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {allowances.map((allowance) => {
+        const monthReset = allowance.monthlyTokens?.resetAt ?? allowance.monthlyCostUsd?.resetAt;
+        return (
+          <Card key={allowance.scope} className="glass-card">
+            <CardHeader>
+              <CardTitle>{allowance.scope === "organization" ? "Organization Quota" : "Your Quota"}</CardTitle>
+              <CardDescription>
+                {monthReset
+                  ? `Monthly usage resets on ${new Date(monthReset).toLocaleDateString()}`
+                  : "No monthly limit"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <QuotaRow label="Requests this minute" quota={allowance.requestsPerMinute} format={(v) => String(v)} />
+              <QuotaRow label="Tokens this month" quota={allowance.monthlyTokens} format={(v) => v.toLocaleString()} />
+              <QuotaRow label="Cost this month" quota={allowance.monthlyCostUsd} format={(v) => `$${v.toFixed(2)}`} />
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
-import { useState, useRef, useEffect } from "react";
-import { Send, Bot, User, Sparkles, Loader2, Trash2, ThumbsUp, ThumbsDown, Maximize2, Minimize2, CreditCard } from "lucide-react";
+import { useState, useRef, useEffect, useCallback } from "react";
+import { Send, Bot, User, Sparkles, Loader2, SquarePen, History, Wrench, ThumbsUp, ThumbsDown, Maximize2, Minimize2, CreditCard } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { cn } from "@/lib/utils";
@@ -7,6 +7,9 @@ import { useAuth } from "@/contexts/AuthContext";
 import { getBackendStatus, getSupabaseClient } from "@/integrations/supabase/lazyClient";
 import { useToast } from "@/hooks/use-toast";
 import ReactMarkdown from "react-markdown";
+import { ConversationList, type Conversation } from "./ConversationList";
+import { ToolCallList, type ToolCallView } from "./ToolCallList";
+import { CitationList, type CitationView } from "./CitationList";
 
 interface Message {
   id: string;
@@ -18,6 +21,8 @@ interface Message {
   followUpQuestions?: string[];
   personalized?: boolean;
   contextSources?: string[];
+  toolCalls?: ToolCallView[];
+  citations?: CitationView[];
 }
 
 interface CardInfo {
@@ -30,6 +35,38 @@ interface CardInfo {
   variant?: string;
 }
 
+const WELCOME_MESSAGE: Message = {
+  id: "1",
+  role: "assistant",
+  content:
+    "Hello! I'm your **AI-powered Reward Intelligence Assistant**. I have access to your uploaded statements, card benefits database, and real-time optimization strategies. How can I help you maximize your rewards today?",
+  timestamp: new Date(),
+};
+
+// The open thread and tool mode survive a page refresh; tool mode is opt-in, like the server's agentMode default
+const ACTIVE_CONVERSATION_KEY = "chat:activeConversation";
+const AGENT_MODE_KEY = "chat:agentMode";
+
+// Shape saved with the assistant turn (chat_messages.tool_calls)
+interface StoredToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  ok: boolean;
+  summary: string;
+}
+
+function fromStoredToolCalls(value: unknown): ToolCallView[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  return (value as StoredToolCall[]).map((call) => ({
+    id: call.id,
+    name: call.name,
+    arguments: call.arguments ?? {},
+    status: call.ok ? "done" : "failed",
+    summary: call.summary,
+  }));
+}
+
 const getRagChatUrl = () => {
   const projectId = import.meta.env.VITE_SUPABASE_PROJECT_ID as string | undefined;
   const envUrl = import.meta.env.VITE_SUPABASE_URL as string | undefined;
@@ -43,7 +80,14 @@ interface ChatContentProps {
   setInput: (value: string) => void;
   isLoading: boolean;
   sendMessage: () => void;
-  clearMessages: () => void;
+  startNewConversation: () => void;
+  conversations: Conversation[];
+  activeConversationId: string | null;
+  openConversation: (id: string) => void;
+  renameConversation: (id: string, title: string) => void;
+  deleteConversation: (id: string) => void;
+  agentMode: boolean;
+  setAgentMode: (value: boolean) => void;
   provideFeedback: (messageId: string, rating: number) => void;
   isExpanded?: boolean;
   onToggleExpand?: () => void;
@@ -58,7 +102,14 @@ function ChatContent({
   setInput,
   isLoading,
   sendMessage,
-  clearMessages,
+  startNewConversation,
+  conversations,
+  activeConversationId,
+  openConversation,
+  renameConversation,
+  deleteConversation,
+  agentMode,
+  setAgentMode,
   provideFeedback,
   isExpanded = false,
   onToggleExpand,
@@ -67,6 +118,7 @@ function ChatContent({
   onSelectCard,
 }: ChatContentProps) {
   const messagesContainerRef = useRef<HTMLDivElement>(null);
+  const [showThreads, setShowThreads] = useState(false);
 
   const scrollToBottom = () => {
     const container = messagesContainerRef.current;
@@ -82,237 +134,286 @@ function ChatContent({
     scrollToBottom();
   }, [messages]);
 
+  const threadList = (
+    <ConversationList
+      conversations={conversations}
+      activeId={activeConversationId}
+      onSelect={(id) => {
+        openConversation(id);
+        setShowThreads(false);
+      }}
+      onNew={() => {
+        startNewConversation();
+        setShowThreads(false);
+      }}
+      onRename={renameConversation}
+      onDelete={deleteConversation}
+    />
+  );
+
   return (
-    <div className={cn(
-      "flex flex-col",
-      isExpanded ? "h-full" : "glass-card rounded-xl h-[500px] lg:h-[600px]"
-    )}>
-      {/* Header */}
-      <div className="flex items-center justify-between p-4 border-b border-border/50">
-        <div className="flex items-center gap-3">
-          <div className="p-2 bg-primary/20 rounded-lg">
-            <Sparkles className="w-5 h-5 text-primary" />
-          </div>
-          <div>
-            <h3 className="font-semibold">RAG-Powered Assistant</h3>
-            <p className="text-xs text-muted-foreground">
-              Context-aware • Cached • Evaluated
-            </p>
+    <div className={cn("flex", isExpanded ? "h-full" : "glass-card rounded-xl h-[500px] lg:h-[600px]")}>
+      {/* Thread list beside the chat when expanded */}
+      {isExpanded && <div className="hidden md:block w-64 flex-shrink-0 border-r border-border/50">{threadList}</div>}
+
+      <div className="flex flex-col flex-1 min-w-0">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border/50">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-primary/20 rounded-lg">
+              <Sparkles className="w-5 h-5 text-primary" />
+            </div>
+            <div>
+              <h3 className="font-semibold">RAG-Powered Assistant</h3>
+              <p className="text-xs text-muted-foreground">
+                Context-aware • Cached • Evaluated
+              </p>
+            </div>
           </div>
-        </div>
-        <div className="flex items-center gap-1">
-          {onToggleExpand && (
-            <Button variant="ghost" size="icon" onClick={onToggleExpand} title={isExpanded ? "Minimize" : "Expand"}>
-              {isExpanded ? <Minimize2 className="w-4 h-4" /> : <Maximize2 className="w-4 h-4" />}
+          <div className="flex items-center gap-1">
+            {onToggleExpand && (
+              <Button variant="ghost" size="icon" onClick={onToggleExpand} title={isExpanded ? "Minimize" : "Expand"}>
+                {isExpanded ? <Minimize2 className="w-4 h-4" /> : <Maximize2 className="w-4 h-4" />}
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setAgentMode(!agentMode)}
+              title={agentMode ? "Tool mode on: exact figures from your transactions" : "Tool mode off"}
+              className={cn(agentMode && "text-primary bg-primary/10")}
+            >
+              <Wrench className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setShowThreads(!showThreads)}
+              title="Conversations"
+              className={cn(isExpanded && "md:hidden", showThreads && "bg-muted")}
+            >
+              <History className="w-4 h-4" />
             </Button>
-          )}
-          <Button variant="ghost" size="icon" onClick={clearMessages} title="Clear chat">
-            <Trash2 className="w-4 h-4" />
-          </Button>
+            <Button variant="ghost" size="icon" onClick={startNewConversation} title="New chat">
+              <SquarePen className="w-4 h-4" />
+            </Button>
+          </div>
         </div>
-      </div>
 
-      {/* Messages */}
-      <div ref={messagesContainerRef} className="flex-1 overflow-y-auto p-4 space-y-4">
-        {messages.map((message, index) => (
-          <div key={message.id}>
-            <div
-              className={cn(
-                "flex gap-3",
-                message.role === "user" ? "justify-end" : "justify-start"
-              )}
-            >
-              {message.role === "assistant" && (
-                <div className="flex-shrink-0 w-8 h-8 rounded-lg bg-primary/20 flex items-center justify-center">
-                  <Bot className="w-4 h-4 text-primary" />
-                </div>
-              )}
-              <div className={cn("max-w-[85%]", isExpanded && "max-w-[70%]")}>
-                <div
-                  className={cn(
-                    "rounded-2xl px-4 py-3",
-                    message.role === "user"
-                      ? "bg-primary text-primary-foreground rounded-br-md"
-                      : "bg-muted/50 rounded-bl-md"
-                  )}
-                >
-                  <div className="text-sm prose prose-sm dark:prose-invert max-w-none">
-                    <ReactMarkdown>{message.content}</ReactMarkdown>
-                  </div>
-                  <div className="flex items-center gap-2 mt-2 flex-wrap">
-                    <p className="text-xs opacity-50">
-                      {message.timestamp.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
-                    </p>
-                    {/* Personalization indicator */}
-                    {message.role === "assistant" && message.id !== "1" && (
-                      message.personalized ? (
-                        <span className="text-xs px-2 py-0.5 bg-green-500/20 border border-green-500/30 rounded-full text-green-600 dark:text-green-400 flex items-center gap-1">
-                          <span className="w-1.5 h-1.5 rounded-full bg-green-500"></span>
-                          Personalized
-                          {message.contextSources && message.contextSources.length > 0 && (
-                            <span className="opacity-70">({message.contextSources.join(", ")})</span>
-                          )}
-                        </span>
-                      ) : (
-                        <span className="text-xs px-2 py-0.5 bg-amber-500/20 border border-amber-500/30 rounded-full text-amber-600 dark:text-amber-400 flex items-center gap-1">
-                          <span className="w-1.5 h-1.5 rounded-full bg-amber-500"></span>
-                          General advice
-                        </span>
-                      )
+        {showThreads ? (
+          <div className="flex-1 min-h-0">{threadList}</div>
+        ) : (
+          <>
+            {/* Messages */}
+            <div ref={messagesContainerRef} className="flex-1 overflow-y-auto p-4 space-y-4">
+              {messages.map((message, index) => (
+                <div key={message.id}>
+                  <div
+                    className={cn(
+                      "flex gap-3",
+                      message.role === "user" ? "justify-end" : "justify-start"
                     )}
-                    {message.cached && (
-                      <span className="text-xs px-1.5 py-0.5 bg-primary/20 rounded text-primary">⚡ cached</span>
+                  >
+                    {message.role === "assistant" && (
+                      <div className="flex-shrink-0 w-8 h-8 rounded-lg bg-primary/20 flex items-center justify-center">
+                        <Bot className="w-4 h-4 text-primary" />
+                      </div>
                     )}
-                    {message.model && (
-                      <span className="text-xs opacity-50">{message.model.split("/")[1]}</span>
+                    <div className={cn("max-w-[85%]", isExpanded && "max-w-[70%]")}>
+                      <div
+                        className={cn(
+                          "rounded-2xl px-4 py-3",
+                          message.role === "user"
+                            ? "bg-primary text-primary-foreground rounded-br-md"
+                            : "bg-muted/50 rounded-bl-md"
+                        )}
+                      >
+                        {message.toolCalls && message.toolCalls.length > 0 && (
+                          <ToolCallList toolCalls={message.toolCalls} />
+                        )}
+                        <div className="text-sm prose prose-sm dark:prose-invert max-w-none">
+                          <ReactMarkdown>{message.content}</ReactMarkdown>
+                        </div>
+                        {message.citations && message.citations.length > 0 && (
+                          <CitationList citations={message.citations} />
+                        )}
+                        <div className="flex items-center gap-2 mt-2 flex-wrap">
+                          <p className="text-xs opacity-50">
+                            {message.timestamp.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                          </p>
+                          {/* Personalization indicator */}
+                          {message.role === "assistant" && message.id !== "1" && (
+                            message.personalized ? (
+                              <span className="text-xs px-2 py-0.5 bg-green-500/20 border border-green-500/30 rounded-full text-green-600 dark:text-green-400 flex items-center gap-1">
+                                <span className="w-1.5 h-1.5 rounded-full bg-green-500"></span>
+                                Personalized
+                                {message.contextSources && message.contextSources.length > 0 && (
+                                  <span className="opacity-70">({message.contextSources.join(", ")})</span>
+                                )}
+                              </span>
+                            ) : (
+                              <span className="text-xs px-2 py-0.5 bg-amber-500/20 border border-amber-500/30 rounded-full text-amber-600 dark:text-amber-400 flex items-center gap-1">
+                                <span className="w-1.5 h-1.5 rounded-full bg-amber-500"></span>
+                                General advice
+                              </span>
+                            )
+                          )}
+                          {message.cached && (
+                            <span className="text-xs px-1.5 py-0.5 bg-primary/20 rounded text-primary">⚡ cached</span>
+                          )}
+                          {message.model && (
+                            <span className="text-xs opacity-50">{message.model.split("/")[1]}</span>
+                          )}
+                        </div>
+                      </div>
+                      {message.role === "assistant" && message.id !== "1" && !message.id.startsWith("error") && (
+                        <div className="flex gap-1 mt-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            onClick={() => provideFeedback(message.id, 5)}
+                          >
+                            <ThumbsUp className="w-3 h-3" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            onClick={() => provideFeedback(message.id, 2)}
+                          >
+                            <ThumbsDown className="w-3 h-3" />
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                    {message.role === "user" && (
+                      <div className="flex-shrink-0 w-8 h-8 rounded-lg bg-muted flex items-center justify-center">
+                        <User className="w-4 h-4" />
+                      </div>
                     )}
                   </div>
+
+                  {/* Follow-up questions - show only for last assistant message */}
+                  {message.role === "assistant" &&
+                    message.followUpQuestions &&
+                    message.followUpQuestions.length > 0 &&
+                    index === messages.length - 1 &&
+                    !isLoading && (
+                      <div className="ml-11 mt-3">
+                        <p className="text-xs text-muted-foreground mb-2">Related questions:</p>
+                        <div className="flex flex-wrap gap-2">
+                          {message.followUpQuestions.map((q, i) => (
+                            <button
+                              key={i}
+                              onClick={() => setInput(q)}
+                              className="text-xs px-3 py-1.5 bg-primary/10 hover:bg-primary/20 border border-primary/20 text-primary rounded-full transition-colors"
+                            >
+                              {q}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    )}
                 </div>
-                {message.role === "assistant" && message.id !== "1" && !message.id.startsWith("error") && (
-                  <div className="flex gap-1 mt-1">
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="h-6 w-6"
-                      onClick={() => provideFeedback(message.id, 5)}
-                    >
-                      <ThumbsUp className="w-3 h-3" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="h-6 w-6"
-                      onClick={() => provideFeedback(message.id, 2)}
-                    >
-                      <ThumbsDown className="w-3 h-3" />
-                    </Button>
+              ))}
+
+              {isLoading && (
+                <div className="flex gap-3">
+                  <div className="flex-shrink-0 w-8 h-8 rounded-lg bg-primary/20 flex items-center justify-center">
+                    <Bot className="w-4 h-4 text-primary" />
+                  </div>
+                  <div className="bg-muted/50 rounded-2xl rounded-bl-md px-4 py-3">
+                    <div className="flex items-center gap-2">
+                      <Loader2 className="w-4 h-4 animate-spin text-primary" />
+                      <span className="text-sm text-muted-foreground">Thinking...</span>
+                    </div>
                   </div>
-                )}
-              </div>
-              {message.role === "user" && (
-                <div className="flex-shrink-0 w-8 h-8 rounded-lg bg-muted flex items-center justify-center">
-                  <User className="w-4 h-4" />
                 </div>
               )}
             </div>
 
-            {/* Follow-up questions - show only for last assistant message */}
-            {message.role === "assistant" &&
-              message.followUpQuestions &&
-              message.followUpQuestions.length > 0 &&
-              index === messages.length - 1 &&
-              !isLoading && (
-                <div className="ml-11 mt-3">
-                  <p className="text-xs text-muted-foreground mb-2">Related questions:</p>
+            {/* Card Selector - show when no card selected but cards available */}
+            {!selectedCard && availableCards.length > 0 && (
+              <div className="px-4 pb-3">
+                <div className="bg-muted/30 rounded-xl p-3 border border-border/50">
+                  <div className="flex items-center gap-2 mb-2">
+                    <CreditCard className="w-4 h-4 text-primary" />
+                    <p className="text-sm font-medium">Select a card for personalized advice</p>
+                  </div>
                   <div className="flex flex-wrap gap-2">
-                    {message.followUpQuestions.map((q, i) => (
+                    {availableCards.slice(0, 4).map((card) => (
                       <button
-                        key={i}
-                        onClick={() => setInput(q)}
-                        className="text-xs px-3 py-1.5 bg-primary/10 hover:bg-primary/20 border border-primary/20 text-primary rounded-full transition-colors"
+                        key={card.id}
+                        onClick={() => onSelectCard?.(card)}
+                        className="text-xs px-3 py-2 bg-background hover:bg-primary/10 border border-border hover:border-primary/50 rounded-lg transition-all flex items-center gap-2"
                       >
-                        {q}
+                        <span className="font-medium">{card.bankName}</span>
+                        <span className="text-muted-foreground">{card.cardName}</span>
                       </button>
                     ))}
                   </div>
                 </div>
-              )}
-          </div>
-        ))}
+              </div>
+            )}
+
+            {/* Selected Card Indicator */}
+            {selectedCard && messages.length <= 2 && (
+              <div className="px-4 pb-2">
+                <div className="inline-flex items-center gap-2 text-xs px-3 py-1.5 bg-primary/10 border border-primary/20 rounded-full text-primary">
+                  <CreditCard className="w-3 h-3" />
+                  <span>Asking about <strong>{selectedCard.bankName} {selectedCard.cardName}</strong></span>
+                </div>
+              </div>
+            )}
+
+            {/* Suggestions */}
+            {messages.length <= 2 && selectedCard && (
+              <div className="px-4 pb-2">
+                <p className="text-xs text-muted-foreground mb-2">Suggested:</p>
+                <div className="flex flex-wrap gap-2">
+                  {[
+                    `How many points did I earn on my ${selectedCard.cardName}?`,
+                    `Best redemption for my ${selectedCard.cardName} points?`,
+                    `What benefits does my ${selectedCard.cardName} have?`,
+                    "When do my points expire?",
+                  ].map((q, i) => (
+                    <button
+                      key={i}
+                      onClick={() => setInput(q)}
+                      className="text-xs px-3 py-1.5 bg-muted/50 hover:bg-muted rounded-full transition-colors"
+                    >
+                      {q}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
 
-        {isLoading && (
-          <div className="flex gap-3">
-            <div className="flex-shrink-0 w-8 h-8 rounded-lg bg-primary/20 flex items-center justify-center">
-              <Bot className="w-4 h-4 text-primary" />
-            </div>
-            <div className="bg-muted/50 rounded-2xl rounded-bl-md px-4 py-3">
+            {/* Input */}
+            <div className="p-4 border-t border-border/50">
               <div className="flex items-center gap-2">
-                <Loader2 className="w-4 h-4 animate-spin text-primary" />
-                <span className="text-sm text-muted-foreground">Thinking...</span>
+                <input
+                  type="text"
+                  value={input}
+                  onChange={(e) => setInput(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && sendMessage()}
+                  placeholder="Ask about your rewards..."
+                  className="flex-1 bg-muted/50 border border-border/50 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-primary/50"
+                />
+                <Button
+                  onClick={sendMessage}
+                  disabled={!input.trim() || isLoading}
+                  size="icon"
+                  className="h-12 w-12 rounded-xl"
+                >
+                  <Send className="w-4 h-4" />
+                </Button>
               </div>
             </div>
-          </div>
+          </>
         )}
       </div>
-
-      {/* Card Selector - show when no card selected but cards available */}
-      {!selectedCard && availableCards.length > 0 && (
-        <div className="px-4 pb-3">
-          <div className="bg-muted/30 rounded-xl p-3 border border-border/50">
-            <div className="flex items-center gap-2 mb-2">
-              <CreditCard className="w-4 h-4 text-primary" />
-              <p className="text-sm font-medium">Select a card for personalized advice</p>
-            </div>
-            <div className="flex flex-wrap gap-2">
-              {availableCards.slice(0, 4).map((card) => (
-                <button
-                  key={card.id}
-                  onClick={() => onSelectCard?.(card)}
-                  className="text-xs px-3 py-2 bg-background hover:bg-primary/10 border border-border hover:border-primary/50 rounded-lg transition-all flex items-center gap-2"
-                >
-                  <span className="font-medium">{card.bankName}</span>
-                  <span className="text-muted-foreground">{card.cardName}</span>
-                </button>
-              ))}
-            </div>
-          </div>
-        </div>
-      )}
-
-      {/* Selected Card Indicator */}
-      {selectedCard && messages.length <= 2 && (
-        <div className="px-4 pb-2">
-          <div className="inline-flex items-center gap-2 text-xs px-3 py-1.5 bg-primary/10 border border-primary/20 rounded-full text-primary">
-            <CreditCard className="w-3 h-3" />
-            <span>Asking about <strong>{selectedCard.bankName} {selectedCard.cardName}</strong></span>
-          </div>
-        </div>
-      )}
-
-      {/* Suggestions */}
-      {messages.length <= 2 && selectedCard && (
-        <div className="px-4 pb-2">
-          <p className="text-xs text-muted-foreground mb-2">Suggested:</p>
-          <div className="flex flex-wrap gap-2">
-            {[
-              `How many points did I earn on my ${selectedCard.cardName}?`,
-              `Best redemption for my ${selectedCard.cardName} points?`,
-              `What benefits does my ${selectedCard.cardName} have?`,
-              "When do my points expire?",
-            ].map((q, i) => (
-              <button
-                key={i}
-                onClick={() => setInput(q)}
-                className="text-xs px-3 py-1.5 bg-muted/50 hover:bg-muted rounded-full transition-colors"
-              >
-                {q}
-              </button>
-            ))}
-          </div>
-        </div>
-      )}
-
-      {/* Input */}
-      <div className="p-4 border-t border-border/50">
-        <div className="flex items-center gap-2">
-          <input
-            type="text"
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            onKeyDown={(e) => e.key === "Enter" && sendMessage()}
-            placeholder="Ask about your rewards..."
-            className="flex-1 bg-muted/50 border border-border/50 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-primary/50"
-          />
-          <Button
-            onClick={sendMessage}
-            disabled={!input.trim() || isLoading}
-            size="icon"
-            className="h-12 w-12 rounded-xl"
-          >
-            <Send className="w-4 h-4" />
-          </Button>
-        </div>
-      </div>
     </div>
   );
 }
@@ -324,20 +425,87 @@ interface ChatInterfaceProps {
 }
 
 export function ChatInterface({ selectedCard, availableCards = [], onSelectCard }: ChatInterfaceProps) {
-  const { user } = useAuth();
+  const { user, session } = useAuth();
   const { toast } = useToast();
   const [isExpanded, setIsExpanded] = useState(false);
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: "1",
-      role: "assistant",
-      content:
-        "Hello! I'm your **AI-powered Reward Intelligence Assistant**. I have access to your uploaded statements, card benefits database, and real-time optimization strategies. How can I help you maximize your rewards today?",
-      timestamp: new Date(),
-    },
-  ]);
+  const [messages, setMessages] = useState<Message[]>([WELCOME_MESSAGE]);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [conversationId, setConversationId] = useState<string | null>(() =>
+    localStorage.getItem(ACTIVE_CONVERSATION_KEY)
+  );
+  const [agentMode, setAgentModeState] = useState(() => localStorage.getItem(AGENT_MODE_KEY) === "on");
+
+  const setAgentMode = (value: boolean) => {
+    setAgentModeState(value);
+    localStorage.setItem(AGENT_MODE_KEY, value ? "on" : "off");
+  };
+
+  const fetchConversations = useCallback(async () => {
+    const sb = getSupabaseClient();
+    if (!sb || !user) return;
+    const { data, error } = await sb
+      .from("chat_conversations")
+      .select("id, title, last_message_at")
+      .order("last_message_at", { ascending: false })
+      .limit(50);
+    if (error) {
+      console.error("Error fetching conversations:", error);
+      return;
+    }
+    setConversations(data || []);
+  }, [user]);
+
+  const selectConversation = (id: string | null) => {
+    setConversationId(id);
+    if (id) localStorage.setItem(ACTIVE_CONVERSATION_KEY, id);
+    else localStorage.removeItem(ACTIVE_CONVERSATION_KEY);
+  };
+
+  const openConversation = useCallback(async (id: string) => {
+    const sb = getSupabaseClient();
+    if (!sb) return;
+    const { data, error } = await sb
+      .from("chat_messages")
+      .select("id, role, content, created_at, cached, model, personalized, context_sources, follow_up_questions, tool_calls, citations")
+      .eq("conversation_id", id)
+      .order("created_at", { ascending: true });
+    if (error) console.error("Error loading conversation:", error);
+    if (error || !data?.length) {
+      // Deleted, or another account's thread
+      localStorage.removeItem(ACTIVE_CONVERSATION_KEY);
+      setConversationId(null);
+      return;
+    }
+
+    setConversationId(id);
+    localStorage.setItem(ACTIVE_CONVERSATION_KEY, id);
+    setMessages([
+      WELCOME_MESSAGE,
+      ...data.map((m) => ({
+        id: m.id,
+        role: m.role as Message["role"],
+        content: m.content,
+        timestamp: new Date(m.created_at),
+        cached: m.cached,
+        model: m.model ?? undefined,
+        personalized: m.personalized ?? undefined,
+        contextSources: m.context_sources ?? undefined,
+        followUpQuestions: m.follow_up_questions ?? undefined,
+        toolCalls: fromStoredToolCalls(m.tool_calls),
+        citations: Array.isArray(m.citations) ? (m.citations as unknown as CitationView[]) : undefined,
+      })),
+    ]);
+  }, []);
+
+  // Load the thread list and resume the thread that was open before a refresh
+  useEffect(() => {
+    if (!user) return;
+    fetchConversations();
+    const stored = localStorage.getItem(ACTIVE_CONVERSATION_KEY);
+    if (stored) openConversation(stored);
+  }, [user, fetchConversations, openConversation]);
 
   const sendMessage = async () => {
     if (!input.trim() || isLoading) return;
@@ -354,6 +522,12 @@ export function ChatInterface({ selectedCard, availableCards = [], onSelectCard
     setIsLoading(true);
 
     let assistantContent = "";
+    // Set once the server reports the thread (a new one is created on the first message)
+    const rememberConversation = (id?: string) => {
+      if (!id || id === conversationId) return;
+      selectConversation(id);
+      fetchConversations();
+    };
 
     const updateAssistant = (
       chunk: string, 
@@ -371,8 +545,8 @@ export function ChatInterface({ selectedCard, availableCards = [], onSelectCard
             i === prev.length - 1 ? { 
               ...m, 
               content: assistantContent, 
-              cached, 
-              model, 
+              cached: cached ?? m.cached, 
+              model: model ?? m.model, 
               followUpQuestions: followUpQuestions || m.followUpQuestions,
               personalized: personalized ?? m.personalized,
               contextSources: contextSources || m.contextSources,
@@ -396,6 +570,30 @@ export function ChatInterface({ selectedCard, availableCards = [], onSelectCard
       });
     };
 
+    // Tool mode: calls appear on the streaming answer before its text
+    const updateToolCalls = (update: (calls: ToolCallView[]) => ToolCallView[]) => {
+      setMessages((prev) => {
+        const last = prev[prev.length - 1];
+        if (last?.role === "assistant" && last.id.startsWith("stream-")) {
+          return prev.map((m, i) => (i === prev.length - 1 ? { ...m, toolCalls: update(m.toolCalls || []) } : m));
+        }
+        return [
+          ...prev,
+          { id: `stream-${Date.now()}`, role: "assistant" as const, content: "", timestamp: new Date(), toolCalls: update([]) },
+        ];
+      });
+    };
+
+    // Sources the answer cited, sent after its text
+    const setCitations = (citations: CitationView[]) => {
+      setMessages((prev) => {
+        const last = prev[prev.length - 1];
+        if (last?.role !== "assistant" || !last.id.startsWith("stream-")) return prev;
+        return prev.map((m, i) => (i === prev.length - 1 ? { ...m, citations } : m));
+      });
+    };
+    let streamError: string | null = null;
+
     try {
       const ragUrl = getRagChatUrl();
       if (!ragUrl) throw new Error("Backend not configured");
@@ -403,17 +601,15 @@ export function ChatInterface({ selectedCard, availableCards = [], onSelectCard
         method: "POST",
         headers: {
           "Content-Type": "application/json",
-          Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+          Authorization: `Bearer ${session?.access_token}`,
         },
         body: JSON.stringify({
-          messages: messages
-            .filter((m) => m.id !== "1")
-            .concat(userMessage)
-            .map((m) => ({ role: m.role, content: m.content })),
-          userId: user?.id,
+          message: userMessage.content,
+          conversationId: conversationId ?? undefined,
           taskType: "chat",
           includeContext: true,
           stream: true,
+          agentMode,
           selectedCardId: selectedCard?.id,
           selectedCardName: selectedCard ? `${selectedCard.bankName} ${selectedCard.cardName}` : undefined,
         }),
@@ -422,10 +618,14 @@ export function ChatInterface({ selectedCard, availableCards = [], onSelectCard
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
         
-        if (response.status === 429) {
+        if (response.status === 429 && errorData.code === "quota_exceeded") {
+          toast({ variant: "destructive", title: "Quota reached", description: errorData.error });
+        } else if (response.status === 429) {
           toast({ variant: "destructive", title: "Rate limit exceeded" });
         } else if (response.status === 402) {
           toast({ variant: "destructive", title: "AI credits exhausted" });
+        } else if (response.status === 404) {
+          selectConversation(null);
         }
         throw new Error(errorData.error || "Failed");
       }
@@ -442,6 +642,8 @@ export function ChatInterface({ selectedCard, availableCards = [], onSelectCard
           data.personalized,
           data.contextSources
         );
+        if (data.citations?.length) setCitations(data.citations);
+        rememberConversation(data.conversationId);
         if (data.cached) {
           toast({ title: "⚡ Response from cache", description: "Faster and cheaper!" });
         }
@@ -467,14 +669,35 @@ export function ChatInterface({ selectedCard, availableCards = [], onSelectCard
             if (!line.startsWith("data: ")) continue;
 
             const jsonStr = line.slice(6).trim();
-            if (jsonStr === "[DONE]") break;
+            if (jsonStr === "[DONE]") continue; // citations, metadata and follow-ups come after it
 
             try {
               const parsed = JSON.parse(jsonStr);
               
-              // Check if this is follow-up questions event
-              if (parsed.followUpQuestions) {
-                updateAssistant("", undefined, undefined, parsed.followUpQuestions);
+              if (parsed.type === "tool_call") {
+                updateToolCalls((calls) => [
+                  ...calls,
+                  { id: parsed.id, name: parsed.name, arguments: parsed.arguments, status: "running" },
+                ]);
+              } else if (parsed.type === "tool_result") {
+                updateToolCalls((calls) =>
+                  calls.map((c) => (c.id === parsed.id ? { ...c, status: parsed.ok ? "done" : "failed", summary: parsed.summary } : c))
+                );
+              } else if (parsed.type === "citations") {
+                setCitations(parsed.citations);
+              } else if (parsed.type === "error") {
+                streamError = parsed.error;
+                if (parsed.status === 429) {
+                  toast({ variant: "destructive", title: "Rate limit exceeded" });
+                } else if (parsed.status === 402) {
+                  toast({ variant: "destructive", title: "AI credits exhausted" });
+                }
+              } else if (parsed.type === "metadata") {
+                // Sent once the answer text is complete
+                updateAssistant("", parsed.metadata.cached, parsed.metadata.model);
+                rememberConversation(parsed.metadata.conversationId);
+              } else if (parsed.type === "follow_ups") {
+                updateAssistant("", undefined, undefined, parsed.questions);
               } else {
                 const content = parsed.choices?.[0]?.delta?.content;
                 if (content) updateAssistant(content);
@@ -485,6 +708,7 @@ export function ChatInterface({ selectedCard, availableCards = [], onSelectCard
             }
           }
         }
+        if (streamError) throw new Error(streamError);
       }
     } catch (error) {
       console.error("Chat error:", error);
@@ -534,16 +758,35 @@ export function ChatInterface({ selectedCard, availableCards = [], onSelectCard
     }
   };
 
-  const clearMessages = () => {
-    setMessages([
-      {
-        id: "1",
-        role: "assistant",
-        content:
-          "Hello! I'm your **AI-powered Reward Intelligence Assistant**. I have access to your uploaded statements, card benefits database, and real-time optimization strategies. How can I help you maximize your rewards today?",
-        timestamp: new Date(),
-      },
-    ]);
+  const startNewConversation = () => {
+    selectConversation(null);
+    setMessages([WELCOME_MESSAGE]);
+  };
+
+  const renameConversation = async (id: string, title: string) => {
+    const sb = getSupabaseClient();
+    if (!sb) return;
+    const { error } = await sb.from("chat_conversations").update({ title }).eq("id", id);
+    if (error) {
+      console.error("Error renaming conversation:", error);
+      toast({ variant: "destructive", title: "Couldn't rename conversation" });
+      return;
+    }
+    setConversations((prev) => prev.map((c) => (c.id === id ? { ...c, title } : c)));
+  };
+
+  const deleteConversation = async (id: string) => {
+    const sb = getSupabaseClient();
+    if (!sb) return;
+    const { error } = await sb.from("chat_conversations").delete().eq("id", id);
+    if (error) {
+      console.error("Error deleting conversation:", error);
+      toast({ variant: "destructive", title: "Couldn't delete conversation" });
+      return;
+    }
+    setConversations((prev) => prev.filter((c) => c.id !== id));
+    if (id === conversationId) startNewConversation();
+    toast({ title: "Conversation deleted" });
   };
 
   const chatProps = {
@@ -552,7 +795,14 @@ export function ChatInterface({ selectedCard, availableCards = [], onSelectCard
     setInput,
     isLoading,
     sendMessage,
-    clearMessages,
+    startNewConversation,
+    conversations,
+    activeConversationId: conversationId,
+    openConversation,
+    renameConversation,
+    deleteConversation,
+    agentMode,
+    setAgentMode,
     provideFeedback,
     selectedCard,
     availableCards,
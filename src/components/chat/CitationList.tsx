@@ -0,0 +1,89 @@
+import { useNavigate } from "react-router-dom";
+import { CreditCard, ExternalLink, FileText, Gift, Receipt } from "lucide-react";
+import { getSupabaseClient } from "@/integrations/supabase/lazyClient";
+import { useToast } from "@/hooks/use-toast";
+
+// Mirrors the rag-chat Citation (supabase/functions/rag-chat/types.ts)
+export interface CitationView {
+  marker: number;
+  id: string;
+  type: "statement" | "benefit" | "transactions" | "cards";
+  label: string;
+  snippet: string;
+  documentId?: string | null;
+  page?: number | null;
+  sourceUrl?: string | null;
+  cardId?: string | null;
+}
+
+const SOURCE_ICONS = {
+  statement: FileText,
+  benefit: Gift,
+  transactions: Receipt,
+  cards: CreditCard,
+};
+
+// Signed statement links are only needed for the click that opens them
+const SIGNED_URL_TTL_SECONDS = 60;
+
+/**
+ * Footnotes for the numbered sources an answer cites. Statements open the PDF at the
+ * cited page, benefits their source page, and spending/cards the transactions view.
+ */
+export function CitationList({ citations }: { citations: CitationView[] }) {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const openStatement = async (citation: CitationView) => {
+    const sb = getSupabaseClient();
+    if (!sb || !citation.documentId) return;
+    const { data: document } = await sb
+      .from("pdf_documents")
+      .select("file_path")
+      .eq("id", citation.documentId)
+      .maybeSingle();
+    const { data: signed } = document
+      ? await sb.storage.from("pdf-documents").createSignedUrl(document.file_path, SIGNED_URL_TTL_SECONDS)
+      : { data: null };
+    if (!signed?.signedUrl) {
+      toast({ variant: "destructive", title: "Statement unavailable", description: "It may have been deleted." });
+      return;
+    }
+    window.open(citation.page ? `${signed.signedUrl}#page=${citation.page}` : signed.signedUrl, "_blank", "noopener");
+  };
+
+  const openSource = (citation: CitationView) => {
+    if (citation.type === "statement") {
+      openStatement(citation);
+    } else if (citation.type === "benefit") {
+      if (citation.sourceUrl) window.open(citation.sourceUrl, "_blank", "noopener");
+    } else {
+      navigate(citation.cardId ? `/transactions?card=${citation.cardId}` : "/transactions");
+    }
+  };
+
+  return (
+    <ol className="mt-3 pt-2 border-t border-border/50 space-y-1">
+      {citations.map((citation) => {
+        const Icon = SOURCE_ICONS[citation.type] ?? FileText;
+        const linked = citation.type !== "benefit" || !!citation.sourceUrl;
+        return (
+          <li key={citation.marker} className="text-xs text-muted-foreground">
+            <button
+              type="button"
+              onClick={() => openSource(citation)}
+              disabled={!linked}
+              title={citation.snippet}
+              className="flex items-start gap-1.5 text-left hover:text-foreground disabled:hover:text-muted-foreground disabled:cursor-default"
+            >
+              <span className="font-medium text-primary">[{citation.marker}]</span>
+              <Icon className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+              <span className="underline-offset-2 hover:underline">{citation.label}</span>
+              {citation.type === "benefit" && linked && <ExternalLink className="w-3 h-3 mt-0.5 flex-shrink-0" />}
+            </button>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
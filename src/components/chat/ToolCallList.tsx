@@ -0,0 +1,55 @@
+import { CheckCircle2, Loader2, Wrench, XCircle } from "lucide-react";
+
+export interface ToolCallView {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  status: "running" | "done" | "failed";
+  summary?: string;
+}
+
+const TOOL_LABELS: Record<string, string> = {
+  query_transactions: "Transactions",
+  get_card_balances: "Card balances",
+  lookup_benefits: "Benefits",
+};
+
+// "merchant: swiggy, start date: 2025-03-01" - ids are noise for the reader
+function describeArguments(args: Record<string, unknown>): string {
+  return Object.entries(args)
+    .filter(([key, value]) => !key.endsWith("_id") && value !== undefined && value !== null && value !== "")
+    .map(([key, value]) => `${key.replace(/_/g, " ")}: ${String(value)}`)
+    .join(", ");
+}
+
+/**
+ * Tools the assistant called for an answer, with their result summaries
+ */
+export function ToolCallList({ toolCalls }: { toolCalls: ToolCallView[] }) {
+  return (
+    <ul className="mb-2 space-y-1">
+      {toolCalls.map((call) => {
+        const args = describeArguments(call.arguments);
+        return (
+          <li key={call.id} className="flex items-start gap-2 text-xs text-muted-foreground">
+            {call.status === "running" ? (
+              <Loader2 className="w-3.5 h-3.5 mt-0.5 flex-shrink-0 animate-spin text-primary" />
+            ) : call.status === "done" ? (
+              <CheckCircle2 className="w-3.5 h-3.5 mt-0.5 flex-shrink-0 text-green-500" />
+            ) : (
+              <XCircle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0 text-destructive" />
+            )}
+            <span>
+              <span className="inline-flex items-center gap-1 font-medium text-foreground">
+                <Wrench className="w-3 h-3" />
+                {TOOL_LABELS[call.name] || call.name}
+              </span>
+              {args && <span className="opacity-70"> ({args})</span>}
+              {call.summary && <span> → {call.summary}</span>}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -37,6 +37,7 @@ const alertTypeMap: Record<string, "warning" | "info" | "success"> = {
   promo: "info",
   security: "warning",
   recommendation: "success",
+  payment_due: "warning",
 };
 
 // Map alert_type to action labels
@@ -47,6 +48,7 @@ const actionLabelMap: Record<string, string> = {
   promo: "View Offer",
   security: "Review",
   recommendation: "Apply",
+  payment_due: "Review",
 };
 
 export function ActionCenter({ selectedCardId, selectedCardName }: ActionCenterProps) {
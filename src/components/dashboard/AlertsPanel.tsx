@@ -5,7 +5,7 @@ import { useAuth } from "@/contexts/AuthContext";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Bell, AlertTriangle, CheckCircle2, Info, X, Loader2, Maximize2, ArrowRight, ChevronRight } from "lucide-react";
+import { Bell, AlertTriangle, CalendarClock, CheckCircle2, Info, X, Loader2, Maximize2, ArrowRight, ChevronRight } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
 import {
@@ -42,6 +42,7 @@ const alertIcons: Record<string, React.ReactNode> = {
   new_partner: <Info className="w-4 h-4" />,
   promo: <Bell className="w-4 h-4" />,
   security: <AlertTriangle className="w-4 h-4" />,
+  payment_due: <CalendarClock className="w-4 h-4" />,
 };
 
 // Action guidance based on alert type
@@ -68,6 +69,11 @@ const alertActionGuidance: Record<string, { action: string; buttonLabel: string;
     action: "Review your account security settings immediately",
     buttonLabel: "Review Security",
   },
+  payment_due: {
+    action: "Pay at least the minimum amount due by the due date to avoid late fees and interest",
+    buttonLabel: "Review Transactions",
+    route: "/transactions",
+  },
 };
 
 interface AlertsPanelProps {
@@ -8,6 +8,7 @@ import {
   FileX, 
   RefreshCw,
   ExternalLink,
+  Copy,
   X
 } from "lucide-react";
 import type { PDFParseErrorCode, PDFValidationErrorCode } from "@/lib/pdf-validation";
@@ -30,6 +31,7 @@ const ERROR_ICONS: Record<string, typeof AlertCircle> = {
   PASSWORD_REQUIRED: Lock,
   INVALID_PASSWORD: Lock,
   UNSUPPORTED_PDF_CONTENT: FileWarning,
+  DUPLICATE_STATEMENT: Copy,
   INVALID_FILE_TYPE: FileX,
   FILE_TOO_SMALL: FileX,
   INVALID_PDF_HEADER: FileX,
@@ -47,6 +49,7 @@ const ERROR_TITLES: Record<string, string> = {
   PASSWORD_REQUIRED: 'Password Required',
   INVALID_PASSWORD: 'Incorrect Password',
   UNSUPPORTED_PDF_CONTENT: 'Scanned PDF Not Supported',
+  DUPLICATE_STATEMENT: 'Statement Already Imported',
   INVALID_FILE_TYPE: 'Invalid File Type',
   FILE_TOO_SMALL: 'Invalid File',
   INVALID_PDF_HEADER: 'Invalid PDF',
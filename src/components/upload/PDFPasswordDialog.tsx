@@ -0,0 +1,112 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Eye, EyeOff, Loader2, Lock } from "lucide-react";
+
+interface PDFPasswordDialogProps {
+  open: boolean;
+  fileName?: string;
+  errorMessage?: string;
+  isSubmitting?: boolean;
+  onSubmit: (password: string) => void;
+  onCancel: () => void;
+}
+
+export function PDFPasswordDialog({
+  open,
+  fileName,
+  errorMessage,
+  isSubmitting = false,
+  onSubmit,
+  onCancel,
+}: PDFPasswordDialogProps) {
+  const [password, setPassword] = useState("");
+  const [showPassword, setShowPassword] = useState(false);
+
+  // Clear the field whenever the prompt is re-opened or the password was rejected
+  useEffect(() => {
+    if (open) setPassword("");
+  }, [open, errorMessage]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password && !isSubmitting) onSubmit(password);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && !isSubmitting && onCancel()}>
+      <DialogContent className="max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Lock className="w-5 h-5 text-warning" />
+              Password Required
+            </DialogTitle>
+            <DialogDescription>
+              {fileName ? <strong>{fileName}</strong> : "This statement"} is password-protected.
+              Enter its password to unlock it for parsing.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2 py-4">
+            <Label htmlFor="pdf-password">PDF password</Label>
+            <div className="relative">
+              <Input
+                id="pdf-password"
+                type={showPassword ? "text" : "password"}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="off"
+                autoFocus
+                disabled={isSubmitting}
+                className="pr-10"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="absolute right-0 top-0 h-10 w-10"
+                onClick={() => setShowPassword(!showPassword)}
+                title={showPassword ? "Hide password" : "Show password"}
+              >
+                {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+              </Button>
+            </div>
+            {errorMessage && (
+              <p className="text-sm text-destructive">{errorMessage}</p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Bank statement passwords are usually based on your date of birth, PAN or registered
+              mobile number. The password is only used to unlock this file and is never stored.
+            </p>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!password || isSubmitting}>
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Unlocking...
+                </>
+              ) : (
+                "Unlock & Parse"
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
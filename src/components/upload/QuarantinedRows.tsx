@@ -0,0 +1,67 @@
+import { useState } from "react";
+import { AlertTriangle, ChevronDown } from "lucide-react";
+
+export interface QuarantinedRow {
+  index: number;
+  raw: unknown;
+  errors: string[];
+}
+
+interface QuarantinedRowsProps {
+  rows: QuarantinedRow[];
+  total?: number;
+}
+
+// Show whatever the extractor returned for the row, even when it is malformed
+function describeRow(raw: unknown): { date: string; description: string; amount: string } {
+  const row = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const text = (value: unknown) => (value === undefined || value === null || value === "" ? "—" : String(value));
+  return {
+    date: text(row.date),
+    description: text(row.description ?? row.merchant),
+    amount: text(row.amount),
+  };
+}
+
+/**
+ * Transaction rows that failed validation during parsing and were not imported
+ */
+export function QuarantinedRows({ rows, total = rows.length }: QuarantinedRowsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (total === 0) return null;
+
+  return (
+    <div className="p-2 bg-warning/10 border border-warning/30 rounded-md">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center justify-between w-full text-left"
+      >
+        <span className="flex items-center gap-2 text-xs font-medium text-warning">
+          <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0" />
+          {total} {total === 1 ? "row needs" : "rows need"} review
+        </span>
+        <ChevronDown className={`w-3.5 h-3.5 text-muted-foreground transition-transform duration-200 ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <ul className="pt-2 mt-2 border-t border-warning/20 space-y-2">
+          {rows.map((row) => {
+            const { date, description, amount } = describeRow(row.raw);
+            return (
+              <li key={row.index} className="text-xs">
+                <p className="font-mono text-foreground truncate">
+                  {date} • {description} • {amount}
+                </p>
+                <p className="text-muted-foreground">{row.errors.join("; ")}</p>
+              </li>
+            );
+          })}
+          {total > rows.length && (
+            <li className="text-xs text-muted-foreground">…and {total - rows.length} more</li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
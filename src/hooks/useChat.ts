@@ -12,7 +12,7 @@ interface Message {
 const CHAT_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/rag-chat`;
 
 export function useChat() {
-  const { user } = useAuth();
+  const { session } = useAuth();
   const { toast } = useToast();
   const [messages, setMessages] = useState<Message[]>([
     {
@@ -24,6 +24,7 @@ export function useChat() {
     },
   ]);
   const [isLoading, setIsLoading] = useState(false);
+  const [conversationId, setConversationId] = useState<string | null>(null);
 
   const sendMessage = useCallback(async (input: string) => {
     if (!input.trim() || isLoading) return;
@@ -66,22 +67,26 @@ export function useChat() {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
-          Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+          Authorization: `Bearer ${session?.access_token}`, // the function reads the user from this token
         },
         body: JSON.stringify({
-          messages: messages
-            .filter((m) => m.id !== "1")
-            .concat(userMessage)
-            .map((m) => ({ role: m.role, content: m.content })),
-          userId: user?.id, // CRITICAL: Pass user ID for personalized context retrieval
+          message: userMessage.content, // prior turns are loaded server-side by conversationId
+          conversationId: conversationId ?? undefined,
           includeContext: true,
+          followUps: false, // this hook doesn't show suggestions
         }),
       });
 
       if (!response.ok || !response.body) {
         const errorData = await response.json().catch(() => ({}));
         
-        if (response.status === 429) {
+        if (response.status === 429 && errorData.code === "quota_exceeded") {
+          toast({
+            variant: "destructive",
+            title: "Quota Reached",
+            description: errorData.error,
+          });
+        } else if (response.status === 429) {
           toast({
             variant: "destructive",
             title: "Rate Limit",
@@ -123,10 +128,11 @@ export function useChat() {
           if (!line.startsWith("data: ")) continue;
 
           const jsonStr = line.slice(6).trim();
-          if (jsonStr === "[DONE]") break;
+          if (jsonStr === "[DONE]") continue;
 
           try {
             const parsed = JSON.parse(jsonStr);
+            if (parsed.metadata?.conversationId) setConversationId(parsed.metadata.conversationId);
             const content = parsed.choices?.[0]?.delta?.content;
             if (content) updateAssistant(content);
           } catch {
@@ -147,6 +153,7 @@ export function useChat() {
           if (jsonStr === "[DONE]") continue;
           try {
             const parsed = JSON.parse(jsonStr);
+            if (parsed.metadata?.conversationId) setConversationId(parsed.metadata.conversationId);
             const content = parsed.choices?.[0]?.delta?.content;
             if (content) updateAssistant(content);
           } catch {
@@ -170,9 +177,10 @@ export function useChat() {
     } finally {
       setIsLoading(false);
     }
-  }, [messages, isLoading, toast]);
+  }, [conversationId, isLoading, session, toast]);
 
   const clearMessages = useCallback(() => {
+    setConversationId(null);
     setMessages([
       {
         id: "1",
@@ -16,46 +16,183 @@ export type Database = {
     Tables: {
       ai_evaluations: {
         Row: {
+          context_precision_score: number | null
+          context_recall_score: number | null
           context_used: string[] | null
           created_at: string
+          evaluator: string
           faithfulness_score: number | null
+          hallucinated_numbers: string[] | null
           id: string
+          judge_details: Json | null
+          judge_model: string | null
+          judged_at: string | null
           latency_ms: number | null
           model_used: string | null
           query: string
           relevance_score: number | null
           response: string
+          rewritten_query: string | null
           user_feedback: number | null
           user_id: string | null
         }
         Insert: {
+          context_precision_score?: number | null
+          context_recall_score?: number | null
           context_used?: string[] | null
           created_at?: string
+          evaluator?: string
           faithfulness_score?: number | null
+          hallucinated_numbers?: string[] | null
           id?: string
+          judge_details?: Json | null
+          judge_model?: string | null
+          judged_at?: string | null
           latency_ms?: number | null
           model_used?: string | null
           query: string
           relevance_score?: number | null
           response: string
+          rewritten_query?: string | null
           user_feedback?: number | null
           user_id?: string | null
         }
         Update: {
+          context_precision_score?: number | null
+          context_recall_score?: number | null
           context_used?: string[] | null
           created_at?: string
+          evaluator?: string
           faithfulness_score?: number | null
+          hallucinated_numbers?: string[] | null
           id?: string
+          judge_details?: Json | null
+          judge_model?: string | null
+          judged_at?: string | null
           latency_ms?: number | null
           model_used?: string | null
           query?: string
           relevance_score?: number | null
           response?: string
+          rewritten_query?: string | null
           user_feedback?: number | null
           user_id?: string | null
         }
         Relationships: []
       }
+      ai_quotas: {
+        Row: {
+          created_at: string
+          id: string
+          monthly_cost_usd: number | null
+          monthly_tokens: number | null
+          organization_id: string | null
+          requests_per_minute: number | null
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          monthly_cost_usd?: number | null
+          monthly_tokens?: number | null
+          organization_id?: string | null
+          requests_per_minute?: number | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          monthly_cost_usd?: number | null
+          monthly_tokens?: number | null
+          organization_id?: string | null
+          requests_per_minute?: number | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_quotas_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: true
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ai_requests: {
+        Row: {
+          created_at: string
+          id: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: never
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: never
+          user_id?: string
+        }
+        Relationships: []
+      }
+      cache_lookups: {
+        Row: {
+          created_at: string
+          id: string
+          match_type: string
+          similarity: number | null
+          task_type: string
+          threshold: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          match_type: string
+          similarity?: number | null
+          task_type: string
+          threshold: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          match_type?: string
+          similarity?: number | null
+          task_type?: string
+          threshold?: number
+        }
+        Relationships: []
+      }
+      cache_settings: {
+        Row: {
+          created_at: string
+          similarity_threshold: number
+          task_type: string
+          ttl_days: number
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          similarity_threshold: number
+          task_type: string
+          ttl_days: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          similarity_threshold?: number
+          task_type?: string
+          ttl_days?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
       card_benefits: {
         Row: {
           bank_name: string
@@ -63,11 +200,13 @@ export type Database = {
           benefit_description: string
           benefit_title: string
           card_name: string
+          catalog_card_id: string | null
           conditions: string | null
           embedding: string | null
           id: string
           is_active: boolean | null
           last_updated: string
+          search_tsv: unknown
           source_url: string | null
           value_estimate: number | null
         }
@@ -77,11 +216,13 @@ export type Database = {
           benefit_description: string
           benefit_title: string
           card_name: string
+          catalog_card_id?: string | null
           conditions?: string | null
           embedding?: string | null
           id?: string
           is_active?: boolean | null
           last_updated?: string
+          search_tsv?: never
           source_url?: string | null
           value_estimate?: number | null
         }
@@ -91,39 +232,146 @@ export type Database = {
           benefit_description?: string
           benefit_title?: string
           card_name?: string
+          catalog_card_id?: string | null
           conditions?: string | null
           embedding?: string | null
           id?: string
           is_active?: boolean | null
           last_updated?: string
+          search_tsv?: never
           source_url?: string | null
           value_estimate?: number | null
         }
+        Relationships: [
+          {
+            foreignKeyName: "card_benefits_catalog_card_id_fkey"
+            columns: ["catalog_card_id"]
+            isOneToOne: false
+            referencedRelation: "card_catalog"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      card_catalog: {
+        Row: {
+          bank_name: string
+          card_key: string
+          card_name: string
+          created_at: string
+          id: string
+          updated_at: string
+        }
+        Insert: {
+          bank_name: string
+          card_key: string
+          card_name: string
+          created_at?: string
+          id?: string
+          updated_at?: string
+        }
+        Update: {
+          bank_name?: string
+          card_key?: string
+          card_name?: string
+          created_at?: string
+          id?: string
+          updated_at?: string
+        }
         Relationships: []
       }
+      chat_conversations: {
+        Row: {
+          card_id: string | null
+          created_at: string
+          id: string
+          last_message_at: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          card_id?: string | null
+          created_at?: string
+          id?: string
+          last_message_at?: string
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          card_id?: string | null
+          created_at?: string
+          id?: string
+          last_message_at?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_conversations_card_id_fkey"
+            columns: ["card_id"]
+            isOneToOne: false
+            referencedRelation: "credit_cards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       chat_messages: {
         Row: {
+          cached: boolean
+          citations: Json | null
           content: string
+          context_sources: string[] | null
+          conversation_id: string
           created_at: string
+          follow_up_questions: string[] | null
           id: string
+          model: string | null
+          personalized: boolean | null
           role: string
+          tool_calls: Json | null
           user_id: string
         }
         Insert: {
+          cached?: boolean
+          citations?: Json | null
           content: string
+          context_sources?: string[] | null
+          conversation_id: string
           created_at?: string
+          follow_up_questions?: string[] | null
           id?: string
+          model?: string | null
+          personalized?: boolean | null
           role: string
+          tool_calls?: Json | null
           user_id: string
         }
         Update: {
+          cached?: boolean
+          citations?: Json | null
           content?: string
+          context_sources?: string[] | null
+          conversation_id?: string
           created_at?: string
+          follow_up_questions?: string[] | null
           id?: string
+          model?: string | null
+          personalized?: boolean | null
           role?: string
+          tool_calls?: Json | null
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "chat_messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "chat_conversations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       compliance_logs: {
         Row: {
@@ -168,6 +416,7 @@ export type Database = {
         Row: {
           bank_name: string
           card_name: string
+          catalog_card_id: string | null
           created_at: string
           id: string
           last_four: string | null
@@ -180,6 +429,7 @@ export type Database = {
         Insert: {
           bank_name: string
           card_name: string
+          catalog_card_id?: string | null
           created_at?: string
           id?: string
           last_four?: string | null
@@ -192,6 +442,7 @@ export type Database = {
         Update: {
           bank_name?: string
           card_name?: string
+          catalog_card_id?: string | null
           created_at?: string
           id?: string
           last_four?: string | null
@@ -201,7 +452,15 @@ export type Database = {
           user_id?: string
           variant?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "credit_cards_catalog_card_id_fkey"
+            columns: ["catalog_card_id"]
+            isOneToOne: false
+            referencedRelation: "card_catalog"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       document_chunks: {
         Row: {
@@ -212,6 +471,7 @@ export type Database = {
           embedding: string | null
           id: string
           metadata: Json | null
+          search_tsv: unknown
           user_id: string
         }
         Insert: {
@@ -222,6 +482,7 @@ export type Database = {
           embedding?: string | null
           id?: string
           metadata?: Json | null
+          search_tsv?: never
           user_id: string
         }
         Update: {
@@ -232,6 +493,7 @@ export type Database = {
           embedding?: string | null
           id?: string
           metadata?: Json | null
+          search_tsv?: never
           user_id?: string
         }
         Relationships: [
@@ -322,8 +584,134 @@ export type Database = {
           },
         ]
       }
+      model_prices: {
+        Row: {
+          created_at: string
+          effective_from: string
+          input_per_million: number
+          model: string
+          output_per_million: number
+        }
+        Insert: {
+          created_at?: string
+          effective_from: string
+          input_per_million: number
+          model: string
+          output_per_million: number
+        }
+        Update: {
+          created_at?: string
+          effective_from?: string
+          input_per_million?: number
+          model?: string
+          output_per_million?: number
+        }
+        Relationships: []
+      }
+      organization_members: {
+        Row: {
+          created_at: string
+          organization_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          organization_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          organization_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      parse_jobs: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          document_id: string | null
+          id: string
+          pages_processed: number
+          pages_total: number | null
+          progress: number
+          result: Json | null
+          stage: string
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          document_id?: string | null
+          id?: string
+          pages_processed?: number
+          pages_total?: number | null
+          progress?: number
+          result?: Json | null
+          stage?: string
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          document_id?: string | null
+          id?: string
+          pages_processed?: number
+          pages_total?: number | null
+          progress?: number
+          result?: Json | null
+          stage?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "parse_jobs_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "pdf_documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       pdf_documents: {
         Row: {
+          card_id: string | null
+          content_hash: string | null
           created_at: string
           document_type: string | null
           file_name: string
@@ -331,9 +719,13 @@ export type Database = {
           file_size: number | null
           id: string
           parsed_data: Json | null
+          statement_end: string | null
+          statement_start: string | null
           user_id: string
         }
         Insert: {
+          card_id?: string | null
+          content_hash?: string | null
           created_at?: string
           document_type?: string | null
           file_name: string
@@ -341,9 +733,13 @@ export type Database = {
           file_size?: number | null
           id?: string
           parsed_data?: Json | null
+          statement_end?: string | null
+          statement_start?: string | null
           user_id: string
         }
         Update: {
+          card_id?: string | null
+          content_hash?: string | null
           created_at?: string
           document_type?: string | null
           file_name?: string
@@ -351,9 +747,19 @@ export type Database = {
           file_size?: number | null
           id?: string
           parsed_data?: Json | null
+          statement_end?: string | null
+          statement_start?: string | null
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "pdf_documents_card_id_fkey"
+            columns: ["card_id"]
+            isOneToOne: false
+            referencedRelation: "credit_cards"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       pii_masking_log: {
         Row: {
@@ -382,6 +788,70 @@ export type Database = {
         }
         Relationships: []
       }
+      points_expiry_ledger: {
+        Row: {
+          alert_id: string | null
+          alerted_priority: string | null
+          card_id: string
+          created_at: string
+          document_id: string | null
+          expiry_date: string
+          id: string
+          is_estimate: boolean
+          points: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          alert_id?: string | null
+          alerted_priority?: string | null
+          card_id: string
+          created_at?: string
+          document_id?: string | null
+          expiry_date: string
+          id?: string
+          is_estimate?: boolean
+          points: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          alert_id?: string | null
+          alerted_priority?: string | null
+          card_id?: string
+          created_at?: string
+          document_id?: string | null
+          expiry_date?: string
+          id?: string
+          is_estimate?: boolean
+          points?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "points_expiry_ledger_alert_id_fkey"
+            columns: ["alert_id"]
+            isOneToOne: false
+            referencedRelation: "user_alerts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "points_expiry_ledger_card_id_fkey"
+            columns: ["card_id"]
+            isOneToOne: false
+            referencedRelation: "credit_cards"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "points_expiry_ledger_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "pdf_documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -411,46 +881,139 @@ export type Database = {
       }
       query_cache: {
         Row: {
+          citations: Json | null
           created_at: string
+          data_version: number
           expires_at: string
           hit_count: number | null
           id: string
           model_used: string
+          pinned: boolean
           query_embedding: string | null
           query_hash: string
           query_text: string
           response: string
+          scope: string
+          task_type: string
           tokens_input: number | null
           tokens_output: number | null
         }
         Insert: {
+          citations?: Json | null
           created_at?: string
+          data_version?: number
           expires_at?: string
           hit_count?: number | null
           id?: string
           model_used: string
+          pinned?: boolean
           query_embedding?: string | null
           query_hash: string
           query_text: string
           response: string
+          scope?: string
+          task_type?: string
           tokens_input?: number | null
           tokens_output?: number | null
         }
         Update: {
+          citations?: Json | null
           created_at?: string
+          data_version?: number
           expires_at?: string
           hit_count?: number | null
           id?: string
           model_used?: string
+          pinned?: boolean
           query_embedding?: string | null
           query_hash?: string
           query_text?: string
           response?: string
+          scope?: string
+          task_type?: string
           tokens_input?: number | null
           tokens_output?: number | null
         }
         Relationships: []
       }
+      statement_summaries: {
+        Row: {
+          available_credit_limit: number | null
+          card_id: string | null
+          closing_reward_points: number | null
+          created_at: string
+          credit_limit: number | null
+          document_id: string
+          id: string
+          minimum_amount_due: number | null
+          opening_reward_points: number | null
+          payment_due_date: string | null
+          points_earned: number | null
+          points_expired: number | null
+          points_redeemed: number | null
+          statement_end: string | null
+          statement_start: string | null
+          total_amount_due: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          available_credit_limit?: number | null
+          card_id?: string | null
+          closing_reward_points?: number | null
+          created_at?: string
+          credit_limit?: number | null
+          document_id: string
+          id?: string
+          minimum_amount_due?: number | null
+          opening_reward_points?: number | null
+          payment_due_date?: string | null
+          points_earned?: number | null
+          points_expired?: number | null
+          points_redeemed?: number | null
+          statement_end?: string | null
+          statement_start?: string | null
+          total_amount_due?: number | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          available_credit_limit?: number | null
+          card_id?: string | null
+          closing_reward_points?: number | null
+          created_at?: string
+          credit_limit?: number | null
+          document_id?: string
+          id?: string
+          minimum_amount_due?: number | null
+          opening_reward_points?: number | null
+          payment_due_date?: string | null
+          points_earned?: number | null
+          points_expired?: number | null
+          points_redeemed?: number | null
+          statement_end?: string | null
+          statement_start?: string | null
+          total_amount_due?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "statement_summaries_card_id_fkey"
+            columns: ["card_id"]
+            isOneToOne: false
+            referencedRelation: "credit_cards"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "statement_summaries_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: true
+            referencedRelation: "pdf_documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       statement_templates: {
         Row: {
           bank_name: string
@@ -510,6 +1073,7 @@ export type Database = {
           id: string
           model: string
           query_type: string | null
+          routing_reason: string | null
           tokens_input: number
           tokens_output: number
           user_id: string | null
@@ -521,6 +1085,7 @@ export type Database = {
           id?: string
           model: string
           query_type?: string | null
+          routing_reason?: string | null
           tokens_input?: number
           tokens_output?: number
           user_id?: string | null
@@ -532,6 +1097,7 @@ export type Database = {
           id?: string
           model?: string
           query_type?: string | null
+          routing_reason?: string | null
           tokens_input?: number
           tokens_output?: number
           user_id?: string | null
@@ -546,6 +1112,7 @@ export type Database = {
           created_at: string
           description: string
           document_id: string | null
+          fingerprint: string | null
           id: string
           is_masked: boolean | null
           merchant_name: string | null
@@ -561,6 +1128,7 @@ export type Database = {
           created_at?: string
           description: string
           document_id?: string | null
+          fingerprint?: string | null
           id?: string
           is_masked?: boolean | null
           merchant_name?: string | null
@@ -576,6 +1144,7 @@ export type Database = {
           created_at?: string
           description?: string
           document_id?: string | null
+          fingerprint?: string | null
           id?: string
           is_masked?: boolean | null
           merchant_name?: string | null
@@ -651,27 +1220,175 @@ export type Database = {
           },
         ]
       }
+      user_budgets: {
+        Row: {
+          created_at: string
+          monthly_limit_usd: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          monthly_limit_usd: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          monthly_limit_usd?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_data_versions: {
+        Row: {
+          updated_at: string
+          user_id: string
+          version: number
+        }
+        Insert: {
+          updated_at?: string
+          user_id: string
+          version?: number
+        }
+        Update: {
+          updated_at?: string
+          user_id?: string
+          version?: number
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      admit_ai_request: {
+        Args: { p_user_id: string }
+        Returns: {
+          admitted: boolean
+          cost_used: number
+          monthly_cost_usd: number
+          monthly_tokens: number
+          oldest_request_at: string
+          requests_last_minute: number
+          requests_per_minute: number
+          scope: string
+          tokens_used: number
+        }[]
+      }
+      ai_quota_usage: {
+        Args: { p_user_id: string }
+        Returns: {
+          cost_used: number
+          monthly_cost_usd: number
+          monthly_tokens: number
+          oldest_request_at: string
+          requests_last_minute: number
+          requests_per_minute: number
+          scope: string
+          tokens_used: number
+        }[]
+      }
+      bump_user_data_version: { Args: { user_uuid: string }; Returns: number }
+      cache_duplicate_pairs: {
+        Args: { max_entries?: number; similarity_floor?: number }
+        Returns: {
+          entry_a: string
+          entry_b: string
+          similarity: number
+        }[]
+      }
+      card_catalog_key: { Args: { bank: string; card: string }; Returns: string }
       find_similar_cache: {
         Args: {
+          cache_scope: string
+          cache_task_type: string
           max_results?: number
           query_emb: string
+          scope_version?: number
           similarity_threshold?: number
         }
         Returns: {
+          citations: Json
           id: string
+          model_used: string
           query_text: string
           response: string
           similarity: number
         }[]
       }
+      generate_expiring_points_alerts: {
+        Args: { _user_id?: string }
+        Returns: number
+      }
+      has_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
       increment_cache_hit: { Args: { cache_id: string }; Returns: undefined }
+      record_template_extraction: {
+        Args: { _success: boolean; _template_id: string }
+        Returns: undefined
+      }
+      sample_unjudged_evaluations: {
+        Args: { p_evaluator: string; p_limit?: number; p_max_age_days?: number }
+        Returns: {
+          context_precision_score: number | null
+          context_recall_score: number | null
+          context_used: string[] | null
+          created_at: string
+          evaluator: string
+          faithfulness_score: number | null
+          hallucinated_numbers: string[] | null
+          id: string
+          judge_details: Json | null
+          judge_model: string | null
+          judged_at: string | null
+          latency_ms: number | null
+          model_used: string | null
+          query: string
+          relevance_score: number | null
+          response: string
+          rewritten_query: string | null
+          user_feedback: number | null
+          user_id: string | null
+        }[]
+      }
       search_benefits: {
-        Args: { match_count?: number; query_emb: string }
+        Args: {
+          filter_bank?: string
+          filter_catalog_card_id?: string
+          filter_category?: string
+          match_count?: number
+          min_similarity?: number
+          query_emb: string
+        }
         Returns: {
           bank_name: string
           benefit_description: string
@@ -679,10 +1396,36 @@ export type Database = {
           card_name: string
           id: string
           similarity: number
+          source_url: string | null
+        }[]
+      }
+      search_benefits_text: {
+        Args: {
+          filter_bank?: string
+          filter_catalog_card_id?: string
+          filter_category?: string
+          match_count?: number
+          query_text: string
+        }
+        Returns: {
+          bank_name: string
+          benefit_description: string
+          benefit_title: string
+          card_name: string
+          id: string
+          rank: number
+          source_url: string | null
         }[]
       }
       search_documents: {
-        Args: { match_count?: number; query_emb: string; user_uuid: string }
+        Args: {
+          filter_bank?: string
+          filter_card_id?: string
+          match_count?: number
+          min_similarity?: number
+          query_emb: string
+          user_uuid: string
+        }
         Returns: {
           chunk_text: string
           id: string
@@ -690,9 +1433,52 @@ export type Database = {
           similarity: number
         }[]
       }
+      search_documents_text: {
+        Args: {
+          filter_bank?: string
+          filter_card_id?: string
+          match_count?: number
+          query_text: string
+          user_uuid: string
+        }
+        Returns: {
+          chunk_text: string
+          id: string
+          metadata: Json
+          rank: number
+        }[]
+      }
+      transaction_totals: {
+        Args: {
+          p_card_id?: string
+          p_category?: string
+          p_end_date?: string
+          p_group_by?: string
+          p_merchant?: string
+          p_start_date?: string
+          p_type?: string
+          p_user_id: string
+        }
+        Returns: {
+          first_date: string
+          group_key: string
+          last_date: string
+          points_earned: number
+          total_credits: number
+          total_spent: number
+          transaction_count: number
+        }[]
+      }
+      user_budget_status: {
+        Args: { p_user_id: string }
+        Returns: {
+          monthly_limit_usd: number
+          spent_usd: number
+        }[]
+      }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "admin" | "user"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -819,6 +1605,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["admin", "user"],
+    },
   },
 } as const
@@ -0,0 +1,91 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/integrations/supabase/types";
+
+/**
+ * Stages reported by the parse-pdf edge function on its parse_jobs row
+ */
+export type ParseJobStage =
+  | 'queued'
+  | 'downloading'
+  | 'unlocking'
+  | 'reading_text'
+  | 'extracting'
+  | 'saving'
+  | 'indexing'
+  | 'done';
+
+export interface ParseJobProgress {
+  stage: ParseJobStage;
+  progress: number;
+  pagesTotal: number | null;
+  pagesProcessed: number;
+}
+
+/**
+ * parse-pdf response body (also stored as the job result)
+ */
+export interface ParseResult {
+  success?: boolean;
+  error?: string;
+  code?: string;
+  message?: string;
+  requiresPassword?: boolean;
+  duplicateOf?: { importedAt: string; fileName: string };
+  transactions_parsed?: number;
+  duplicate_transactions_skipped?: number;
+  quarantined_count?: number;
+  pii_masked?: number;
+  confidence?: number;
+  detected_card?: { bank_name: string; card_name: string; confidence?: number };
+  [key: string]: unknown;
+}
+
+export const PARSE_STAGE_LABELS: Record<ParseJobStage, string> = {
+  queued: 'Queued',
+  downloading: 'Downloading',
+  unlocking: 'Unlocking',
+  reading_text: 'Reading text',
+  extracting: 'Extracting transactions',
+  saving: 'Saving',
+  indexing: 'Indexing for chat',
+  done: 'Done',
+};
+
+const POLL_INTERVAL_MS = 1500;
+const JOB_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Poll a parse job until it finishes and return its result - the same body
+ * parse-pdf returns when called synchronously (success or structured error)
+ */
+export async function waitForParseJob(
+  sb: SupabaseClient<Database>,
+  jobId: string,
+  onProgress: (progress: ParseJobProgress) => void
+): Promise<ParseResult> {
+  const deadline = Date.now() + JOB_TIMEOUT_MS;
+
+  while (Date.now() < deadline) {
+    const { data: job, error } = await sb
+      .from('parse_jobs')
+      .select('status, stage, progress, pages_total, pages_processed, result')
+      .eq('id', jobId)
+      .single();
+
+    if (error) throw error;
+
+    if (job.status === 'succeeded' || job.status === 'failed') {
+      return (job.result as ParseResult | null) ?? { error: 'UNKNOWN_ERROR' };
+    }
+
+    onProgress({
+      stage: job.stage as ParseJobStage,
+      progress: job.progress,
+      pagesTotal: job.pages_total,
+      pagesProcessed: job.pages_processed,
+    });
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+
+  return { error: 'PARSE_TIMEOUT' };
+}
@@ -173,6 +173,7 @@ export type PDFParseErrorCode =
   | 'PASSWORD_REQUIRED'
   | 'INVALID_PASSWORD'
   | 'UNSUPPORTED_PDF_CONTENT'
+  | 'DUPLICATE_STATEMENT'
   | 'AI_RATE_LIMIT'
   | 'AI_CREDITS_EXHAUSTED'
   | 'AI_EXTRACTION_FAILED'
@@ -220,6 +221,10 @@ export const PARSE_ERROR_DETAILS: Record<PDFParseErrorCode, { userMessage: strin
     userMessage: 'This PDF contains only scanned images without extractable text.',
     suggestedAction: 'Try requesting a digital statement from your bank instead of a scanned copy.',
   },
+  DUPLICATE_STATEMENT: {
+    userMessage: 'This statement was already imported.',
+    suggestedAction: 'No changes were made. Upload a different statement period, or delete the earlier upload to re-import it.',
+  },
   AI_RATE_LIMIT: {
     userMessage: 'AI processing rate limit reached.',
     suggestedAction: 'Please wait a few minutes and try again.',
@@ -249,7 +254,9 @@ export const PARSE_ERROR_DETAILS: Record<PDFParseErrorCode, { userMessage: strin
 /**
  * Maps server error responses to user-friendly error details
  */
-export function mapServerError(error: string | { error?: string; code?: string; message?: string }): PDFParseError {
+export function mapServerError(
+  error: string | { error?: string; code?: string; message?: string; duplicateOf?: { importedAt: string; fileName: string } }
+): PDFParseError {
   let errorCode: PDFParseErrorCode = 'UNKNOWN_ERROR';
   let rawMessage = '';
 
@@ -272,11 +279,18 @@ export function mapServerError(error: string | { error?: string; code?: string;
   }
 
   const details = PARSE_ERROR_DETAILS[errorCode] || PARSE_ERROR_DETAILS.UNKNOWN_ERROR;
+  let userMessage = details.userMessage;
+
+  // Name the earlier import so the user can find it in their uploads
+  if (errorCode === 'DUPLICATE_STATEMENT' && typeof error !== 'string' && error.duplicateOf) {
+    const importedOn = new Date(error.duplicateOf.importedAt).toLocaleDateString();
+    userMessage = `This statement was already imported on ${importedOn} (${error.duplicateOf.fileName}).`;
+  }
 
   return {
     code: errorCode,
     message: rawMessage,
-    userMessage: details.userMessage,
+    userMessage,
     suggestedAction: details.suggestedAction,
   };
 }
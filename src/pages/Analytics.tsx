@@ -8,6 +8,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import { CacheAdminPanel } from "@/components/analytics/CacheAdminPanel";
+import { QuotaUsageCard } from "@/components/analytics/QuotaUsageCard";
 import { 
   Loader2, 
   ArrowLeft, 
@@ -40,6 +42,10 @@ interface EvaluationData {
     avg_faithfulness: number;
     avg_relevance: number;
     avg_latency_ms: number;
+    judged_evaluations: number;
+    avg_context_precision: number | null;
+    avg_context_recall: number | null;
+    hallucinated_number_rate: number | null;
   };
   quality_distribution: {
     excellent: number;
@@ -86,6 +92,7 @@ export default function Analytics() {
   const [evaluations, setEvaluations] = useState<EvaluationData | null>(null);
   const [compliance, setCompliance] = useState<ComplianceData | null>(null);
   const [roi, setROI] = useState<ROIData | null>(null);
+  const [isAdmin, setIsAdmin] = useState(false);
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -93,22 +100,28 @@ export default function Analytics() {
     }
   }, [user, authLoading, navigate]);
 
-  const fetchAnalytics = useCallback(async () => {
+  const fetchAnalytics = useCallback(async (userId: string) => {
     setLoading(true);
     try {
       const sb = getSupabaseClient();
       if (!sb) throw new Error("Backend not configured");
+
+      // Compliance, ROI and the cache are admin-only: other users don't request them at all
+      const { data: hasAdminRole } = await sb.rpc("has_role", { _user_id: userId, _role: "admin" });
+      const admin = hasAdminRole === true;
+      setIsAdmin(admin);
+
       const [tokenRes, evalRes, compRes, roiRes] = await Promise.all([
-        sb.functions.invoke("analytics", { body: { action: "token-usage", userId: user?.id } }),
-        sb.functions.invoke("analytics", { body: { action: "evaluation-metrics", userId: user?.id } }),
-        sb.functions.invoke("analytics", { body: { action: "compliance-report" } }),
-        sb.functions.invoke("analytics", { body: { action: "roi-analysis" } }),
+        sb.functions.invoke("analytics", { body: { action: "token-usage" } }),
+        sb.functions.invoke("analytics", { body: { action: "evaluation-metrics" } }),
+        admin ? sb.functions.invoke("analytics", { body: { action: "compliance-report" } }) : null,
+        admin ? sb.functions.invoke("analytics", { body: { action: "roi-analysis" } }) : null,
       ]);
 
       if (tokenRes.data) setTokenUsage(tokenRes.data);
       if (evalRes.data) setEvaluations(evalRes.data);
-      if (compRes.data) setCompliance(compRes.data);
-      if (roiRes.data) setROI(roiRes.data);
+      if (compRes?.data) setCompliance(compRes.data);
+      if (roiRes?.data) setROI(roiRes.data);
     } catch (error) {
       console.error("Error fetching analytics:", error);
       toast({
@@ -121,11 +134,11 @@ export default function Analytics() {
     } finally {
       setLoading(false);
     }
-  }, [user, toast]);
+  }, [toast]);
 
   useEffect(() => {
     if (user) {
-      fetchAnalytics();
+      fetchAnalytics(user.id);
     }
   }, [user, fetchAnalytics]);
 
@@ -168,22 +181,28 @@ export default function Analytics() {
             </h1>
             <p className="text-muted-foreground">RAG evaluation, token usage, and security metrics</p>
           </div>
-          <Button onClick={fetchAnalytics} variant="outline">
+          <Button onClick={() => user && fetchAnalytics(user.id)} variant="outline">
             <RefreshCw className="w-4 h-4 mr-2" />
             Refresh
           </Button>
         </div>
 
         <Tabs defaultValue="usage" className="space-y-6">
-          <TabsList className="grid grid-cols-4 w-full max-w-lg">
+          <TabsList className={`grid w-full ${isAdmin ? "grid-cols-5 max-w-xl" : "grid-cols-2 max-w-xs"}`}>
             <TabsTrigger value="usage">Token Usage</TabsTrigger>
             <TabsTrigger value="evaluation">Evaluation</TabsTrigger>
-            <TabsTrigger value="compliance">Compliance</TabsTrigger>
-            <TabsTrigger value="roi">ROI</TabsTrigger>
+            {isAdmin && (
+              <>
+                <TabsTrigger value="compliance">Compliance</TabsTrigger>
+                <TabsTrigger value="roi">ROI</TabsTrigger>
+                <TabsTrigger value="cache">Cache</TabsTrigger>
+              </>
+            )}
           </TabsList>
 
           {/* Token Usage Tab */}
           <TabsContent value="usage" className="space-y-6">
+            <QuotaUsageCard />
             <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
               <Card className="glass-card">
                 <CardContent className="pt-6">
@@ -289,10 +308,39 @@ export default function Analytics() {
               </Card>
             </div>
 
+            {(evaluations?.summary.judged_evaluations || 0) > 0 && (
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <Card className="glass-card">
+                  <CardContent className="pt-6">
+                    <p className="text-2xl font-bold">{((evaluations?.summary.avg_context_precision || 0) * 100).toFixed(0)}%</p>
+                    <p className="text-xs text-muted-foreground">Context Precision</p>
+                  </CardContent>
+                </Card>
+                <Card className="glass-card">
+                  <CardContent className="pt-6">
+                    <p className="text-2xl font-bold">{((evaluations?.summary.avg_context_recall || 0) * 100).toFixed(0)}%</p>
+                    <p className="text-xs text-muted-foreground">Context Recall</p>
+                  </CardContent>
+                </Card>
+                <Card className="glass-card">
+                  <CardContent className="pt-6">
+                    <p className="text-2xl font-bold">{((evaluations?.summary.hallucinated_number_rate || 0) * 100).toFixed(0)}%</p>
+                    <p className="text-xs text-muted-foreground">Answers with Unsupported Numbers</p>
+                  </CardContent>
+                </Card>
+                <Card className="glass-card">
+                  <CardContent className="pt-6">
+                    <p className="text-2xl font-bold">{evaluations?.summary.judged_evaluations}</p>
+                    <p className="text-xs text-muted-foreground">Judged by LLM</p>
+                  </CardContent>
+                </Card>
+              </div>
+            )}
+
             <Card className="glass-card">
               <CardHeader>
                 <CardTitle>Response Quality Distribution</CardTitle>
-                <CardDescription>RAGAS-style quality metrics</CardDescription>
+                <CardDescription>RAGAS-style quality metrics (judge scores where sampled, word overlap otherwise)</CardDescription>
               </CardHeader>
               <CardContent>
                 <ResponsiveContainer width="100%" height={300}>
@@ -318,124 +366,134 @@ export default function Analytics() {
             </Card>
           </TabsContent>
 
-          {/* Compliance Tab */}
-          <TabsContent value="compliance" className="space-y-6">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <Card className="glass-card">
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <Shield className="w-5 h-5 text-primary" />
-                    PII Protection
-                  </CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  <div className="flex justify-between">
-                    <span className="text-muted-foreground">Total Fields Masked</span>
-                    <span className="font-bold">{compliance?.summary.total_fields_masked || 0}</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-muted-foreground">Masking Events</span>
-                    <span className="font-bold">{compliance?.summary.total_pii_masking_events || 0}</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-muted-foreground">100% Masked</span>
-                    <span className={`font-bold ${compliance?.summary.pii_always_masked ? "text-primary" : "text-destructive"}`}>
-                      {compliance?.summary.pii_always_masked ? "Yes ✓" : "No ✗"}
-                    </span>
-                  </div>
-                  <div className="mt-4">
-                    <p className="text-sm font-medium mb-2">PII Types Detected:</p>
-                    <div className="flex flex-wrap gap-2">
-                      {Object.entries(compliance?.pii_types_found || {}).map(([type, count]) => (
-                        <span key={type} className="px-2 py-1 bg-muted rounded-full text-xs">
-                          {type}: {count}
+          {/* Admins only: Compliance, ROI and Cache */}
+          {isAdmin && (
+            <>
+              {/* Compliance Tab */}
+              <TabsContent value="compliance" className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <Card className="glass-card">
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2">
+                        <Shield className="w-5 h-5 text-primary" />
+                        PII Protection
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Total Fields Masked</span>
+                        <span className="font-bold">{compliance?.summary.total_fields_masked || 0}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Masking Events</span>
+                        <span className="font-bold">{compliance?.summary.total_pii_masking_events || 0}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">100% Masked</span>
+                        <span className={`font-bold ${compliance?.summary.pii_always_masked ? "text-primary" : "text-destructive"}`}>
+                          {compliance?.summary.pii_always_masked ? "Yes ✓" : "No ✗"}
                         </span>
-                      ))}
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
+                      </div>
+                      <div className="mt-4">
+                        <p className="text-sm font-medium mb-2">PII Types Detected:</p>
+                        <div className="flex flex-wrap gap-2">
+                          {Object.entries(compliance?.pii_types_found || {}).map(([type, count]) => (
+                            <span key={type} className="px-2 py-1 bg-muted rounded-full text-xs">
+                              {type}: {count}
+                            </span>
+                          ))}
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
 
-              <Card className="glass-card">
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <Target className="w-5 h-5 text-secondary" />
-                    Regulatory Alignment
-                  </CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  <div>
-                    <p className="font-medium mb-2">GDPR Compliance</p>
-                    <div className="space-y-1">
-                      {Object.entries(compliance?.gdpr_compliance || {}).map(([key, value]) => (
-                        <div key={key} className="flex justify-between text-sm">
-                          <span className="text-muted-foreground">{key.replace(/_/g, " ")}</span>
-                          <span className="text-primary">✓</span>
+                  <Card className="glass-card">
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2">
+                        <Target className="w-5 h-5 text-secondary" />
+                        Regulatory Alignment
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <div>
+                        <p className="font-medium mb-2">GDPR Compliance</p>
+                        <div className="space-y-1">
+                          {Object.entries(compliance?.gdpr_compliance || {}).map(([key, value]) => (
+                            <div key={key} className="flex justify-between text-sm">
+                              <span className="text-muted-foreground">{key.replace(/_/g, " ")}</span>
+                              <span className="text-primary">✓</span>
+                            </div>
+                          ))}
                         </div>
-                      ))}
-                    </div>
-                  </div>
-                  <div>
-                    <p className="font-medium mb-2">PCI-DSS Alignment</p>
-                    <div className="space-y-1">
-                      {Object.entries(compliance?.pci_dss_alignment || {}).map(([key, value]) => (
-                        <div key={key} className="flex justify-between text-sm">
-                          <span className="text-muted-foreground">{key.replace(/_/g, " ")}</span>
-                          <span className={value ? "text-primary" : "text-destructive"}>
-                            {value ? "✓" : "✗"}
-                          </span>
+                      </div>
+                      <div>
+                        <p className="font-medium mb-2">PCI-DSS Alignment</p>
+                        <div className="space-y-1">
+                          {Object.entries(compliance?.pci_dss_alignment || {}).map(([key, value]) => (
+                            <div key={key} className="flex justify-between text-sm">
+                              <span className="text-muted-foreground">{key.replace(/_/g, " ")}</span>
+                              <span className={value ? "text-primary" : "text-destructive"}>
+                                {value ? "✓" : "✗"}
+                              </span>
+                            </div>
+                          ))}
                         </div>
-                      ))}
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
-            </div>
-          </TabsContent>
+                      </div>
+                    </CardContent>
+                  </Card>
+                </div>
+              </TabsContent>
 
-          {/* ROI Tab */}
-          <TabsContent value="roi" className="space-y-6">
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              <Card className="glass-card">
-                <CardContent className="pt-6">
-                  <p className="text-2xl font-bold">${roi?.costs.total_ai_cost.toFixed(4) || "0"}</p>
-                  <p className="text-xs text-muted-foreground">Total AI Cost</p>
-                </CardContent>
-              </Card>
-              <Card className="glass-card">
-                <CardContent className="pt-6">
-                  <p className="text-2xl font-bold">₹{roi?.value.estimated_user_value.toFixed(0) || "0"}</p>
-                  <p className="text-xs text-muted-foreground">Estimated User Value</p>
-                </CardContent>
-              </Card>
-              <Card className="glass-card">
-                <CardContent className="pt-6">
-                  <p className="text-2xl font-bold text-primary">{roi?.value.roi_ratio.toFixed(1) || "0"}x</p>
-                  <p className="text-xs text-muted-foreground">ROI Ratio</p>
-                </CardContent>
-              </Card>
-            </div>
+              {/* ROI Tab */}
+              <TabsContent value="roi" className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <Card className="glass-card">
+                    <CardContent className="pt-6">
+                      <p className="text-2xl font-bold">${roi?.costs.total_ai_cost.toFixed(4) || "0"}</p>
+                      <p className="text-xs text-muted-foreground">Total AI Cost</p>
+                    </CardContent>
+                  </Card>
+                  <Card className="glass-card">
+                    <CardContent className="pt-6">
+                      <p className="text-2xl font-bold">₹{roi?.value.estimated_user_value.toFixed(0) || "0"}</p>
+                      <p className="text-xs text-muted-foreground">Estimated User Value</p>
+                    </CardContent>
+                  </Card>
+                  <Card className="glass-card">
+                    <CardContent className="pt-6">
+                      <p className="text-2xl font-bold text-primary">{roi?.value.roi_ratio.toFixed(1) || "0"}x</p>
+                      <p className="text-xs text-muted-foreground">ROI Ratio</p>
+                    </CardContent>
+                  </Card>
+                </div>
 
-            <Card className="glass-card">
-              <CardHeader>
-                <CardTitle>Optimization Suggestions</CardTitle>
-              </CardHeader>
-              <CardContent>
-                {roi?.optimization_suggestions && roi.optimization_suggestions.length > 0 ? (
-                  <ul className="space-y-2">
-                    {roi.optimization_suggestions.map((suggestion, i) => (
-                      <li key={i} className="flex items-center gap-2">
-                        <span className="text-secondary">•</span>
-                        {suggestion}
-                      </li>
-                    ))}
-                  </ul>
-                ) : (
-                  <p className="text-muted-foreground">No optimization suggestions at this time.</p>
-                )}
-              </CardContent>
-            </Card>
-          </TabsContent>
+                <Card className="glass-card">
+                  <CardHeader>
+                    <CardTitle>Optimization Suggestions</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {roi?.optimization_suggestions && roi.optimization_suggestions.length > 0 ? (
+                      <ul className="space-y-2">
+                        {roi.optimization_suggestions.map((suggestion, i) => (
+                          <li key={i} className="flex items-center gap-2">
+                            <span className="text-secondary">•</span>
+                            {suggestion}
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="text-muted-foreground">No optimization suggestions at this time.</p>
+                    )}
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              {/* Cache Tab */}
+              <TabsContent value="cache" className="space-y-6">
+                <CacheAdminPanel />
+              </TabsContent>
+            </>
+          )}
         </Tabs>
       </main>
     </div>
@@ -1,5 +1,5 @@
 import { useState, useEffect, useMemo, useCallback } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { getSupabaseClient } from "@/integrations/supabase/lazyClient";
 import { Sidebar } from "@/components/dashboard/Sidebar";
@@ -90,6 +90,8 @@ export default function Transactions() {
   const navigate = useNavigate();
   const { user, loading: authLoading } = useAuth();
   const { toast } = useToast();
+  // Filters can be preset from a link (chat citations link here with ?card=...)
+  const [searchParams] = useSearchParams();
   
   const [loading, setLoading] = useState(true);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
@@ -97,11 +99,11 @@ export default function Transactions() {
   const [categories, setCategories] = useState<string[]>([]);
   
   // Filters
-  const [searchQuery, setSearchQuery] = useState("");
-  const [selectedCategory, setSelectedCategory] = useState<string>("all");
-  const [selectedCard, setSelectedCard] = useState<string>("all");
-  const [dateFrom, setDateFrom] = useState("");
-  const [dateTo, setDateTo] = useState("");
+  const [searchQuery, setSearchQuery] = useState(() => searchParams.get("q") ?? "");
+  const [selectedCategory, setSelectedCategory] = useState<string>(() => searchParams.get("category") ?? "all");
+  const [selectedCard, setSelectedCard] = useState<string>(() => searchParams.get("card") ?? "all");
+  const [dateFrom, setDateFrom] = useState(() => searchParams.get("from") ?? "");
+  const [dateTo, setDateTo] = useState(() => searchParams.get("to") ?? "");
   
   // Pagination
   const [currentPage, setCurrentPage] = useState(1);
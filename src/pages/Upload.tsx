@@ -20,8 +20,11 @@ import {
   Lock,
   ChevronDown
 } from "lucide-react";
-import { validatePDFFile, mapServerError, type PDFParseError } from "@/lib/pdf-validation";
+import { validatePDFFile, mapServerError, PARSE_ERROR_DETAILS, type PDFParseError } from "@/lib/pdf-validation";
 import { PDFErrorAlert } from "@/components/upload/PDFErrorAlert";
+import { waitForParseJob, PARSE_STAGE_LABELS, type ParseJobProgress, type ParseResult } from "@/lib/parse-jobs";
+import { PDFPasswordDialog } from "@/components/upload/PDFPasswordDialog";
+import { QuarantinedRows, type QuarantinedRow } from "@/components/upload/QuarantinedRows";
 
 interface ParsedData {
   transaction_count?: number;
@@ -36,6 +39,13 @@ interface ParsedData {
   card_name?: string;
   pii_masked?: number;
   confidence?: number;
+  quarantined_count?: number;
+  quarantined_rows?: QuarantinedRow[];
+  statement_summary?: {
+    closingRewardPoints?: number;
+    totalAmountDue?: number;
+    paymentDueDate?: string;
+  };
 }
 
 interface UploadedFile {
@@ -73,6 +83,7 @@ export default function Upload() {
   const [isDragging, setIsDragging] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [isParsing, setIsParsing] = useState<string | null>(null);
+  const [parseProgress, setParseProgress] = useState<ParseJobProgress | null>(null);
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
   const [loadingFiles, setLoadingFiles] = useState(true);
   const [selectedCard, setSelectedCard] = useState("default");
@@ -80,6 +91,11 @@ export default function Upload() {
   // PDF parsing error state for displaying actionable errors
   const [parseError, setParseError] = useState<(PDFParseError & { fileName?: string }) | null>(null);
 
+  // Password prompt for encrypted statements (retried on INVALID_PASSWORD)
+  const [passwordPrompt, setPasswordPrompt] = useState<{ file: UploadedFile; error?: string } | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [isPasswordHelpOpen, setIsPasswordHelpOpen] = useState(false);
+
   useEffect(() => {
     if (!authLoading && !user) {
       navigate("/auth");
@@ -247,16 +263,17 @@ export default function Upload() {
     }
   };
 
-  const parseDocument = async (file: UploadedFile): Promise<{ success: boolean; errorCode?: string }> => {
+  const parseDocument = async (file: UploadedFile, password?: string): Promise<{ success: boolean; errorCode?: string }> => {
     if (!user) return { success: false, errorCode: "NO_USER" };
 
     setIsParsing(file.id);
+    setParseProgress(null);
     setParseError(null);
 
     try {
       toast({
         title: "Parsing document...",
-        description: "AI is analyzing your credit card statement. This may take 10-30 seconds.",
+        description: "AI is analyzing your credit card statement. Long statements are processed in page batches - progress is shown on the file.",
       });
 
       const sb = getSupabaseClient();
@@ -265,35 +282,34 @@ export default function Upload() {
       const response = await sb.functions.invoke("parse-pdf", {
         body: {
           documentId: file.id,
-          userId: user.id,
           filePath: file.file_path,
           cardName: selectedCard,
+          password,
+          background: true,
         },
       });
 
-      // Handle password-protected PDF error
-      if (response.data?.error === "PASSWORD_REQUIRED" || response.data?.requiresPassword) {
-        setParseError({
-          code: "PASSWORD_REQUIRED",
-          message: "This PDF is password protected.",
-          userMessage: "This PDF is password protected.",
-          suggestedAction: "Please unlock the PDF using an external tool (like iLovePDF or Adobe Acrobat) before uploading, or request an unencrypted statement from your bank.",
-          fileName: file.file_name,
-        });
-        
-        toast({
-          variant: "destructive",
-          title: "Password-protected PDF",
-          description: "Please upload an unlocked/passwordless PDF file.",
-        });
-        
+      // Background parse: follow the job's progress until it finishes
+      const data: ParseResult = response.data?.status === "queued" && response.data.jobId
+        ? await waitForParseJob(sb, response.data.jobId, setParseProgress)
+        : response.data;
+
+      // Handle password-protected PDF: prompt for the password (again, if it was wrong)
+      if (data?.error === "INVALID_PASSWORD") {
+        setPasswordPrompt({ file, error: PARSE_ERROR_DETAILS.INVALID_PASSWORD.userMessage });
+        setIsParsing(null);
+        return { success: false, errorCode: "INVALID_PASSWORD" };
+      }
+
+      if (data?.error === "PASSWORD_REQUIRED" || data?.requiresPassword) {
+        setPasswordPrompt({ file });
         setIsParsing(null);
         return { success: false, errorCode: "PASSWORD_REQUIRED" };
       }
 
       // Check for structured error responses from the edge function
-      if (response.data?.error) {
-        const parsedError = mapServerError(response.data);
+      if (data?.error) {
+        const parsedError = mapServerError(data);
         setParseError({
           ...parsedError,
           fileName: file.file_name,
@@ -305,24 +321,28 @@ export default function Upload() {
           description: parsedError.userMessage,
         });
         setIsParsing(null);
-        return { success: false, errorCode: response.data.error };
+        return { success: false, errorCode: data.error };
       }
 
       if (response.error) {
         throw response.error;
       }
-      
-      const data = response.data;
 
       setParseError(null);
 
       const detectedInfo = data.detected_card 
         ? `Detected: ${data.detected_card.bank_name} ${data.detected_card.card_name} (${Math.round(data.confidence * 100)}% confidence)`
         : "";
+      const duplicateInfo = data.duplicate_transactions_skipped
+        ? `${data.duplicate_transactions_skipped} already imported transactions skipped. `
+        : "";
+      const reviewInfo = data.quarantined_count
+        ? `${data.quarantined_count} rows need review. `
+        : "";
       
       toast({
         title: "Document parsed successfully",
-        description: `Extracted ${data.transactions_parsed} transactions using Adaptive AI. ${data.pii_masked} PII fields masked. ${detectedInfo}`,
+        description: `Extracted ${data.transactions_parsed} transactions using Adaptive AI. ${duplicateInfo}${reviewInfo}${data.pii_masked} PII fields masked. ${detectedInfo}`,
       });
 
       fetchUploadedFiles();
@@ -334,14 +354,7 @@ export default function Upload() {
 
       // Check for password requirement in error
       if (errorMessage.includes("PASSWORD_REQUIRED") || errorMessage.includes("password")) {
-        setParseError({
-          code: "PASSWORD_REQUIRED",
-          message: "This PDF is password protected.",
-          userMessage: "This PDF is password protected.",
-          suggestedAction: "Please unlock the PDF using an external tool (like iLovePDF or Adobe Acrobat) before uploading, or request an unencrypted statement from your bank.",
-          fileName: file.file_name,
-        });
-        
+        setPasswordPrompt({ file });
         setIsParsing(null);
         return { success: false, errorCode: "PASSWORD_REQUIRED" };
       }
@@ -362,6 +375,43 @@ export default function Upload() {
     }
   };
 
+  const submitPassword = async (password: string) => {
+    if (!passwordPrompt) return;
+    const { file } = passwordPrompt;
+
+    setIsUnlocking(true);
+    try {
+      const sb = getSupabaseClient();
+      if (!sb) throw new Error("Backend not configured");
+
+      // Verify the password first so a typo doesn't cost a full parse
+      const { data, error } = await sb.functions.invoke("check-pdf-password", {
+        body: { filePath: file.file_path, password },
+      });
+
+      if (error) throw error;
+
+      if (data?.error === "INVALID_PASSWORD") {
+        setPasswordPrompt({ file, error: PARSE_ERROR_DETAILS.INVALID_PASSWORD.userMessage });
+        return;
+      }
+
+      setPasswordPrompt(null);
+
+      if (data?.error) {
+        setParseError({ ...mapServerError(data), fileName: file.file_name });
+        return;
+      }
+
+      await parseDocument(file, password);
+    } catch (error) {
+      console.error("Password check error:", error);
+      setPasswordPrompt({ file, error: "Could not verify the password. Please try again." });
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
   const deleteFile = async (file: UploadedFile) => {
     try {
       const sb = getSupabaseClient();
@@ -434,6 +484,15 @@ export default function Upload() {
           </p>
         </div>
 
+        <PDFPasswordDialog
+          open={passwordPrompt !== null}
+          fileName={passwordPrompt?.file.file_name}
+          errorMessage={passwordPrompt?.error}
+          isSubmitting={isUnlocking}
+          onSubmit={submitPassword}
+          onCancel={() => setPasswordPrompt(null)}
+        />
+
         {/* Error Alert */}
         {parseError && (
           <div className="mb-6">
@@ -522,7 +581,7 @@ export default function Upload() {
                           {isDragging ? "Drop files here" : "Click to upload or drag and drop"}
                         </p>
                         <p className="text-sm text-muted-foreground mt-1">
-                          PDF files only (max 20MB) • Passwordless PDFs only
+                          PDF files only (max 20MB) • Password-protected PDFs supported
                         </p>
                       </div>
                     </div>
@@ -531,47 +590,37 @@ export default function Upload() {
               </div>
 
               {/* Password Notice - Simple Collapsible */}
-              {(() => {
-                const [isOpen, setIsOpen] = useState(false);
-                return (
-                  <div className="p-3 bg-warning/10 border border-warning/30 rounded-lg">
-                    <button
-                      onClick={() => setIsOpen(!isOpen)}
-                      className="flex items-center justify-between w-full text-left"
-                    >
-                      <div className="flex items-center gap-2">
-                        <Lock className="w-4 h-4 text-warning flex-shrink-0" />
-                        <span className="text-sm font-medium text-warning">Have a password-protected PDF?</span>
+              <div className="p-3 bg-warning/10 border border-warning/30 rounded-lg">
+                <button
+                  onClick={() => setIsPasswordHelpOpen(!isPasswordHelpOpen)}
+                  className="flex items-center justify-between w-full text-left"
+                >
+                  <div className="flex items-center gap-2">
+                    <Lock className="w-4 h-4 text-warning flex-shrink-0" />
+                    <span className="text-sm font-medium text-warning">Have a password-protected PDF?</span>
+                  </div>
+                  <ChevronDown className={`w-4 h-4 text-muted-foreground transition-transform duration-200 ${isPasswordHelpOpen ? 'rotate-180' : ''}`} />
+                </button>
+                
+                {isPasswordHelpOpen && (
+                  <div className="pt-3 mt-3 border-t border-warning/20">
+                    <div className="text-sm space-y-3">
+                      <div className="space-y-1.5">
+                        <p className="font-medium text-foreground text-xs">Upload it as usual</p>
+                        <p className="text-xs text-muted-foreground">
+                          You'll be asked for the password when parsing. Bank statement passwords are usually based on your date of birth or PAN. The password is never stored.
+                        </p>
                       </div>
-                      <ChevronDown className={`w-4 h-4 text-muted-foreground transition-transform duration-200 ${isOpen ? 'rotate-180' : ''}`} />
-                    </button>
-                    
-                    {isOpen && (
-                      <div className="pt-3 mt-3 border-t border-warning/20">
-                        <div className="text-sm space-y-3">
-                          <div className="space-y-1.5">
-                            <p className="font-medium text-foreground text-xs">Quick Unlock (Browser)</p>
-                            <p className="text-xs text-muted-foreground">
-                              Open PDF in browser → Enter password → Press <kbd className="px-1 py-0.5 bg-muted rounded text-[10px] font-mono">Ctrl/Cmd+P</kbd> → Save as PDF
-                            </p>
-                          </div>
-                          <div className="space-y-1.5">
-                            <p className="font-medium text-foreground text-xs">Or use online tool</p>
-                            <a 
-                              href="https://www.ilovepdf.com/unlock_pdf" 
-                              target="_blank" 
-                              rel="noopener noreferrer"
-                              className="text-xs underline text-primary hover:text-primary/80"
-                            >
-                              iLovePDF Unlock →
-                            </a>
-                          </div>
-                        </div>
+                      <div className="space-y-1.5">
+                        <p className="font-medium text-foreground text-xs">Or unlock it first (Browser)</p>
+                        <p className="text-xs text-muted-foreground">
+                          Open PDF in browser → Enter password → Press <kbd className="px-1 py-0.5 bg-muted rounded text-[10px] font-mono">Ctrl/Cmd+P</kbd> → Save as PDF
+                        </p>
                       </div>
-                    )}
+                    </div>
                   </div>
-                );
-              })()}
+                )}
+              </div>
 
               {/* Security Notice */}
               <div className="flex items-start gap-3 p-3 bg-muted/30 rounded-lg">
@@ -658,9 +707,18 @@ export default function Upload() {
                             <CheckCircle2 className="w-4 h-4" />
                             <span>
                               {parsed.transaction_count ?? parsed.transactions_parsed ?? 0} transactions •{" "}
-                              {parsed.total_points_earned ?? 0} points
+                              {parsed.statement_summary?.closingRewardPoints !== undefined
+                                ? `${parsed.statement_summary.closingRewardPoints.toLocaleString("en-IN")} points balance`
+                                : `${parsed.total_points_earned ?? 0} points`}
                             </span>
                           </div>
+                          {parsed.statement_summary?.paymentDueDate && (
+                            <p className="text-xs text-muted-foreground">
+                              {parsed.statement_summary.totalAmountDue !== undefined &&
+                                `₹${parsed.statement_summary.totalAmountDue.toLocaleString("en-IN")} `}
+                              due {new Date(parsed.statement_summary.paymentDueDate).toLocaleDateString("en-IN", { day: "numeric", month: "short" })}
+                            </p>
+                          )}
                           {parsed.detected_card && (
                             <p className="text-xs text-muted-foreground">
                               {parsed.bank_name} {parsed.card_name}
@@ -668,6 +726,9 @@ export default function Upload() {
                                 ` (${Math.round(parsed.detected_card.confidence * 100)}% confidence)`}
                             </p>
                           )}
+                          {parsed.quarantined_rows && (
+                            <QuarantinedRows rows={parsed.quarantined_rows} total={parsed.quarantined_count} />
+                          )}
                         </div>
                         ) : (
                         <Button
@@ -680,7 +741,13 @@ export default function Upload() {
                           {isParsing === file.id ? (
                             <>
                               <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                              Parsing...
+                              {parseProgress
+                                ? `${PARSE_STAGE_LABELS[parseProgress.stage] ?? "Parsing"}${
+                                    parseProgress.pagesTotal
+                                      ? ` (${parseProgress.pagesProcessed}/${parseProgress.pagesTotal} pages)`
+                                      : ""
+                                  }... ${parseProgress.progress}%`
+                                : "Parsing..."}
                             </>
                           ) : (
                             <>
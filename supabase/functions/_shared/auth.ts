@@ -0,0 +1,112 @@
+/**
+ * Shared caller authentication for edge functions
+ *
+ * Functions are deployed with verify_jwt = false and query through a service-role
+ * client, so the caller is resolved here from the Authorization bearer token - never
+ * from a userId in the request body:
+ * - user access token → that user; a userId in the body must match it
+ * - service role key  → internal caller acting for the userId it names (cron jobs, other functions)
+ * - anything else (no token, publishable/anon key, expired session) → rejected
+ *
+ * Unscoped actions (reports across all users) additionally need authorizePrivileged:
+ * the service role, or a user with the admin role in user_roles.
+ *
+ * Configuration (Deno env):
+ * - SUPABASE_SERVICE_ROLE_KEY: recognises internal service-role callers
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type AuthErrorCode = "AUTH_REQUIRED" | "INVALID_TOKEN" | "USER_MISMATCH" | "FORBIDDEN";
+
+export type Caller =
+  | { isServiceRole: false; userId: string }
+  | { isServiceRole: true; userId: string | null }; // the user the service caller acts for, if any
+
+export type AuthResult =
+  | { success: true; caller: Caller }
+  | { success: false; status: 401 | 403; code: AuthErrorCode; message: string };
+
+const AUTH_MESSAGES: Record<AuthErrorCode, string> = {
+  AUTH_REQUIRED: "Sign in to continue.",
+  INVALID_TOKEN: "Your session has expired. Sign in again.",
+  USER_MISMATCH: "This request does not belong to the signed-in user.",
+  FORBIDDEN: "You don't have access to this action.",
+};
+
+function failure(status: 401 | 403, code: AuthErrorCode): AuthResult {
+  return { success: false, status, code, message: AUTH_MESSAGES[code] };
+}
+
+function bearerToken(req: Request): string | null {
+  const match = req.headers.get("Authorization")?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+// Constant-time comparison so the service key can't be recovered from response timing
+function safeEqual(a: string, b: string): boolean {
+  const left = new TextEncoder().encode(a);
+  const right = new TextEncoder().encode(b);
+  if (left.length !== right.length) return false;
+  let diff = 0;
+  for (let i = 0; i < left.length; i++) diff |= left[i] ^ right[i];
+  return diff === 0;
+}
+
+/**
+ * Resolve the caller from the bearer token. claimedUserId is the userId the request
+ * body names (if any): a user may only name themselves; the service role names who it acts for.
+ */
+export async function authenticateRequest(
+  req: Request,
+  supabase: SupabaseClient,
+  claimedUserId?: unknown
+): Promise<AuthResult> {
+  const token = bearerToken(req);
+  if (!token) return failure(401, "AUTH_REQUIRED");
+
+  const claimed = typeof claimedUserId === "string" && claimedUserId ? claimedUserId : null;
+
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (serviceKey && safeEqual(token, serviceKey)) {
+    return { success: true, caller: { isServiceRole: true, userId: claimed } };
+  }
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data?.user) {
+    // The publishable/anon key is a valid JWT but not a user session
+    return failure(401, "INVALID_TOKEN");
+  }
+  if (claimed && claimed !== data.user.id) {
+    console.warn(`[AUTH] User ${data.user.id} sent a request for ${claimed}`);
+    return failure(403, "USER_MISMATCH");
+  }
+  return { success: true, caller: { isServiceRole: false, userId: data.user.id } };
+}
+
+/**
+ * Allow an unscoped/privileged action: service role, or a user with the admin role
+ */
+export async function authorizePrivileged(supabase: SupabaseClient, caller: Caller): Promise<AuthResult> {
+  if (caller.isServiceRole) return { success: true, caller };
+
+  const { data: isAdmin, error } = await supabase.rpc("has_role", { _user_id: caller.userId, _role: "admin" });
+  if (error) console.error("[AUTH] Role lookup error:", error);
+  return isAdmin === true ? { success: true, caller } : failure(403, "FORBIDDEN");
+}
+
+/**
+ * Allow access to a storage object only inside the user's folder ("<userId>/<file>")
+ */
+export function authorizeStoragePath(caller: Caller, userId: string, path: string): AuthResult {
+  const segments = path.split("/");
+  if (segments[0] !== userId || segments.includes("..")) return failure(403, "FORBIDDEN");
+  return { success: true, caller };
+}
+
+/**
+ * Response body for a failed authentication
+ */
+export function authErrorBody(result: Extract<AuthResult, { success: false }>): Record<string, string> {
+  return { error: result.code, userMessage: result.message };
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  EMBEDDING_DIMENSIONS,
+  LocalHashingEmbeddingProvider,
+  generateEmbeddings,
+  setEmbeddingProvider,
+  type EmbeddingProvider,
+  type EmbeddingResult,
+} from "./embeddings.ts";
+
+function cosine(a: number[], b: number[]): number {
+  return a.reduce((sum, v, i) => sum + v * b[i], 0);
+}
+
+// Embeds each text as [its length], failing the batch that holds the text "fail"
+function countingProvider(): EmbeddingProvider & { embed: ReturnType<typeof vi.fn> } {
+  const embed = vi.fn(async (texts: string[]): Promise<EmbeddingResult[]> => {
+    if (texts.includes("fail")) throw new Error("provider unavailable");
+    return texts.map((text) => ({ embedding: [text.length], model: "counting", tokens: 1 }));
+  });
+  return { name: "counting", model: "counting", dimensions: 1, embed };
+}
+
+describe("embeddings", () => {
+  afterEach(() => {
+    setEmbeddingProvider(null);
+    vi.restoreAllMocks();
+  });
+
+  it("embeds locally into deterministic unit vectors", async () => {
+    const provider = new LocalHashingEmbeddingProvider();
+    const [first] = await provider.embed(["Swiggy order ₹1,240 on 12 Mar"]);
+    const [again] = await new LocalHashingEmbeddingProvider().embed(["Swiggy order ₹1,240 on 12 Mar"]);
+
+    expect(first.embedding).toHaveLength(EMBEDDING_DIMENSIONS);
+    expect(first.embedding).toEqual(again.embedding);
+    expect(Math.sqrt(cosine(first.embedding, first.embedding))).toBeCloseTo(1, 4);
+    expect((await provider.embed(["  "]))[0].embedding).toEqual([]);
+  });
+
+  it("scores similar texts above unrelated ones", async () => {
+    const [query, similar, unrelated] = await new LocalHashingEmbeddingProvider().embed([
+      "airport lounge access on my credit card",
+      "complimentary airport lounge access with this card",
+      "late payment fee and finance charges",
+    ]);
+
+    expect(cosine(query.embedding, similar.embedding)).toBeGreaterThan(cosine(query.embedding, unrelated.embedding));
+  });
+
+  it("sends one request per batch and empties only a batch that fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const provider = countingProvider();
+    setEmbeddingProvider(provider);
+
+    const results = await generateEmbeddings(["a", "bb", "fail", "dddd", "eeeee"], undefined, 2);
+
+    expect(provider.embed).toHaveBeenCalledTimes(3);
+    expect(provider.embed.mock.calls.map(([texts]) => texts)).toEqual([["a", "bb"], ["fail", "dddd"], ["eeeee"]]);
+    expect(results.map((r) => r.embedding)).toEqual([[1], [2], [], [], [5]]);
+  });
+});
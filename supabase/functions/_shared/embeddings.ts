@@ -1,36 +1,269 @@
 /**
  * Shared embedding utilities for edge functions
- * Uses Lovable AI Gateway chat completions to generate pseudo-embeddings
- * 
- * Note: The Lovable AI Gateway doesn't support dedicated embedding models.
- * For semantic search, we use the existing pgvector infrastructure.
- * Benefits are stored without embeddings initially and can use text search.
+ *
+ * Embeddings are produced by a pluggable EmbeddingProvider:
+ * - "openai": any OpenAI-compatible /embeddings endpoint (OpenAI, Azure, local servers)
+ * - "local":  dependency-free hashed TF-IDF projection (deterministic, offline)
+ *
+ * Both backends emit vectors sized to the vector(1536) columns used by
+ * document_chunks, card_benefits and query_cache.
+ *
+ * Configuration (Deno env):
+ * - EMBEDDING_PROVIDER: "openai" | "local" (default: "openai" when a key is set, else "local")
+ * - EMBEDDING_API_URL:  base URL of the OpenAI-compatible API (default: https://api.openai.com/v1)
+ * - EMBEDDING_API_KEY:  API key (falls back to OPENAI_API_KEY)
+ * - EMBEDDING_MODEL:    model name (default: text-embedding-3-small)
+ *
+ * Note: vectors from different providers are not comparable. Switching provider
+ * requires re-indexing stored chunks, benefits and cache entries.
  */
 
+export const EMBEDDING_DIMENSIONS = 1536;
+
+const DEFAULT_API_URL = "https://api.openai.com/v1";
+const DEFAULT_MODEL = "text-embedding-3-small";
+const DEFAULT_BATCH_SIZE = 64;
+const REQUEST_TIMEOUT_MS = 15000;
+const MAX_INPUT_CHARS = 8000;
+
 export interface EmbeddingResult {
   embedding: number[];
   model: string;
   tokens: number;
 }
 
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<EmbeddingResult[]>;
+}
+
+const EMPTY_RESULT: EmbeddingResult = { embedding: [], model: "none", tokens: 0 };
+
+// ============================================================================
+// OPENAI-COMPATIBLE HTTP PROVIDER
+// ============================================================================
+
+interface OpenAIProviderOptions {
+  apiUrl: string;
+  apiKey: string;
+  model: string;
+  dimensions?: number;
+}
+
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "openai";
+  readonly model: string;
+  readonly dimensions: number;
+  private readonly apiUrl: string;
+  private readonly apiKey: string;
+
+  constructor(options: OpenAIProviderOptions) {
+    this.apiUrl = options.apiUrl.replace(/\/+$/, "");
+    this.apiKey = options.apiKey;
+    this.model = options.model;
+    this.dimensions = options.dimensions ?? EMBEDDING_DIMENSIONS;
+  }
+
+  async embed(texts: string[]): Promise<EmbeddingResult[]> {
+    if (texts.length === 0) return [];
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(`${this.apiUrl}/embeddings`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${this.apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model: this.model,
+          input: texts.map((t) => t.slice(0, MAX_INPUT_CHARS)),
+          dimensions: this.dimensions,
+        }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Embedding API error: ${response.status} ${errorText.substring(0, 200)}`);
+      }
+
+      const data = await response.json();
+      const rows: Array<{ index: number; embedding: number[] }> = data.data || [];
+      const totalTokens: number = data.usage?.total_tokens || 0;
+      const tokensPerText = Math.ceil(totalTokens / texts.length);
+
+      // Responses carry an index; don't rely on ordering
+      const byIndex = new Map(rows.map((r) => [r.index, r.embedding]));
+
+      return texts.map((_, i) => {
+        const embedding = byIndex.get(i) || [];
+        if (embedding.length !== this.dimensions) {
+          console.error(`Embedding dimension mismatch: got ${embedding.length}, expected ${this.dimensions}`);
+          return { ...EMPTY_RESULT };
+        }
+        return { embedding, model: this.model, tokens: tokensPerText };
+      });
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
+
+// ============================================================================
+// LOCAL HASHED TF-IDF PROVIDER
+// Feature hashing of word unigrams, bigrams and character trigrams into a
+// fixed 1536-dim space. Term frequency is log-scaled and common words are
+// down-weighted with a static IDF prior, so no corpus statistics are needed.
+// ============================================================================
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "can", "do", "does", "for", "from",
+  "how", "i", "if", "in", "is", "it", "its", "me", "my", "of", "on", "or", "so", "that", "the",
+  "this", "to", "was", "what", "when", "where", "which", "who", "why", "will", "with", "you", "your",
+]);
+
+const WEIGHTS = {
+  unigram: 1.0,
+  bigram: 0.6,
+  trigram: 0.25,
+  stopword: 0.1,
+};
+
+/**
+ * 32-bit FNV-1a hash (deterministic across runtimes)
+ */
+function fnv1a(input: string, seed = 0x811c9dc5): number {
+  let hash = seed;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+export class LocalHashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "local";
+  readonly model = "local-hash-tfidf-v1";
+  readonly dimensions: number;
+
+  constructor(dimensions: number = EMBEDDING_DIMENSIONS) {
+    this.dimensions = dimensions;
+  }
+
+  embed(texts: string[]): Promise<EmbeddingResult[]> {
+    return Promise.resolve(texts.map((text) => this.embedOne(text)));
+  }
+
+  private embedOne(text: string): EmbeddingResult {
+    const tokens = tokenize(text.slice(0, MAX_INPUT_CHARS));
+    if (tokens.length === 0) return { ...EMPTY_RESULT };
+
+    const features = new Map<string, number>();
+    const add = (feature: string, weight: number) => {
+      features.set(feature, (features.get(feature) || 0) + weight);
+    };
+
+    tokens.forEach((token, i) => {
+      add(`w:${token}`, STOPWORDS.has(token) ? WEIGHTS.stopword : WEIGHTS.unigram);
+      if (i > 0) add(`b:${tokens[i - 1]}_${token}`, WEIGHTS.bigram);
+      if (token.length > 3) {
+        const padded = `^${token}$`;
+        for (let j = 0; j <= padded.length - 3; j++) {
+          add(`c:${padded.slice(j, j + 3)}`, WEIGHTS.trigram);
+        }
+      }
+    });
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [feature, rawWeight] of features) {
+      // Sublinear TF keeps repeated tokens from dominating the vector
+      const weight = rawWeight <= 1 ? rawWeight : 1 + Math.log(rawWeight);
+      const bucket = fnv1a(feature) % this.dimensions;
+      const sign = (fnv1a(feature, 0x9747b28c) & 1) === 0 ? 1 : -1;
+      vector[bucket] += sign * weight;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    if (norm === 0) return { ...EMPTY_RESULT };
+
+    return {
+      embedding: vector.map((v) => Math.round((v / norm) * 1e6) / 1e6),
+      model: this.model,
+      tokens: tokens.length,
+    };
+  }
+}
+
+// ============================================================================
+// PROVIDER SELECTION
+// ============================================================================
+
+let cachedProvider: EmbeddingProvider | null = null;
+
+/**
+ * Resolve the configured embedding provider (memoized per isolate)
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (cachedProvider) return cachedProvider;
+
+  const apiKey = Deno.env.get("EMBEDDING_API_KEY") || Deno.env.get("OPENAI_API_KEY");
+  const configured = Deno.env.get("EMBEDDING_PROVIDER")?.toLowerCase();
+  const providerName = configured || (apiKey ? "openai" : "local");
+
+  if (providerName === "openai" && apiKey) {
+    cachedProvider = new OpenAICompatibleEmbeddingProvider({
+      apiUrl: Deno.env.get("EMBEDDING_API_URL") || DEFAULT_API_URL,
+      apiKey,
+      model: Deno.env.get("EMBEDDING_MODEL") || DEFAULT_MODEL,
+    });
+  } else {
+    if (providerName === "openai") {
+      console.warn("EMBEDDING_PROVIDER=openai but no API key configured - using local embeddings");
+    }
+    cachedProvider = new LocalHashingEmbeddingProvider();
+  }
+
+  console.log(`Embedding provider: ${cachedProvider.name} (${cachedProvider.model})`);
+  return cachedProvider;
+}
+
 /**
- * Generate text embedding placeholder
- * Note: Lovable AI Gateway only supports chat models, not embedding models.
- * For production semantic search, consider using an external embedding API.
- * Returns null to indicate embeddings are not available.
+ * Override the provider (tests and offline tooling)
+ */
+export function setEmbeddingProvider(provider: EmbeddingProvider | null): void {
+  cachedProvider = provider;
+}
+
+/**
+ * Generate a text embedding using the configured provider
+ * Note: _apiKey is kept for call-site compatibility; provider credentials come from env.
+ * Returns an empty embedding on failure so callers can fall back to text search.
  */
 export async function generateEmbedding(
-  _text: string,
-  _apiKey: string
+  text: string,
+  _apiKey?: string
 ): Promise<EmbeddingResult> {
-  // Lovable AI Gateway doesn't support embedding models
-  // Return empty result - benefits will work without embeddings using text search
-  console.log("Note: Embeddings not available via Lovable AI Gateway. Using text search.");
-  return {
-    embedding: [],
-    model: "none",
-    tokens: 0,
-  };
+  try {
+    const [result] = await getEmbeddingProvider().embed([text]);
+    return result || { ...EMPTY_RESULT };
+  } catch (error) {
+    console.error(`Failed to generate embedding: ${error}`);
+    return { ...EMPTY_RESULT };
+  }
 }
 
 /**
@@ -45,26 +278,27 @@ export function embeddingToVector(embedding: number[]): string | null {
 
 /**
  * Batch generate embeddings for multiple texts
+ * Sends one provider request per batchSize texts; a failed batch yields
+ * empty embeddings for its texts without affecting the other batches.
  */
 export async function generateEmbeddings(
   texts: string[],
-  apiKey: string
+  _apiKey?: string,
+  batchSize: number = DEFAULT_BATCH_SIZE
 ): Promise<EmbeddingResult[]> {
+  const provider = getEmbeddingProvider();
   const results: EmbeddingResult[] = [];
-  
-  for (const text of texts) {
+
+  for (let start = 0; start < texts.length; start += batchSize) {
+    const batch = texts.slice(start, start + batchSize);
     try {
-      const result = await generateEmbedding(text, apiKey);
-      results.push(result);
+      const batchResults = await provider.embed(batch);
+      results.push(...batchResults);
     } catch (error) {
-      console.error(`Failed to generate embedding: ${error}`);
-      results.push({
-        embedding: [],
-        model: "none",
-        tokens: 0,
-      });
+      console.error(`Failed to generate embeddings for batch at ${start}: ${error}`);
+      results.push(...batch.map(() => ({ ...EMPTY_RESULT })));
     }
   }
-  
+
   return results;
 }
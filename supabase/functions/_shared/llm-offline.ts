@@ -0,0 +1,205 @@
+/**
+ * Offline LLM backends (no network)
+ *
+ * - StubLlmBackend: deterministic answers in the OpenAI response format. Prompts that ask for a
+ *   JSON array or object get "[]" / "{}"; anything else echoes the last user message, or - in
+ *   "grounded" mode - quotes the numbered context items that share words with it, citing each,
+ *   so retrieval and citations can be scored without a model. It never calls tools. Serves CI
+ *   runs and the golden-set harness (supabase/golden).
+ * - FixtureLlmBackend: replays responses recorded from a real backend, keyed by a hash of the
+ *   request body, so a pipeline run is reproduced exactly. Given an upstream backend it records
+ *   instead: every successful exchange is saved before being returned.
+ */
+
+import type { LlmBackend } from "./llm.ts";
+
+export interface LlmFixture {
+  request: { model: unknown; preview: string }; // for humans browsing the fixtures
+  status: number;
+  contentType: string;
+  body: string;
+}
+
+export interface FixtureStore {
+  read(key: string): Promise<LlmFixture | null>;
+  write(key: string, fixture: LlmFixture): Promise<void>;
+}
+
+const PREVIEW_LENGTH = 200;
+
+// Message text only: image/PDF parts would swamp a preview or token estimate
+function messageText(body: Record<string, unknown>): string[] {
+  const messages = (body.messages ?? []) as Array<{ content?: unknown }>;
+  return messages.map((m) => {
+    if (typeof m.content === "string") return m.content;
+    if (Array.isArray(m.content)) {
+      return m.content.map((part) => (typeof part?.text === "string" ? part.text : "")).join("\n");
+    }
+    return "";
+  });
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Canonical JSON (object keys sorted) so the same request always hashes to the same key
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export async function fixtureKey(body: Record<string, unknown>): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(canonicalJson(body)));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// ============================================================================
+// STUB BACKEND
+// ============================================================================
+
+export type StubMode = "echo" | "grounded";
+
+const GROUNDED_ITEMS = 3;
+
+function words(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter((w) => w.length >= 4));
+}
+
+/**
+ * Quote the context items (rag-chat's "[n] (label)" blocks) that share the most words with the
+ * question, each with its citation marker
+ */
+function groundedAnswer(system: string, question: string): string {
+  const asked = words(question);
+  const items = [...system.matchAll(/^\[(\d+)\] \(([^\n]*)\)\n((?:.+\n?)+)/gm)].map((m) => {
+    const text = m[3].trim();
+    const overlap = [...words(`${m[2]} ${text}`)].filter((w) => asked.has(w)).length;
+    return { marker: Number(m[1]), text, overlap };
+  });
+  const chosen = items
+    .filter((item) => item.overlap > 0)
+    .sort((a, b) => b.overlap - a.overlap || a.marker - b.marker)
+    .slice(0, GROUNDED_ITEMS);
+
+  if (chosen.length === 0) return "I couldn't find that in your data.";
+  return chosen.map((item) => `${item.text} [${item.marker}]`).join("\n\n");
+}
+
+/**
+ * The stub's answer to a request (also used by the stub HTTP server)
+ */
+export function stubAnswer(body: Record<string, unknown>, mode: StubMode = "echo"): string {
+  const texts = messageText(body);
+  const last = texts[texts.length - 1] ?? "";
+  if (/JSON array/i.test(last)) return "[]";
+  if (/\bJSON\b/.test(last)) return "{}";
+  if (mode === "grounded") return groundedAnswer(texts[0] ?? "", last);
+  return `Stub answer from ${body.model}: ${last}`;
+}
+
+export class StubLlmBackend implements LlmBackend {
+  readonly name = "stub";
+
+  constructor(private readonly mode: StubMode = "echo") {}
+
+  send(body: Record<string, unknown>): Promise<Response> {
+    const content = stubAnswer(body, this.mode);
+    const usage = {
+      prompt_tokens: estimateTokens(messageText(body).join("\n")),
+      completion_tokens: estimateTokens(content),
+    };
+
+    if (!body.stream) {
+      return Promise.resolve(Response.json({
+        model: body.model,
+        choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+        usage,
+      }));
+    }
+
+    // One chunk per word, then the finish reason, usage and [DONE], as the gateway streams them
+    const events = [
+      ...content.split(/(?<=\s)/).map((word) => ({ choices: [{ index: 0, delta: { content: word } }] })),
+      { choices: [{ index: 0, delta: {}, finish_reason: "stop" }] },
+      { choices: [], usage },
+    ];
+    const sse = events.map((e) => `data: ${JSON.stringify(e)}\n\n`).join("") + "data: [DONE]\n\n";
+    return Promise.resolve(new Response(sse, { headers: { "Content-Type": "text/event-stream" } }));
+  }
+}
+
+// ============================================================================
+// RECORD / REPLAY BACKEND
+// ============================================================================
+
+export class FixtureLlmBackend implements LlmBackend {
+  readonly name: string;
+  private readonly store: FixtureStore;
+  private readonly upstream?: LlmBackend;
+
+  constructor(store: FixtureStore, upstream?: LlmBackend) {
+    this.store = store;
+    this.upstream = upstream;
+    this.name = upstream ? "record" : "replay";
+  }
+
+  async send(body: Record<string, unknown>, signal: AbortSignal): Promise<Response> {
+    const key = await fixtureKey(body);
+
+    if (!this.upstream) {
+      const fixture = await this.store.read(key);
+      if (!fixture) {
+        return Response.json(
+          { error: `No fixture ${key} for ${body.model}` },
+          { status: 404, headers: { "x-llm-fixture-missing": key } }
+        );
+      }
+      return new Response(fixture.body, { status: fixture.status, headers: { "Content-Type": fixture.contentType } });
+    }
+
+    // Streams are buffered while recording; replay returns them in one piece
+    const response = await this.upstream.send(body, signal);
+    const text = await response.text();
+    const contentType = response.headers.get("Content-Type") || "application/json";
+    if (response.ok) {
+      const texts = messageText(body);
+      await this.store.write(key, {
+        request: { model: body.model, preview: (texts[texts.length - 1] ?? "").substring(0, PREVIEW_LENGTH) },
+        status: response.status,
+        contentType,
+        body: text,
+      });
+    }
+    return new Response(text, { status: response.status, headers: response.headers });
+  }
+}
+
+/**
+ * Fixtures as one JSON file per request in a directory
+ */
+export function denoFixtureStore(dir: string): FixtureStore {
+  const path = (key: string) => `${dir.replace(/\/+$/, "")}/${key}.json`;
+  return {
+    async read(key) {
+      try {
+        return JSON.parse(await Deno.readTextFile(path(key)));
+      } catch (error) {
+        if (error instanceof Deno.errors.NotFound) return null;
+        throw error;
+      }
+    },
+    async write(key, fixture) {
+      await Deno.mkdir(dir, { recursive: true });
+      await Deno.writeTextFile(path(key), JSON.stringify(fixture, null, 2));
+    },
+  };
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { SseCollector, completeChat, setLlmBackend, streamChat, type LlmBackend } from "./llm.ts";
+import { FixtureLlmBackend, StubLlmBackend, type FixtureStore, type LlmFixture } from "./llm-offline.ts";
+
+const request = { model: "test/model", messages: [{ role: "user" as const, content: "Best card for fuel?" }] };
+
+function scriptedBackend(...responses: Response[]): LlmBackend & { send: ReturnType<typeof vi.fn> } {
+  const send = vi.fn();
+  for (const response of responses) send.mockResolvedValueOnce(response);
+  return { name: "scripted", send };
+}
+
+function memoryStore(): FixtureStore & { fixtures: Map<string, LlmFixture> } {
+  const fixtures = new Map<string, LlmFixture>();
+  return {
+    fixtures,
+    read: async (key) => fixtures.get(key) ?? null,
+    write: async (key, fixture) => {
+      fixtures.set(key, fixture);
+    },
+  };
+}
+
+describe("LLM client", () => {
+  afterEach(() => {
+    setLlmBackend(null);
+  });
+
+  it("retries rate limits and gives up at once on exhausted credits", async () => {
+    const backend = scriptedBackend(
+      new Response("slow down", { status: 429, headers: { "Retry-After": "0" } }),
+      Response.json({ choices: [{ message: { content: "Use the fuel card" }, finish_reason: "stop" }], usage: { prompt_tokens: 12, completion_tokens: 4 } })
+    );
+    setLlmBackend(backend);
+
+    await expect(completeChat(request)).resolves.toMatchObject({
+      success: true,
+      content: "Use the fuel card",
+      usage: { tokensInput: 12, tokensOutput: 4 },
+    });
+    expect(backend.send).toHaveBeenCalledTimes(2);
+
+    const exhausted = scriptedBackend(new Response("no credits", { status: 402 }));
+    setLlmBackend(exhausted);
+    await expect(completeChat(request)).resolves.toMatchObject({
+      success: false,
+      error: { code: "CREDITS_EXHAUSTED", status: 402, upstreamStatus: 402, detail: "no credits" },
+    });
+    expect(exhausted.send).toHaveBeenCalledTimes(1);
+  });
+
+  it("collects content, finish reason and usage from SSE split across chunks", async () => {
+    const collector = new SseCollector();
+    collector.push('data: {"choices":[{"delta":{"content":"Fuel "}}]}\n\ndata: {"choices":[{"del');
+    collector.push('ta":{"content":"surcharge"},"finish_reason":"stop"}]}\n\n: keep-alive\n');
+    collector.push('data: {"choices":[],"usage":{"prompt_tokens":9,"completion_tokens":2}}\n\ndata: [DONE]');
+
+    expect(collector.summary()).toEqual({
+      content: "Fuel surcharge",
+      finishReason: "stop",
+      usage: { tokensInput: 9, tokensOutput: 2 },
+    });
+
+    setLlmBackend(new StubLlmBackend());
+    const streamed = await streamChat(request);
+    if (!streamed.success) throw new Error(streamed.error.message);
+    const passedOn = await new Response(streamed.body).text();
+    expect(passedOn).toContain("data: [DONE]");
+    expect((await streamed.done).content).toBe("Stub answer from test/model: Best card for fuel?");
+  });
+
+  it("answers from the numbered context in grounded stub mode", async () => {
+    setLlmBackend(new StubLlmBackend("grounded"));
+    const system = "You are RewardIQ.\n\nRELEVANT CONTEXT:\n\n## Your Credit Cards\n[1] (Your cards and points balances)\n" +
+      "HDFC Infinia (****1234): 48,000 points\n\n## Card Benefits Knowledge Base\n[2] (BPCL SBI Card: Fuel surcharge waiver)\n" +
+      "BPCL SBI Card: Fuel surcharge waiver - 1% waiver on fuel spends";
+
+    const grounded = await completeChat({ ...request, messages: [{ role: "system", content: system }, ...request.messages] });
+    expect(grounded).toMatchObject({ success: true, content: "BPCL SBI Card: Fuel surcharge waiver - 1% waiver on fuel spends [2]" });
+
+    const unrelated = await completeChat({ ...request, messages: [{ role: "system", content: system }, { role: "user", content: "Hello?" }] });
+    expect(unrelated).toMatchObject({ success: true, content: "I couldn't find that in your data." });
+  });
+
+  it("replays recorded exchanges and reports requests that were never recorded", async () => {
+    const store = memoryStore();
+    setLlmBackend(new FixtureLlmBackend(store, new StubLlmBackend()));
+    const recorded = await completeChat(request);
+    expect(store.fixtures.size).toBe(1);
+
+    const replay = new FixtureLlmBackend(store);
+    const sent = vi.spyOn(replay, "send");
+    setLlmBackend(replay);
+    await expect(completeChat(request)).resolves.toEqual(recorded);
+
+    await expect(completeChat({ ...request, temperature: 0 })).resolves.toMatchObject({
+      success: false,
+      error: { code: "FIXTURE_MISSING" },
+    });
+    expect(sent).toHaveBeenCalledTimes(2);
+  });
+});
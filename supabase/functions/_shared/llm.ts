@@ -0,0 +1,398 @@
+/**
+ * Shared LLM client for edge functions
+ *
+ * Every chat completion goes through completeChat/streamChat, which add a per-attempt timeout,
+ * retries with exponential backoff for transient failures (429, 5xx, network errors, timeouts),
+ * usage capture and error classification; withModelFallback moves on to the next model of a
+ * list when one stays unavailable. The request itself is sent by a pluggable LlmBackend:
+ * - "http":   an OpenAI-compatible /chat/completions endpoint - the Lovable AI gateway by default,
+ *             or a local stub server (see _test/llm-stub-server.ts) via LLM_API_URL
+ * - "stub":   deterministic in-process answers, no network (llm-offline.ts)
+ * - "replay": answers recorded earlier, read from the fixture directory (no network)
+ * - "record": calls the http endpoint and saves every exchange to the fixture directory
+ *
+ * Failures come back as { success: false, error } with an LlmError whose status is the one the
+ * function should answer with (429 and 402 are passed on so the app can tell the user).
+ *
+ * Configuration (Deno env):
+ * - LLM_BACKEND:      "http" | "stub" | "replay" | "record" (default: "http")
+ * - LLM_STUB_MODE:    "grounded" to have the stub answer from the prompt's context (default: echo)
+ * - LLM_API_URL:      base URL of the OpenAI-compatible API (default: https://ai.gateway.lovable.dev/v1)
+ * - LLM_API_KEY:      API key (falls back to LOVABLE_API_KEY)
+ * - LLM_FIXTURES_DIR: fixture directory for record/replay (default: ./llm-fixtures)
+ * - LLM_TIMEOUT_MS:   default per-attempt timeout (default: 30000)
+ * - LLM_MAX_RETRIES:  default retries after the first attempt (default: 2)
+ */
+
+import { FixtureLlmBackend, StubLlmBackend, denoFixtureStore } from "./llm-offline.ts";
+
+const DEFAULT_API_URL = "https://ai.gateway.lovable.dev/v1";
+const DEFAULT_FIXTURES_DIR = "./llm-fixtures";
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_MAX_RETRIES = 2;
+const BACKOFF_BASE_MS = 500;
+const MAX_BACKOFF_MS = 8000;
+const ERROR_DETAIL_LENGTH = 500;
+
+export interface LlmToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+export interface LlmMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string | null | Array<Record<string, unknown>>; // parts for multimodal input
+  tool_calls?: LlmToolCall[];
+  tool_call_id?: string;
+}
+
+export interface ChatCompletionRequest {
+  model: string;
+  messages: LlmMessage[];
+  max_tokens?: number;
+  temperature?: number;
+  tools?: unknown[];
+  tool_choice?: "auto" | "none";
+}
+
+export interface LlmUsage {
+  tokensInput: number;
+  tokensOutput: number;
+}
+
+export type LlmErrorCode =
+  | "RATE_LIMITED"
+  | "CREDITS_EXHAUSTED"
+  | "TIMEOUT"
+  | "UNAVAILABLE"
+  | "REQUEST_REJECTED"
+  | "AUTH_FAILED"
+  | "FIXTURE_MISSING";
+
+export interface LlmError {
+  code: LlmErrorCode;
+  status: number; // status for the function's own response
+  message: string;
+  upstreamStatus?: number;
+  detail?: string; // start of the upstream error body
+}
+
+export interface LlmCallOptions {
+  timeoutMs?: number;
+  maxRetries?: number;
+  label?: string; // log prefix, e.g. "[EXTRACT]"
+}
+
+export type CompletionResult =
+  | {
+    success: true;
+    content: string;
+    toolCalls: LlmToolCall[];
+    finishReason: string | null;
+    usage: LlmUsage;
+  }
+  | { success: false; error: LlmError };
+
+export interface StreamSummary {
+  content: string;
+  finishReason: string | null;
+  usage: LlmUsage;
+}
+
+export type StreamResult =
+  | {
+    success: true;
+    body: ReadableStream<Uint8Array>; // the upstream SSE bytes, unchanged
+    done: Promise<StreamSummary>; // resolves once body has been read to the end
+  }
+  | { success: false; error: LlmError };
+
+export interface LlmBackend {
+  readonly name: string;
+  send(body: Record<string, unknown>, signal: AbortSignal): Promise<Response>;
+}
+
+const ERROR_MESSAGES: Record<LlmErrorCode, string> = {
+  RATE_LIMITED: "Rate limit exceeded",
+  CREDITS_EXHAUSTED: "AI credits exhausted",
+  TIMEOUT: "The AI service did not respond in time",
+  UNAVAILABLE: "AI service unavailable",
+  REQUEST_REJECTED: "The AI service rejected the request",
+  AUTH_FAILED: "The AI service rejected the API key",
+  FIXTURE_MISSING: "No recorded LLM response matches this request",
+};
+
+const ERROR_STATUS: Record<LlmErrorCode, number> = {
+  RATE_LIMITED: 429,
+  CREDITS_EXHAUSTED: 402,
+  TIMEOUT: 504,
+  UNAVAILABLE: 502,
+  REQUEST_REJECTED: 502,
+  AUTH_FAILED: 500,
+  FIXTURE_MISSING: 500,
+};
+
+const RETRYABLE = new Set<LlmErrorCode>(["RATE_LIMITED", "TIMEOUT", "UNAVAILABLE"]);
+
+function llmError(code: LlmErrorCode, upstreamStatus?: number, detail?: string): LlmError {
+  return { code, status: ERROR_STATUS[code], message: ERROR_MESSAGES[code], upstreamStatus, detail };
+}
+
+/**
+ * Classify a non-2xx response from a backend
+ */
+export function classifyStatus(status: number, fixtureMissing = false): LlmErrorCode {
+  if (fixtureMissing) return "FIXTURE_MISSING";
+  if (status === 429) return "RATE_LIMITED";
+  if (status === 402) return "CREDITS_EXHAUSTED";
+  if (status === 408 || status === 504) return "TIMEOUT";
+  if (status === 401 || status === 403) return "AUTH_FAILED";
+  if (status >= 500) return "UNAVAILABLE";
+  return "REQUEST_REJECTED";
+}
+
+// Exponential backoff with jitter; a Retry-After header (seconds) wins when present
+function backoffDelay(attempt: number, retryAfter: string | null): number {
+  const fromHeader = retryAfter ? Number(retryAfter) * 1000 : NaN;
+  const delay = Number.isFinite(fromHeader) ? fromHeader : BACKOFF_BASE_MS * 2 ** attempt * (1 + Math.random() * 0.25);
+  return Math.min(delay, MAX_BACKOFF_MS);
+}
+
+function envNumber(key: string, fallback: number): number {
+  const value = Number(Deno.env.get(key));
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Send a request with timeout and retries; resolves to the first 2xx response or the final error.
+ * For streams the timeout covers the wait for the response headers only.
+ */
+async function send(
+  body: Record<string, unknown>,
+  options: LlmCallOptions
+): Promise<{ success: true; response: Response } | { success: false; error: LlmError }> {
+  const backend = getLlmBackend();
+  const timeoutMs = options.timeoutMs ?? envNumber("LLM_TIMEOUT_MS", DEFAULT_TIMEOUT_MS);
+  const maxRetries = options.maxRetries ?? envNumber("LLM_MAX_RETRIES", DEFAULT_MAX_RETRIES);
+  const label = options.label ?? "[LLM]";
+
+  let error: LlmError = llmError("UNAVAILABLE");
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+    let retryAfter: string | null = null;
+
+    try {
+      const response = await backend.send(body, controller.signal);
+      if (response.ok) return { success: true, response };
+
+      retryAfter = response.headers.get("retry-after");
+      const detail = (await response.text().catch(() => "")).substring(0, ERROR_DETAIL_LENGTH);
+      error = llmError(classifyStatus(response.status, response.headers.has("x-llm-fixture-missing")), response.status, detail);
+    } catch (e) {
+      error = controller.signal.aborted ? llmError("TIMEOUT") : llmError("UNAVAILABLE", undefined, String(e));
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    if (!RETRYABLE.has(error.code) || attempt === maxRetries) break;
+    const delay = backoffDelay(attempt, retryAfter);
+    console.warn(`${label} ${body.model} ${error.code} (${error.upstreamStatus ?? "no response"}), retrying in ${Math.round(delay)}ms`);
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+
+  console.error(`${label} ${body.model} failed: ${error.code} ${error.upstreamStatus ?? ""} ${error.detail ?? ""}`.trim());
+  return { success: false, error };
+}
+
+/**
+ * Non-streaming chat completion
+ */
+export async function completeChat(request: ChatCompletionRequest, options: LlmCallOptions = {}): Promise<CompletionResult> {
+  const sent = await send({ ...request }, options);
+  if (!sent.success) return sent;
+
+  try {
+    const data = await sent.response.json();
+    const choice = data.choices?.[0];
+    return {
+      success: true,
+      content: choice?.message?.content || "",
+      toolCalls: choice?.message?.tool_calls ?? [],
+      finishReason: choice?.finish_reason ?? null,
+      usage: {
+        tokensInput: data.usage?.prompt_tokens || 0,
+        tokensOutput: data.usage?.completion_tokens || 0,
+      },
+    };
+  } catch (e) {
+    return { success: false, error: llmError("UNAVAILABLE", sent.response.status, `Unreadable response: ${e}`) };
+  }
+}
+
+/**
+ * Streaming chat completion. The SSE body is handed back unchanged (callers pass it on to
+ * the browser); the content and usage it carries are collected on the way through.
+ */
+export async function streamChat(request: ChatCompletionRequest, options: LlmCallOptions = {}): Promise<StreamResult> {
+  const sent = await send({ ...request, stream: true, stream_options: { include_usage: true } }, options);
+  if (!sent.success) return sent;
+
+  const collector = new SseCollector();
+  let finish: (summary: StreamSummary) => void = () => {};
+  const done = new Promise<StreamSummary>((resolve) => (finish = resolve));
+  const decoder = new TextDecoder();
+
+  const body = sent.response.body!.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        controller.enqueue(chunk);
+        collector.push(decoder.decode(chunk, { stream: true }));
+      },
+      flush() {
+        collector.push(decoder.decode());
+        finish(collector.summary());
+      },
+    })
+  );
+
+  return { success: true, body, done };
+}
+
+/**
+ * Call each model in turn until one succeeds. A model that is still rate limited, timing out or
+ * unavailable after its own retries hands over to the next; any other failure (exhausted
+ * credits, a rejected request) would fail on every model and is returned as it is.
+ */
+export async function withModelFallback<R extends CompletionResult | StreamResult>(
+  models: string[],
+  call: (model: string) => Promise<R>
+): Promise<{ model: string; result: R; failed: string[] }> {
+  const failed: string[] = [];
+  for (let i = 0; ; i++) {
+    const result = await call(models[i]);
+    const error = result.success ? null : (result as { error: LlmError }).error;
+    if (!error || !RETRYABLE.has(error.code) || i >= models.length - 1) {
+      return { model: models[i], result, failed };
+    }
+    console.warn(`${models[i]} ${error.code} - falling back to ${models[i + 1]}`);
+    failed.push(`${models[i]} (${error.code})`);
+  }
+}
+
+/**
+ * Incremental parser for OpenAI-style SSE: lines may be split across network chunks,
+ * so a partial line is held until its newline arrives.
+ */
+export class SseCollector {
+  private buffer = "";
+  private content = "";
+  private finishReason: string | null = null;
+  private usage: LlmUsage = { tokensInput: 0, tokensOutput: 0 };
+
+  push(text: string): void {
+    this.buffer += text;
+    let newline: number;
+    while ((newline = this.buffer.indexOf("\n")) !== -1) {
+      this.readLine(this.buffer.slice(0, newline).trim());
+      this.buffer = this.buffer.slice(newline + 1);
+    }
+  }
+
+  summary(): StreamSummary {
+    if (this.buffer.trim()) {
+      this.readLine(this.buffer.trim());
+      this.buffer = "";
+    }
+    return { content: this.content, finishReason: this.finishReason, usage: { ...this.usage } };
+  }
+
+  private readLine(line: string): void {
+    if (!line.startsWith("data:")) return;
+    const payload = line.slice(5).trim();
+    if (!payload || payload === "[DONE]") return;
+
+    try {
+      const data = JSON.parse(payload);
+      const choice = data.choices?.[0];
+      if (choice?.delta?.content) this.content += choice.delta.content;
+      if (choice?.finish_reason) this.finishReason = choice.finish_reason;
+      if (data.usage) {
+        this.usage = {
+          tokensInput: data.usage.prompt_tokens || 0,
+          tokensOutput: data.usage.completion_tokens || 0,
+        };
+      }
+    } catch {
+      // Not JSON (comments, keep-alives) - nothing to collect
+    }
+  }
+}
+
+// ============================================================================
+// HTTP BACKEND
+// ============================================================================
+
+export class HttpLlmBackend implements LlmBackend {
+  readonly name = "http";
+  private readonly apiUrl: string;
+  private readonly apiKey: string;
+
+  constructor(apiUrl: string, apiKey: string) {
+    this.apiUrl = apiUrl.replace(/\/+$/, "");
+    this.apiKey = apiKey;
+  }
+
+  send(body: Record<string, unknown>, signal: AbortSignal): Promise<Response> {
+    return fetch(`${this.apiUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+  }
+}
+
+// ============================================================================
+// BACKEND SELECTION
+// ============================================================================
+
+let cachedBackend: LlmBackend | null = null;
+
+/**
+ * Resolve the configured backend (memoized per isolate)
+ */
+export function getLlmBackend(): LlmBackend {
+  if (cachedBackend) return cachedBackend;
+
+  const name = Deno.env.get("LLM_BACKEND")?.toLowerCase() || "http";
+  const apiKey = Deno.env.get("LLM_API_KEY") || Deno.env.get("LOVABLE_API_KEY") || "";
+  const http = new HttpLlmBackend(Deno.env.get("LLM_API_URL") || DEFAULT_API_URL, apiKey);
+  const fixtures = denoFixtureStore(Deno.env.get("LLM_FIXTURES_DIR") || DEFAULT_FIXTURES_DIR);
+
+  if (name === "stub") {
+    cachedBackend = new StubLlmBackend(Deno.env.get("LLM_STUB_MODE") === "grounded" ? "grounded" : "echo");
+  } else if (name === "replay") {
+    cachedBackend = new FixtureLlmBackend(fixtures);
+  } else if (name === "record") {
+    cachedBackend = new FixtureLlmBackend(fixtures, http);
+  } else {
+    if (name !== "http") console.warn(`Unknown LLM_BACKEND "${name}" - using http`);
+    if (!apiKey) console.warn("No LLM_API_KEY or LOVABLE_API_KEY configured - LLM requests will be rejected");
+    cachedBackend = http;
+  }
+
+  console.log(`LLM backend: ${cachedBackend.name}`);
+  return cachedBackend;
+}
+
+/**
+ * Override the backend (tests and offline tooling)
+ */
+export function setLlmBackend(backend: LlmBackend | null): void {
+  cachedBackend = backend;
+}
@@ -0,0 +1,91 @@
+/**
+ * Versioned model price table
+ *
+ * Prices live in model_prices, one row per model and effective_from date; a price change is a
+ * new row, so a cost is always computed with the price in force when the tokens were used.
+ * The table is cached per isolate for a few minutes. When it can't be read, the built-in
+ * prices below are used (the table's initial rows).
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface ModelPrice {
+  model: string;
+  effectiveFrom: string; // ISO timestamp
+  inputPerMillion: number; // USD
+  outputPerMillion: number;
+}
+
+// Priced as this model when a model has no row (the default chat model)
+export const FALLBACK_PRICED_MODEL = "google/gemini-3-flash-preview";
+
+const PRICE_TABLE_TTL_MS = 5 * 60 * 1000;
+
+export const DEFAULT_MODEL_PRICES: ModelPrice[] = [
+  { model: "google/gemini-3-flash-preview", effectiveFrom: "2026-01-01T00:00:00Z", inputPerMillion: 0.10, outputPerMillion: 0.40 },
+  { model: "google/gemini-2.5-flash", effectiveFrom: "2026-01-01T00:00:00Z", inputPerMillion: 0.075, outputPerMillion: 0.30 },
+  { model: "google/gemini-2.5-flash-lite", effectiveFrom: "2026-01-01T00:00:00Z", inputPerMillion: 0.10, outputPerMillion: 0.40 },
+  { model: "google/gemini-2.5-pro", effectiveFrom: "2026-01-01T00:00:00Z", inputPerMillion: 1.25, outputPerMillion: 5.00 },
+  { model: "openai/gpt-5", effectiveFrom: "2026-01-01T00:00:00Z", inputPerMillion: 5.00, outputPerMillion: 15.00 },
+  { model: "openai/gpt-5-mini", effectiveFrom: "2026-01-01T00:00:00Z", inputPerMillion: 0.15, outputPerMillion: 0.60 },
+];
+
+let cachedPrices: { prices: ModelPrice[]; loadedAt: number } | null = null;
+
+/**
+ * All price rows (cached per isolate; built-in prices when the table is unavailable or empty)
+ */
+export async function loadPriceTable(supabase: SupabaseClient): Promise<ModelPrice[]> {
+  if (cachedPrices && Date.now() - cachedPrices.loadedAt < PRICE_TABLE_TTL_MS) return cachedPrices.prices;
+
+  const { data, error } = await supabase
+    .from("model_prices")
+    .select("model, effective_from, input_per_million, output_per_million");
+
+  if (error || !data || data.length === 0) {
+    if (error) console.error("Price table unavailable, using built-in prices:", error.message);
+    return DEFAULT_MODEL_PRICES;
+  }
+
+  const prices = data.map((row) => ({
+    model: row.model,
+    effectiveFrom: row.effective_from,
+    inputPerMillion: Number(row.input_per_million),
+    outputPerMillion: Number(row.output_per_million),
+  }));
+  cachedPrices = { prices, loadedAt: Date.now() };
+  return prices;
+}
+
+/**
+ * The price in force for a model at a time: its latest row effective by then, else its
+ * earliest row. Unknown models are priced as FALLBACK_PRICED_MODEL.
+ */
+export function priceFor(prices: ModelPrice[], model: string, at: Date = new Date()): ModelPrice {
+  const rows = prices
+    .filter((p) => p.model === model)
+    .sort((a, b) => Date.parse(a.effectiveFrom) - Date.parse(b.effectiveFrom));
+
+  if (rows.length === 0) {
+    return model === FALLBACK_PRICED_MODEL
+      ? DEFAULT_MODEL_PRICES.find((p) => p.model === FALLBACK_PRICED_MODEL)!
+      : priceFor(prices, FALLBACK_PRICED_MODEL, at);
+  }
+
+  const inForce = rows.filter((p) => Date.parse(p.effectiveFrom) <= at.getTime());
+  return inForce[inForce.length - 1] ?? rows[0];
+}
+
+/**
+ * Estimated cost in USD of a request at a time (now by default)
+ */
+export function calculateCost(
+  prices: ModelPrice[],
+  model: string,
+  tokensInput: number,
+  tokensOutput: number,
+  at: Date = new Date()
+): number {
+  const price = priceFor(prices, model, at);
+  return (tokensInput * price.inputPerMillion + tokensOutput * price.outputPerMillion) / 1_000_000;
+}
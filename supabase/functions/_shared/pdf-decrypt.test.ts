@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { bytesToBase64, decryptPdf } from "./pdf-decrypt.ts";
+
+const WEBHOOK_URL = "http://localhost:5678/webhook/pdf-decrypt";
+const locked = new TextEncoder().encode("%PDF-1.7 /Encrypt 12 0 R");
+const unlocked = new TextEncoder().encode("%PDF-1.7 unlocked");
+
+function webhookReplies(body: unknown, status = 200) {
+  const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify(body), { status }));
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+describe("PDF decryption webhook", () => {
+  beforeEach(() => {
+    vi.stubEnv("N8N_DECRYPT_WEBHOOK_URL", WEBHOOK_URL);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("returns the unlocked PDF and forwards the password only to the webhook", async () => {
+    const fetchMock = webhookReplies({ success: true, unlockedPdfBase64: bytesToBase64(unlocked), pageCount: 4 });
+
+    const result = await decryptPdf(locked, "ASHA1990");
+
+    expect(result).toEqual({ success: true, pdfBytes: unlocked, pageCount: 4 });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(WEBHOOK_URL);
+    expect(JSON.parse(init.body)).toEqual({ pdfBase64: bytesToBase64(locked), password: "ASHA1990" });
+  });
+
+  it("classifies a wrong password as INVALID_PASSWORD so Upload asks again", async () => {
+    webhookReplies({ success: false, error: "WRONG_PASSWORD", message: "Incorrect password" });
+
+    expect(await decryptPdf(locked, "wrong")).toEqual({
+      success: false,
+      code: "INVALID_PASSWORD",
+      message: "The password provided is incorrect",
+    });
+  });
+
+  it("reports an unreachable or failing webhook as DECRYPT_FAILED, not a wrong password", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new TypeError("fetch failed")));
+    expect(await decryptPdf(locked, "ASHA1990")).toEqual({
+      success: false,
+      code: "DECRYPT_FAILED",
+      message: "Decryption request failed",
+    });
+
+    webhookReplies({ message: "Workflow not active" }, 502);
+    expect(await decryptPdf(locked, "ASHA1990")).toMatchObject({ success: false, code: "DECRYPT_FAILED" });
+  });
+
+  it("is unavailable without a webhook URL", async () => {
+    vi.stubEnv("N8N_DECRYPT_WEBHOOK_URL", "");
+    const fetchMock = webhookReplies({});
+
+    expect(await decryptPdf(locked, "ASHA1990")).toMatchObject({ success: false, code: "DECRYPT_UNAVAILABLE" });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Shared PDF encryption detection and password-based decryption
+ *
+ * Decryption is delegated to the webhook described in docs/N8N-PDF-DECRYPT-SETUP.md:
+ *   POST { pdfBase64, password }
+ *   → { success: true, unlockedPdfBase64, pageCount, message }
+ *   → { success: false, error: "WRONG_PASSWORD" | "NOT_ENCRYPTED" | "DECRYPT_FAILED", message }
+ *
+ * Configuration (Deno env):
+ * - N8N_DECRYPT_WEBHOOK_URL:   webhook endpoint (any server honouring the contract, e.g. a local mock)
+ * - N8N_DECRYPT_WEBHOOK_TOKEN: optional bearer token sent as Authorization header
+ */
+
+const DECRYPT_TIMEOUT_MS = 30000;
+
+export type DecryptErrorCode =
+  | "INVALID_PASSWORD"
+  | "NOT_ENCRYPTED"
+  | "DECRYPT_FAILED"
+  | "DECRYPT_UNAVAILABLE";
+
+export type DecryptResult =
+  | { success: true; pdfBytes: Uint8Array; pageCount: number | null }
+  | { success: false; code: DecryptErrorCode; message: string };
+
+/**
+ * Check if PDF is password-protected by examining binary markers
+ */
+export function isPdfPasswordProtected(pdfData: Uint8Array): boolean {
+  const checkLength = Math.min(pdfData.length, 50000);
+  const text = new TextDecoder("latin1").decode(pdfData.slice(0, checkLength));
+
+  const isEncrypted = text.includes("/Encrypt") ||
+                      text.includes("/Filter/Standard") ||
+                      text.includes("/Filter /Standard") ||
+                      (text.includes("/U ") && text.includes("/O ")) ||
+                      text.includes("/Crypt");
+
+  if (isEncrypted) {
+    console.log("[PDF-CHECK] Detected encryption markers in PDF binary");
+  }
+
+  return isEncrypted;
+}
+
+/**
+ * Encode bytes as base64 without blowing the call stack on large files
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Whether a decryption backend is configured
+ */
+export function isDecryptionAvailable(): boolean {
+  return Boolean(Deno.env.get("N8N_DECRYPT_WEBHOOK_URL"));
+}
+
+/**
+ * Decrypt a password-protected PDF via the decrypt webhook.
+ * The password is only forwarded to the webhook - it is never logged or stored.
+ */
+export async function decryptPdf(pdfBytes: Uint8Array, password: string): Promise<DecryptResult> {
+  const webhookUrl = Deno.env.get("N8N_DECRYPT_WEBHOOK_URL");
+  if (!webhookUrl) {
+    return {
+      success: false,
+      code: "DECRYPT_UNAVAILABLE",
+      message: "PDF decryption service is not configured",
+    };
+  }
+
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  const token = Deno.env.get("N8N_DECRYPT_WEBHOOK_TOKEN");
+  if (token) headers.Authorization = `Bearer ${token}`;
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), DECRYPT_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(webhookUrl, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ pdfBase64: bytesToBase64(pdfBytes), password }),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      console.error("[DECRYPT] Webhook error:", response.status);
+      return { success: false, code: "DECRYPT_FAILED", message: `Decrypt webhook returned ${response.status}` };
+    }
+
+    const result = await response.json();
+
+    if (result.success && result.unlockedPdfBase64) {
+      console.log(`[DECRYPT] PDF unlocked (${result.pageCount ?? "?"} pages)`);
+      return {
+        success: true,
+        pdfBytes: base64ToBytes(result.unlockedPdfBase64),
+        pageCount: typeof result.pageCount === "number" ? result.pageCount : null,
+      };
+    }
+
+    if (result.error === "WRONG_PASSWORD") {
+      return { success: false, code: "INVALID_PASSWORD", message: "The password provided is incorrect" };
+    }
+    if (result.error === "NOT_ENCRYPTED") {
+      return { success: false, code: "NOT_ENCRYPTED", message: "This PDF is not password-protected" };
+    }
+    return { success: false, code: "DECRYPT_FAILED", message: result.message || "Decryption failed" };
+  } catch (error) {
+    console.error("[DECRYPT] Request failed:", error);
+    return {
+      success: false,
+      code: "DECRYPT_FAILED",
+      message: error instanceof Error && error.name === "AbortError" ? "Decryption timed out" : "Decryption request failed",
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Shared semantic cache conventions for edge functions
+ *
+ * rag-chat reads and writes query_cache; the analytics function administers it (pinning
+ * curated answers, tuning settings). Both need the same scope names, cache keys and settings.
+ *
+ * Scopes:
+ * - "curated": answers pinned by an admin, served to every user ahead of anything else
+ * - "public":  answers built without user data
+ * - "user:<id>:card:<id|all>": answers built from one user's data, keyed by their data version
+ *
+ * Settings (threshold and TTL) come from cache_settings per task type, falling back to
+ * the 'default' row and then to the constants below.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.92; // 92% similarity for cache hits
+export const DEFAULT_CACHE_TTL_DAYS = 7;
+
+export interface CacheScope {
+  scope: string;
+  version: number; // the user's data version (0 for shared scopes)
+}
+
+export interface CacheSettings {
+  similarityThreshold: number;
+  ttlDays: number;
+}
+
+export const CURATED_CACHE_SCOPE: CacheScope = { scope: "curated", version: 0 };
+export const PUBLIC_CACHE_SCOPE: CacheScope = { scope: "public", version: 0 };
+
+/**
+ * Generate SHA-256 hash for exact cache matching
+ */
+export async function generateCacheKey(query: string, scope: CacheScope = PUBLIC_CACHE_SCOPE): Promise<string> {
+  const encoder = new TextEncoder();
+  // Scope the cache to avoid cross-user / cross-card leakage (e.g., same question with different card selected)
+  const data = encoder.encode(`${scope.scope}@${scope.version}::${query.toLowerCase().trim()}`);
+  const hashBuffer = await crypto.subtle.digest("SHA-256", data);
+  const hashArray = Array.from(new Uint8Array(hashBuffer));
+  return hashArray.map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Threshold and TTL for a task type. A lookup failure falls back to the defaults
+ * rather than disabling the cache.
+ */
+export async function loadCacheSettings(supabase: SupabaseClient, taskType: string): Promise<CacheSettings> {
+  const { data, error } = await supabase
+    .from("cache_settings")
+    .select("task_type, similarity_threshold, ttl_days")
+    .in("task_type", [taskType, "default"]);
+  if (error) console.error("Cache settings lookup error:", error);
+
+  const row = data?.find((s) => s.task_type === taskType) ?? data?.find((s) => s.task_type === "default");
+  return {
+    similarityThreshold: row?.similarity_threshold ?? DEFAULT_SIMILARITY_THRESHOLD,
+    ttlDays: row?.ttl_days ?? DEFAULT_CACHE_TTL_DAYS,
+  };
+}
+
+/**
+ * Expiry for a new entry written now
+ */
+export function cacheExpiry(settings: CacheSettings, now: Date = new Date()): string {
+  return new Date(now.getTime() + settings.ttlDays * 24 * 60 * 60 * 1000).toISOString();
+}
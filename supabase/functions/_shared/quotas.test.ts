@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import { admissionCheck, deductUsage, firstExceeded, quotaAllowances, type QuotaUsageRow } from "./quotas.ts";
+
+const NOW = new Date("2026-10-19T12:00:30Z");
+
+function usage(overrides: Partial<QuotaUsageRow>): QuotaUsageRow {
+  return {
+    scope: "user",
+    requests_per_minute: 20,
+    monthly_tokens: 2_000_000,
+    monthly_cost_usd: "10.0000",
+    requests_last_minute: 3,
+    oldest_request_at: "2026-10-19T12:00:10Z",
+    tokens_used: 150_000,
+    cost_used: "0.4200",
+    ...overrides,
+  };
+}
+
+describe("quotas", () => {
+  it("reports the allowance left and when each quota resets", () => {
+    const [user] = quotaAllowances([usage({})], NOW);
+
+    expect(user.requestsPerMinute).toEqual({ limit: 20, used: 3, remaining: 17, resetAt: "2026-10-19T12:01:10.000Z" });
+    expect(user.monthlyTokens).toMatchObject({ remaining: 1_850_000, resetAt: "2026-11-01T00:00:00.000Z" });
+    expect(user.monthlyCostUsd?.remaining).toBeCloseTo(9.58);
+    expect(firstExceeded([user], NOW)).toBeNull();
+
+    const [after] = deductUsage([user], 1_000, 0.01);
+    expect(after.monthlyTokens?.used).toBe(151_000);
+    expect(after.monthlyCostUsd?.remaining).toBeCloseTo(9.57);
+  });
+
+  it("refuses a spent quota, the request rate first", () => {
+    const allowances = quotaAllowances([
+      usage({ requests_last_minute: 20, tokens_used: 2_000_000 }),
+    ], NOW);
+
+    expect(firstExceeded(allowances, NOW)).toMatchObject({
+      scope: "user",
+      quota: "requests_per_minute",
+      limit: 20,
+      used: 20,
+      resetAt: "2026-10-19T12:01:10.000Z",
+      retryAfterSeconds: 40,
+    });
+  });
+
+  it("holds the user to their organization's quota and treats null limits as unlimited", () => {
+    const allowances = quotaAllowances([
+      usage({ requests_per_minute: null, monthly_tokens: null, monthly_cost_usd: null }),
+      usage({ scope: "organization", monthly_cost_usd: 50, cost_used: "50.1000", requests_last_minute: 5 }),
+    ], NOW);
+
+    expect(allowances[0]).toMatchObject({ requestsPerMinute: null, monthlyTokens: null, monthlyCostUsd: null });
+    const exceeded = firstExceeded(allowances, NOW);
+    expect(exceeded).toMatchObject({ scope: "organization", quota: "monthly_cost_usd", resetAt: "2026-11-01T00:00:00.000Z" });
+    expect(exceeded?.message).toBe("Your organization used this month's AI spend allowance. It resets on 2026-11-01.");
+  });
+
+  it("reports admit_ai_request's decision, refusing only when a quota was spent", () => {
+    // Admitted: usage already includes this request, the last one the minute allows
+    const admitted = admissionCheck([{ ...usage({ requests_last_minute: 20 }), admitted: true }], NOW);
+    expect(admitted).toMatchObject({ allowed: true });
+    expect(admitted.allowances[0].requestsPerMinute?.remaining).toBe(0);
+
+    const refused = admissionCheck([
+      { ...usage({}), admitted: false },
+      { ...usage({ scope: "organization", monthly_tokens: 500_000, tokens_used: 500_000 }), admitted: false },
+    ], NOW);
+    expect(refused).toMatchObject({ allowed: false, exceeded: { scope: "organization", quota: "monthly_tokens" } });
+
+    expect(admissionCheck([], NOW)).toEqual({ allowed: true, allowances: [] });
+  });
+});
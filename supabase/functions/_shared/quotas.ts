@@ -0,0 +1,186 @@
+/**
+ * AI quotas and rate limits
+ *
+ * A user is held to their own ai_quotas row (else the default row) and, when their organization
+ * has one, the organization's too - every quota that applies must have room:
+ * - requests_per_minute: requests admitted in the last 60 seconds (ai_requests)
+ * - monthly_tokens / monthly_cost_usd: token_usage since the start of the month (UTC)
+ * A NULL limit is unlimited. Service-role calls that don't act for a user are not limited.
+ *
+ * If the usage can't be read the request is let through: a quota outage shouldn't stop chat.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type QuotaScope = "user" | "organization";
+export type QuotaKind = "requests_per_minute" | "monthly_tokens" | "monthly_cost_usd";
+
+export interface QuotaLimit {
+  limit: number;
+  used: number;
+  remaining: number;
+  resetAt: string; // ISO timestamp when used drops back
+}
+
+/**
+ * Allowance left under one quota (null limits are unlimited)
+ */
+export interface QuotaAllowance {
+  scope: QuotaScope;
+  requestsPerMinute: QuotaLimit | null;
+  monthlyTokens: QuotaLimit | null;
+  monthlyCostUsd: QuotaLimit | null;
+}
+
+export interface QuotaExceeded {
+  scope: QuotaScope;
+  quota: QuotaKind;
+  limit: number;
+  used: number;
+  resetAt: string;
+  retryAfterSeconds: number;
+  message: string;
+}
+
+export type QuotaCheck =
+  | { allowed: true; allowances: QuotaAllowance[] }
+  | { allowed: false; exceeded: QuotaExceeded; allowances: QuotaAllowance[] };
+
+// A row of ai_quota_usage() (admit_ai_request() adds the decision)
+export interface QuotaUsageRow {
+  scope: QuotaScope;
+  requests_per_minute: number | null;
+  monthly_tokens: number | null;
+  monthly_cost_usd: number | string | null; // DECIMAL columns may arrive as strings
+  requests_last_minute: number;
+  oldest_request_at: string | null;
+  tokens_used: number;
+  cost_used: number | string;
+}
+
+// A row of admit_ai_request()
+export interface QuotaAdmissionRow extends QuotaUsageRow {
+  admitted: boolean;
+}
+
+const RATE_WINDOW_MS = 60 * 1000;
+
+function nextMonthStart(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
+
+function quotaLimit(limit: number | string | null, used: number | string, resetAt: Date): QuotaLimit | null {
+  if (limit === null) return null;
+  const max = Number(limit);
+  const spent = Number(used);
+  return { limit: max, used: spent, remaining: Math.max(max - spent, 0), resetAt: resetAt.toISOString() };
+}
+
+/**
+ * Allowances from the usage rows. The request window resets when its oldest request turns a minute old
+ */
+export function quotaAllowances(rows: QuotaUsageRow[], now: Date = new Date()): QuotaAllowance[] {
+  const monthEnd = nextMonthStart(now);
+  return rows.map((row) => {
+    const windowReset = row.oldest_request_at
+      ? new Date(Date.parse(row.oldest_request_at) + RATE_WINDOW_MS)
+      : now;
+    return {
+      scope: row.scope,
+      requestsPerMinute: quotaLimit(row.requests_per_minute, row.requests_last_minute, windowReset),
+      monthlyTokens: quotaLimit(row.monthly_tokens, row.tokens_used, monthEnd),
+      monthlyCostUsd: quotaLimit(row.monthly_cost_usd, row.cost_used, monthEnd),
+    };
+  });
+}
+
+const QUOTA_MESSAGES: Record<QuotaKind, (owner: string, resetAt: string) => string> = {
+  requests_per_minute: (owner, resetAt) =>
+    `${owner} sent too many questions in the last minute. Try again after ${resetAt}.`,
+  monthly_tokens: (owner, resetAt) => `${owner} used this month's AI token allowance. It resets on ${resetAt}.`,
+  monthly_cost_usd: (owner, resetAt) => `${owner} used this month's AI spend allowance. It resets on ${resetAt}.`,
+};
+
+/**
+ * The first quota with nothing left (request rate first: it clears soonest), or null
+ */
+export function firstExceeded(allowances: QuotaAllowance[], now: Date = new Date()): QuotaExceeded | null {
+  for (const allowance of allowances) {
+    const checks: [QuotaKind, QuotaLimit | null][] = [
+      ["requests_per_minute", allowance.requestsPerMinute],
+      ["monthly_tokens", allowance.monthlyTokens],
+      ["monthly_cost_usd", allowance.monthlyCostUsd],
+    ];
+    for (const [quota, limit] of checks) {
+      if (!limit || limit.remaining > 0) continue;
+
+      const owner = allowance.scope === "organization" ? "Your organization" : "You";
+      const resetLabel = quota === "requests_per_minute"
+        ? new Date(limit.resetAt).toISOString().slice(11, 19) + " UTC"
+        : limit.resetAt.slice(0, 10);
+      return {
+        scope: allowance.scope,
+        quota,
+        limit: limit.limit,
+        used: limit.used,
+        resetAt: limit.resetAt,
+        retryAfterSeconds: Math.max(Math.ceil((Date.parse(limit.resetAt) - now.getTime()) / 1000), 1),
+        message: QUOTA_MESSAGES[quota](owner, resetLabel),
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Allowances after a request used tokens and cost
+ */
+export function deductUsage(allowances: QuotaAllowance[], tokens: number, cost: number): QuotaAllowance[] {
+  const deduct = (limit: QuotaLimit | null, amount: number): QuotaLimit | null =>
+    limit && { ...limit, used: limit.used + amount, remaining: Math.max(limit.remaining - amount, 0) };
+  return allowances.map((a) => ({
+    ...a,
+    monthlyTokens: deduct(a.monthlyTokens, tokens),
+    monthlyCostUsd: deduct(a.monthlyCostUsd, cost),
+  }));
+}
+
+/**
+ * The decision admit_ai_request() made, with the allowances left (a refused request isn't counted)
+ */
+export function admissionCheck(rows: QuotaAdmissionRow[], now: Date = new Date()): QuotaCheck {
+  const allowances = quotaAllowances(rows, now);
+  const exceeded = rows.some((row) => !row.admitted) ? firstExceeded(allowances, now) : null;
+  return exceeded ? { allowed: false, exceeded, allowances } : { allowed: true, allowances };
+}
+
+/**
+ * Read a user's quotas and usage (no request is recorded)
+ */
+export async function loadQuotaAllowances(supabase: SupabaseClient, userId: string): Promise<QuotaAllowance[] | null> {
+  const { data, error } = await supabase.rpc("ai_quota_usage", { p_user_id: userId });
+  if (error) {
+    console.error("[QUOTA] Usage lookup failed:", error.message);
+    return null;
+  }
+  return quotaAllowances((data || []) as QuotaUsageRow[]);
+}
+
+/**
+ * Admit a request against the user's quotas and record it for the rate limit. The check and the
+ * record are one locked database call, so a burst of requests can't all slip past the same check
+ */
+export async function checkQuota(supabase: SupabaseClient, userId: string): Promise<QuotaCheck> {
+  const { data, error } = await supabase.rpc("admit_ai_request", { p_user_id: userId });
+  if (error) {
+    console.error("[QUOTA] Admission check failed:", error.message);
+    return { allowed: true, allowances: [] };
+  }
+
+  const check = admissionCheck((data || []) as QuotaAdmissionRow[]);
+  if (!check.allowed) {
+    const { exceeded } = check;
+    console.log(`[QUOTA] ${userId} over ${exceeded.scope} ${exceeded.quota} (${exceeded.used}/${exceeded.limit})`);
+  }
+  return check;
+}
@@ -0,0 +1,48 @@
+/**
+ * OpenAI-compatible LLM stub server for local runs and CI
+ *
+ *   deno run --allow-net --allow-env supabase/functions/_test/llm-stub-server.ts
+ *
+ * Point the functions at it with LLM_API_URL=http://<host>:8787/v1 and the default "http" backend:
+ * the whole HTTP path (retries, timeouts, SSE parsing) runs against deterministic answers from
+ * StubLlmBackend instead of the gateway.
+ *
+ * - LLM_STUB_PORT: port to listen on (default: 8787)
+ * - LLM_STUB_FAIL: comma-separated statuses returned to the first requests, one each
+ *                  (e.g. "429,503" to exercise the client's retries)
+ * - LLM_STUB_MODE: "grounded" to answer from the prompt's numbered context (default: echo)
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+
+import { StubLlmBackend } from "../_shared/llm-offline.ts";
+
+const port = Number(Deno.env.get("LLM_STUB_PORT")) || 8787;
+const failures = (Deno.env.get("LLM_STUB_FAIL") || "")
+  .split(",")
+  .map((s) => Number(s.trim()))
+  .filter((status) => status >= 400);
+const backend = new StubLlmBackend(Deno.env.get("LLM_STUB_MODE") === "grounded" ? "grounded" : "echo");
+
+serve(async (req) => {
+  const { pathname } = new URL(req.url);
+  if (req.method !== "POST" || !pathname.endsWith("/chat/completions")) {
+    return Response.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const failure = failures.shift();
+  if (failure) {
+    console.log(`[STUB] Failing with ${failure}`);
+    return Response.json({ error: `Injected failure ${failure}` }, { status: failure, headers: { "Retry-After": "0" } });
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await req.json();
+  } catch {
+    return Response.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  console.log(`[STUB] ${body.model}${body.stream ? " (stream)" : ""}`);
+  return backend.send(body);
+}, { port });
@@ -0,0 +1,9 @@
+// Edge function modules read their configuration through Deno.env; under Node (vitest) it is backed by process.env
+const runtime = globalThis as unknown as {
+  Deno?: unknown;
+  process: { env: Record<string, string | undefined> };
+};
+
+if (!runtime.Deno) {
+  runtime.Deno = { env: { get: (key: string) => runtime.process.env[key] } };
+}
@@ -0,0 +1,312 @@
+/**
+ * Semantic cache administration (admin-only analytics actions)
+ *
+ * - cache-stats:    hit rate by similarity band over the lookup log, entry counts and settings
+ * - cache-entries:  live entries ordered by hit_count
+ * - cache-clusters: near-duplicate entries grouped by embedding similarity
+ * - cache-purge:    delete entries by scope prefix, age and/or model (pinned entries are kept unless asked)
+ * - cache-pin:      pin/unpin an existing entry, or pin a curated answer served to every user
+ * - cache-settings: read or update threshold and TTL per task type
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+import type { Caller } from "../_shared/auth.ts";
+import { generateEmbedding, embeddingToVector } from "../_shared/embeddings.ts";
+import {
+  CURATED_CACHE_SCOPE,
+  DEFAULT_CACHE_TTL_DAYS,
+  DEFAULT_SIMILARITY_THRESHOLD,
+  cacheExpiry,
+  generateCacheKey,
+  loadCacheSettings,
+} from "../_shared/query-cache.ts";
+import { clusterPairs, similarityBands, type CacheLookup } from "./cache-stats.ts";
+
+export const CACHE_ACTIONS = new Set([
+  "cache-stats",
+  "cache-entries",
+  "cache-clusters",
+  "cache-purge",
+  "cache-pin",
+  "cache-settings",
+]);
+
+const ENTRY_COLUMNS = "id, query_text, scope, task_type, model_used, hit_count, pinned, created_at, expires_at";
+const MAX_ENTRIES = 200;
+const DEFAULT_STATS_DAYS = 30;
+const DEFAULT_DUPLICATE_FLOOR = 0.9;
+const PINNED_EXPIRY = "infinity";
+
+export type CacheAdminResult =
+  | { success: true; data: unknown }
+  | { success: false; status: 400 | 404; error: string };
+
+// Request body fields used by the cache actions (unvalidated: checked per action)
+export interface CacheActionParams {
+  days?: number;
+  limit?: number;
+  scope?: string; // scope prefix, e.g. "public", "curated" or "user:<id>"
+  taskType?: string;
+  model?: string;
+  olderThanDays?: number;
+  includePinned?: boolean;
+  similarityFloor?: number;
+  maxEntries?: number;
+  entryId?: string;
+  pinned?: boolean;
+  query?: string;
+  response?: string;
+  similarityThreshold?: number;
+  ttlDays?: number;
+}
+
+function invalid(error: string): CacheAdminResult {
+  return { success: false, status: 400, error };
+}
+
+/**
+ * Run a cache admin action. Database errors are thrown for the caller's 500 handler;
+ * bad parameters come back as a 400 result.
+ */
+export async function handleCacheAction(
+  supabase: SupabaseClient,
+  action: string,
+  params: CacheActionParams,
+  caller: Caller
+): Promise<CacheAdminResult> {
+  switch (action) {
+    case "cache-stats":
+      return cacheStats(supabase, params);
+    case "cache-entries":
+      return cacheEntries(supabase, params);
+    case "cache-clusters":
+      return cacheClusters(supabase, params);
+    case "cache-purge":
+      return cachePurge(supabase, params);
+    case "cache-pin":
+      return cachePin(supabase, params);
+    case "cache-settings":
+      return cacheSettings(supabase, params, caller);
+    default:
+      return invalid("Unknown action");
+  }
+}
+
+async function cacheStats(supabase: SupabaseClient, params: CacheActionParams): Promise<CacheAdminResult> {
+  const days = Number(params.days) > 0 ? Number(params.days) : DEFAULT_STATS_DAYS;
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+  let lookupQuery = supabase
+    .from("cache_lookups")
+    .select("match_type, similarity")
+    .gte("created_at", since)
+    .order("created_at", { ascending: false });
+  if (params.taskType) lookupQuery = lookupQuery.eq("task_type", params.taskType);
+
+  const { data: lookups, error } = await lookupQuery.limit(10000);
+  if (error) throw error;
+
+  const now = new Date().toISOString();
+  const [live, pinned, settings] = await Promise.all([
+    supabase.from("query_cache").select("id", { count: "exact", head: true }).gt("expires_at", now),
+    supabase.from("query_cache").select("id", { count: "exact", head: true }).eq("pinned", true),
+    supabase.from("cache_settings").select("task_type, similarity_threshold, ttl_days, updated_at").order("task_type"),
+  ]);
+  if (live.error || pinned.error || settings.error) throw live.error || pinned.error || settings.error;
+
+  const rows = (lookups || []) as CacheLookup[];
+  const hits = rows.filter((l) => l.match_type !== "miss").length;
+
+  return {
+    success: true,
+    data: {
+      summary: {
+        days,
+        total_lookups: rows.length,
+        hits,
+        hit_rate: rows.length > 0 ? hits / rows.length : 0,
+        exact_hits: rows.filter((l) => l.match_type === "exact").length,
+        live_entries: live.count || 0,
+        pinned_entries: pinned.count || 0,
+      },
+      similarity_bands: similarityBands(rows),
+      settings: settings.data,
+    },
+  };
+}
+
+async function cacheEntries(supabase: SupabaseClient, params: CacheActionParams): Promise<CacheAdminResult> {
+  const limit = Math.min(Number(params.limit) || 50, MAX_ENTRIES);
+
+  let query = supabase
+    .from("query_cache")
+    .select(ENTRY_COLUMNS)
+    .gt("expires_at", new Date().toISOString())
+    .order("hit_count", { ascending: false, nullsFirst: false })
+    .order("created_at", { ascending: false });
+  if (params.scope) query = query.like("scope", `${params.scope}%`);
+  if (params.taskType) query = query.eq("task_type", params.taskType);
+
+  const { data, error } = await query.limit(limit);
+  if (error) throw error;
+
+  return { success: true, data: { entries: data } };
+}
+
+async function cacheClusters(supabase: SupabaseClient, params: CacheActionParams): Promise<CacheAdminResult> {
+  const floor = Number(params.similarityFloor) || DEFAULT_DUPLICATE_FLOOR;
+  if (floor <= 0 || floor > 1) return invalid("similarityFloor must be between 0 and 1");
+
+  const { data: pairs, error } = await supabase.rpc("cache_duplicate_pairs", {
+    similarity_floor: floor,
+    max_entries: Math.min(Number(params.maxEntries) || MAX_ENTRIES, MAX_ENTRIES),
+  });
+  if (error) throw error;
+
+  const clusters = clusterPairs(pairs || []);
+  const ids = clusters.flat();
+  if (ids.length === 0) return { success: true, data: { clusters: [] } };
+
+  const { data: entries, error: entriesError } = await supabase
+    .from("query_cache")
+    .select(ENTRY_COLUMNS)
+    .in("id", ids);
+  if (entriesError) throw entriesError;
+
+  const byId = new Map((entries || []).map((e) => [e.id, e]));
+  return {
+    success: true,
+    data: {
+      clusters: clusters.map((members) => {
+        const memberEntries = members
+          .map((id) => byId.get(id))
+          .filter((e) => !!e)
+          .sort((a, b) => (b!.hit_count || 0) - (a!.hit_count || 0));
+        return {
+          size: memberEntries.length,
+          total_hits: memberEntries.reduce((sum, e) => sum + (e!.hit_count || 0), 0),
+          entries: memberEntries,
+        };
+      }),
+    },
+  };
+}
+
+async function cachePurge(supabase: SupabaseClient, params: CacheActionParams): Promise<CacheAdminResult> {
+  const { scope, model, olderThanDays, includePinned = false } = params;
+  // Refuse an unfiltered purge: clearing everything should be a deliberate scope choice
+  if (!scope && !model && olderThanDays === undefined) {
+    return invalid("Specify scope, model and/or olderThanDays");
+  }
+  if (olderThanDays !== undefined && !(Number(olderThanDays) >= 0)) {
+    return invalid("olderThanDays must be a non-negative number");
+  }
+
+  let query = supabase.from("query_cache").delete({ count: "exact" });
+  if (scope) query = query.like("scope", `${scope}%`);
+  if (model) query = query.eq("model_used", model);
+  if (olderThanDays !== undefined) {
+    query = query.lt("created_at", new Date(Date.now() - Number(olderThanDays) * 24 * 60 * 60 * 1000).toISOString());
+  }
+  if (!includePinned) query = query.eq("pinned", false);
+
+  const { count, error } = await query;
+  if (error) throw error;
+
+  console.log(`[CACHE] Purged ${count || 0} entries (scope=${scope || "*"}, model=${model || "*"}, olderThanDays=${olderThanDays ?? "*"})`);
+  return { success: true, data: { purged: count || 0 } };
+}
+
+async function cachePin(supabase: SupabaseClient, params: CacheActionParams): Promise<CacheAdminResult> {
+  const { entryId, pinned = true, query, response, taskType = "chat", model = "curated" } = params;
+
+  // Pin or unpin an existing entry in place; unpinned entries get a fresh TTL
+  if (entryId) {
+    const { data: entry, error } = await supabase
+      .from("query_cache")
+      .select("id, task_type")
+      .eq("id", entryId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!entry) return { success: false, status: 404, error: "Cache entry not found" };
+
+    const expiresAt = pinned ? PINNED_EXPIRY : cacheExpiry(await loadCacheSettings(supabase, entry.task_type));
+    const { data: updated, error: updateError } = await supabase
+      .from("query_cache")
+      .update({ pinned: !!pinned, expires_at: expiresAt })
+      .eq("id", entryId)
+      .select(ENTRY_COLUMNS)
+      .single();
+    if (updateError) throw updateError;
+
+    return { success: true, data: { entry: updated } };
+  }
+
+  // A curated answer: a new pinned entry in the scope every user looks up first
+  if (typeof query !== "string" || !query.trim() || typeof response !== "string" || !response.trim()) {
+    return invalid("Provide entryId, or query and response for a curated answer");
+  }
+
+  const { embedding } = await generateEmbedding(query);
+  const { data: created, error } = await supabase
+    .from("query_cache")
+    .insert({
+      query_hash: await generateCacheKey(query, CURATED_CACHE_SCOPE),
+      query_text: query.trim(),
+      query_embedding: embeddingToVector(embedding),
+      response,
+      model_used: model,
+      tokens_input: 0,
+      tokens_output: 0,
+      scope: CURATED_CACHE_SCOPE.scope,
+      data_version: CURATED_CACHE_SCOPE.version,
+      task_type: taskType,
+      pinned: true,
+      expires_at: PINNED_EXPIRY,
+    })
+    .select(ENTRY_COLUMNS)
+    .single();
+  if (error) throw error;
+
+  return { success: true, data: { entry: created } };
+}
+
+async function cacheSettings(
+  supabase: SupabaseClient,
+  params: CacheActionParams,
+  caller: Caller
+): Promise<CacheAdminResult> {
+  const { taskType, similarityThreshold, ttlDays } = params;
+
+  if (taskType !== undefined) {
+    const threshold = Number(similarityThreshold);
+    const ttl = Number(ttlDays);
+    if (typeof taskType !== "string" || !taskType.trim()) return invalid("taskType must be a non-empty string");
+    if (!(threshold > 0 && threshold <= 1)) return invalid("similarityThreshold must be in (0, 1]");
+    if (!(Number.isInteger(ttl) && ttl > 0)) return invalid("ttlDays must be a positive whole number");
+
+    const { error } = await supabase.from("cache_settings").upsert({
+      task_type: taskType.trim(),
+      similarity_threshold: threshold,
+      ttl_days: ttl,
+      updated_by: caller.userId,
+    });
+    if (error) throw error;
+    console.log(`[CACHE] Settings for ${taskType}: threshold=${threshold}, ttl=${ttl}d`);
+  }
+
+  const { data, error } = await supabase
+    .from("cache_settings")
+    .select("task_type, similarity_threshold, ttl_days, updated_at")
+    .order("task_type");
+  if (error) throw error;
+
+  return {
+    success: true,
+    data: {
+      settings: data,
+      defaults: { similarity_threshold: DEFAULT_SIMILARITY_THRESHOLD, ttl_days: DEFAULT_CACHE_TTL_DAYS },
+    },
+  };
+}
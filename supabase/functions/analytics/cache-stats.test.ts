@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { clusterPairs, similarityBands } from "./cache-stats.ts";
+
+describe("cache statistics", () => {
+  it("buckets lookups by closest similarity, with exact matches in their own band", () => {
+    const bands = similarityBands([
+      { match_type: "exact", similarity: 1 },
+      { match_type: "semantic", similarity: 0.99 },
+      { match_type: "semantic", similarity: 0.93 },
+      { match_type: "miss", similarity: 0.91 },
+      { match_type: "miss", similarity: 0.905 },
+      { match_type: "miss", similarity: null },
+    ]);
+
+    expect(bands.map((b) => b.band)).toEqual([
+      "< 0.80", "0.80–0.85", "0.85–0.875", "0.875–0.90", "0.90–0.925",
+      "0.925–0.95", "0.95–0.975", "0.975–1.00", "exact",
+    ]);
+    const byBand = Object.fromEntries(bands.map((b) => [b.band, b]));
+    expect(byBand["exact"]).toMatchObject({ lookups: 1, hits: 1, hit_rate: 1 });
+    expect(byBand["0.975–1.00"]).toMatchObject({ lookups: 1, hits: 1 });
+    expect(byBand["0.925–0.95"]).toMatchObject({ lookups: 1, hits: 1 });
+    expect(byBand["0.90–0.925"]).toMatchObject({ lookups: 2, hits: 0, hit_rate: 0 });
+    expect(byBand["< 0.80"]).toMatchObject({ lookups: 1, hits: 0 });
+  });
+
+  it("groups connected near-duplicate pairs into clusters, largest first", () => {
+    const clusters = clusterPairs([
+      { entry_a: "a", entry_b: "b", similarity: 0.97 },
+      { entry_a: "x", entry_b: "y", similarity: 0.95 },
+      { entry_a: "b", entry_b: "c", similarity: 0.93 },
+    ]);
+
+    expect(clusters.map((c) => [...c].sort())).toEqual([["a", "b", "c"], ["x", "y"]]);
+    expect(clusterPairs([])).toEqual([]);
+  });
+});
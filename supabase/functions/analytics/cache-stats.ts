@@ -0,0 +1,93 @@
+/**
+ * Semantic cache statistics
+ * Pure helpers behind the cache admin actions: hit rate by similarity band (from the
+ * cache_lookups log) and grouping near-duplicate entry pairs into clusters.
+ */
+
+export interface CacheLookup {
+  match_type: "exact" | "semantic" | "miss";
+  similarity: number | null; // closest entry found; null when nothing came near
+}
+
+export interface SimilarityBand {
+  band: string;
+  min: number; // inclusive lower bound; the exact band is 1.0
+  lookups: number;
+  hits: number;
+  hit_rate: number;
+}
+
+export interface DuplicatePair {
+  entry_a: string;
+  entry_b: string;
+  similarity: number;
+}
+
+// Lower bounds of the semantic bands, highest first. Lookups whose closest entry was below the
+// lowest bound (or that found nothing) fall in a final "< 0.80" band
+const BAND_FLOORS = [0.975, 0.95, 0.925, 0.9, 0.875, 0.85, 0.8];
+
+// 0.95 → "0.95", 0.975 → "0.975", 1 → "1.00"
+function formatBound(value: number): string {
+  return value.toFixed(3).replace(/0$/, "");
+}
+
+/**
+ * Count lookups and hits per similarity band. Exact hash matches get their own band so they
+ * don't inflate the top semantic band; the bands are returned lowest similarity first, ending with exact.
+ */
+export function similarityBands(lookups: CacheLookup[]): SimilarityBand[] {
+  const bands: SimilarityBand[] = [
+    { band: "exact", min: 1, lookups: 0, hits: 0, hit_rate: 0 },
+    ...BAND_FLOORS.map((min, i) => ({
+      band: `${formatBound(min)}–${formatBound(i === 0 ? 1 : BAND_FLOORS[i - 1])}`,
+      min,
+      lookups: 0,
+      hits: 0,
+      hit_rate: 0,
+    })),
+    { band: `< ${formatBound(BAND_FLOORS[BAND_FLOORS.length - 1])}`, min: 0, lookups: 0, hits: 0, hit_rate: 0 },
+  ];
+
+  for (const lookup of lookups) {
+    const band = lookup.match_type === "exact"
+      ? bands[0]
+      : bands.slice(1).find((b) => (lookup.similarity ?? 0) >= b.min)!;
+    band.lookups++;
+    if (lookup.match_type !== "miss") band.hits++;
+  }
+
+  for (const band of bands) {
+    band.hit_rate = band.lookups > 0 ? band.hits / band.lookups : 0;
+  }
+  return bands.reverse();
+}
+
+/**
+ * Group entries connected by near-duplicate pairs (union-find), largest clusters first.
+ * Entries only appear through pairs, so every cluster has at least two members.
+ */
+export function clusterPairs(pairs: DuplicatePair[]): string[][] {
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+
+  for (const { entry_a, entry_b } of pairs) {
+    if (!parent.has(entry_a)) parent.set(entry_a, entry_a);
+    if (!parent.has(entry_b)) parent.set(entry_b, entry_b);
+    const rootA = find(entry_a);
+    const rootB = find(entry_b);
+    if (rootA !== rootB) parent.set(rootB, rootA);
+  }
+
+  const clusters = new Map<string, string[]>();
+  for (const id of parent.keys()) {
+    const root = find(id);
+    clusters.set(root, [...(clusters.get(root) ?? []), id]);
+  }
+  return [...clusters.values()].sort((a, b) => b.length - a.length);
+}
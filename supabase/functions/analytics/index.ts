@@ -1,11 +1,18 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 
+import { authenticateRequest, authErrorBody, authorizePrivileged } from "../_shared/auth.ts";
+import { CACHE_ACTIONS, handleCacheAction } from "./cache-admin.ts";
+import { loadQuotaAllowances } from "../_shared/quotas.ts";
+
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
 };
 
+// Reports across all users and cache administration: service role or admins only
+const PRIVILEGED_ACTIONS = new Set(["compliance-report", "roi-analysis", ...CACHE_ACTIONS]);
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response("ok", { headers: corsHeaders });
@@ -16,7 +23,29 @@ serve(async (req) => {
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    const { action, userId, startDate, endDate } = await req.json();
+    const body = await req.json();
+    const { action, userId: claimedUserId, startDate, endDate } = body;
+
+    // Users only get their own usage; the service role may name a user or report on all
+    const auth = await authenticateRequest(req, supabase, claimedUserId);
+    const access = auth.success && PRIVILEGED_ACTIONS.has(action)
+      ? await authorizePrivileged(supabase, auth.caller)
+      : auth;
+    if (!access.success) {
+      return new Response(JSON.stringify(authErrorBody(access)), {
+        status: access.status,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+    const userId = access.caller.userId;
+
+    if (CACHE_ACTIONS.has(action)) {
+      const result = await handleCacheAction(supabase, action, body, access.caller);
+      return new Response(JSON.stringify(result.success ? result.data : { error: result.error }), {
+        status: result.success ? 200 : result.status,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
 
     if (action === "token-usage") {
       // Get token usage analytics
@@ -89,6 +118,29 @@ serve(async (req) => {
       );
     }
 
+    if (action === "quota-status") {
+      // The user's quotas (and their organization's) with this minute's and month's usage
+      if (!userId) {
+        return new Response(JSON.stringify({ error: "quota-status needs a user" }), {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      const allowances = await loadQuotaAllowances(supabase, userId);
+      if (!allowances) {
+        return new Response(JSON.stringify({ error: "Quota usage is unavailable" }), {
+          status: 500,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      return new Response(JSON.stringify({ allowances }), {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
     if (action === "evaluation-metrics") {
       // Get AI evaluation metrics
       const query = supabase
@@ -112,6 +164,16 @@ serve(async (req) => {
       const userFeedback = evals?.filter((e) => e.user_feedback);
       const avgUserRating = userFeedback?.reduce((sum, e) => sum + (e.user_feedback || 0), 0) / (userFeedback?.length || 1);
 
+      // Judge-only metrics (evaluate-answers); the other rows carry word-overlap scores
+      const judged = evals?.filter((e) => e.judged_at) || [];
+      const average = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null);
+      const judgedScores = (column: "context_precision_score" | "context_recall_score") =>
+        judged.filter((e) => e[column] !== null).map((e) => Number(e[column]));
+      const byEvaluator = (evals || []).reduce((acc, e) => {
+        acc[e.evaluator] = (acc[e.evaluator] || 0) + 1;
+        return acc;
+      }, {} as Record<string, number>);
+
       // By model performance
       const byModel = evals?.reduce((acc, e) => {
         if (!e.model_used) return acc;
@@ -159,7 +221,14 @@ serve(async (req) => {
             avg_latency_ms: avgLatency,
             avg_user_rating: avgUserRating || null,
             user_feedback_count: userFeedback?.length || 0,
+            judged_evaluations: judged.length,
+            avg_context_precision: average(judgedScores("context_precision_score")),
+            avg_context_recall: average(judgedScores("context_recall_score")),
+            hallucinated_number_rate: judged.length > 0
+              ? judged.filter((e) => (e.hallucinated_numbers?.length || 0) > 0).length / judged.length
+              : null,
           },
+          by_evaluator: byEvaluator,
           quality_distribution: qualityBuckets,
           by_model: byModel,
           recent_low_quality: evals
@@ -170,6 +239,8 @@ serve(async (req) => {
               faithfulness: e.faithfulness_score,
               relevance: e.relevance_score,
               model: e.model_used,
+              evaluator: e.evaluator,
+              hallucinated_numbers: e.hallucinated_numbers || [],
             })),
         }),
         {
@@ -0,0 +1,118 @@
+/**
+ * Check PDF Password Edge Function
+ *
+ * - Without a password: reports whether the stored PDF is encrypted
+ * - With a password: verifies it by decrypting through the shared decrypt backend
+ *
+ * The unlocked bytes are not stored; parse-pdf decrypts again in-process
+ * when it is called with the same password.
+ *
+ * Callers may only check files in their own storage folder.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+import { decryptPdf, isDecryptionAvailable, isPdfPasswordProtected } from "../_shared/pdf-decrypt.ts";
+import { authenticateRequest, authErrorBody, authorizeStoragePath } from "../_shared/auth.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { filePath, password } = await req.json();
+
+    const auth = await authenticateRequest(req, supabase);
+    if (!auth.success) return jsonResponse(authErrorBody(auth), auth.status);
+
+    if (!filePath || !auth.caller.userId) {
+      return jsonResponse({ error: "Missing required parameters" }, 400);
+    }
+
+    // Only the uploader's own statements
+    const pathAccess = authorizeStoragePath(auth.caller, auth.caller.userId, filePath);
+    if (!pathAccess.success) return jsonResponse(authErrorBody(pathAccess), pathAccess.status);
+
+    const { data: fileData, error: downloadError } = await supabase.storage
+      .from("pdf-documents")
+      .download(filePath);
+
+    if (downloadError || !fileData) {
+      console.error("[PDF-PASSWORD] Download error:", downloadError);
+      throw new Error("Failed to download document");
+    }
+
+    const pdfBytes = new Uint8Array(await fileData.arrayBuffer());
+    const encrypted = isPdfPasswordProtected(pdfBytes);
+
+    if (!encrypted) {
+      return jsonResponse({ encrypted: false, requiresPassword: false });
+    }
+
+    if (!isDecryptionAvailable()) {
+      return jsonResponse({
+        encrypted: true,
+        requiresPassword: true,
+        error: "ENCRYPTED_UNSUPPORTED",
+        userMessage: "Password-protected PDFs cannot be unlocked in this environment.",
+        suggestedAction: "Unlock the PDF before uploading, or request an unencrypted statement from your bank.",
+      });
+    }
+
+    if (!password) {
+      return jsonResponse({ encrypted: true, requiresPassword: true });
+    }
+
+    const result = await decryptPdf(pdfBytes, password);
+
+    if (result.success) {
+      return jsonResponse({ encrypted: true, passwordValid: true, pageCount: result.pageCount });
+    }
+
+    if (result.code === "INVALID_PASSWORD") {
+      return jsonResponse({
+        encrypted: true,
+        passwordValid: false,
+        error: "INVALID_PASSWORD",
+        userMessage: "The password you entered is incorrect.",
+      });
+    }
+
+    if (result.code === "NOT_ENCRYPTED") {
+      // Markers were a false positive - the file can be parsed without a password
+      return jsonResponse({ encrypted: false, requiresPassword: false });
+    }
+
+    return jsonResponse({
+      encrypted: true,
+      passwordValid: false,
+      error: "ENCRYPTED_UNSUPPORTED",
+      userMessage: result.message,
+      suggestedAction: "Try again, or unlock the PDF before uploading.",
+    });
+  } catch (error) {
+    console.error("[PDF-PASSWORD] Error:", error);
+    return jsonResponse(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      500
+    );
+  }
+});
@@ -0,0 +1,145 @@
+/**
+ * Evaluate Answers Edge Function - LLM-as-judge worker
+ *
+ * rag-chat scores each answer inline by word overlap (cheap, but only a rough signal). This
+ * worker runs outside the chat path - on a schedule, with the service role key, or by an
+ * admin - and rescores a random sample of recent ai_evaluations rows with a judge model
+ * (judge.ts): claim-level faithfulness, answer relevance, context precision and recall, and
+ * hallucinated numbers. Scores are written back with the evaluator version, so rows already
+ * judged by this version aren't sampled again; rows the judge can't score keep their
+ * word-overlap scores and are retried on a later run.
+ *
+ * Configuration (Deno env):
+ * - JUDGE_MODEL:      judge model (default google/gemini-2.5-pro)
+ * - EVAL_BATCH_SIZE:  rows per run when the request doesn't say (default 20, at most 100)
+ *
+ * Request: { limit?: number, maxAgeDays?: number }
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+import { authenticateRequest, authErrorBody, authorizePrivileged } from "../_shared/auth.ts";
+import { calculateCost, loadPriceTable } from "../_shared/model-prices.ts";
+import { JUDGE_EVALUATOR, judgeAnswer } from "./judge.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+const DEFAULT_JUDGE_MODEL = "google/gemini-2.5-pro";
+const DEFAULT_BATCH_SIZE = 20;
+const MAX_BATCH_SIZE = 100;
+const DEFAULT_MAX_AGE_DAYS = 30;
+
+// Retrying the rest of the batch can't succeed until the gateway recovers
+const BATCH_STOPPING_ERRORS = new Set(["RATE_LIMITED", "CREDITS_EXHAUSTED", "AUTH_FAILED"]);
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const body = await req.json().catch(() => ({}));
+
+    // Judging reads every user's answers: service role or admins only
+    const auth = await authenticateRequest(req, supabase);
+    const access = auth.success ? await authorizePrivileged(supabase, auth.caller) : auth;
+    if (!access.success) return jsonResponse(authErrorBody(access), access.status);
+
+    const model = Deno.env.get("JUDGE_MODEL") || DEFAULT_JUDGE_MODEL;
+    const requested = Number(body.limit ?? Deno.env.get("EVAL_BATCH_SIZE") ?? DEFAULT_BATCH_SIZE);
+    const limit = Math.min(Math.max(Math.floor(requested) || DEFAULT_BATCH_SIZE, 1), MAX_BATCH_SIZE);
+    const maxAgeDays = Math.max(Math.floor(Number(body.maxAgeDays)) || DEFAULT_MAX_AGE_DAYS, 1);
+
+    const { data: rows, error } = await supabase.rpc("sample_unjudged_evaluations", {
+      p_evaluator: JUDGE_EVALUATOR,
+      p_limit: limit,
+      p_max_age_days: maxAgeDays,
+    });
+    if (error) throw error;
+
+    const prices = await loadPriceTable(supabase);
+    let judged = 0;
+    let failed = 0;
+    let stoppedBy: string | null = null;
+
+    for (const row of rows || []) {
+      const result = await judgeAnswer(
+        { query: row.rewritten_query || row.query, response: row.response, context: row.context_used || [] },
+        model
+      );
+
+      if (!result.success) {
+        failed++;
+        console.error(`[JUDGE] ${row.id}: ${result.error.code} ${result.error.message}`);
+        if (BATCH_STOPPING_ERRORS.has(result.error.code)) {
+          stoppedBy = result.error.code;
+          break;
+        }
+        continue;
+      }
+
+      const { scores, verdict, usage } = result;
+      const { error: updateError } = await supabase
+        .from("ai_evaluations")
+        .update({
+          faithfulness_score: scores.faithfulness,
+          relevance_score: scores.relevance,
+          context_precision_score: scores.contextPrecision,
+          context_recall_score: scores.contextRecall,
+          hallucinated_numbers: scores.hallucinatedNumbers,
+          judge_details: { claims: verdict.claims, contexts: verdict.contexts, needs: verdict.needs },
+          evaluator: JUDGE_EVALUATOR,
+          judge_model: model,
+          judged_at: new Date().toISOString(),
+        })
+        .eq("id", row.id);
+
+      if (updateError) {
+        failed++;
+        console.error(`[JUDGE] Failed to save ${row.id}:`, updateError.message);
+        continue;
+      }
+      judged++;
+
+      // Judging is AI spend too; it isn't any user's usage
+      await supabase.from("token_usage").insert({
+        user_id: null,
+        model,
+        tokens_input: usage.tokensInput,
+        tokens_output: usage.tokensOutput,
+        estimated_cost: calculateCost(prices, model, usage.tokensInput, usage.tokensOutput),
+        query_type: "evaluation",
+        cache_hit: false,
+        routing_reason: "judge",
+      });
+    }
+
+    console.log(`[JUDGE] ${judged} judged, ${failed} failed of ${rows?.length || 0} sampled with ${model}`);
+    return jsonResponse({
+      evaluator: JUDGE_EVALUATOR,
+      model,
+      sampled: rows?.length || 0,
+      judged,
+      failed,
+      stoppedBy,
+    });
+  } catch (error) {
+    console.error("Evaluate answers error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
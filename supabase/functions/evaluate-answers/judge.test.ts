@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { contextPrecision, parseVerdict, scoreVerdict, ungroundedNumbers } from "./judge.ts";
+
+const CONTEXT = [
+  "HDFC Infinia statement, Sep 2026: dining spend ₹12,400 across 9 transactions; reward rate 3.3%",
+  "Infinia benefit: 5X reward points on SmartBuy travel bookings",
+];
+
+describe("LLM judge", () => {
+  it("puts only numbers missing from the context to the judge", () => {
+    const answer = "You spent Rs. 12400 on dining [1] at 3.3% back, so about ₹409 in points.\n1. Book travel via SmartBuy for 5X.";
+    expect(ungroundedNumbers(answer, CONTEXT)).toEqual(["₹409"]);
+  });
+
+  it("scores claims, context ranking and needs from the verdict", () => {
+    const verdict = parseVerdict(`Here is the grading:
+{"claims": [{"claim": "Dining spend was ₹12,400", "supported": true}, {"claim": "Points are worth ₹409", "supported": false}],
+ "relevance": 0.9,
+ "contexts": [{"index": 1, "relevant": false}, {"index": 2, "relevant": true}],
+ "needs": [{"need": "September dining spend", "covered": true}, {"need": "point value", "covered": false}, {"need": "card", "covered": true}],
+ "unsupported_numbers": ["₹409", "₹999"]}`);
+
+    expect(verdict).not.toBeNull();
+    expect(scoreVerdict(verdict!, CONTEXT.length, ["₹409"])).toEqual({
+      faithfulness: 0.5,
+      relevance: 0.9,
+      contextPrecision: 0.5,
+      contextRecall: 0.67,
+      hallucinatedNumbers: ["₹409"],
+    });
+    expect(contextPrecision([true, false, true])).toBeCloseTo((1 + 2 / 3) / 2);
+  });
+
+  it("rejects verdicts without claims or a relevance score", () => {
+    expect(parseVerdict("{}")).toBeNull();
+    expect(parseVerdict("not json")).toBeNull();
+    expect(scoreVerdict(parseVerdict('{"claims": [], "relevance": 1.4}')!, 0, [])).toEqual({
+      faithfulness: 1,
+      relevance: 1,
+      contextPrecision: null,
+      contextRecall: null,
+      hallucinatedNumbers: [],
+    });
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * LLM-as-judge scoring of a stored answer
+ *
+ * The judge model reads the question, the context the answer was built from (numbered) and the
+ * answer, and returns:
+ * - claims: each factual claim in the answer, supported by the context or not -> faithfulness
+ * - relevance: how directly the answer addresses the question (0-1) -> answer relevance
+ * - contexts: whether each context item is relevant to the question -> context precision
+ *   (average precision over the retrieval order, so relevant items ranked late cost more)
+ * - needs: the information the question needs, covered by the context or not -> context recall
+ * - unsupported_numbers: which of the answer's numbers that don't appear verbatim in the context
+ *   can't be derived from it either (totals and differences of context figures are fine)
+ *
+ * Numbers are pre-screened locally, so the judge only rules on the ones it has to.
+ */
+
+import { completeChat, type LlmError, type LlmUsage } from "../_shared/llm.ts";
+
+// Stored in ai_evaluations.evaluator; bump when the prompt or the scoring changes
+export const JUDGE_EVALUATOR = "llm-judge-v1";
+
+export interface JudgeInput {
+  query: string; // the standalone question when the message was rewritten
+  response: string;
+  context: string[];
+}
+
+export interface JudgeVerdict {
+  claims: { claim: string; supported: boolean }[];
+  relevance: number;
+  contexts: { index: number; relevant: boolean }[];
+  needs: { need: string; covered: boolean }[];
+  unsupportedNumbers: string[];
+}
+
+export interface JudgeScores {
+  faithfulness: number;
+  relevance: number;
+  contextPrecision: number | null; // null without context
+  contextRecall: number | null;
+  hallucinatedNumbers: string[];
+}
+
+export type JudgeResult =
+  | { success: true; scores: JudgeScores; verdict: JudgeVerdict; usage: LlmUsage }
+  | { success: false; error: LlmError | { code: "INVALID_VERDICT"; message: string } };
+
+const NUMBER_PATTERN = /(?:₹|rs\.?\s?|inr\s?|\$)?\d[\d,]*(?:\.\d+)?\s?%?/gi;
+
+function normalizeNumber(raw: string): string {
+  const digits = raw.toLowerCase().replace(/₹|rs\.?|inr|\$|,|\s/g, "");
+  const percent = digits.endsWith("%");
+  const value = Number(percent ? digits.slice(0, -1) : digits);
+  return Number.isFinite(value) ? `${value}${percent ? "%" : ""}` : digits;
+}
+
+function numbersIn(text: string): Map<string, string> {
+  const found = new Map<string, string>(); // normalized -> as written
+  const cleaned = text
+    .replace(/\[\d+\]/g, " ") // citation markers
+    .replace(/^\s*\d+[.)]\s/gm, " "); // list numbering
+  for (const match of cleaned.matchAll(NUMBER_PATTERN)) {
+    const written = match[0].trim();
+    const normalized = normalizeNumber(written);
+    if (!found.has(normalized)) found.set(normalized, written);
+  }
+  return found;
+}
+
+/**
+ * Numbers in the answer that don't appear in the context (as written in the answer)
+ */
+export function ungroundedNumbers(response: string, context: string[]): string[] {
+  const contextNumbers = numbersIn(context.join("\n"));
+  return [...numbersIn(response)]
+    .filter(([normalized]) => !contextNumbers.has(normalized.replace(/%$/, "")) && !contextNumbers.has(normalized))
+    .map(([, written]) => written);
+}
+
+/**
+ * Average precision of the relevant items in retrieval order (0 when none is relevant)
+ */
+export function contextPrecision(relevant: boolean[]): number {
+  let hits = 0;
+  let sum = 0;
+  relevant.forEach((isRelevant, i) => {
+    if (!isRelevant) return;
+    hits++;
+    sum += hits / (i + 1);
+  });
+  return hits === 0 ? 0 : sum / hits;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const fraction = (count: number, total: number) => (total === 0 ? 1 : count / total);
+
+/**
+ * Scores from a verdict. An answer without factual claims is fully faithful, and a question
+ * with no information needs is fully covered
+ */
+export function scoreVerdict(verdict: JudgeVerdict, contextCount: number, candidates: string[]): JudgeScores {
+  const relevantByIndex = new Map(verdict.contexts.map((c) => [c.index, c.relevant]));
+  const relevant = Array.from({ length: contextCount }, (_, i) => relevantByIndex.get(i + 1) === true);
+  const flagged = new Set(verdict.unsupportedNumbers.map(normalizeNumber));
+
+  return {
+    faithfulness: round(fraction(verdict.claims.filter((c) => c.supported).length, verdict.claims.length)),
+    relevance: round(Math.min(Math.max(verdict.relevance, 0), 1)),
+    contextPrecision: contextCount > 0 ? round(contextPrecision(relevant)) : null,
+    contextRecall: contextCount > 0 ? round(fraction(verdict.needs.filter((n) => n.covered).length, verdict.needs.length)) : null,
+    // Only numbers that were put to the judge count, whatever else it lists
+    hallucinatedNumbers: candidates.filter((n) => flagged.has(normalizeNumber(n))),
+  };
+}
+
+/**
+ * The judge's JSON, or null when it is missing or malformed
+ */
+export function parseVerdict(content: string): JudgeVerdict | null {
+  const json = content.match(/\{[\s\S]*\}/);
+  if (!json) return null;
+
+  try {
+    const raw = JSON.parse(json[0]);
+    if (!Array.isArray(raw.claims) || typeof raw.relevance !== "number") return null;
+    return {
+      claims: raw.claims
+        .filter((c: unknown) => typeof (c as { claim?: unknown })?.claim === "string")
+        .map((c: { claim: string; supported?: unknown }) => ({ claim: c.claim, supported: c.supported === true })),
+      relevance: raw.relevance,
+      contexts: Array.isArray(raw.contexts)
+        ? raw.contexts.map((c: { index?: unknown; relevant?: unknown }) => ({ index: Number(c.index), relevant: c.relevant === true }))
+        : [],
+      needs: Array.isArray(raw.needs)
+        ? raw.needs.map((n: { need?: unknown; covered?: unknown }) => ({ need: String(n.need ?? ""), covered: n.covered === true }))
+        : [],
+      unsupportedNumbers: Array.isArray(raw.unsupported_numbers) ? raw.unsupported_numbers.map(String) : [],
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function judgePrompt(input: JudgeInput, candidates: string[]): string {
+  const context = input.context.length > 0
+    ? input.context.map((c, i) => `[${i + 1}] ${c}`).join("\n\n")
+    : "(no context was retrieved)";
+  const numbers = candidates.length > 0 ? candidates.map((n) => `"${n}"`).join(", ") : "(none)";
+
+  return `You are grading an assistant's answer about the user's credit cards, statements and rewards. Judge ONLY against the context below; do not use outside knowledge.
+
+Question: ${input.query}
+
+Context:
+${context}
+
+Answer:
+${input.response}
+
+Numbers in the answer that do not appear verbatim in the context: ${numbers}
+
+Return ONLY a JSON object:
+{
+  "claims": [{"claim": "<one factual claim from the answer>", "supported": <true if the context states or directly implies it>}],
+  "relevance": <0 to 1: how directly and completely the answer addresses the question>,
+  "contexts": [{"index": <context number>, "relevant": <true if it helps answer the question>}],
+  "needs": [{"need": "<a piece of information the question requires>", "covered": <true if the context provides it>}],
+  "unsupported_numbers": [<those listed numbers that cannot be read or calculated from the context>]
+}
+List every factual claim (advice and pleasantries are not claims) and every context item.`;
+}
+
+/**
+ * Score one answer with the judge model
+ */
+export async function judgeAnswer(input: JudgeInput, model: string): Promise<JudgeResult> {
+  const candidates = ungroundedNumbers(input.response, input.context);
+  const result = await completeChat(
+    { model, messages: [{ role: "user", content: judgePrompt(input, candidates) }], temperature: 0, max_tokens: 2000 },
+    { label: "[JUDGE]" }
+  );
+  if (!result.success) return { success: false, error: result.error };
+
+  const verdict = parseVerdict(result.content);
+  if (!verdict) {
+    return { success: false, error: { code: "INVALID_VERDICT", message: "The judge did not return a usable verdict" } };
+  }
+
+  return {
+    success: true,
+    scores: scoreVerdict(verdict, input.context.length, candidates),
+    verdict,
+    usage: result.usage,
+  };
+}
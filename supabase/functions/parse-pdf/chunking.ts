@@ -0,0 +1,228 @@
+/**
+ * Statement chunking and RAG indexing
+ * Splits PII-masked statement text into overlapping, section-aware chunks
+ * and stores them (with embeddings) in document_chunks for search_documents.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { generateEmbeddings, embeddingToVector } from "../_shared/embeddings.ts";
+
+const CHUNK_SIZE = 1200; // characters per chunk body
+const CHUNK_OVERLAP = 200; // characters carried over between consecutive chunks
+const MIN_CHUNK_CHARS = 40;
+
+// Headings commonly used by Indian bank statements to separate sections
+const SECTION_PATTERNS: Array<{ section: string; pattern: RegExp }> = [
+  { section: "account_summary", pattern: /^(account|statement|card)\s+summary\b/i },
+  { section: "payment_summary", pattern: /^(payment\s+(summary|details|due)|minimum\s+amount\s+due|total\s+amount\s+due)\b/i },
+  { section: "reward_points", pattern: /^(reward|rewards)\s+(points?\s+)?(summary|details|statement)\b/i },
+  { section: "transactions", pattern: /^((domestic|international)\s+)?transactions?(\s+details)?\b/i },
+  { section: "fees_and_charges", pattern: /^(fees?|charges|gst|finance\s+charges)\b/i },
+  { section: "offers", pattern: /^(offers?|important\s+(information|messages?))\b/i },
+];
+
+export interface StatementPage {
+  pageNumber: number | null;
+  text: string;
+}
+
+export interface StatementChunkContext {
+  documentId: string;
+  cardId?: string | null;
+  bankName: string;
+  cardName: string;
+  statementPeriod: { start?: string; end?: string };
+}
+
+export interface StatementChunk {
+  chunkIndex: number;
+  text: string;
+  metadata: {
+    document_id: string;
+    card_id: string | null;
+    bank_name: string;
+    card_name: string;
+    statement_period: { start: string; end: string };
+    page: number | null;
+    section: string;
+  };
+}
+
+interface Section {
+  name: string;
+  pageNumber: number | null;
+  lines: string[];
+}
+
+function detectSection(line: string): string | null {
+  const trimmed = line.trim();
+  if (trimmed.length === 0 || trimmed.length > 60) return null;
+  const match = SECTION_PATTERNS.find(({ pattern }) => pattern.test(trimmed));
+  return match ? match.section : null;
+}
+
+/**
+ * Group page lines into sections, starting a new section at each heading
+ */
+function splitIntoSections(pages: StatementPage[]): Section[] {
+  const sections: Section[] = [];
+  let sectionName = "general";
+
+  for (const page of pages) {
+    const lines = page.text.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
+    // A page break always starts a new section so page metadata stays accurate
+    let current: Section = { name: sectionName, pageNumber: page.pageNumber, lines: [] };
+    sections.push(current);
+
+    for (const line of lines) {
+      const heading = detectSection(line);
+      if (heading && current.lines.length > 0) {
+        current = { name: heading, pageNumber: page.pageNumber, lines: [] };
+        sections.push(current);
+      } else if (heading) {
+        current.name = heading;
+      }
+      current.lines.push(line);
+    }
+    sectionName = current.name;
+  }
+
+  return sections.filter((s) => s.lines.length > 0);
+}
+
+/**
+ * Window a section's lines into chunks of ~CHUNK_SIZE chars, overlapping by
+ * ~CHUNK_OVERLAP chars. Breaks only on line boundaries so table rows stay whole.
+ */
+function windowLines(lines: string[]): string[] {
+  const windows: string[] = [];
+  let start = 0;
+
+  while (start < lines.length) {
+    let end = start;
+    let size = 0;
+    while (end < lines.length && (size === 0 || size + lines[end].length + 1 <= CHUNK_SIZE)) {
+      size += lines[end].length + 1;
+      end++;
+    }
+    windows.push(lines.slice(start, end).join("\n"));
+    if (end >= lines.length) break;
+
+    // Step back over trailing lines to build the overlap for the next window
+    let overlap = 0;
+    let next = end;
+    while (next > start + 1 && overlap + lines[next - 1].length + 1 <= CHUNK_OVERLAP) {
+      next--;
+      overlap += lines[next].length + 1;
+    }
+    start = next;
+  }
+
+  return windows;
+}
+
+/**
+ * Split masked statement pages into overlapping, section-aware chunks.
+ * Each chunk is prefixed with a short header (bank, card, period, section)
+ * so the embedding captures which statement it came from.
+ */
+export function chunkStatementText(
+  pages: StatementPage[],
+  context: StatementChunkContext
+): StatementChunk[] {
+  const period = {
+    start: context.statementPeriod.start || "",
+    end: context.statementPeriod.end || "",
+  };
+  const periodLabel = period.start || period.end ? `${period.start || "?"} to ${period.end || "?"}` : "unknown period";
+
+  const chunks: StatementChunk[] = [];
+
+  for (const section of splitIntoSections(pages)) {
+    for (const body of windowLines(section.lines)) {
+      if (body.length < MIN_CHUNK_CHARS) continue;
+
+      const header = `[${context.bankName} ${context.cardName} | ${periodLabel} | ${section.name.replace(/_/g, " ")}${
+        section.pageNumber ? ` | page ${section.pageNumber}` : ""
+      }]`;
+
+      chunks.push({
+        chunkIndex: chunks.length,
+        text: `${header}\n${body}`,
+        metadata: {
+          document_id: context.documentId,
+          card_id: context.cardId || null,
+          bank_name: context.bankName,
+          card_name: context.cardName,
+          statement_period: period,
+          page: section.pageNumber,
+          section: section.name,
+        },
+      });
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Render extracted transactions as statement-style text lines for indexing
+ */
+export function renderTransactionsSection(
+  transactions: Array<{ date: string; description: string; amount: number; category?: string; points?: number }>
+): string {
+  if (transactions.length === 0) return "";
+  const rows = transactions.map((tx) => {
+    const direction = tx.amount < 0 ? "DR" : "CR";
+    return `${tx.date} | ${tx.description} | ${Math.abs(tx.amount).toFixed(2)} ${direction} | ${tx.category || "Other"} | ${tx.points || 0} pts`;
+  });
+  return ["Transactions", "Date | Description | Amount | Category | Points", ...rows].join("\n");
+}
+
+/**
+ * Embed and store chunks for a document.
+ * Idempotent: chunks are upserted on (document_id, chunk_index) and any
+ * leftover chunks from a previous, longer parse are removed.
+ */
+export async function indexDocumentChunks(
+  supabase: SupabaseClient,
+  userId: string,
+  documentId: string,
+  chunks: StatementChunk[]
+): Promise<{ indexed: number; embedded: number }> {
+  const embeddings = await generateEmbeddings(chunks.map((c) => c.text));
+
+  const rows = chunks.map((chunk, i) => ({
+    user_id: userId,
+    document_id: documentId,
+    chunk_index: chunk.chunkIndex,
+    chunk_text: chunk.text,
+    embedding: embeddingToVector(embeddings[i]?.embedding || []),
+    metadata: { ...chunk.metadata, embedding_model: embeddings[i]?.model || "none" },
+  }));
+
+  if (rows.length > 0) {
+    const { error: upsertError } = await supabase
+      .from("document_chunks")
+      .upsert(rows, { onConflict: "document_id,chunk_index" });
+
+    if (upsertError) {
+      console.error("[CHUNK] Upsert error:", upsertError);
+      return { indexed: 0, embedded: 0 };
+    }
+  }
+
+  const { error: cleanupError } = await supabase
+    .from("document_chunks")
+    .delete()
+    .eq("document_id", documentId)
+    .gte("chunk_index", rows.length);
+
+  if (cleanupError) {
+    console.error("[CHUNK] Stale chunk cleanup error:", cleanupError);
+  }
+
+  const embedded = rows.filter((r) => r.embedding !== null).length;
+  console.log(`[CHUNK] Indexed ${rows.length} chunks (${embedded} embedded) for document ${documentId}`);
+  return { indexed: rows.length, embedded };
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { fingerprintTransactions, normalizeMerchant } from "./dedup.ts";
+
+const statement = [
+  { transaction_date: "2026-09-12", amount: -1240, merchant_name: "SWIGGY*Bangalore", description: "SWIGGY*Bangalore IN" },
+  { transaction_date: "2026-09-14", amount: -450, merchant_name: "Uber India", description: "UBER INDIA SYSTEMS" },
+  { transaction_date: "2026-09-14", amount: -450, merchant_name: "Uber India", description: "UBER INDIA SYSTEMS" },
+  { transaction_date: "2026-09-20", amount: 1240, merchant_name: null, description: "Refund - Swiggy" },
+];
+
+describe("transaction fingerprints", () => {
+  it("reproduces the same fingerprints when a statement is imported again", async () => {
+    const first = await fingerprintTransactions(statement);
+    const reimport = await fingerprintTransactions(statement.map((row) => ({ ...row })));
+
+    expect(reimport).toEqual(first);
+    expect(first[0]).toMatch(/^[0-9a-f]{64}$/);
+    // Merchant formatting doesn't matter, only its words
+    expect(await fingerprintTransactions([{ ...statement[0], merchant_name: "swiggy  bangalore" }])).toEqual([first[0]]);
+    expect(normalizeMerchant("SWIGGY*Bangalore")).toBe("swiggy bangalore");
+    // Like the migration's backfill, only a missing merchant falls back to the description
+    expect(await fingerprintTransactions([{ ...statement[3], merchant_name: "" }])).not.toEqual([first[3]]);
+  });
+
+  it("keeps two genuine same-day, same-amount purchases apart", async () => {
+    const [, firstRide, secondRide] = await fingerprintTransactions(statement);
+
+    expect(secondRide).not.toBe(firstRide);
+    expect(new Set(await fingerprintTransactions(statement)).size).toBe(statement.length);
+    // Occurrences are numbered within a statement: on its own, the second ride is a first occurrence
+    expect(await fingerprintTransactions([statement[2]])).toEqual([firstRide]);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Duplicate statement and transaction detection
+ * Uploaded files are identified by a SHA-256 content hash, statements by card + period,
+ * and transactions by a fingerprint (date + amount + normalized merchant) so that
+ * re-importing a statement never inserts - or awards points for - the same row twice.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const FINGERPRINT_LOOKUP_BATCH = 200;
+
+export interface ImportedStatement {
+  documentId: string;
+  fileName: string;
+  importedAt: string;
+  statementStart: string | null;
+  statementEnd: string | null;
+}
+
+interface FingerprintInput {
+  transaction_date: string;
+  amount: number;
+  merchant_name: string | null;
+  description: string;
+}
+
+interface PdfDocumentRow {
+  id: string;
+  file_name: string;
+  created_at: string;
+  statement_start: string | null;
+  statement_end: string | null;
+}
+
+function toImportedStatement(row: PdfDocumentRow): ImportedStatement {
+  return {
+    documentId: row.id,
+    fileName: row.file_name,
+    importedAt: row.created_at,
+    statementStart: row.statement_start,
+    statementEnd: row.statement_end,
+  };
+}
+
+async function sha256Hex(data: Uint8Array | string): Promise<string> {
+  const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Hash of the uploaded file bytes (before decryption, so a re-upload matches without a password)
+ */
+export function hashPdfContent(pdfBytes: Uint8Array): Promise<string> {
+  return sha256Hex(pdfBytes);
+}
+
+/**
+ * Earlier successfully parsed upload of the exact same file, if any
+ */
+export async function findDuplicateUpload(
+  supabase: SupabaseClient,
+  userId: string,
+  documentId: string,
+  contentHash: string
+): Promise<ImportedStatement | null> {
+  const { data, error } = await supabase
+    .from("pdf_documents")
+    .select("id, file_name, created_at, statement_start, statement_end")
+    .eq("user_id", userId)
+    .eq("content_hash", contentHash)
+    .neq("id", documentId)
+    .not("parsed_data", "is", null)
+    .order("created_at", { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[DEDUP] Content hash lookup error:", error);
+    return null;
+  }
+  return data ? toImportedStatement(data as PdfDocumentRow) : null;
+}
+
+/**
+ * Statements already imported for the card whose period overlaps the given one
+ */
+export async function findOverlappingStatements(
+  supabase: SupabaseClient,
+  userId: string,
+  cardId: string,
+  documentId: string,
+  period: { start: string; end: string }
+): Promise<ImportedStatement[]> {
+  const { data, error } = await supabase
+    .from("pdf_documents")
+    .select("id, file_name, created_at, statement_start, statement_end")
+    .eq("user_id", userId)
+    .eq("card_id", cardId)
+    .neq("id", documentId)
+    .lte("statement_start", period.end)
+    .gte("statement_end", period.start)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("[DEDUP] Period overlap lookup error:", error);
+    return [];
+  }
+  return ((data || []) as PdfDocumentRow[]).map(toImportedStatement);
+}
+
+/**
+ * Lowercase alphanumeric words - must match the backfill in the fingerprint migration
+ */
+export function normalizeMerchant(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+/**
+ * Fingerprint each transaction row. Identical rows on one statement (two equal
+ * purchases on the same day) get increasing occurrence numbers, so they stay
+ * distinct while a re-import of the same statement reproduces the same fingerprints.
+ */
+export async function fingerprintTransactions(rows: FingerprintInput[]): Promise<string[]> {
+  const occurrences = new Map<string, number>();
+  return await Promise.all(
+    rows.map((row) => {
+      const key = [
+        row.transaction_date,
+        row.amount.toFixed(2),
+        // coalesce(merchant_name, description) in the backfill: an empty merchant is kept
+        normalizeMerchant(row.merchant_name ?? row.description),
+      ].join("|");
+      const occurrence = (occurrences.get(key) || 0) + 1;
+      occurrences.set(key, occurrence);
+      return sha256Hex(`${key}|${occurrence}`);
+    })
+  );
+}
+
+/**
+ * Fingerprints already stored for the card
+ */
+export async function findExistingFingerprints(
+  supabase: SupabaseClient,
+  userId: string,
+  cardId: string,
+  fingerprints: string[]
+): Promise<Set<string>> {
+  const existing = new Set<string>();
+  for (let i = 0; i < fingerprints.length; i += FINGERPRINT_LOOKUP_BATCH) {
+    const { data, error } = await supabase
+      .from("transactions")
+      .select("fingerprint")
+      .eq("user_id", userId)
+      .eq("card_id", cardId)
+      .in("fingerprint", fingerprints.slice(i, i + FINGERPRINT_LOOKUP_BATCH));
+
+    if (error) {
+      console.error("[DEDUP] Fingerprint lookup error:", error);
+      continue;
+    }
+    for (const row of data || []) existing.add(row.fingerprint);
+  }
+  return existing;
+}
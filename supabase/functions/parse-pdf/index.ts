@@ -1,5 +1,42 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { PDFDocument } from "https://esm.sh/pdf-lib@1.17.1";
+import { chunkStatementText, indexDocumentChunks, renderTransactionsSection, type StatementPage } from "./chunking.ts";
+import {
+  findDuplicateUpload,
+  findExistingFingerprints,
+  findOverlappingStatements,
+  fingerprintTransactions,
+  hashPdfContent,
+  type ImportedStatement,
+} from "./dedup.ts";
+import { extractJsonObject, validateParsedResponse } from "./schema.ts";
+import { createParseJob, finishParseJob, jobProgressReporter, type ProgressReporter } from "./jobs.ts";
+import {
+  generateExpiringPointsAlerts,
+  isLatestStatement,
+  mergeSummaries,
+  readPointsExpiry,
+  readStatementSummary,
+  savePointsExpiry,
+  saveStatementSummary,
+  schedulePaymentReminder,
+} from "./summary.ts";
+import { readTextLayer, type TextLayer } from "./pdf-text.ts";
+import {
+  applyTemplate,
+  detectLayout,
+  findTemplate,
+  generateTemplateHash,
+  inferTemplate,
+  learnTemplate,
+  recordTemplateOutcome,
+  type StatementLayout,
+  type TemplateExtraction,
+} from "./templates.ts";
+import { bytesToBase64, decryptPdf, isPdfPasswordProtected } from "../_shared/pdf-decrypt.ts";
+import { authenticateRequest, authErrorBody, authorizeStoragePath } from "../_shared/auth.ts";
+import { completeChat } from "../_shared/llm.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -20,6 +57,9 @@ const PII_PATTERNS = {
   cvv: /\bCVV[:\s]*\d{3,4}\b/gi,
   accountNumber: /\b\d{9,18}\b/g,
   ifsc: /\b[A-Z]{4}0[A-Z0-9]{6}\b/g,
+  // Labelled address lines and names as printed in local text layers (the AI prompt redacts these itself)
+  address: /\bAddress[ \t]*:[^\n]*/g,
+  holderName: /(Name[ \t]*:|\bCard[ \t]?holder(?:[ \t]+Name)?[ \t]*:|\bPrepared[ \t]+for[ \t]*:?|\b(?:Mr|Mrs|Ms|Shri|Smt)\b\.?|\bDr\.)[ \t]*[A-Z][A-Z.]*(?:[ \t]+[A-Z][A-Z.]*){0,3}\b/g,
 };
 
 function maskPII(text: string): { maskedText: string; piiTypesFound: string[]; fieldsMasked: number } {
@@ -83,12 +123,27 @@ function maskPII(text: string): { maskedText: string; piiTypesFound: string[]; f
     maskedText = maskedText.replace(PII_PATTERNS.ifsc, "XXXX0XXXXXX");
   }
 
+  const addressMatches = maskedText.match(PII_PATTERNS.address);
+  if (addressMatches) {
+    piiTypesFound.push("address");
+    fieldsMasked += addressMatches.length;
+    maskedText = maskedText.replace(PII_PATTERNS.address, "Address : [ADDRESS_REDACTED]");
+  }
+
+  const holderNameMatches = maskedText.match(PII_PATTERNS.holderName);
+  if (holderNameMatches) {
+    piiTypesFound.push("cardholder_name");
+    fieldsMasked += holderNameMatches.length;
+    maskedText = maskedText.replace(PII_PATTERNS.holderName, (_match, label: string) => `${label} [HOLDER_NAME]`);
+  }
+
   return { maskedText, piiTypesFound, fieldsMasked };
 }
 
 // ============================================================================
 // ADAPTIVE TEMPLATE SYSTEM
-// Schema-less extraction using AI - no code changes needed for new templates
+// Known layouts are extracted with learned statement_templates (see templates.ts);
+// unknown layouts use schema-less AI extraction, which then teaches a template
 // ============================================================================
 
 interface ExtractedData {
@@ -112,17 +167,6 @@ interface TransactionData {
   points?: number;
 }
 
-function generateTemplateHash(structuralFeatures: string[]): string {
-  const sorted = structuralFeatures.sort().join("|");
-  let hash = 0;
-  for (let i = 0; i < sorted.length; i++) {
-    const char = sorted.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash;
-  }
-  return Math.abs(hash).toString(16).padStart(8, "0");
-}
-
 function categorizeTransaction(description: string): string {
   const desc = description.toLowerCase();
   
@@ -219,34 +263,59 @@ interface PIIAuditEntry {
   timestamp: string;
 }
 
+interface ExtractionResult {
+  rawText: string;
+  structuredData: ParsedResponse;
+  tokensUsed: { input: number; output: number };
+  ocrMaskedTypes: string[];
+  extractionMethod: string;
+  complete: boolean; // false when the AI response was cut off or was not valid JSON
+}
+
+// Extraction output as returned by the model - unchecked until validateParsedResponse
 interface ParsedResponse {
   layoutFeatures?: string[];
   bankName?: string;
   cardName?: string;
   statementPeriod?: { start?: string; end?: string };
   transactions?: Array<{ date?: string; description?: string; amount?: number | string; merchant?: string }>;
+  statementSummary?: Record<string, unknown>;
+  pointsExpiry?: unknown[];
   confidence?: number;
 }
 
-/**
- * Check if PDF is password-protected by examining binary markers
- */
-function isPdfPasswordProtected(pdfData: Uint8Array): boolean {
-  const checkLength = Math.min(pdfData.length, 50000);
-  const text = new TextDecoder("latin1").decode(pdfData.slice(0, checkLength));
-  
-  const isEncrypted = text.includes("/Encrypt") || 
-                      text.includes("/Filter/Standard") ||
-                      text.includes("/Filter /Standard") ||
-                      (text.includes("/U ") && text.includes("/O ")) ||
-                      text.includes("/Crypt");
-  
-  if (isEncrypted) {
-    console.log("[PDF-CHECK] Detected encryption markers in PDF binary");
-  }
-  
-  return isEncrypted;
-}
+// The JSON an extraction returns - the extraction and repair prompts both ask for it
+const EXTRACTION_JSON_FORMAT = `{
+  "rawText": "The extracted text with PII redacted: statement header, account/payment summary, reward points summary and any notices (transaction rows go in the transactions array, not here)",
+  "layoutFeatures": ["header_format", "table_columns", "date_format_used"],
+  "bankName": "Bank name (HDFC, ICICI, Axis, SBI, etc.)",
+  "cardName": "Card product name (Infinia, Regalia, Coral, etc.)",
+  "statementPeriod": { "start": "YYYY-MM-DD", "end": "YYYY-MM-DD" },
+  "transactions": [
+    {
+      "date": "YYYY-MM-DD",
+      "description": "Transaction description",
+      "amount": -1234.56,
+      "merchant": "Merchant name"
+    }
+  ],
+  "statementSummary": {
+    "totalAmountDue": 5154.00,
+    "minimumAmountDue": 285.00,
+    "paymentDueDate": "YYYY-MM-DD",
+    "creditLimit": 76000,
+    "availableCreditLimit": 70846,
+    "openingRewardPoints": 2652,
+    "pointsEarned": 66,
+    "pointsRedeemed": 0,
+    "pointsExpired": 0,
+    "closingRewardPoints": 2718
+  },
+  "pointsExpiry": [
+    { "date": "YYYY-MM-DD", "points": 500, "approximate": false }
+  ],
+  "confidence": 0.85
+}`;
 
 /**
  * Extract text from PDF using AI OCR
@@ -257,32 +326,9 @@ function isPdfPasswordProtected(pdfData: Uint8Array): boolean {
  */
 async function extractPDFDataSinglePass(
   pdfBase64: string,
-  pdfBytes: Uint8Array
-): Promise<{
-  rawText: string;
-  structuredData: ParsedResponse;
-  tokensUsed: { input: number; output: number };
-  ocrMaskedTypes: string[];
-  extractionMethod: string;
-}> {
-  const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-  if (!LOVABLE_API_KEY) {
-    throw new Error("LOVABLE_API_KEY is not configured");
-  }
-
-  // Check if PDF is password-protected
-  if (isPdfPasswordProtected(pdfBytes)) {
-    console.log("[EXTRACT] PDF is password-protected - rejecting");
-    const err = new Error("PASSWORD_REQUIRED");
-    (err as unknown as Record<string, unknown>).pdfErrorInfo = {
-      code: "PASSWORD_REQUIRED",
-      userMessage: "This PDF is password-protected. Please unlock it before uploading.",
-      suggestedAction: "Use iLovePDF or Adobe Acrobat to unlock the PDF first",
-      recoverable: false,
-    };
-    throw err;
-  }
-
+  scope?: { pages: number[]; pageCount: number },
+  repairTruncated = true
+): Promise<ExtractionResult> {
   // Combined prompt: OCR with PII masking + structured extraction in single pass
   const combinedPrompt = `TASK: Extract and analyze this credit card statement in a SINGLE pass.
 
@@ -298,40 +344,26 @@ STEP 2 - STRUCTURED EXTRACTION:
 From the extracted text, identify and structure:
 
 Return JSON in this EXACT format:
-{
-  "rawText": "The full extracted text with PII redacted (first 500 chars for reference)",
-  "layoutFeatures": ["header_format", "table_columns", "date_format_used"],
-  "bankName": "Bank name (HDFC, ICICI, Axis, SBI, etc.)",
-  "cardName": "Card product name (Infinia, Regalia, Coral, etc.)",
-  "statementPeriod": { "start": "YYYY-MM-DD", "end": "YYYY-MM-DD" },
-  "transactions": [
-    {
-      "date": "YYYY-MM-DD",
-      "description": "Transaction description",
-      "amount": -1234.56,
-      "merchant": "Merchant name"
-    }
-  ],
-  "confidence": 0.85
-}
+${EXTRACTION_JSON_FORMAT}
 
 RULES:
 - Negative amounts for debits/purchases, positive for credits/refunds
 - Parse all date formats to YYYY-MM-DD
 - Extract ALL transactions visible in the statement
+- statementSummary: copy the account summary and reward points summary exactly as printed (reward points as whole numbers); use null for any field not shown - never calculate it from transactions
+- pointsExpiry: every "points expiring on/by" entry printed; for "expiring in next N days" columns use the statement date + N days with "approximate": true; [] when no expiry schedule is printed
 - Confidence: 0.9+ for clear format, 0.7-0.9 standard, <0.7 unclear
-- Return ONLY valid JSON, no markdown`;
+- Return ONLY valid JSON, no markdown${scope ? `
+
+SCOPE:
+This PDF holds pages ${scope.pages.join(", ")} of a ${scope.pageCount}-page statement.
+Extract only what appears on these pages. Use null for header fields (bankName, cardName, statementPeriod, statementSummary, pointsExpiry) that are not shown here.` : ""}`;
 
   console.log("[EXTRACT] Single-pass extraction starting...");
   const extractStart = Date.now();
 
-  const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Authorization": `Bearer ${LOVABLE_API_KEY}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
+  const response = await completeChat(
+    {
       model: "google/gemini-2.5-flash-lite",
       messages: [
         {
@@ -344,16 +376,14 @@ RULES:
       ],
       max_tokens: 16000,
       temperature: 0,
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error("[EXTRACT] AI error:", response.status, errorText);
+    },
+    { timeoutMs: EXTRACTION_TIMEOUT_MS, label: "[EXTRACT]" }
+  );
 
+  if (!response.success) {
     // Check for password-protected indicators
     const passwordIndicators = ["no pages", "empty document", "encrypted", "password", "protected"];
-    const textLower = errorText.toLowerCase();
+    const textLower = (response.error.detail ?? "").toLowerCase();
 
     if (passwordIndicators.some(indicator => textLower.includes(indicator))) {
       const err = new Error("PASSWORD_REQUIRED");
@@ -366,38 +396,41 @@ RULES:
       throw err;
     }
 
-    throw new Error(`AI extraction failed: ${response.status}`);
+    throw new Error(`AI extraction failed: ${response.error.upstreamStatus ?? response.error.code}`);
   }
 
-  const result = await response.json();
-  const content = result.choices?.[0]?.message?.content || "{}";
+  const content = response.content || "{}";
+  const truncated = response.finishReason === "length";
   const tokensUsed = {
-    input: result.usage?.prompt_tokens || 0,
-    output: result.usage?.completion_tokens || 0,
+    input: response.usage.tokensInput,
+    output: response.usage.tokensOutput,
   };
 
   const extractTime = Date.now() - extractStart;
   console.log(`[EXTRACT] Single-pass complete in ${extractTime}ms, tokens: ${tokensUsed.input}/${tokensUsed.output}`);
 
-  // Parse JSON response
+  // Parse JSON response; malformed JSON gets one repair re-prompt (a truncated batch is split instead, when it can be)
+  let complete = !truncated;
+  let json = extractJsonObject(content);
+  if (json.error !== undefined && (!truncated || repairTruncated)) {
+    console.warn(`[EXTRACT] Malformed JSON (${json.error}) - requesting repair`);
+    const repaired = await repairJsonResponse(content, json.error);
+    tokensUsed.input += repaired.tokensUsed.input;
+    tokensUsed.output += repaired.tokensUsed.output;
+    json = extractJsonObject(repaired.content);
+  }
+
   let structuredData: ParsedResponse;
   let rawText = "";
-  try {
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    const parsed = jsonMatch ? JSON.parse(jsonMatch[0]) : {};
-    rawText = parsed.rawText || content.substring(0, 2000);
-    structuredData = {
-      layoutFeatures: parsed.layoutFeatures || [],
-      bankName: parsed.bankName,
-      cardName: parsed.cardName,
-      statementPeriod: parsed.statementPeriod,
-      transactions: parsed.transactions || [],
-      confidence: parsed.confidence,
-    };
-  } catch (e) {
-    console.error("[EXTRACT] JSON parse error:", e);
+  if (json.error === undefined && typeof json.value === "object" && json.value !== null) {
+    const parsed = json.value as ParsedResponse & { rawText?: string };
+    rawText = typeof parsed.rawText === "string" && parsed.rawText ? parsed.rawText : content.substring(0, 2000);
+    structuredData = parsed;
+  } else {
+    console.error("[EXTRACT] JSON parse error:", json.error);
     rawText = content.substring(0, 2000);
     structuredData = {};
+    complete = false;
   }
 
   // Track PII types masked
@@ -412,297 +445,856 @@ RULES:
     tokensUsed,
     ocrMaskedTypes,
     extractionMethod: "ai_single_pass",
+    complete,
   };
 }
 
+/**
+ * Ask the model to turn a malformed or truncated extraction response back into valid JSON
+ * (text only - the PDF is not sent again)
+ */
+async function repairJsonResponse(
+  content: string,
+  parseError: string
+): Promise<{ content: string; tokensUsed: { input: number; output: number } }> {
+  const repairPrompt = `The credit card statement extraction below is not valid JSON (${parseError}).
+
+Return the same data as ONE valid JSON object in this EXACT format:
+${EXTRACTION_JSON_FORMAT}
+
+- Keep every complete transaction exactly as given; drop a transaction that is cut off
+- Keep statementSummary and pointsExpiry as given; use null for a statementSummary field that is cut off and drop a pointsExpiry entry that is cut off
+- Do not invent values; use null when a field is missing
+- Return ONLY valid JSON, no markdown
+
+MALFORMED OUTPUT:
+${content}`;
+
+  const response = await completeChat(
+    {
+      model: "google/gemini-2.5-flash-lite",
+      messages: [{ role: "user", content: repairPrompt }],
+      max_tokens: 16000,
+      temperature: 0,
+    },
+    { timeoutMs: EXTRACTION_TIMEOUT_MS, label: "[EXTRACT]" }
+  );
+
+  if (!response.success) {
+    console.error("[EXTRACT] Repair request failed:", response.error.code);
+    return { content: "", tokensUsed: { input: 0, output: 0 } };
+  }
+
+  return {
+    content: response.content,
+    tokensUsed: {
+      input: response.usage.tokensInput,
+      output: response.usage.tokensOutput,
+    },
+  };
+}
+
+/**
+ * Extraction from the local text layer (learned template or inferred layout) - no AI call, no tokens
+ */
+function templateExtractionResult(
+  extraction: TemplateExtraction,
+  extractionMethod: "template" | "text_layer" = "template"
+): ExtractionResult {
+  return {
+    rawText: extraction.remainingText,
+    structuredData: {
+      layoutFeatures: [],
+      bankName: extraction.bankName,
+      cardName: extraction.cardName,
+      statementPeriod: extraction.statementPeriod,
+      transactions: extraction.transactions,
+      confidence: extraction.confidence,
+    },
+    tokensUsed: { input: 0, output: 0 },
+    ocrMaskedTypes: [],
+    extractionMethod,
+    complete: true,
+  };
+}
+
+// Minimum confidence for text-layer extraction without a learned template
+const TEXT_LAYER_CONFIDENCE_THRESHOLD = 0.7;
+
+// Pages per AI extraction call; keeps each JSON response well under max_tokens
+const PAGES_PER_BATCH = 4;
+
+// Per-attempt timeout for extraction calls: a 16k-token JSON answer takes far longer than a chat reply
+const EXTRACTION_TIMEOUT_MS = 120000;
+
+// Quarantined rows stored on the document for review
+const MAX_QUARANTINED_ROWS = 100;
+
+// Extraction methods that called the AI gateway
+const AI_EXTRACTION_METHODS = new Set(["ai_single_pass", "ai_batched", "hybrid"]);
+
+/**
+ * Copy the given 1-based pages into a new PDF so only they are sent to the AI
+ */
+async function extractPages(source: PDFDocument, pageNumbers: number[]): Promise<Uint8Array> {
+  const target = await PDFDocument.create();
+  const pages = await target.copyPages(source, pageNumbers.map((n) => n - 1));
+  pages.forEach((page) => target.addPage(page));
+  return await target.save();
+}
+
+/**
+ * AI extraction in page-range batches (all pages, or only the given ones).
+ * A batch whose response is cut off or is not valid JSON is split in half
+ * and retried, down to single pages; results are merged in page order.
+ */
+async function extractWithAIBatches(
+  pdfBytes: Uint8Array,
+  pageNumbers: number[] | null,
+  onBatch: (pagesProcessed: number, pagesTotal: number) => Promise<void>
+): Promise<ExtractionResult> {
+  const source = await PDFDocument.load(pdfBytes, { ignoreEncryption: true });
+  const pageCount = source.getPageCount();
+  const pages = pageNumbers ?? Array.from({ length: pageCount }, (_, i) => i + 1);
+
+  const queue: number[][] = [];
+  for (let i = 0; i < pages.length; i += PAGES_PER_BATCH) {
+    queue.push(pages.slice(i, i + PAGES_PER_BATCH));
+  }
+
+  const results: ExtractionResult[] = [];
+  const retriedTokens = { input: 0, output: 0 };
+  let pagesProcessed = 0;
+
+  while (queue.length > 0) {
+    const batch = queue.shift()!;
+    const wholeDocument = batch.length === pageCount;
+    const canSplit = batch.length > 1;
+    const result = wholeDocument
+      ? await extractPDFDataSinglePass(bytesToBase64(pdfBytes), undefined, !canSplit)
+      : await extractPDFDataSinglePass(bytesToBase64(await extractPages(source, batch)), { pages: batch, pageCount }, !canSplit);
+
+    if (!result.complete && canSplit) {
+      console.warn(`[EXTRACT] Incomplete response for pages ${batch.join(",")} - splitting batch`);
+      retriedTokens.input += result.tokensUsed.input;
+      retriedTokens.output += result.tokensUsed.output;
+      const middle = Math.ceil(batch.length / 2);
+      queue.unshift(batch.slice(0, middle), batch.slice(middle));
+      continue;
+    }
+    if (!result.complete) {
+      console.warn(`[EXTRACT] Page ${batch[0]} still incomplete - keeping partial result`);
+    }
+
+    results.push(result);
+    pagesProcessed += batch.length;
+    await onBatch(pagesProcessed, pages.length);
+  }
+
+  return mergeBatchResults(results, retriedTokens);
+}
+
+/**
+ * Merge per-batch AI results: header fields from the first batch that has them,
+ * transactions concatenated in page order, token usage summed (including retries)
+ */
+function mergeBatchResults(results: ExtractionResult[], retriedTokens: { input: number; output: number }): ExtractionResult {
+  if (results.length === 1 && retriedTokens.input === 0 && retriedTokens.output === 0) return results[0];
+
+  const data = results.map((r) => r.structuredData);
+  const confidences = data.map((d) => d.confidence).filter((c): c is number => typeof c === "number");
+  const complete = results.every((r) => r.complete);
+
+  return {
+    rawText: results.map((r) => r.rawText).filter(Boolean).join("\n\n"),
+    structuredData: {
+      layoutFeatures: data.find((d) => d.layoutFeatures?.length)?.layoutFeatures || [],
+      bankName: data.find((d) => d.bankName)?.bankName,
+      cardName: data.find((d) => d.cardName)?.cardName,
+      statementPeriod: data.find((d) => d.statementPeriod?.start && d.statementPeriod?.end)?.statementPeriod,
+      transactions: data.flatMap((d) => d.transactions || []),
+      // Summary fields can be split across pages: first batch that shows a field wins
+      statementSummary: data.reduce<Record<string, unknown>>((merged, d) => {
+        for (const [key, value] of Object.entries(d.statementSummary || {})) {
+          if (merged[key] === undefined || merged[key] === null) merged[key] = value;
+        }
+        return merged;
+      }, {}),
+      pointsExpiry: data.flatMap((d) => d.pointsExpiry || []),
+      // An unreadable page means transactions may be missing
+      confidence: Math.min(confidences.length > 0 ? Math.min(...confidences) : 0.8, complete ? 1 : 0.5),
+    },
+    tokensUsed: {
+      input: retriedTokens.input + results.reduce((sum, r) => sum + r.tokensUsed.input, 0),
+      output: retriedTokens.output + results.reduce((sum, r) => sum + r.tokensUsed.output, 0),
+    },
+    ocrMaskedTypes: [...new Set(results.flatMap((r) => r.ocrMaskedTypes))],
+    extractionMethod: results.length > 1 ? "ai_batched" : "ai_single_pass",
+    complete,
+  };
+}
+
+/**
+ * Combine a text-layer extraction with AI OCR of the pages it couldn't read
+ */
+function mergeExtractions(local: ExtractionResult, ocr: ExtractionResult): ExtractionResult {
+  const localData = local.structuredData;
+  const ocrData = ocr.structuredData;
+  return {
+    rawText: [local.rawText, ocr.rawText].filter(Boolean).join("\n\n"),
+    structuredData: {
+      layoutFeatures: [],
+      bankName: localData.bankName || ocrData.bankName,
+      cardName: localData.cardName || ocrData.cardName,
+      statementPeriod: localData.statementPeriod || ocrData.statementPeriod,
+      transactions: [...(localData.transactions || []), ...(ocrData.transactions || [])],
+      statementSummary: ocrData.statementSummary,
+      pointsExpiry: ocrData.pointsExpiry,
+      confidence: Math.min(localData.confidence ?? 0.8, ocrData.confidence ?? 0.8),
+    },
+    tokensUsed: ocr.tokensUsed,
+    ocrMaskedTypes: ocr.ocrMaskedTypes,
+    extractionMethod: "hybrid",
+    complete: ocr.complete,
+  };
+}
+
+/**
+ * What to chunk for search. Pages read from the text layer keep their page numbers (their
+ * transaction rows included); text only the AI read has no page, so an AI-only extraction is
+ * indexed as its masked text plus the transaction list, and a hybrid one adds the OCR'd text and
+ * the transaction list after the readable pages
+ */
+function statementPagesForChunking(
+  textLayer: TextLayer,
+  extractionMethod: string,
+  ocrText: string | null,
+  maskedText: string,
+  transactions: TransactionData[]
+): StatementPage[] {
+  const readablePages = textLayer.pages.filter((page) => page.status === "text" && page.lines.length > 0);
+  const needsOcr = textLayer.pages.some((page) => page.status === "scanned" || page.status === "unreadable");
+  const aiReadWholeStatement = extractionMethod === "ai_single_pass" || extractionMethod === "ai_batched";
+  const transactionsSection: StatementPage = { pageNumber: null, text: renderTransactionsSection(transactions) };
+
+  if (readablePages.length === 0 || (aiReadWholeStatement && needsOcr)) {
+    return [{ pageNumber: null, text: maskedText }, transactionsSection];
+  }
+
+  const pages: StatementPage[] = readablePages.map((page) => ({
+    pageNumber: page.pageNumber,
+    text: maskPII(page.lines.join("\n")).maskedText,
+  }));
+  if (ocrText) pages.push({ pageNumber: null, text: maskPII(ocrText).maskedText }, transactionsSection);
+  return pages;
+}
+
+interface ParseRequest {
+  documentId: string;
+  userId: string;
+  filePath: string;
+  cardName: string; // "default" lets the statement decide
+  password?: string;
+}
+
+// Response body and HTTP status of a parse; also stored as the parse job result
+interface ParseOutcome {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+function outcome(body: Record<string, unknown>, status = 200): ParseOutcome {
+  return { status, body };
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * "Already imported" outcome for a statement that matches an earlier upload
+ */
+function duplicateStatementOutcome(duplicate: ImportedStatement, reason: "same_file" | "same_period"): ParseOutcome {
+  const importedOn = new Date(duplicate.importedAt).toLocaleDateString("en-IN", { day: "numeric", month: "short", year: "numeric" });
+  return outcome({
+    error: "DUPLICATE_STATEMENT",
+    reason,
+    duplicateOf: duplicate,
+    userMessage: `This statement was already imported on ${importedOn} (${duplicate.fileName}).`,
+    suggestedAction: "No changes were made. Upload a different statement period, or delete the earlier upload to re-import it.",
+  });
+}
+
+// Statement period dates as stored on pdf_documents (YYYY-MM-DD or nothing)
+function isoDateOrNull(value: string | undefined): string | null {
+  return value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : null;
+}
+
 // ============================================================================
 // MAIN HANDLER
 // ============================================================================
 
-serve(async (req) => {
-  if (req.method === "OPTIONS") {
-    return new Response("ok", { headers: corsHeaders });
-  }
-
+/**
+ * Parse one statement end to end: download, unlock, extract, store, index
+ */
+async function parseStatement(
+  supabase: SupabaseClient,
+  request: ParseRequest,
+  reportProgress: ProgressReporter
+): Promise<ParseOutcome> {
+  const { documentId, userId, filePath, cardName, password } = request;
   const startTime = Date.now();
-  let supabase: SupabaseClient | null = null;
 
-  try {
-    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    supabase = createClient(supabaseUrl, supabaseServiceKey);
+  console.log(`[PARSE] Starting parse for document: ${documentId}`);
 
-    const { documentId, userId, filePath, cardName } = await req.json();
+  // Download PDF from storage
+  await reportProgress({ stage: "downloading", progress: 5 });
+  const { data: fileData, error: downloadError } = await supabase.storage
+    .from("pdf-documents")
+    .download(filePath);
 
-    if (!filePath || !userId) {
-      return new Response(
-        JSON.stringify({ error: "Missing required parameters" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
+  if (downloadError || !fileData) {
+    console.error("[PARSE] Download error:", downloadError);
+    throw new Error("Failed to download document");
+  }
 
-    console.log(`[PARSE] Starting parse for document: ${documentId}`);
+  const arrayBuffer = await fileData.arrayBuffer();
+  let pdfBytes = new Uint8Array(arrayBuffer);
 
-    // Download PDF from storage
-    const { data: fileData, error: downloadError } = await supabase.storage
-      .from("pdf-documents")
-      .download(filePath);
+  console.log(`[PARSE] PDF size: ${pdfBytes.length} bytes`);
 
-    if (downloadError || !fileData) {
-      console.error("[PARSE] Download error:", downloadError);
-      throw new Error("Failed to download document");
+  // Same file already imported: stop before any extraction work
+  const contentHash = await hashPdfContent(pdfBytes);
+  const duplicateUpload = await findDuplicateUpload(supabase, userId, documentId, contentHash);
+  if (duplicateUpload) {
+    console.log(`[PARSE] Duplicate upload of document ${duplicateUpload.documentId}`);
+    return duplicateStatementOutcome(duplicateUpload, "same_file");
+  }
+
+  // Unlock password-protected statements before extraction
+  const wasPasswordProtected = isPdfPasswordProtected(pdfBytes);
+  if (wasPasswordProtected) {
+    await reportProgress({ stage: "unlocking", progress: 10 });
+    if (!password) {
+      console.log("[PARSE] Password-protected PDF without password - requesting one");
+      return outcome({
+        error: "PASSWORD_REQUIRED",
+        requiresPassword: true,
+        userMessage: "This PDF is password-protected. Enter its password to unlock it.",
+        suggestedAction: "Bank statement passwords are usually based on your date of birth or PAN.",
+      });
+    }
+
+    const decrypted = await decryptPdf(pdfBytes, password);
+    if (decrypted.success) {
+      pdfBytes = decrypted.pdfBytes;
+      console.log(`[PARSE] PDF unlocked: ${pdfBytes.length} bytes`);
+    } else if (decrypted.code === "INVALID_PASSWORD") {
+      return outcome({
+        error: "INVALID_PASSWORD",
+        requiresPassword: true,
+        userMessage: "The password you entered is incorrect.",
+        suggestedAction: "Check the password and try again.",
+      });
+    } else if (decrypted.code !== "NOT_ENCRYPTED") {
+      return outcome({
+        error: "ENCRYPTED_UNSUPPORTED",
+        userMessage: decrypted.message,
+        suggestedAction: "Unlock the PDF before uploading, or request an unencrypted statement from your bank.",
+      });
     }
+  }
 
-    // Convert to base64
-    const arrayBuffer = await fileData.arrayBuffer();
-    const pdfBytes = new Uint8Array(arrayBuffer);
-    let binary = "";
-    for (let i = 0; i < pdfBytes.length; i++) {
-      binary += String.fromCharCode(pdfBytes[i]);
+  // Read the local text layer and fingerprint the layout (digitally generated PDFs only)
+  await reportProgress({ stage: "reading_text", progress: 15 });
+  let textLayer: TextLayer = { pages: [], lines: [], text: "", hasTextLayer: false };
+  try {
+    textLayer = await readTextLayer(pdfBytes);
+  } catch (error) {
+    console.warn("[PARSE] Local text layer unreadable:", error);
+  }
+  const layout: StatementLayout | null = textLayer.hasTextLayer ? detectLayout(textLayer.lines) : null;
+  const template = layout ? await findTemplate(supabase, layout.templateHash) : null;
+
+  let extractionResult: ExtractionResult | null = null;
+  let templateId: string | null = null;
+  let ocrText: string | null = null; // AI-read text of the pages the text layer couldn't read
+
+  // AI batches advance progress from 20% to 80%
+  const reportExtractionProgress = (pagesProcessed: number, pagesTotal: number) =>
+    reportProgress({ stage: "extracting", progress: 20 + (60 * pagesProcessed) / pagesTotal, pagesTotal, pagesProcessed });
+  await reportProgress({ stage: "extracting", progress: 20 });
+
+  if (template) {
+    const templated = applyTemplate(template, textLayer.lines);
+    if (templated.confidence >= template.confidence_threshold) {
+      console.log(`[PARSE] Template ${template.template_hash} matched (confidence ${templated.confidence})`);
+      extractionResult = templateExtractionResult(templated);
+      templateId = template.id;
+    } else {
+      console.log(`[PARSE] Template ${template.template_hash} below threshold (${templated.confidence} < ${template.confidence_threshold}) - using AI`);
+      await recordTemplateOutcome(supabase, template.id, false);
     }
-    const pdfBase64 = btoa(binary);
+  }
 
-    console.log(`[PARSE] PDF size: ${pdfBytes.length} bytes`);
+  // Unknown layout with a readable text layer: parse it locally, AI only sees scanned/unreadable pages
+  if (!extractionResult && layout) {
+    const local = applyTemplate(inferTemplate(layout, textLayer.lines), textLayer.lines);
+    if (local.transactions.length > 0 && local.confidence >= TEXT_LAYER_CONFIDENCE_THRESHOLD) {
+      extractionResult = templateExtractionResult(local, "text_layer");
+      const ocrPages = textLayer.pages
+        .filter((page) => page.status === "scanned" || page.status === "unreadable")
+        .map((page) => page.pageNumber);
+      console.log(`[PARSE] Text layer extracted ${local.transactions.length} transactions (confidence ${local.confidence}), ${ocrPages.length} page(s) need OCR`);
+
+      if (ocrPages.length > 0) {
+        try {
+          const ocrResult = await extractWithAIBatches(pdfBytes, ocrPages, reportExtractionProgress);
+          extractionResult = mergeExtractions(extractionResult, ocrResult);
+          ocrText = ocrResult.rawText;
+        } catch (error) {
+          // Keep the text-layer result rather than failing the whole statement
+          console.error("[PARSE] OCR of non-text pages failed:", error);
+        }
+      }
+    }
+  }
 
-    // Single-pass extraction (OCR + structured data)
-    let extractionResult;
+  // AI extraction (OCR + structured data) in page batches for scanned PDFs and unparseable layouts
+  if (!extractionResult) {
     try {
-      extractionResult = await extractPDFDataSinglePass(pdfBase64, pdfBytes);
+      extractionResult = await extractWithAIBatches(pdfBytes, null, reportExtractionProgress);
     } catch (error) {
       // Handle password-protected PDF error
       if (error instanceof Error && error.message === "PASSWORD_REQUIRED") {
         console.log("[PARSE] Password-protected PDF detected - returning error");
-        return new Response(
-          JSON.stringify({
-            error: "PASSWORD_REQUIRED",
-            requiresPassword: true,
-            userMessage: "This PDF is password-protected. Please unlock it using iLovePDF or request an unencrypted statement from your bank.",
-            suggestedAction: "Unlock the PDF before uploading",
-          }),
-          { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+        return outcome({
+          error: "PASSWORD_REQUIRED",
+          requiresPassword: true,
+          userMessage: "This PDF is password-protected. Enter its password to unlock it.",
+          suggestedAction: "Bank statement passwords are usually based on your date of birth or PAN.",
+        });
       }
       throw error;
     }
+  }
 
-    const { rawText, structuredData: extractedData, tokensUsed, ocrMaskedTypes } = extractionResult;
-
-    if (!rawText || rawText.length < 50) {
-      console.error("[PARSE] Insufficient text extracted");
-      return new Response(
-        JSON.stringify({
-          error: "UNSUPPORTED_PDF_CONTENT",
-          userMessage: "Could not extract text from this PDF. It may be scanned or image-based.",
-          suggestedAction: "Request a digital statement from your bank instead of a scanned copy.",
-        }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    // Apply local PII masking as additional layer
-    const { piiTypesFound, fieldsMasked } = maskPII(rawText);
-    const allPiiTypes = [...new Set([...ocrMaskedTypes, ...piiTypesFound])];
+  const { rawText, tokensUsed, ocrMaskedTypes, extractionMethod } = extractionResult;
 
-    console.log(`[PARSE] PII masked: ${fieldsMasked} fields, types: ${allPiiTypes.join(", ")}`);
+  // Strict schema check: rows with bad dates/amounts are quarantined for review, never guessed
+  const validation = validateParsedResponse(extractionResult.structuredData);
+  const extractedData = validation.data;
+  if (validation.quarantined.length > 0 || validation.warnings.length > 0) {
+    console.warn(`[PARSE] Validation: ${validation.quarantined.length} row(s) quarantined; ${validation.warnings.join("; ")}`);
+  }
 
-    // Process transactions
-    interface RawTransaction {
-      date?: string;
-      description?: string;
-      amount?: number | string;
-      merchant?: string;
-    }
-    const transactions: TransactionData[] = ((extractedData.transactions || []) as RawTransaction[]).map((tx) => {
-      const amount = typeof tx.amount === "string" ? parseFloat(tx.amount.replace(/[^0-9.-]/g, "")) : (tx.amount || 0);
-      const category = categorizeTransaction(tx.description || tx.merchant || "");
-      const detectedCardName = cardName !== "default" ? cardName : (extractedData.cardName || "default");
-      const points = calculatePoints(Math.abs(amount), category, detectedCardName);
-
-      return {
-        date: tx.date || "",
-        description: tx.description || "",
-        amount,
-        merchant: tx.merchant || tx.description || "",
-        category,
-        points,
-      };
+  // Printed summary: text-layer values are exact, the AI fills fields it couldn't read
+  const summary = mergeSummaries(readStatementSummary(textLayer.pages), extractedData.summary);
+  const printedPoints = summary.closingRewardPoints;
+  const statementDate = extractedData.statementPeriod?.end;
+  const localExpiry = readPointsExpiry(textLayer.pages, statementDate);
+  const pointsExpiry = localExpiry.length > 0 ? localExpiry : extractedData.pointsExpiry;
+
+  if (!rawText || rawText.length < 50) {
+    console.error("[PARSE] Insufficient text extracted");
+    return outcome({
+      error: "UNSUPPORTED_PDF_CONTENT",
+      userMessage: "Could not extract text from this PDF. It may be scanned or image-based.",
+      suggestedAction: "Request a digital statement from your bank instead of a scanned copy.",
     });
+  }
+
+  // Teach (or re-learn) the layout from the AI result; only stores patterns that reproduce it
+  if (layout && (extractionMethod === "ai_single_pass" || extractionMethod === "ai_batched")) {
+    templateId = await learnTemplate(supabase, layout, textLayer.lines, extractedData, template);
+  }
 
-    // Calculate totals
-    const totalSpend = transactions.reduce((sum, tx) => sum + Math.abs(tx.amount), 0);
-    const totalPoints = transactions.reduce((sum, tx) => sum + (tx.points || 0), 0);
+  // Apply local PII masking as additional layer
+  const { maskedText, piiTypesFound, fieldsMasked } = maskPII(rawText);
+  const allPiiTypes = [...new Set([...ocrMaskedTypes, ...piiTypesFound])];
 
-    // Generate template hash
-    const templateHash = generateTemplateHash(extractedData.layoutFeatures || []);
+  console.log(`[PARSE] PII masked: ${fieldsMasked} fields, types: ${allPiiTypes.join(", ")}`);
 
-    // Validate and sanitize names
-    const bankValidation = validateName(extractedData.bankName || "", "bank");
-    const cardValidation = validateName(extractedData.cardName || "", "card");
+  // Process transactions (already validated: ISO dates, signed numeric amounts)
+  const transactions: TransactionData[] = extractedData.transactions.map((tx) => {
+    const category = categorizeTransaction(tx.description);
+    const detectedCardName = cardName !== "default" ? cardName : (extractedData.cardName || "default");
+    const points = calculatePoints(Math.abs(tx.amount), category, detectedCardName);
 
-    const finalBankName = bankValidation.isValid ? bankValidation.sanitized : "Unknown Bank";
-    const finalCardName = cardValidation.isValid ? cardValidation.sanitized : (cardName !== "default" ? cardName : "Credit Card");
+    return { ...tx, category, points };
+  });
 
-    // Prepare parsed data
-    const parsedData = {
+  // Calculate totals
+  const totalSpend = transactions.reduce((sum, tx) => sum + Math.abs(tx.amount), 0);
+  const totalPoints = transactions.reduce((sum, tx) => sum + (tx.points || 0), 0);
+
+  // Layout hash from the local text layer, else from AI-reported layout features
+  const templateHash = layout?.templateHash || generateTemplateHash(extractedData.layoutFeatures);
+
+  // Validate and sanitize names
+  const bankValidation = validateName(extractedData.bankName || "", "bank");
+  const cardValidation = validateName(extractedData.cardName || "", "card");
+
+  const finalBankName = bankValidation.isValid ? bankValidation.sanitized : "Unknown Bank";
+  const finalCardName = cardValidation.isValid ? cardValidation.sanitized : (cardName !== "default" ? cardName : "Credit Card");
+
+  // Prepare parsed data
+  const parsedData = {
+    bank_name: finalBankName,
+    card_name: finalCardName,
+    statement_period: extractedData.statementPeriod || { start: "", end: "" },
+    transaction_count: transactions.length,
+    transactions_parsed: transactions.length,
+    transactions_imported: 0,
+    duplicate_transactions_skipped: 0,
+    // Rows that failed validation, kept for review instead of being imported
+    quarantined_count: validation.quarantined.length,
+    quarantined_rows: validation.quarantined.slice(0, MAX_QUARANTINED_ROWS),
+    validation_warnings: validation.warnings,
+    total_spend: totalSpend,
+    total_points_earned: totalPoints,
+    statement_summary: summary,
+    points_expiry: pointsExpiry,
+    // "statement": card points come from the printed closing balance, "estimated": summed from reward rates
+    points_source: printedPoints !== undefined ? "statement" : "estimated",
+    pii_masked: fieldsMasked,
+    confidence: extractedData.confidence || 0.8,
+    template_hash: templateHash,
+    detected_card: {
       bank_name: finalBankName,
       card_name: finalCardName,
-      statement_period: extractedData.statementPeriod || { start: "", end: "" },
-      transaction_count: transactions.length,
-      transactions_parsed: transactions.length,
-      total_spend: totalSpend,
-      total_points_earned: totalPoints,
-      pii_masked: fieldsMasked,
       confidence: extractedData.confidence || 0.8,
-      template_hash: templateHash,
-      detected_card: {
-        bank_name: finalBankName,
-        card_name: finalCardName,
-        confidence: extractedData.confidence || 0.8,
-      },
-    };
-
-    // Update document with parsed data
-    const { error: updateError } = await supabase
-      .from("pdf_documents")
-      .update({ parsed_data: parsedData })
-      .eq("id", documentId);
-
-    if (updateError) {
-      console.error("[PARSE] Update error:", updateError);
-    }
+    },
+  };
 
-    // Create or update credit card entry
-    // First check if card already exists for this user with same bank/card name
-    const { data: existingCards } = await supabase
-      .from("credit_cards")
-      .select("id, points")
-      .eq("user_id", userId)
-      .eq("bank_name", finalBankName)
-      .eq("card_name", finalCardName)
-      .limit(1);
-
-    let cardId: string;
-    const variantOptions: ("emerald" | "gold" | "platinum")[] = ["emerald", "gold", "platinum"];
-    const randomVariant = variantOptions[Math.floor(Math.random() * variantOptions.length)];
-
-    if (existingCards && existingCards.length > 0) {
-      // Update existing card with new points
-      cardId = existingCards[0].id;
-      const newPoints = (existingCards[0].points || 0) + totalPoints;
-      
-      const { error: cardUpdateError } = await supabase
-        .from("credit_cards")
-        .update({ 
-          points: newPoints,
-          updated_at: new Date().toISOString(),
-        })
-        .eq("id", cardId);
-
-      if (cardUpdateError) {
-        console.error("[PARSE] Card update error:", cardUpdateError);
-      } else {
-        console.log(`[PARSE] Updated existing card ${cardId} with ${totalPoints} new points`);
+  await reportProgress({ stage: "saving", progress: 85 });
+
+  // Create or update credit card entry
+  // First check if card already exists for this user with same bank/card name
+  const { data: existingCards } = await supabase
+    .from("credit_cards")
+    .select("id, points")
+    .eq("user_id", userId)
+    .eq("bank_name", finalBankName)
+    .eq("card_name", finalCardName)
+    .limit(1);
+
+  let cardId: string;
+  const existingCard = existingCards && existingCards.length > 0 ? existingCards[0] : null;
+  const variantOptions: ("emerald" | "gold" | "platinum")[] = ["emerald", "gold", "platinum"];
+  const randomVariant = variantOptions[Math.floor(Math.random() * variantOptions.length)];
+
+  const statementStart = isoDateOrNull(parsedData.statement_period.start);
+  const statementEnd = isoDateOrNull(parsedData.statement_period.end);
+
+  if (existingCard) {
+    // Points are set/added after the transaction insert
+    cardId = existingCard.id;
+
+    // Same card and period as an earlier import: a re-downloaded copy of the same statement
+    if (statementStart && statementEnd) {
+      const overlapping = await findOverlappingStatements(supabase, userId, cardId, documentId, {
+        start: statementStart,
+        end: statementEnd,
+      });
+      const samePeriod = overlapping.find((s) => s.statementStart === statementStart && s.statementEnd === statementEnd);
+      if (samePeriod) {
+        console.log(`[PARSE] Statement period already imported in document ${samePeriod.documentId}`);
+        return duplicateStatementOutcome(samePeriod, "same_period");
       }
-    } else {
-      // Create new card entry
-      const { data: newCard, error: cardInsertError } = await supabase
-        .from("credit_cards")
-        .insert({
-          user_id: userId,
-          bank_name: finalBankName,
-          card_name: finalCardName,
-          points: totalPoints,
-          point_value: 0.4, // Default point value
-          variant: randomVariant,
-        })
-        .select("id")
-        .single();
-
-      if (cardInsertError) {
-        console.error("[PARSE] Card insert error:", cardInsertError);
-        cardId = ""; // Fallback
-      } else {
-        cardId = newCard?.id || "";
-        console.log(`[PARSE] Created new card ${cardId} for ${finalBankName} ${finalCardName}`);
+      if (overlapping.length > 0) {
+        console.log(`[PARSE] Period overlaps ${overlapping.length} earlier statement(s) - skipping duplicate transactions`);
       }
     }
-
-    // Insert transactions with card_id
-    if (transactions.length > 0) {
-      const transactionInserts = transactions.map((tx) => ({
+  } else {
+    // Create new card entry
+    const { data: newCard, error: cardInsertError } = await supabase
+      .from("credit_cards")
+      .insert({
         user_id: userId,
-        document_id: documentId,
-        card_id: cardId || null,
-        transaction_date: tx.date || new Date().toISOString().split("T")[0],
-        description: tx.description,
-        amount: tx.amount,
-        merchant_name: tx.merchant,
-        category: tx.category,
-        points_earned: tx.points,
-        is_masked: true,
-      }));
-
-      const { error: insertError } = await supabase
+        bank_name: finalBankName,
+        card_name: finalCardName,
+        points: printedPoints ?? totalPoints,
+        point_value: 0.4, // Default point value
+        variant: randomVariant,
+      })
+      .select("id")
+      .single();
+
+    // Without a card the fingerprints can't be checked for duplicates, so nothing is imported
+    if (cardInsertError || !newCard) {
+      throw new Error(`Card insert failed: ${cardInsertError?.message ?? "no card returned"}`);
+    }
+    cardId = newCard.id;
+    console.log(`[PARSE] Created new card ${cardId} for ${finalBankName} ${finalCardName}`);
+  }
+
+  // Insert transactions with card_id, skipping rows already imported from another statement
+  let transactionsImported = 0;
+  let pointsImported = 0;
+  let duplicatesSkipped = 0;
+  if (transactions.length > 0) {
+    const transactionRows = transactions.map((tx) => ({
+      user_id: userId,
+      document_id: documentId,
+      card_id: cardId,
+      transaction_date: tx.date,
+      description: tx.description,
+      amount: tx.amount,
+      merchant_name: tx.merchant,
+      category: tx.category,
+      points_earned: tx.points,
+      is_masked: true,
+    }));
+    const fingerprints = await fingerprintTransactions(transactionRows);
+    const existingFingerprints = await findExistingFingerprints(supabase, userId, cardId, fingerprints);
+    const transactionInserts = transactionRows
+      .map((row, i) => ({ ...row, fingerprint: fingerprints[i] }))
+      .filter((row) => !existingFingerprints.has(row.fingerprint));
+
+    if (transactionInserts.length > 0) {
+      // The unique fingerprint index also covers concurrent imports of overlapping statements
+      const { data: inserted, error: insertError } = await supabase
         .from("transactions")
-        .insert(transactionInserts);
+        .upsert(transactionInserts, { onConflict: "user_id,card_id,fingerprint", ignoreDuplicates: true })
+        .select("points_earned");
 
+      // Fails the parse: the document isn't marked imported, so the statement can be uploaded again
       if (insertError) {
-        console.error("[PARSE] Transaction insert error:", insertError);
+        throw new Error(`Transaction insert failed: ${insertError.message}`);
       }
+      transactionsImported = inserted?.length || 0;
+      pointsImported = (inserted || []).reduce((sum, row) => sum + (row.points_earned || 0), 0);
     }
 
-    // Log extraction audit
-    const processingTime = Date.now() - startTime;
-    await supabase.from("extraction_audit_log").insert({
-      user_id: userId,
-      document_id: documentId,
-      extraction_method: "ai_single_pass",
-      extraction_status: "success",
-      fields_extracted: transactions.length,
-      pii_fields_masked: fieldsMasked,
-      confidence_score: extractedData.confidence || 0.8,
-      processing_time_ms: processingTime,
-      llm_model_used: "gemini-2.5-flash-lite",
-      llm_tokens_input: tokensUsed.input,
-      llm_tokens_output: tokensUsed.output,
-      password_protected: false,
+    // Already stored before this import, plus rows the upsert ignored (imported concurrently)
+    const alreadyImported = transactionRows.length - transactionInserts.length;
+    duplicatesSkipped = alreadyImported + (transactionInserts.length - transactionsImported);
+  }
+
+  if (duplicatesSkipped > 0) {
+    console.log(`[PARSE] Skipped ${duplicatesSkipped} already imported transaction(s)`);
+  }
+
+  // Only the latest statement's closing balance and due date describe the card now
+  const latestStatement = await isLatestStatement(supabase, cardId, documentId, statementEnd);
+
+  // Printed closing balance replaces the running estimate; otherwise add estimates for new rows
+  const cardPoints = printedPoints !== undefined
+    ? (latestStatement ? printedPoints : null)
+    : (pointsImported !== 0 ? (existingCard?.points || 0) + pointsImported : null);
+
+  if (existingCard && cardPoints !== null && cardPoints !== existingCard.points) {
+    const { error: cardUpdateError } = await supabase
+      .from("credit_cards")
+      .update({
+        points: cardPoints,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", cardId);
+
+    if (cardUpdateError) {
+      console.error("[PARSE] Card update error:", cardUpdateError);
+    } else {
+      console.log(`[PARSE] Updated existing card ${cardId} to ${cardPoints} points (${parsedData.points_source})`);
+    }
+  }
+
+  await saveStatementSummary(supabase, {
+    userId,
+    documentId,
+    cardId,
+    statementStart,
+    statementEnd,
+    summary,
+  });
+  if (latestStatement) {
+    const scheduled = await schedulePaymentReminder(supabase, {
+      userId,
+      cardId,
+      cardLabel: `${finalBankName} ${finalCardName}`,
+      summary,
     });
+    if (scheduled) console.log(`[PARSE] Payment reminder set for ${summary.paymentDueDate}`);
 
-    console.log(`[PARSE] Complete in ${processingTime}ms - ${transactions.length} transactions`);
+    // A statement that prints no expiry schedule leaves the ledger as it was
+    if (pointsExpiry.length > 0) {
+      const stored = await savePointsExpiry(supabase, { userId, cardId, documentId, entries: pointsExpiry });
+      console.log(`[PARSE] Points expiry ledger: ${stored} upcoming expiry date(s)`);
+      await generateExpiringPointsAlerts(supabase, userId);
+    }
+  }
+
+  parsedData.transactions_imported = transactionsImported;
+  parsedData.duplicate_transactions_skipped = duplicatesSkipped;
+
+  // Update document with parsed data (marks it imported for duplicate detection)
+  const { error: updateError } = await supabase
+    .from("pdf_documents")
+    .update({
+      parsed_data: parsedData,
+      content_hash: contentHash,
+      card_id: cardId,
+      statement_start: statementStart,
+      statement_end: statementEnd,
+    })
+    .eq("id", documentId);
+
+  if (updateError) {
+    console.error("[PARSE] Update error:", updateError);
+  }
 
-    return new Response(
-      JSON.stringify({
-        success: true,
-        ...parsedData,
-        processing_time_ms: processingTime,
-      }),
-      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  // Chunk and index the masked statement text for RAG (re-parse replaces old chunks)
+  await reportProgress({ stage: "indexing", progress: 92 });
+  let chunksIndexed = 0;
+  try {
+    const chunks = chunkStatementText(
+      statementPagesForChunking(textLayer, extractionMethod, ocrText, maskedText, transactions),
+      {
+        documentId,
+        cardId,
+        bankName: finalBankName,
+        cardName: finalCardName,
+        statementPeriod: parsedData.statement_period,
+      }
     );
+    const { indexed } = await indexDocumentChunks(supabase, userId, documentId, chunks);
+    chunksIndexed = indexed;
+  } catch (chunkError) {
+    // Indexing failure shouldn't fail the parse - transactions are already stored
+    console.error("[PARSE] Chunk indexing error:", chunkError);
+  }
+
+  // Chat answers cached before this import are keyed to the previous data version
+  const { error: versionError } = await supabase.rpc("bump_user_data_version", { user_uuid: userId });
+  if (versionError) console.error("[PARSE] Data version bump error:", versionError);
+
+  if (extractionMethod === "template" && templateId) {
+    await recordTemplateOutcome(supabase, templateId, true);
+  }
+
+  // Log extraction audit
+  const processingTime = Date.now() - startTime;
+  await supabase.from("extraction_audit_log").insert({
+    user_id: userId,
+    document_id: documentId,
+    template_id: templateId,
+    extraction_method: extractionMethod,
+    extraction_status: validation.quarantined.length > 0 ? "partial" : "success",
+    error_message: validation.quarantined.length > 0
+      ? `${validation.quarantined.length} row(s) quarantined: ${validation.quarantined[0].errors.join(", ")}`
+      : null,
+    fields_extracted: transactions.length,
+    pii_fields_masked: fieldsMasked,
+    confidence_score: extractedData.confidence || 0.8,
+    processing_time_ms: processingTime,
+    llm_model_used: AI_EXTRACTION_METHODS.has(extractionMethod) ? "gemini-2.5-flash-lite" : null,
+    llm_tokens_input: tokensUsed.input,
+    llm_tokens_output: tokensUsed.output,
+    password_protected: wasPasswordProtected,
+  });
+
+  console.log(`[PARSE] Complete in ${processingTime}ms - ${transactions.length} transactions`);
 
+  return outcome({
+    success: true,
+    ...parsedData,
+    chunks_indexed: chunksIndexed,
+    processing_time_ms: processingTime,
+  });
+}
+
+/**
+ * Outcome for an unexpected parse failure
+ */
+function failureOutcome(error: unknown): ParseOutcome {
+  console.error("[PARSE] Error:", error);
+
+  const errorMessage = error instanceof Error ? error.message : "Unknown error";
+
+  // Check for specific error types
+  if (errorMessage.includes("PASSWORD_REQUIRED")) {
+    return outcome({
+      error: "PASSWORD_REQUIRED",
+      requiresPassword: true,
+      userMessage: "This PDF is password-protected. Enter its password to unlock it.",
+    });
+  }
+
+  return outcome({
+    error: "PARSE_ERROR",
+    message: errorMessage,
+    userMessage: "Failed to parse the PDF. Please try again or use a different file.",
+  }, 500);
+}
+
+/**
+ * Run a parse and record its progress and final result on the job
+ */
+async function runParseJob(supabase: SupabaseClient, jobId: string | null, request: ParseRequest): Promise<ParseOutcome> {
+  let result: ParseOutcome;
+  try {
+    result = await parseStatement(supabase, request, jobProgressReporter(supabase, jobId));
   } catch (error) {
-    console.error("[PARSE] Error:", error);
-    
-    const errorMessage = error instanceof Error ? error.message : "Unknown error";
-    
-    // Check for specific error types
-    if (errorMessage.includes("PASSWORD_REQUIRED")) {
-      return new Response(
-        JSON.stringify({
-          error: "PASSWORD_REQUIRED",
-          requiresPassword: true,
-          userMessage: "This PDF is password-protected. Please unlock it before uploading.",
-        }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+    result = failureOutcome(error);
+  }
+  await finishParseJob(supabase, jobId, result.body);
+  return result;
+}
+
+// Supabase Edge Runtime: keeps the worker alive for background work after responding
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { documentId, userId: claimedUserId, filePath, cardName, password, background } = await req.json();
+
+    // The account to parse into comes from the bearer token, not the request body
+    const auth = await authenticateRequest(req, supabase, claimedUserId);
+    if (!auth.success) return jsonResponse(authErrorBody(auth), auth.status);
+    const userId = auth.caller.userId;
+
+    if (!filePath || !userId) {
+      return jsonResponse({ error: "Missing required parameters" }, 400);
     }
 
-    return new Response(
-      JSON.stringify({
-        error: "PARSE_ERROR",
-        message: errorMessage,
-        userMessage: "Failed to parse the PDF. Please try again or use a different file.",
-      }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    const pathAccess = authorizeStoragePath(auth.caller, userId, filePath);
+    if (!pathAccess.success) return jsonResponse(authErrorBody(pathAccess), pathAccess.status);
+
+    if (documentId) {
+      const { data: document } = await supabase
+        .from("pdf_documents")
+        .select("id")
+        .eq("id", documentId)
+        .eq("user_id", userId)
+        .maybeSingle();
+      if (!document) return jsonResponse({ error: "Document not found" }, 404);
+    }
+
+    const jobId = await createParseJob(supabase, userId, documentId);
+    const run = runParseJob(supabase, jobId, { documentId, userId, filePath, cardName, password });
+
+    // Background mode: answer with the job id right away; the client follows parse_jobs
+    if (background && jobId && typeof EdgeRuntime !== "undefined") {
+      EdgeRuntime.waitUntil(run);
+      return jsonResponse({ jobId, status: "queued" }, 202);
+    }
+
+    const { body, status } = await run;
+    return jsonResponse({ ...body, jobId }, status);
+  } catch (error) {
+    const { body, status } = failureOutcome(error);
+    return jsonResponse(body, status);
   }
 });
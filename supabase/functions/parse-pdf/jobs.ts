@@ -0,0 +1,94 @@
+/**
+ * Parse job tracking
+ * Each parse-pdf run is recorded in parse_jobs so the upload page can poll
+ * (or subscribe to) stage and progress instead of blocking on one request.
+ * Job bookkeeping failures are logged and never fail the parse itself.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type ParseJobStage =
+  | "queued"
+  | "downloading"
+  | "unlocking"
+  | "reading_text"
+  | "extracting"
+  | "saving"
+  | "indexing"
+  | "done";
+
+export interface ParseProgress {
+  stage: ParseJobStage;
+  progress: number; // 0-100
+  pagesTotal?: number;
+  pagesProcessed?: number;
+}
+
+export type ProgressReporter = (update: ParseProgress) => Promise<void>;
+
+/**
+ * Create the job row for a parse request (null if it could not be recorded)
+ */
+export async function createParseJob(
+  supabase: SupabaseClient,
+  userId: string,
+  documentId: string | null
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("parse_jobs")
+    .insert({ user_id: userId, document_id: documentId || null })
+    .select("id")
+    .single();
+
+  if (error) {
+    console.error("[JOB] Create error:", error);
+    return null;
+  }
+  return data.id;
+}
+
+/**
+ * Progress reporter bound to a job; a no-op when the job could not be created
+ */
+export function jobProgressReporter(supabase: SupabaseClient, jobId: string | null): ProgressReporter {
+  return async ({ stage, progress, pagesTotal, pagesProcessed }) => {
+    if (!jobId) return;
+    const { error } = await supabase
+      .from("parse_jobs")
+      .update({
+        status: "running",
+        stage,
+        progress: Math.max(0, Math.min(100, Math.round(progress))),
+        ...(pagesTotal !== undefined ? { pages_total: pagesTotal } : {}),
+        ...(pagesProcessed !== undefined ? { pages_processed: pagesProcessed } : {}),
+      })
+      .eq("id", jobId);
+
+    if (error) console.error("[JOB] Progress update error:", error);
+  };
+}
+
+/**
+ * Store the final parse-pdf response body on the job. Structured errors
+ * (password required, duplicate statement, ...) fail the job with that body.
+ */
+export async function finishParseJob(
+  supabase: SupabaseClient,
+  jobId: string | null,
+  result: Record<string, unknown>
+): Promise<void> {
+  if (!jobId) return;
+  const succeeded = result.success === true;
+  const { error } = await supabase
+    .from("parse_jobs")
+    .update({
+      status: succeeded ? "succeeded" : "failed",
+      stage: "done",
+      progress: 100,
+      result,
+      completed_at: new Date().toISOString(),
+    })
+    .eq("id", jobId);
+
+  if (error) console.error("[JOB] Finish error:", error);
+}
@@ -0,0 +1,465 @@
+/**
+ * Minimal PDF object reader for the local text layer
+ *
+ * Scans "N G obj ... endobj" bodies (including objects packed in object
+ * streams), inflates FlateDecode streams and walks the page tree.
+ * Only what text extraction needs - no xref validation, no rendering.
+ */
+
+export interface PdfRef {
+  ref: number;
+}
+
+export interface PdfString {
+  kind: "string";
+  value: string; // raw bytes as latin1 chars
+}
+
+export type PdfDict = Map<string, PdfValue>;
+
+export type PdfValue = number | boolean | null | string | PdfString | PdfRef | PdfDict | PdfValue[];
+
+interface RawObject {
+  body: string;
+  streamData?: Uint8Array;
+}
+
+export interface PdfStreamObject {
+  dict: PdfDict;
+  data: Uint8Array;
+}
+
+export interface PdfPage {
+  pageNumber: number;
+  resources: PdfDict;
+  contents: PdfStreamObject[];
+}
+
+// ============================================================================
+// LEXER / PARSER
+// ============================================================================
+
+const DELIMITERS = "()<>[]{}/%";
+
+export function decodeLatin1(bytes: Uint8Array): string {
+  // windows-1252 maps every byte to exactly one char, so string offsets equal byte offsets
+  return new TextDecoder("latin1").decode(bytes);
+}
+
+function isWhitespace(ch: string): boolean {
+  return ch === " " || ch === "\n" || ch === "\r" || ch === "\t" || ch === "\f" || ch === "\0";
+}
+
+function isRegular(ch: string): boolean {
+  return !isWhitespace(ch) && !DELIMITERS.includes(ch);
+}
+
+export function isPdfString(value: unknown): value is PdfString {
+  return typeof value === "object" && value !== null && (value as PdfString).kind === "string";
+}
+
+export function isPdfRef(value: unknown): value is PdfRef {
+  return typeof value === "object" && value !== null && typeof (value as PdfRef).ref === "number";
+}
+
+export function isPdfDict(value: unknown): value is PdfDict {
+  return value instanceof Map;
+}
+
+function readLiteralString(src: string, start: number): [PdfString, number] {
+  const escapes: Record<string, string> = { n: "\n", r: "\r", t: "\t", b: "\b", f: "\f", "(": "(", ")": ")", "\\": "\\" };
+  let depth = 1;
+  let out = "";
+  let i = start + 1;
+
+  while (i < src.length && depth > 0) {
+    const ch = src[i];
+    if (ch === "\\") {
+      const next = src[i + 1];
+      if (next in escapes) {
+        out += escapes[next];
+        i += 2;
+      } else if (next >= "0" && next <= "7") {
+        const octal = src.slice(i + 1, i + 4).match(/^[0-7]{1,3}/)![0];
+        out += String.fromCharCode(parseInt(octal, 8) & 0xff);
+        i += 1 + octal.length;
+      } else if (next === "\r" || next === "\n") {
+        // Line continuation
+        i += next === "\r" && src[i + 2] === "\n" ? 3 : 2;
+      } else {
+        i += 1;
+      }
+      continue;
+    }
+    if (ch === "(") depth++;
+    if (ch === ")") depth--;
+    if (depth > 0) out += ch;
+    i++;
+  }
+
+  return [{ kind: "string", value: out }, i];
+}
+
+function readHexString(src: string, start: number): [PdfString, number] {
+  const end = src.indexOf(">", start);
+  const stop = end === -1 ? src.length : end;
+  const hex = src.slice(start + 1, stop).replace(/[^0-9a-fA-F]/g, "");
+  const padded = hex.length % 2 ? hex + "0" : hex;
+  let out = "";
+  for (let i = 0; i < padded.length; i += 2) {
+    out += String.fromCharCode(parseInt(padded.slice(i, i + 2), 16));
+  }
+  return [{ kind: "string", value: out }, end === -1 ? src.length : end + 1];
+}
+
+/**
+ * Operators (content stream keywords) are returned as { op } tokens
+ */
+export interface PdfOperator {
+  op: string;
+}
+
+export type PdfToken = PdfValue | PdfOperator;
+
+export function isOperator(token: PdfToken): token is PdfOperator {
+  return typeof token === "object" && token !== null && typeof (token as PdfOperator).op === "string";
+}
+
+/**
+ * Sequential reader over PDF syntax (object bodies and content streams)
+ */
+export class PdfLexer {
+  pos = 0;
+
+  constructor(readonly src: string) {}
+
+  private skipWhitespaceAndComments(): void {
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos];
+      if (isWhitespace(ch)) {
+        this.pos++;
+      } else if (ch === "%") {
+        while (this.pos < this.src.length && this.src[this.pos] !== "\n" && this.src[this.pos] !== "\r") this.pos++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  private readRegular(): string {
+    const start = this.pos;
+    while (this.pos < this.src.length && isRegular(this.src[this.pos])) this.pos++;
+    return this.src.slice(start, this.pos);
+  }
+
+  /**
+   * Read the next value or operator; undefined at end of input
+   */
+  next(): PdfToken | undefined {
+    this.skipWhitespaceAndComments();
+    if (this.pos >= this.src.length) return undefined;
+
+    const src = this.src;
+    const ch = src[this.pos];
+
+    if (ch === "(") {
+      const [str, next] = readLiteralString(src, this.pos);
+      this.pos = next;
+      return str;
+    }
+    if (ch === "<" && src[this.pos + 1] === "<") {
+      this.pos += 2;
+      const dict: PdfDict = new Map();
+      for (;;) {
+        this.skipWhitespaceAndComments();
+        if (this.pos >= src.length) break;
+        if (src[this.pos] === ">" && src[this.pos + 1] === ">") {
+          this.pos += 2;
+          break;
+        }
+        const key = this.next();
+        const value = this.next();
+        if (typeof key === "string" && key.startsWith("/") && value !== undefined && !isOperator(value)) {
+          dict.set(key.slice(1), value);
+        }
+      }
+      return dict;
+    }
+    if (ch === "<") {
+      const [str, next] = readHexString(src, this.pos);
+      this.pos = next;
+      return str;
+    }
+    if (ch === "[") {
+      this.pos++;
+      const array: PdfValue[] = [];
+      for (;;) {
+        this.skipWhitespaceAndComments();
+        if (this.pos >= src.length) break;
+        if (src[this.pos] === "]") {
+          this.pos++;
+          break;
+        }
+        const value = this.next();
+        if (value === undefined) break;
+        if (!isOperator(value)) array.push(value);
+      }
+      return array;
+    }
+    if (ch === "/") {
+      this.pos++;
+      return "/" + this.readRegular().replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+    }
+    if (ch === "]" || ch === ">" || ch === ")" || ch === "{" || ch === "}") {
+      this.pos++;
+      return this.next();
+    }
+
+    const token = this.readRegular();
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+      const num = Number(token);
+      // "N G R" indirect reference
+      if (/^\d+$/.test(token)) {
+        const match = /^\s+(\d+)\s+R(?![^\s()<>[\]{}/%])/.exec(src.slice(this.pos, this.pos + 24));
+        if (match) {
+          this.pos += match[0].length;
+          return { ref: num };
+        }
+      }
+      return num;
+    }
+    if (token === "true") return true;
+    if (token === "false") return false;
+    if (token === "null") return null;
+    return { op: token };
+  }
+}
+
+function parseValue(src: string): PdfValue | undefined {
+  const token = new PdfLexer(src).next();
+  return token === undefined || isOperator(token) ? undefined : token;
+}
+
+// ============================================================================
+// STREAMS
+// ============================================================================
+
+/**
+ * Inflate a FlateDecode stream. Output decoded before a corrupt or
+ * over-long tail is kept - trailing bytes after the zlib data are common.
+ */
+export async function inflate(data: Uint8Array): Promise<Uint8Array | null> {
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate")).getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      total += value.length;
+    }
+  } catch {
+    if (total === 0) return null;
+  }
+
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+function filterNames(dict: PdfDict): string[] {
+  const filter = dict.get("Filter");
+  if (typeof filter === "string") return [filter];
+  if (Array.isArray(filter)) return filter.filter((f): f is string => typeof f === "string");
+  return [];
+}
+
+// ============================================================================
+// DOCUMENT
+// ============================================================================
+
+/**
+ * Indexed view over a PDF's objects
+ */
+export class PdfDocument {
+  private readonly raw = new Map<number, RawObject>();
+  private readonly parsed = new Map<number, PdfValue | undefined>();
+  private readonly decoded = new Map<number, Uint8Array | null>();
+
+  private constructor() {}
+
+  static async load(pdfBytes: Uint8Array): Promise<PdfDocument> {
+    const doc = new PdfDocument();
+    doc.scan(pdfBytes);
+    await doc.expandObjectStreams();
+    return doc;
+  }
+
+  /**
+   * Locate every "N G obj ... endobj". Later definitions (incremental updates) win.
+   */
+  private scan(pdfBytes: Uint8Array): void {
+    const source = decodeLatin1(pdfBytes);
+    const objectRe = /\b(\d+)\s+\d+\s+obj\b/g;
+    const streamRe = /\bstream(\r\n|\n|\r)/g;
+
+    let match: RegExpExecArray | null;
+    while ((match = objectRe.exec(source)) !== null) {
+      const num = Number(match[1]);
+      const start = objectRe.lastIndex;
+      const endObj = source.indexOf("endobj", start);
+      streamRe.lastIndex = start;
+      const streamMatch = streamRe.exec(source);
+
+      if (!streamMatch || (endObj !== -1 && streamMatch.index > endObj)) {
+        this.raw.set(num, { body: source.slice(start, endObj === -1 ? source.length : endObj) });
+        if (endObj === -1) break;
+        objectRe.lastIndex = endObj;
+        continue;
+      }
+
+      const dataStart = streamMatch.index + streamMatch[0].length;
+      const endStream = source.indexOf("endstream", dataStart);
+      if (endStream === -1) break;
+
+      let dataEnd = endStream;
+      if (source[dataEnd - 1] === "\n") dataEnd--;
+      if (source[dataEnd - 1] === "\r") dataEnd--;
+
+      this.raw.set(num, {
+        body: source.slice(start, streamMatch.index),
+        streamData: pdfBytes.subarray(dataStart, dataEnd),
+      });
+
+      // Skip the binary payload so bytes inside it are never read as object headers
+      objectRe.lastIndex = endStream + "endstream".length;
+    }
+  }
+
+  /**
+   * Unpack objects stored inside /Type /ObjStm streams (PDF 1.5+)
+   */
+  private async expandObjectStreams(): Promise<void> {
+    for (const [num, raw] of [...this.raw]) {
+      if (!raw.streamData || !/\/Type\s*\/ObjStm/.test(raw.body)) continue;
+      const dict = this.get(num);
+      const data = await this.streamData(num);
+      if (!isPdfDict(dict) || !data) continue;
+
+      const count = Number(dict.get("N")) || 0;
+      const first = Number(dict.get("First")) || 0;
+      const content = decodeLatin1(data);
+      const header = content.slice(0, first).trim().split(/\s+/).map(Number);
+
+      for (let i = 0; i < count; i++) {
+        const objNum = header[i * 2];
+        const offset = first + header[i * 2 + 1];
+        const end = i + 1 < count ? first + header[(i + 1) * 2 + 1] : content.length;
+        if (Number.isNaN(objNum) || this.raw.has(objNum)) continue;
+        this.raw.set(objNum, { body: content.slice(offset, end) });
+      }
+    }
+  }
+
+  get(num: number): PdfValue | undefined {
+    if (!this.parsed.has(num)) {
+      const raw = this.raw.get(num);
+      this.parsed.set(num, raw ? parseValue(raw.body) : undefined);
+    }
+    return this.parsed.get(num);
+  }
+
+  resolve(value: PdfValue | undefined, depth = 0): PdfValue | undefined {
+    if (isPdfRef(value) && depth < 16) return this.resolve(this.get(value.ref), depth + 1);
+    return value;
+  }
+
+  dict(value: PdfValue | undefined): PdfDict | null {
+    const resolved = this.resolve(value);
+    return isPdfDict(resolved) ? resolved : null;
+  }
+
+  /**
+   * Decoded stream bytes for an object (null when the filter isn't supported)
+   */
+  async streamData(num: number): Promise<Uint8Array | null> {
+    if (this.decoded.has(num)) return this.decoded.get(num)!;
+
+    const raw = this.raw.get(num);
+    const dict = this.get(num);
+    let data: Uint8Array | null = null;
+
+    if (raw?.streamData && isPdfDict(dict)) {
+      const filters = filterNames(dict);
+      if (filters.length === 0) data = raw.streamData;
+      else if (filters.length === 1 && filters[0] === "/FlateDecode") data = await inflate(raw.streamData);
+    }
+
+    this.decoded.set(num, data);
+    return data;
+  }
+
+  async stream(value: PdfValue | undefined): Promise<PdfStreamObject | null> {
+    if (!isPdfRef(value)) return null;
+    const dict = this.dict(value);
+    const data = await this.streamData(value.ref);
+    return dict && data ? { dict, data } : null;
+  }
+
+  private findCatalog(): PdfDict | null {
+    let catalog: PdfDict | null = null;
+    for (const num of this.raw.keys()) {
+      if (!/\/Type\s*\/Catalog/.test(this.raw.get(num)!.body)) continue;
+      const dict = this.dict(this.get(num));
+      if (dict?.get("Type") === "/Catalog") catalog = dict;
+    }
+    return catalog;
+  }
+
+  /**
+   * Pages in reading order with inherited resources and decoded content streams
+   */
+  async pages(): Promise<PdfPage[]> {
+    const catalog = this.findCatalog();
+    const root = catalog ? this.dict(catalog.get("Pages")) : null;
+    if (!root) return [];
+
+    const pages: PdfPage[] = [];
+    const visited = new Set<PdfDict>();
+
+    const walk = async (node: PdfDict, inherited: PdfDict | null) => {
+      if (visited.has(node)) return;
+      visited.add(node);
+
+      const resources = this.dict(node.get("Resources")) || inherited;
+      const kids = this.resolve(node.get("Kids"));
+
+      if (Array.isArray(kids)) {
+        for (const kid of kids) {
+          const child = this.dict(kid);
+          if (child) await walk(child, resources);
+        }
+        return;
+      }
+
+      const contentsValue = this.resolve(node.get("Contents"));
+      const refs = Array.isArray(contentsValue) ? contentsValue : [node.get("Contents")];
+      const contents: PdfStreamObject[] = [];
+      for (const ref of refs) {
+        const stream = await this.stream(ref);
+        if (stream) contents.push(stream);
+      }
+
+      pages.push({ pageNumber: pages.length + 1, resources: resources || new Map(), contents });
+    };
+
+    await walk(root, null);
+    return pages;
+  }
+}
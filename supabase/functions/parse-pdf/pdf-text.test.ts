@@ -0,0 +1,49 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { describe, it, expect } from "vitest";
+import { readTextLayer } from "./pdf-text.ts";
+import { applyTemplate, detectLayout, inferTemplate } from "./templates.ts";
+
+// Fixture statements shipped with the app's test data
+function fixture(name: string): Uint8Array {
+  return new Uint8Array(readFileSync(path.resolve(__dirname, "../../../public/test-data", name)));
+}
+
+async function extractLocally(name: string) {
+  const layer = await readTextLayer(fixture(name));
+  const layout = detectLayout(layer.lines);
+  if (!layout) throw new Error(`No layout detected for ${name}`);
+  return { layer, layout, extraction: applyTemplate(inferTemplate(layout, layer.lines), layer.lines) };
+}
+
+describe("local text layer", () => {
+  it("reads positioned transaction rows from a text-based statement", async () => {
+    const { layer, layout, extraction } = await extractLocally("HDFC_2.pdf");
+
+    expect(layer.hasTextLayer).toBe(true);
+    expect(layer.pages.every((page) => page.status === "text")).toBe(true);
+    expect(layout).toMatchObject({ bankName: "HDFC", dateFormat: "DD/MM/YYYY", amountStyle: "unsigned" });
+    expect(extraction.transactions).toEqual([
+      { date: "2025-06-27", description: "ADITYA BIRLA FASHION AND Kurla", amount: -2630, merchant: "ADITYA BIRLA FASHION AND Kurla" },
+      { date: "2025-07-11", description: "2CO.COM|BITDEFENDER AMSTERDAM", amount: -2498.99, merchant: "2CO.COM|BITDEFENDER AMSTERDAM" },
+      {
+        date: "2025-07-13",
+        description: "1% on all DCC Transaction (Ref# ST251950084000011777132)",
+        amount: -24.99,
+        merchant: "1% on all DCC Transaction (Ref# ST251950084000011777132)",
+      },
+    ]);
+    expect(extraction.confidence).toBeGreaterThanOrEqual(0.7);
+  });
+
+  it("pairs descriptions printed above year-less date rows and detects credits", async () => {
+    const { layout, extraction } = await extractLocally("Amex_Final.pdf");
+
+    expect(layout).toMatchObject({ bankName: "American Express", dateFormat: "MMM DD" });
+    expect(extraction.transactions).toHaveLength(8);
+    expect(extraction.transactions[0]).toMatchObject({ date: "2025-11-05", description: "PAYMENT RECEIVED - THANK YOU", amount: 8245.6 });
+    expect(extraction.transactions[1]).toMatchObject({ date: "2025-10-28", description: "TATA CLIQ STYLE - MUMBAI", amount: -4899 });
+    expect(extraction.transactions[3]).toMatchObject({ description: "REFUND: AMAZON SELLER SERVICES", amount: 2150 });
+    expect(extraction.remainingText).not.toContain("FLIPKART INTERNET PVT LTD");
+  });
+});
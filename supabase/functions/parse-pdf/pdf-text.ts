@@ -0,0 +1,577 @@
+/**
+ * Local PDF text-layer extractor
+ *
+ * Interprets page content streams of digitally generated PDFs (no OCR, no network):
+ * fonts are decoded through their ToUnicode CMaps/encodings and glyph widths, and
+ * positioned text is grouped into lines and table rows (cells split on column gaps).
+ *
+ * Pages are classified so only scanned or undecodable pages need the AI OCR call.
+ */
+
+import {
+  PdfDocument,
+  PdfLexer,
+  decodeLatin1,
+  isOperator,
+  isPdfDict,
+  isPdfString,
+  type PdfDict,
+  type PdfString,
+  type PdfValue,
+} from "./pdf-objects.ts";
+
+const MIN_TEXT_LAYER_CHARS = 200;
+const MIN_STATEMENT_KEYWORDS = 3;
+const MIN_PAGE_CHARS = 40;
+const MIN_PAGE_COMMON_WORDS = 2;
+const DEFAULT_GLYPH_WIDTH = 500; // thousandths of an em, when a font has no widths
+const COLUMN_GAP_EMS = 1.5; // horizontal gap (in font sizes) that separates table cells
+const WORD_GAP_EMS = 0.15;
+const MAX_FORM_DEPTH = 5;
+
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+export interface TextItem {
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+  text: string;
+}
+
+export interface TextCell {
+  x: number;
+  text: string;
+}
+
+export interface TextRow {
+  y: number;
+  cells: TextCell[];
+}
+
+/**
+ * text:       readable text layer
+ * scanned:    no text, but draws images - needs OCR
+ * unreadable: text whose fonts can't be decoded locally - needs OCR
+ * empty:      nothing to read (blank/separator page)
+ */
+export type PageStatus = "text" | "scanned" | "unreadable" | "empty";
+
+export interface PageText {
+  pageNumber: number;
+  status: PageStatus;
+  lines: string[];
+  rows: TextRow[];
+}
+
+export interface TextLayer {
+  pages: PageText[];
+  lines: string[]; // lines of readable pages only
+  text: string;
+  hasTextLayer: boolean;
+}
+
+// ============================================================================
+// FONTS
+// ============================================================================
+
+// Glyph names used by /Differences encodings that aren't single letters/uniXXXX
+const GLYPH_NAMES: Record<string, string> = {
+  space: " ", exclam: "!", quotedbl: "\"", numbersign: "#", dollar: "$", percent: "%", ampersand: "&",
+  quotesingle: "'", quoteright: "'", quoteleft: "'", parenleft: "(", parenright: ")", asterisk: "*", plus: "+",
+  comma: ",", hyphen: "-", minus: "-", endash: "–", emdash: "—", period: ".", slash: "/", colon: ":",
+  semicolon: ";", less: "<", equal: "=", greater: ">", question: "?", at: "@", bracketleft: "[",
+  backslash: "\\", bracketright: "]", underscore: "_", bar: "|", bullet: "•", rupee: "₹", quotedblleft: "\"",
+  quotedblright: "\"", zero: "0", one: "1", two: "2", three: "3", four: "4", five: "5", six: "6", seven: "7",
+  eight: "8", nine: "9",
+};
+
+function glyphToUnicode(name: string): string | undefined {
+  const glyph = name.replace(/^\//, "");
+  if (/^[A-Za-z]$/.test(glyph)) return glyph;
+  if (glyph in GLYPH_NAMES) return GLYPH_NAMES[glyph];
+  const uni = glyph.match(/^uni([0-9A-Fa-f]{4})/);
+  if (uni) return String.fromCharCode(parseInt(uni[1], 16));
+  return undefined;
+}
+
+function utf16beToString(bytes: string): string {
+  let out = "";
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    out += String.fromCharCode((bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1));
+  }
+  return out;
+}
+
+function bytesToCode(bytes: string): number {
+  let code = 0;
+  for (let i = 0; i < bytes.length; i++) code = code * 256 + bytes.charCodeAt(i);
+  return code;
+}
+
+interface ToUnicodeMap {
+  codeBytes: number;
+  map: Map<number, string>;
+}
+
+/**
+ * Parse bfchar/bfrange sections of a ToUnicode CMap
+ */
+function parseToUnicode(cmap: string): ToUnicodeMap {
+  const map = new Map<number, string>();
+  let codeBytes = 1;
+
+  const codespace = cmap.match(/begincodespacerange\s*<([0-9a-fA-F]+)>/);
+  if (codespace) codeBytes = Math.max(1, Math.ceil(codespace[1].length / 2));
+
+  const lexer = new PdfLexer(cmap);
+  const values: PdfValue[] = [];
+  let section: "bfchar" | "bfrange" | null = null;
+
+  for (let token = lexer.next(); token !== undefined; token = lexer.next()) {
+    if (isOperator(token)) {
+      if (token.op === "beginbfchar") section = "bfchar";
+      else if (token.op === "beginbfrange") section = "bfrange";
+      else if (token.op === "endbfchar" || token.op === "endbfrange") section = null;
+      values.length = 0;
+      continue;
+    }
+    if (!section) continue;
+    values.push(token);
+
+    if (section === "bfchar" && values.length === 2) {
+      const [src, dst] = values;
+      if (isPdfString(src) && isPdfString(dst)) map.set(bytesToCode(src.value), utf16beToString(dst.value));
+      values.length = 0;
+    } else if (section === "bfrange" && values.length === 3) {
+      const [lo, hi, dst] = values;
+      if (isPdfString(lo) && isPdfString(hi)) {
+        const start = bytesToCode(lo.value);
+        const end = Math.min(bytesToCode(hi.value), start + 0xffff);
+        for (let code = start; code <= end; code++) {
+          if (Array.isArray(dst)) {
+            const item = dst[code - start];
+            if (isPdfString(item)) map.set(code, utf16beToString(item.value));
+          } else if (isPdfString(dst)) {
+            // Increment the last UTF-16 unit of the destination
+            const base = utf16beToString(dst.value);
+            const last = base.charCodeAt(base.length - 1) + (code - start);
+            map.set(code, base.slice(0, -1) + String.fromCharCode(last));
+          }
+        }
+      }
+      values.length = 0;
+    }
+  }
+
+  return { codeBytes, map };
+}
+
+interface FontDecoder {
+  codeBytes: number;
+  decode(code: number): string;
+  width(code: number): number; // thousandths of an em
+}
+
+async function loadFont(doc: PdfDocument, fontDict: PdfDict): Promise<FontDecoder> {
+  const isType0 = fontDict.get("Subtype") === "/Type0";
+
+  let toUnicode: ToUnicodeMap | null = null;
+  const cmapStream = await doc.stream(fontDict.get("ToUnicode"));
+  if (cmapStream) toUnicode = parseToUnicode(decodeLatin1(cmapStream.data));
+
+  // Simple-font encoding differences
+  const differences = new Map<number, string>();
+  const encoding = doc.resolve(fontDict.get("Encoding"));
+  if (isPdfDict(encoding)) {
+    const diffs = doc.resolve(encoding.get("Differences"));
+    if (Array.isArray(diffs)) {
+      let code = 0;
+      for (const entry of diffs) {
+        if (typeof entry === "number") {
+          code = entry;
+        } else if (typeof entry === "string") {
+          const unicode = glyphToUnicode(entry);
+          if (unicode !== undefined) differences.set(code, unicode);
+          code++;
+        }
+      }
+    }
+  }
+
+  // Glyph widths: /Widths for simple fonts, /W + /DW on the descendant CID font
+  const widths = new Map<number, number>();
+  let defaultWidth = DEFAULT_GLYPH_WIDTH;
+  if (isType0) {
+    const descendants = doc.resolve(fontDict.get("DescendantFonts"));
+    const cidFont = Array.isArray(descendants) ? doc.dict(descendants[0]) : null;
+    if (cidFont) {
+      defaultWidth = Number(doc.resolve(cidFont.get("DW"))) || 1000;
+      const w = doc.resolve(cidFont.get("W"));
+      if (Array.isArray(w)) {
+        for (let i = 0; i < w.length; ) {
+          const first = Number(w[i]);
+          const next = doc.resolve(w[i + 1]);
+          if (Array.isArray(next)) {
+            next.forEach((width, j) => widths.set(first + j, Number(doc.resolve(width)) || defaultWidth));
+            i += 2;
+          } else {
+            const last = Number(next);
+            const width = Number(doc.resolve(w[i + 2])) || defaultWidth;
+            for (let code = first; code <= last && code - first < 0xffff; code++) widths.set(code, width);
+            i += 3;
+          }
+        }
+      }
+    }
+  } else {
+    const firstChar = Number(doc.resolve(fontDict.get("FirstChar"))) || 0;
+    const w = doc.resolve(fontDict.get("Widths"));
+    if (Array.isArray(w)) w.forEach((width, i) => widths.set(firstChar + i, Number(doc.resolve(width)) || 0));
+  }
+
+  const codeBytes = isType0 || toUnicode?.codeBytes === 2 ? 2 : 1;
+
+  return {
+    codeBytes,
+    decode(code: number): string {
+      const mapped = toUnicode?.map.get(code) ?? differences.get(code);
+      if (mapped !== undefined) return mapped;
+      // Without a mapping, single-byte WinAnsi is the best local guess
+      return codeBytes === 1 ? decodeLatin1(new Uint8Array([code])) : "";
+    },
+    width(code: number): number {
+      return widths.get(code) ?? defaultWidth;
+    },
+  };
+}
+
+const FALLBACK_FONT: FontDecoder = {
+  codeBytes: 1,
+  decode: (code) => decodeLatin1(new Uint8Array([code])),
+  width: () => DEFAULT_GLYPH_WIDTH,
+};
+
+// ============================================================================
+// CONTENT STREAM INTERPRETER
+// ============================================================================
+
+function multiply(m1: Matrix, m2: Matrix): Matrix {
+  return [
+    m1[0] * m2[0] + m1[1] * m2[2],
+    m1[0] * m2[1] + m1[1] * m2[3],
+    m1[2] * m2[0] + m1[3] * m2[2],
+    m1[2] * m2[1] + m1[3] * m2[3],
+    m1[4] * m2[0] + m1[5] * m2[2] + m2[4],
+    m1[4] * m2[1] + m1[5] * m2[3] + m2[5],
+  ];
+}
+
+function toMatrix(value: PdfValue | undefined): Matrix | null {
+  return Array.isArray(value) && value.length === 6 && value.every((v) => typeof v === "number")
+    ? (value as Matrix)
+    : null;
+}
+
+function isPrintable(ch: string): boolean {
+  const code = ch.charCodeAt(0);
+  return code === 0x09 || (code >= 0x20 && code !== 0x7f && code !== 0xfffd);
+}
+
+interface PageContext {
+  doc: PdfDocument;
+  fonts: Map<PdfDict, FontDecoder>;
+  items: TextItem[];
+  undecodableGlyphs: number;
+  drawsImages: boolean;
+}
+
+async function fontFor(ctx: PageContext, resources: PdfDict, name: string): Promise<FontDecoder> {
+  const fontDict = ctx.doc.dict(ctx.doc.dict(resources.get("Font"))?.get(name.slice(1)));
+  if (!fontDict) return FALLBACK_FONT;
+  let font = ctx.fonts.get(fontDict);
+  if (!font) {
+    font = await loadFont(ctx.doc, fontDict);
+    ctx.fonts.set(fontDict, font);
+  }
+  return font;
+}
+
+/**
+ * Run a content stream's text operators, collecting positioned text items.
+ * Form XObjects are followed with their own resources and matrix.
+ */
+async function interpret(
+  ctx: PageContext,
+  content: string,
+  resources: PdfDict,
+  baseCtm: Matrix,
+  depth: number
+): Promise<void> {
+  const stack: Matrix[] = [];
+  let ctm = baseCtm;
+  let tm: Matrix = IDENTITY;
+  let tlm: Matrix = IDENTITY;
+  let font = FALLBACK_FONT;
+  let fontSize = 1;
+  let leading = 0;
+  let charSpacing = 0;
+  let wordSpacing = 0;
+  let horizontalScale = 1;
+  let operands: PdfValue[] = [];
+
+  const moveLine = (tx: number, ty: number) => {
+    tlm = multiply([1, 0, 0, 1, tx, ty], tlm);
+    tm = tlm;
+  };
+
+  const advance = (distance: number) => {
+    tm = multiply([1, 0, 0, 1, distance * horizontalScale, 0], tm);
+  };
+
+  const show = (str: PdfString) => {
+    const start = multiply(tm, ctm);
+    let text = "";
+    let width = 0;
+
+    for (let i = 0; i + font.codeBytes <= str.value.length; i += font.codeBytes) {
+      const code = bytesToCode(str.value.slice(i, i + font.codeBytes));
+      const decoded = font.decode(code);
+      if (!decoded) ctx.undecodableGlyphs++;
+      text += [...decoded].filter(isPrintable).join("");
+
+      const isSpace = font.codeBytes === 1 && code === 32;
+      const glyphAdvance = (font.width(code) / 1000) * fontSize + charSpacing + (isSpace ? wordSpacing : 0);
+      width += glyphAdvance;
+      advance(glyphAdvance);
+    }
+
+    if (text.trim()) {
+      ctx.items.push({
+        x: start[4],
+        y: start[5],
+        width: width * horizontalScale * (Math.hypot(start[0], start[1]) || 1),
+        fontSize: fontSize * (Math.hypot(start[2], start[3]) || 1),
+        text,
+      });
+    }
+  };
+
+  const lexer = new PdfLexer(content);
+  for (let token = lexer.next(); token !== undefined; token = lexer.next()) {
+    if (!isOperator(token)) {
+      operands.push(token);
+      continue;
+    }
+
+    const args = operands;
+    operands = [];
+
+    switch (token.op) {
+      case "q":
+        stack.push(ctm);
+        break;
+      case "Q":
+        ctm = stack.pop() || baseCtm;
+        break;
+      case "cm": {
+        const m = toMatrix(args);
+        if (m) ctm = multiply(m, ctm);
+        break;
+      }
+      case "BT":
+        tm = IDENTITY;
+        tlm = IDENTITY;
+        break;
+      case "Tf":
+        if (typeof args[0] === "string") font = await fontFor(ctx, resources, args[0]);
+        if (typeof args[1] === "number") fontSize = args[1];
+        break;
+      case "Tc":
+        charSpacing = Number(args[0]) || 0;
+        break;
+      case "Tw":
+        wordSpacing = Number(args[0]) || 0;
+        break;
+      case "Tz":
+        horizontalScale = (Number(args[0]) || 100) / 100;
+        break;
+      case "TL":
+        leading = Number(args[0]) || 0;
+        break;
+      case "Td":
+        moveLine(Number(args[0]) || 0, Number(args[1]) || 0);
+        break;
+      case "TD":
+        leading = -(Number(args[1]) || 0);
+        moveLine(Number(args[0]) || 0, Number(args[1]) || 0);
+        break;
+      case "Tm": {
+        const m = toMatrix(args);
+        if (m) {
+          tlm = m;
+          tm = m;
+        }
+        break;
+      }
+      case "T*":
+        moveLine(0, -leading);
+        break;
+      case "'":
+      case '"': {
+        if (token.op === '"') {
+          wordSpacing = Number(args[0]) || 0;
+          charSpacing = Number(args[1]) || 0;
+        }
+        moveLine(0, -leading);
+        const str = args[args.length - 1];
+        if (isPdfString(str)) show(str);
+        break;
+      }
+      case "Tj":
+        if (isPdfString(args[0])) show(args[0]);
+        break;
+      case "TJ":
+        if (Array.isArray(args[0])) {
+          for (const part of args[0]) {
+            if (typeof part === "number") advance((-part / 1000) * fontSize);
+            else if (isPdfString(part)) show(part);
+          }
+        }
+        break;
+      case "BI": {
+        // Inline image: binary data runs from ID to a whitespace-delimited EI
+        ctx.drawsImages = true;
+        const dataStart = content.indexOf("ID", lexer.pos);
+        const end = dataStart === -1 ? -1 : content.slice(dataStart + 2).search(/\sEI(\s|$)/);
+        lexer.pos = end === -1 ? content.length : dataStart + 2 + end + 3;
+        break;
+      }
+      case "Do": {
+        if (typeof args[0] !== "string") break;
+        const xobjects = ctx.doc.dict(resources.get("XObject"));
+        const stream = await ctx.doc.stream(xobjects?.get(args[0].slice(1)));
+        if (!stream) break;
+
+        const subtype = stream.dict.get("Subtype");
+        if (subtype === "/Image") {
+          ctx.drawsImages = true;
+        } else if (subtype === "/Form" && depth < MAX_FORM_DEPTH) {
+          const formMatrix = toMatrix(ctx.doc.resolve(stream.dict.get("Matrix"))) || IDENTITY;
+          const formResources = ctx.doc.dict(stream.dict.get("Resources")) || resources;
+          await interpret(ctx, decodeLatin1(stream.data), formResources, multiply(formMatrix, ctm), depth + 1);
+        }
+        break;
+      }
+    }
+  }
+}
+
+// ============================================================================
+// LAYOUT
+// ============================================================================
+
+/**
+ * Group positioned items into rows (top to bottom) of cells (left to right).
+ * Items closer than a column gap are joined into one cell.
+ */
+export function groupIntoRows(items: TextItem[]): TextRow[] {
+  const sorted = [...items].sort((a, b) => b.y - a.y);
+  const clusters: TextItem[][] = [];
+
+  for (const item of sorted) {
+    const cluster = clusters[clusters.length - 1];
+    const tolerance = Math.max(2, item.fontSize * 0.4);
+    if (cluster && Math.abs(cluster[0].y - item.y) <= tolerance) cluster.push(item);
+    else clusters.push([item]);
+  }
+
+  return clusters
+    .map((cluster) => {
+      cluster.sort((a, b) => a.x - b.x);
+      const cells: TextCell[] = [];
+      let prevEnd = -Infinity;
+
+      for (const item of cluster) {
+        const gap = item.x - prevEnd;
+        const cell = cells[cells.length - 1];
+        if (cell && gap < item.fontSize * COLUMN_GAP_EMS) {
+          if (!cell.text.endsWith(" ") && !item.text.startsWith(" ") && gap > item.fontSize * WORD_GAP_EMS) {
+            cell.text += " ";
+          }
+          cell.text += item.text;
+        } else {
+          cells.push({ x: item.x, text: item.text });
+        }
+        prevEnd = Math.max(prevEnd, item.x + item.width);
+      }
+
+      return {
+        y: cluster[0].y,
+        cells: cells
+          .map((c) => ({ x: c.x, text: c.text.replace(/\s+/g, " ").trim() }))
+          .filter((c) => c.text),
+      };
+    })
+    .filter((row) => row.cells.length > 0);
+}
+
+// Subset fonts with custom encodings decode to letter soup, so check for real words
+const STATEMENT_KEYWORDS = ["statement", "amount", "date", "payment", "card", "credit", "total", "balance", "due"];
+const COMMON_WORDS = new Set([
+  "the", "and", "for", "you", "your", "with", "are", "not", "this", "from", "will", "any", "all", "our", "per",
+  "date", "amount", "total", "due", "card", "credit", "payment", "statement", "balance", "points", "limit",
+  "reward", "rewards", "bank", "interest", "charges", "transaction", "transactions", "minimum", "account", "page",
+]);
+
+function classifyPage(lines: string[], undecodableGlyphs: number, drawsImages: boolean): PageStatus {
+  const text = lines.join(" ");
+  const visible = text.replace(/\s/g, "").length;
+  if (visible < MIN_PAGE_CHARS) {
+    if (undecodableGlyphs > visible) return "unreadable";
+    return drawsImages ? "scanned" : "empty";
+  }
+  if (undecodableGlyphs > visible) return "unreadable";
+
+  const words = text.toLowerCase().split(/[^a-z]+/);
+  const common = words.filter((w) => COMMON_WORDS.has(w)).length;
+  return common >= MIN_PAGE_COMMON_WORDS ? "text" : "unreadable";
+}
+
+function isStatementText(text: string): boolean {
+  if (text.replace(/\s/g, "").length < MIN_TEXT_LAYER_CHARS) return false;
+  const lower = text.toLowerCase();
+  return STATEMENT_KEYWORDS.filter((kw) => lower.includes(kw)).length >= MIN_STATEMENT_KEYWORDS;
+}
+
+/**
+ * Read the text layer of a (decrypted) PDF page by page.
+ * hasTextLayer is false for scanned statements or fonts whose text can't be decoded locally.
+ */
+export async function readTextLayer(pdfBytes: Uint8Array): Promise<TextLayer> {
+  const doc = await PdfDocument.load(pdfBytes);
+  const fonts = new Map<PdfDict, FontDecoder>();
+  const pages: PageText[] = [];
+
+  for (const page of await doc.pages()) {
+    const ctx: PageContext = { doc, fonts, items: [], undecodableGlyphs: 0, drawsImages: false };
+    for (const content of page.contents) {
+      await interpret(ctx, decodeLatin1(content.data), page.resources, IDENTITY, 0);
+    }
+
+    const rows = groupIntoRows(ctx.items);
+    const lines = rows.map((row) => row.cells.map((c) => c.text).join(" "));
+    pages.push({
+      pageNumber: page.pageNumber,
+      status: classifyPage(lines, ctx.undecodableGlyphs, ctx.drawsImages),
+      lines,
+      rows,
+    });
+  }
+
+  const lines = pages.filter((p) => p.status === "text").flatMap((p) => p.lines);
+  const text = lines.join("\n");
+  return { pages, lines, text, hasTextLayer: isStatementText(text) };
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { extractJsonObject, validateParsedResponse } from "./schema.ts";
+
+describe("extraction output schema", () => {
+  it("pulls the first complete object out of a chatty, fenced response", () => {
+    const content = 'Here you go:\n```json\n{"bankName": "HDFC", "note": "braces } in strings"}\n```\nAnything else? {}';
+
+    expect(extractJsonObject(content)).toEqual({ value: { bankName: "HDFC", note: "braces } in strings" } });
+    expect(extractJsonObject('{"transactions": [{"date": "2025-07-01"').error).toMatch(/not closed/);
+  });
+
+  it("keeps valid rows, normalizes signs and quarantines the rest", () => {
+    const report = validateParsedResponse({
+      bankName: "HDFC",
+      statementPeriod: { start: "2025-06-15", end: "2025-07-14" },
+      transactions: [
+        { date: "2025-06-27", description: "AMAZON PAY", amount: "1,299.00" },
+        { date: "2025-07-02", description: "PAYMENT RECEIVED - THANK YOU", amount: "5,000.00 Cr" },
+        { date: "27/06/2025", description: "SWIGGY", amount: 450 },
+        { date: "2024-01-10", description: "OLD EMI", amount: 999 },
+        { date: "2025-07-05", description: "", amount: "abc" },
+      ],
+      confidence: 1.4,
+    });
+
+    expect(report.data.transactions).toEqual([
+      { date: "2025-06-27", description: "AMAZON PAY", amount: -1299, merchant: "AMAZON PAY" },
+      { date: "2025-07-02", description: "PAYMENT RECEIVED - THANK YOU", amount: 5000, merchant: "PAYMENT RECEIVED - THANK YOU" },
+    ]);
+    expect(report.quarantined.map((row) => row.index)).toEqual([2, 3, 4]);
+    expect(report.quarantined[1].errors).toEqual(["date 2024-01-10 is outside the statement period"]);
+    expect(report.quarantined[2].errors).toHaveLength(2);
+    expect(report.data.confidence).toBeUndefined();
+  });
+});
@@ -0,0 +1,336 @@
+/**
+ * Runtime schema for AI (and text-layer) extraction output
+ * - Pulls the first complete JSON object out of a model response
+ * - Validates statement fields and each transaction row
+ * - Normalizes amounts to the sign convention: debits negative, credits positive
+ * - Quarantines rows that cannot be trusted instead of dropping or re-dating them
+ * - Checks the statement summary (dues, limits, reward balance) field by field
+ * - Checks the points expiry schedule
+ */
+
+export interface StatementPeriod {
+  start: string;
+  end: string;
+}
+
+export interface ValidTransaction {
+  date: string; // YYYY-MM-DD
+  description: string;
+  amount: number; // debits negative, credits positive
+  merchant: string;
+}
+
+// Printed on the statement; absent when not shown or not readable
+export interface StatementSummary {
+  openingRewardPoints?: number;
+  closingRewardPoints?: number;
+  pointsEarned?: number;
+  pointsRedeemed?: number;
+  pointsExpired?: number;
+  totalAmountDue?: number;
+  minimumAmountDue?: number;
+  paymentDueDate?: string; // YYYY-MM-DD
+  creditLimit?: number;
+  availableCreditLimit?: number;
+}
+
+export interface PointsExpiry {
+  date: string; // YYYY-MM-DD
+  points: number;
+  approximate: boolean; // "expiring in the next N days": date is the latest possible date
+}
+
+export interface QuarantinedRow {
+  index: number;
+  raw: unknown;
+  errors: string[];
+}
+
+export interface ValidatedStatement {
+  layoutFeatures: string[];
+  bankName?: string;
+  cardName?: string;
+  statementPeriod?: StatementPeriod;
+  transactions: ValidTransaction[];
+  summary: StatementSummary;
+  pointsExpiry: PointsExpiry[];
+  confidence?: number;
+}
+
+export interface ValidationReport {
+  data: ValidatedStatement;
+  quarantined: QuarantinedRow[];
+  warnings: string[]; // statement-level fields that were dropped or corrected
+}
+
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_PERIOD_DAYS = 62;
+// Rows may predate the period (EMIs, late postings) but not by months
+const DATE_SLACK_BEFORE_DAYS = 62;
+const DATE_SLACK_AFTER_DAYS = 7;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+// "1,234.56", "-1234", "₹ 1,234.56 Cr", "Rs. 99.00 DR"
+const AMOUNT_STRING = /^(?<sign>[-+])?\s*(?:₹|Rs\.?|INR)?\s*(?<value>\d{1,3}(?:,\d{2,3})*(?:\.\d+)?|\d+(?:\.\d+)?)\s*(?<direction>cr|dr)?$/i;
+const CREDIT_DESCRIPTION = /payment\s+received|thank\s+you|refund|reversal|cashback|cash\s+back/i;
+
+/**
+ * First balanced {...} object in a model response (ignores markdown fences and
+ * trailing chatter). Returns an error message instead when none parses.
+ */
+export function extractJsonObject(content: string): { value: unknown; error?: undefined } | { value?: undefined; error: string } {
+  const start = content.indexOf("{");
+  if (start === -1) return { error: "no JSON object found" };
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  for (let i = start; i < content.length; i++) {
+    const ch = content[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === "\\") escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === "{") depth++;
+    else if (ch === "}" && --depth === 0) {
+      try {
+        return { value: JSON.parse(content.slice(start, i + 1)) };
+      } catch (e) {
+        return { error: e instanceof Error ? e.message : "invalid JSON" };
+      }
+    }
+  }
+  return { error: "JSON object is not closed (response truncated?)" };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Real calendar date in YYYY-MM-DD form
+ */
+export function isIsoDate(value: unknown): value is string {
+  if (typeof value !== "string" || !ISO_DATE.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+function daysBetween(from: string, to: string): number {
+  return (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000;
+}
+
+/**
+ * Parse an amount; a Cr/Dr marker overrides the sign (Cr credit positive, Dr debit negative)
+ */
+export function parseAmount(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string") return null;
+
+  const groups = value.trim().match(AMOUNT_STRING)?.groups;
+  if (!groups) return null;
+
+  const magnitude = parseFloat(groups.value.replace(/,/g, ""));
+  if (!Number.isFinite(magnitude)) return null;
+  if (groups.direction) return groups.direction.toLowerCase() === "cr" ? magnitude : -magnitude;
+  return groups.sign === "-" ? -magnitude : magnitude;
+}
+
+function validatePeriod(value: unknown, warnings: string[]): StatementPeriod | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!isRecord(value) || !isIsoDate(value.start) || !isIsoDate(value.end)) {
+    warnings.push("statementPeriod: start and end must be YYYY-MM-DD dates");
+    return undefined;
+  }
+  const days = daysBetween(value.start, value.end);
+  if (days < 0 || days > MAX_PERIOD_DAYS) {
+    warnings.push(`statementPeriod: ${value.start} to ${value.end} is not a billing cycle`);
+    return undefined;
+  }
+  return { start: value.start, end: value.end };
+}
+
+const SUMMARY_AMOUNT_FIELDS = ["totalAmountDue", "minimumAmountDue", "creditLimit", "availableCreditLimit"] as const;
+const SUMMARY_POINTS_FIELDS = [
+  "openingRewardPoints",
+  "closingRewardPoints",
+  "pointsEarned",
+  "pointsRedeemed",
+  "pointsExpired",
+] as const;
+
+/**
+ * Statement summary fields; unreadable or inconsistent values are dropped with a warning
+ */
+function validateSummary(value: unknown, warnings: string[]): StatementSummary {
+  if (value === undefined || value === null) return {};
+  if (!isRecord(value)) {
+    warnings.push("statementSummary is not an object");
+    return {};
+  }
+
+  const summary: StatementSummary = {};
+  for (const key of SUMMARY_AMOUNT_FIELDS) {
+    if (value[key] === undefined || value[key] === null) continue;
+    const amount = parseAmount(value[key]);
+    // Dues are printed as positive balances; a leading minus is a credit balance, i.e. nothing due
+    if (amount === null) warnings.push(`statementSummary.${key}: ${JSON.stringify(value[key])} is not a number`);
+    else summary[key] = Math.max(0, amount);
+  }
+  for (const key of SUMMARY_POINTS_FIELDS) {
+    if (value[key] === undefined || value[key] === null) continue;
+    const points = parseAmount(value[key]);
+    // Redeemed/expired are sometimes printed negative; balances can't be
+    if (points === null || !Number.isInteger(points)) {
+      warnings.push(`statementSummary.${key}: ${JSON.stringify(value[key])} is not a whole number of points`);
+    } else if (points < 0 && (key === "openingRewardPoints" || key === "closingRewardPoints")) {
+      warnings.push(`statementSummary.${key}: balance ${points} is negative`);
+    } else {
+      summary[key] = Math.abs(points);
+    }
+  }
+  if (value.paymentDueDate !== undefined && value.paymentDueDate !== null) {
+    if (isIsoDate(value.paymentDueDate)) summary.paymentDueDate = value.paymentDueDate;
+    else warnings.push(`statementSummary.paymentDueDate: ${JSON.stringify(value.paymentDueDate)} is not a YYYY-MM-DD date`);
+  }
+
+  if (summary.minimumAmountDue !== undefined && summary.totalAmountDue !== undefined && summary.minimumAmountDue > summary.totalAmountDue) {
+    warnings.push("statementSummary: minimum due exceeds total due");
+    delete summary.minimumAmountDue;
+  }
+  if (summary.availableCreditLimit !== undefined && summary.creditLimit !== undefined && summary.availableCreditLimit > summary.creditLimit) {
+    warnings.push("statementSummary: available credit exceeds the credit limit");
+    delete summary.availableCreditLimit;
+  }
+  return summary;
+}
+
+/**
+ * Points expiry schedule; entries without a date or a whole number of points are dropped
+ */
+function validatePointsExpiry(value: unknown, warnings: string[]): PointsExpiry[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    warnings.push("pointsExpiry is not an array");
+    return [];
+  }
+
+  const entries: PointsExpiry[] = [];
+  value.forEach((entry, index) => {
+    const points = isRecord(entry) ? parseAmount(entry.points) : null;
+    if (!isRecord(entry) || !isIsoDate(entry.date) || points === null || !Number.isInteger(points) || points < 0) {
+      warnings.push(`pointsExpiry[${index}]: needs a YYYY-MM-DD date and whole points`);
+      return;
+    }
+    entries.push({ date: entry.date, points, approximate: entry.approximate === true });
+  });
+  return entries;
+}
+
+/**
+ * Validate one transaction row; returns the row or the reasons it was rejected
+ */
+export function validateTransaction(
+  raw: unknown,
+  period?: StatementPeriod
+): { transaction: ValidTransaction; errors?: undefined } | { transaction?: undefined; errors: string[] } {
+  if (!isRecord(raw)) return { errors: ["row is not an object"] };
+
+  const errors: string[] = [];
+
+  const description = optionalString(raw.description) ?? optionalString(raw.merchant);
+  if (!description) errors.push("description is missing");
+  else if (description.length > MAX_DESCRIPTION_LENGTH) errors.push("description is too long");
+
+  if (!isIsoDate(raw.date)) {
+    errors.push(`date ${JSON.stringify(raw.date ?? null)} is not a YYYY-MM-DD date`);
+  } else if (
+    period &&
+    (daysBetween(raw.date, period.start) > DATE_SLACK_BEFORE_DAYS || daysBetween(period.end, raw.date) > DATE_SLACK_AFTER_DAYS)
+  ) {
+    errors.push(`date ${raw.date} is outside the statement period`);
+  }
+
+  const amount = parseAmount(raw.amount);
+  if (amount === null) errors.push(`amount ${JSON.stringify(raw.amount ?? null)} is not a number`);
+  else if (amount === 0) errors.push("amount is zero");
+
+  if (errors.length > 0) return { errors };
+
+  return {
+    transaction: {
+      date: raw.date as string,
+      description: description!,
+      amount: amount!,
+      merchant: optionalString(raw.merchant) ?? description!,
+    },
+  };
+}
+
+/**
+ * Enforce debits negative / credits positive. Statements that came back all
+ * positive ignored the convention: everything except payments/refunds is a debit.
+ */
+function applySignConvention(transactions: ValidTransaction[], warnings: string[]): ValidTransaction[] {
+  const allPositive = transactions.length > 1 && transactions.every((tx) => tx.amount > 0);
+  if (allPositive) warnings.push("amounts were unsigned; treated as debits except payments and refunds");
+
+  return transactions.map((tx) => {
+    const isCredit = CREDIT_DESCRIPTION.test(tx.description);
+    if (isCredit && tx.amount < 0) return { ...tx, amount: -tx.amount };
+    if (allPositive && !isCredit) return { ...tx, amount: -tx.amount };
+    return tx;
+  });
+}
+
+/**
+ * Validate a parsed model response against the statement schema
+ */
+export function validateParsedResponse(value: unknown): ValidationReport {
+  const warnings: string[] = [];
+  const quarantined: QuarantinedRow[] = [];
+  const record = isRecord(value) ? value : {};
+  if (!isRecord(value)) warnings.push("response is not a JSON object");
+
+  const statementPeriod = validatePeriod(record.statementPeriod, warnings);
+
+  const rows = Array.isArray(record.transactions) ? record.transactions : [];
+  if (record.transactions !== undefined && !Array.isArray(record.transactions)) {
+    warnings.push("transactions is not an array");
+  }
+
+  const valid: ValidTransaction[] = [];
+  rows.forEach((raw, index) => {
+    const result = validateTransaction(raw, statementPeriod);
+    if (result.transaction) valid.push(result.transaction);
+    else quarantined.push({ index, raw, errors: result.errors });
+  });
+
+  const confidence = typeof record.confidence === "number" && record.confidence >= 0 && record.confidence <= 1
+    ? record.confidence
+    : undefined;
+
+  return {
+    data: {
+      layoutFeatures: Array.isArray(record.layoutFeatures)
+        ? record.layoutFeatures.filter((f): f is string => typeof f === "string")
+        : [],
+      bankName: optionalString(record.bankName),
+      cardName: optionalString(record.cardName),
+      statementPeriod,
+      transactions: applySignConvention(valid, warnings),
+      summary: validateSummary(record.statementSummary, warnings),
+      pointsExpiry: validatePointsExpiry(record.pointsExpiry, warnings),
+      confidence,
+    },
+    quarantined,
+    warnings,
+  };
+}
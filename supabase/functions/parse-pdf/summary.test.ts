@@ -0,0 +1,65 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { describe, it, expect } from "vitest";
+import { readTextLayer, type PageText } from "./pdf-text.ts";
+import { readPointsExpiry, readStatementSummary } from "./summary.ts";
+
+async function pagesOf(name: string) {
+  const bytes = new Uint8Array(readFileSync(path.resolve(__dirname, "../../../public/test-data", name)));
+  return (await readTextLayer(bytes)).pages;
+}
+
+async function summaryOf(name: string) {
+  return readStatementSummary(await pagesOf(name));
+}
+
+describe("statement summary", () => {
+  it("reads dues, limits and the reward points summary from table columns", async () => {
+    expect(await summaryOf("HDFC_2.pdf")).toEqual({
+      paymentDueDate: "2025-08-02",
+      totalAmountDue: 5154,
+      minimumAmountDue: 285,
+      creditLimit: 76000,
+      availableCreditLimit: 70846,
+      openingRewardPoints: 2652,
+      pointsEarned: 66,
+      pointsRedeemed: 0,
+      pointsExpired: 0,
+      closingRewardPoints: 2718,
+    });
+  });
+
+  it("reads inline label values and leaves unprinted fields out", async () => {
+    expect(await summaryOf("Amex_Final.pdf")).toEqual({
+      totalAmountDue: 14620.2,
+      minimumAmountDue: 731,
+      paymentDueDate: "2025-12-10",
+      creditLimit: 200000,
+      availableCreditLimit: 185379.8,
+    });
+  });
+
+  it("dates relative expiry columns from the statement date and reads dated expiry rows", async () => {
+    expect(readPointsExpiry(await pagesOf("HDFC_2.pdf"), "2025-07-13")).toEqual([
+      { date: "2025-08-12", points: 0, approximate: true },
+      { date: "2025-09-11", points: 0, approximate: true },
+    ]);
+
+    const row = (y: number, ...cells: string[]) => ({ y, cells: cells.map((text, i) => ({ x: 10 + 200 * i, text })) });
+    const page: PageText = {
+      pageNumber: 1,
+      status: "text",
+      lines: [],
+      rows: [
+        row(500, "Points Expiry Schedule"),
+        row(490, "Expiry Date", "Points"),
+        row(480, "31/08/2025", "1,200"),
+        row(400, "Reward points expiring on 31/10/2025: 450 points"),
+      ],
+    };
+    expect(readPointsExpiry([page])).toEqual([
+      { date: "2025-08-31", points: 1200, approximate: false },
+      { date: "2025-10-31", points: 450, approximate: false },
+    ]);
+  });
+});
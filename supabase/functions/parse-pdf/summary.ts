@@ -0,0 +1,362 @@
+/**
+ * Statement summary: dues, limits and the reward points summary
+ * Read locally from the positioned text layer where the statement is digital (a label
+ * cell plus the value printed after it or in the same column below), otherwise taken
+ * from the AI extraction. The closing reward balance is the card's authoritative
+ * points total and the payment due date drives the payment reminder alert.
+ * Points expiry schedules go to the per-card expiry ledger that expiring_points
+ * alerts are generated from.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { PageText, TextCell, TextRow } from "./pdf-text.ts";
+import { parseAmount, type PointsExpiry, type StatementSummary } from "./schema.ts";
+import { findFullDate } from "./templates.ts";
+
+type SummaryKey = keyof StatementSummary;
+type ValueKind = "amount" | "points" | "date";
+
+interface SummaryField {
+  key: SummaryKey;
+  kind: ValueKind;
+  labels: RegExp[];
+  rewards?: boolean; // only inside a reward points summary block
+}
+
+// First label match per field wins, in reading order
+const SUMMARY_FIELDS: SummaryField[] = [
+  { key: "paymentDueDate", kind: "date", labels: [/^(?:payment )?due date\b/i, /^due by\b/i] },
+  { key: "totalAmountDue", kind: "amount", labels: [/^total (?:amount )?dues?\b/i, /^closing balance\b/i] },
+  { key: "minimumAmountDue", kind: "amount", labels: [/^min(?:imum)?\.? (?:amount|payment)(?: due)?\b/i] },
+  { key: "creditLimit", kind: "amount", labels: [/^(?:total )?credit limit\b/i] },
+  { key: "availableCreditLimit", kind: "amount", labels: [/^available credit limit\b/i] },
+  { key: "openingRewardPoints", kind: "points", rewards: true, labels: [/^opening (?:balance|points)\b/i] },
+  { key: "pointsEarned", kind: "points", rewards: true, labels: [/^(?:reward )?points earned\b/i, /^earned\b/i] },
+  { key: "pointsRedeemed", kind: "points", rewards: true, labels: [/^(?:points )?redeemed\b/i, /^disbursed\b/i] },
+  { key: "pointsExpired", kind: "points", rewards: true, labels: [/^(?:points )?expired\b/i, /^(?:adjusted\/)?lapsed\b/i] },
+  { key: "closingRewardPoints", kind: "points", rewards: true, labels: [/^closing (?:balance|points)\b/i] },
+];
+
+const REWARDS_HEADING = /\bpoints summary\b|\brewards? summary\b/i;
+// A value printed under its label: same column, within a few rows
+const COLUMN_TOLERANCE = 60;
+const MAX_VALUE_DISTANCE = 40;
+
+const INLINE_AMOUNT = /^[:\s]*((?:₹|Rs\.?|INR)?\s*[\d,]+(?:\.\d{1,2})?)/i;
+
+function parsePoints(text: string): number | undefined {
+  const trimmed = text.trim();
+  if (!/^\d{1,3}(?:,\d{2,3})*$|^\d+$/.test(trimmed)) return undefined;
+  return Number(trimmed.replace(/,/g, ""));
+}
+
+function parseValue(text: string, kind: ValueKind): number | string | undefined {
+  if (kind === "date") return findFullDate(text)?.iso;
+  if (kind === "points") return parsePoints(text);
+  const amount = parseAmount(text.trim());
+  return amount === null ? undefined : Math.abs(amount);
+}
+
+// Value printed right after the label ("Credit Limit: ₹ 200,000.00")
+function inlineValue(rest: string, kind: ValueKind): number | string | undefined {
+  if (kind === "date") return findFullDate(rest)?.iso;
+  const token = rest.match(INLINE_AMOUNT)?.[1];
+  return token ? parseValue(token, kind) : undefined;
+}
+
+// Value printed under the label: the nearest cell in each following row, until one parses
+function columnValue(rows: TextRow[], rowIndex: number, labelX: number, kind: ValueKind): number | string | undefined {
+  const labelY = rows[rowIndex].y;
+  for (let i = rowIndex + 1; i < rows.length && Math.abs(labelY - rows[i].y) <= MAX_VALUE_DISTANCE; i++) {
+    let nearest: TextCell | null = null;
+    for (const cell of rows[i].cells) {
+      if (!nearest || Math.abs(cell.x - labelX) < Math.abs(nearest.x - labelX)) nearest = cell;
+    }
+    if (!nearest || Math.abs(nearest.x - labelX) > COLUMN_TOLERANCE) continue;
+    const value = parseValue(nearest.text, kind);
+    if (value !== undefined) return value;
+  }
+  return undefined;
+}
+
+/**
+ * Summary fields printed on the text pages of a digital statement
+ */
+export function readStatementSummary(pages: PageText[]): StatementSummary {
+  const found: Partial<Record<SummaryKey, number | string>> = {};
+
+  for (const page of pages) {
+    let inRewards = false;
+    page.rows.forEach((row, rowIndex) => {
+      for (const cell of row.cells) {
+        if (REWARDS_HEADING.test(cell.text)) inRewards = true;
+
+        // A cell can hold several "Label: value" pairs separated by pipes
+        for (const segment of cell.text.split(/\s+\|\s+/)) {
+          for (const field of SUMMARY_FIELDS) {
+            if (found[field.key] !== undefined || Boolean(field.rewards) !== inRewards) continue;
+            const label = field.labels.map((regex) => segment.match(regex)).find(Boolean);
+            if (!label) continue;
+
+            const value = inlineValue(segment.slice(label[0].length), field.kind) ??
+              columnValue(page.rows, rowIndex, cell.x, field.kind);
+            if (value !== undefined) found[field.key] = value;
+          }
+        }
+      }
+    });
+  }
+
+  return found as StatementSummary;
+}
+
+// "Points expiring in next 30 days" (relative to the statement date) / "Points expiring on 31/08/2025: 500"
+const EXPIRY_WITHIN = /^(?:points expiring in )?(?:the )?next (\d+) days\b/i;
+const EXPIRY_ON = /^(?:reward )?points? (?:expiring|due to expire|to expire|lapsing) (?:on|by)\b/i;
+// Table of dated rows: "Points Expiry Schedule" / "31/08/2025 500"
+const EXPIRY_TABLE_HEADING = /\bexpiry (?:schedule|details)\b|\bpoints expiry\b/i;
+// Separator before / unit after the points figure
+const POINTS_SUFFIX = /^[\s:-]+|\s*(?:points|pts)\.?$/gi;
+
+function addDays(isoDate: string, days: number): string {
+  return new Date(Date.parse(`${isoDate}T00:00:00Z`) + days * 86_400_000).toISOString().split("T")[0];
+}
+
+/**
+ * Points expiry schedule printed on the text pages. Relative columns ("next 30 days")
+ * are dated from the statement date and marked approximate.
+ */
+export function readPointsExpiry(pages: PageText[], statementDate?: string): PointsExpiry[] {
+  const entries = new Map<string, PointsExpiry>();
+  const add = (entry: PointsExpiry) => {
+    if (!entries.has(entry.date)) entries.set(entry.date, entry);
+  };
+
+  for (const page of pages) {
+    let inRewards = false;
+    let inTable = false;
+    page.rows.forEach((row, rowIndex) => {
+      const rowText = row.cells.map((cell) => cell.text).join(" ");
+      if (inTable) {
+        const date = findFullDate(rowText);
+        const points = date ? parsePoints(rowText.slice(date.end).replace(POINTS_SUFFIX, "")) : undefined;
+        if (date && points !== undefined) add({ date: date.iso, points, approximate: false });
+      }
+      if (EXPIRY_TABLE_HEADING.test(rowText)) inTable = true;
+
+      for (const cell of row.cells) {
+        if (REWARDS_HEADING.test(cell.text)) inRewards = true;
+
+        const within = cell.text.match(EXPIRY_WITHIN);
+        if (within && inRewards && statementDate) {
+          const points = columnValue(page.rows, rowIndex, cell.x, "points");
+          if (typeof points === "number") {
+            add({ date: addDays(statementDate, Number(within[1])), points, approximate: true });
+          }
+          continue;
+        }
+
+        for (const segment of cell.text.split(/\s+\|\s+/)) {
+          const label = segment.match(EXPIRY_ON);
+          if (!label) continue;
+          const rest = segment.slice(label[0].length);
+          const date = findFullDate(rest);
+          if (!date) continue;
+          const points = parsePoints(rest.slice(date.end).replace(POINTS_SUFFIX, "")) ??
+            columnValue(page.rows, rowIndex, cell.x, "points");
+          if (typeof points === "number") add({ date: date.iso, points, approximate: false });
+        }
+      }
+    });
+  }
+
+  return [...entries.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Combine summaries field by field; earlier sources win
+ */
+export function mergeSummaries(...summaries: StatementSummary[]): StatementSummary {
+  const merged: Partial<Record<SummaryKey, number | string>> = {};
+  for (const summary of summaries) {
+    for (const [key, value] of Object.entries(summary) as Array<[SummaryKey, number | string | undefined]>) {
+      if (value !== undefined && merged[key] === undefined) merged[key] = value;
+    }
+  }
+  return merged as StatementSummary;
+}
+
+/**
+ * Store the summary for a parsed document (re-parsing replaces it)
+ */
+export async function saveStatementSummary(
+  supabase: SupabaseClient,
+  row: {
+    userId: string;
+    documentId: string;
+    cardId: string | null;
+    statementStart: string | null;
+    statementEnd: string | null;
+    summary: StatementSummary;
+  }
+): Promise<void> {
+  const { summary } = row;
+  const { error } = await supabase.from("statement_summaries").upsert(
+    {
+      user_id: row.userId,
+      document_id: row.documentId,
+      card_id: row.cardId,
+      statement_start: row.statementStart,
+      statement_end: row.statementEnd,
+      opening_reward_points: summary.openingRewardPoints ?? null,
+      closing_reward_points: summary.closingRewardPoints ?? null,
+      points_earned: summary.pointsEarned ?? null,
+      points_redeemed: summary.pointsRedeemed ?? null,
+      points_expired: summary.pointsExpired ?? null,
+      total_amount_due: summary.totalAmountDue ?? null,
+      minimum_amount_due: summary.minimumAmountDue ?? null,
+      payment_due_date: summary.paymentDueDate ?? null,
+      credit_limit: summary.creditLimit ?? null,
+      available_credit_limit: summary.availableCreditLimit ?? null,
+    },
+    { onConflict: "document_id" }
+  );
+
+  if (error) console.error("[SUMMARY] Save error:", error);
+}
+
+/**
+ * Whether no statement with a later period has been imported for the card -
+ * only the latest statement may set the card's points and payment reminder
+ */
+export async function isLatestStatement(
+  supabase: SupabaseClient,
+  cardId: string,
+  documentId: string,
+  statementEnd: string | null
+): Promise<boolean> {
+  let query = supabase
+    .from("statement_summaries")
+    .select("id")
+    .eq("card_id", cardId)
+    .neq("document_id", documentId)
+    .limit(1);
+  // Without a period this statement can't be ordered against others: latest only if it is the first
+  if (statementEnd) query = query.gt("statement_end", statementEnd);
+
+  const { data, error } = await query;
+  if (error) {
+    console.error("[SUMMARY] Latest statement lookup error:", error);
+    return false;
+  }
+  return (data || []).length === 0;
+}
+
+function formatRupees(amount: number): string {
+  return `₹${amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+/**
+ * Reminder priority by days left until the due date
+ */
+export function paymentReminderPriority(dueDate: string, today: string): "urgent" | "high" | "medium" {
+  const daysLeft = (Date.parse(`${dueDate}T00:00:00Z`) - Date.parse(`${today}T00:00:00Z`)) / 86_400_000;
+  if (daysLeft <= 3) return "urgent";
+  if (daysLeft <= 7) return "high";
+  return "medium";
+}
+
+/**
+ * Replace the card's payment reminder with one for this statement's due date.
+ * Nothing is scheduled for a due date that has already passed or when nothing is due.
+ */
+export async function schedulePaymentReminder(
+  supabase: SupabaseClient,
+  reminder: { userId: string; cardId: string; cardLabel: string; summary: StatementSummary }
+): Promise<boolean> {
+  const { paymentDueDate, totalAmountDue, minimumAmountDue } = reminder.summary;
+  const today = new Date().toISOString().split("T")[0];
+  if (!paymentDueDate || paymentDueDate < today || totalAmountDue === 0) return false;
+
+  const { error: deleteError } = await supabase
+    .from("user_alerts")
+    .delete()
+    .eq("user_id", reminder.userId)
+    .eq("card_id", reminder.cardId)
+    .eq("alert_type", "payment_due");
+  if (deleteError) console.error("[SUMMARY] Previous reminder cleanup error:", deleteError);
+
+  const dueLabel = new Date(`${paymentDueDate}T00:00:00Z`).toLocaleDateString("en-IN", {
+    day: "numeric",
+    month: "short",
+    timeZone: "UTC",
+  });
+  const dues = [
+    totalAmountDue !== undefined ? `Total due ${formatRupees(totalAmountDue)}` : null,
+    minimumAmountDue !== undefined ? `minimum ${formatRupees(minimumAmountDue)}` : null,
+  ].filter(Boolean);
+
+  const { error } = await supabase.from("user_alerts").insert({
+    user_id: reminder.userId,
+    card_id: reminder.cardId,
+    alert_type: "payment_due",
+    title: `${reminder.cardLabel} payment due ${dueLabel}`,
+    description: dues.length > 0 ? `${dues.join(", ")}.` : null,
+    priority: paymentReminderPriority(paymentDueDate, today),
+    // Kept through the due date itself
+    expires_at: new Date(Date.parse(`${paymentDueDate}T00:00:00Z`) + 86_400_000).toISOString(),
+  });
+
+  if (error) {
+    console.error("[SUMMARY] Reminder insert error:", error);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Replace the card's expiry ledger with the latest statement's schedule. Entries
+ * already in the ledger keep their alert state; lapsed or zero entries are not stored.
+ */
+export async function savePointsExpiry(
+  supabase: SupabaseClient,
+  ledger: { userId: string; cardId: string; documentId: string; entries: PointsExpiry[] }
+): Promise<number> {
+  const today = new Date().toISOString().split("T")[0];
+  const upcoming = ledger.entries.filter((entry) => entry.points > 0 && entry.date >= today);
+
+  let cleanup = supabase.from("points_expiry_ledger").delete().eq("card_id", ledger.cardId);
+  if (upcoming.length > 0) {
+    cleanup = cleanup.not("expiry_date", "in", `(${upcoming.map((entry) => entry.date).join(",")})`);
+  }
+  const { error: cleanupError } = await cleanup;
+  if (cleanupError) console.error("[SUMMARY] Expiry ledger cleanup error:", cleanupError);
+
+  if (upcoming.length === 0) return 0;
+
+  const { error } = await supabase.from("points_expiry_ledger").upsert(
+    upcoming.map((entry) => ({
+      user_id: ledger.userId,
+      card_id: ledger.cardId,
+      document_id: ledger.documentId,
+      expiry_date: entry.date,
+      points: entry.points,
+      is_estimate: entry.approximate,
+    })),
+    { onConflict: "card_id,expiry_date" }
+  );
+
+  if (error) {
+    console.error("[SUMMARY] Expiry ledger save error:", error);
+    return 0;
+  }
+  return upcoming.length;
+}
+
+/**
+ * Raise expiring_points alerts for the user now rather than at the next scheduled run
+ */
+export async function generateExpiringPointsAlerts(supabase: SupabaseClient, userId: string): Promise<void> {
+  const { error } = await supabase.rpc("generate_expiring_points_alerts", { _user_id: userId });
+  if (error) console.error("[SUMMARY] Expiring points alert generation error:", error);
+}
@@ -0,0 +1,597 @@
+/**
+ * Statement template registry (statement_templates)
+ *
+ * A bank layout is fingerprinted from structural features of the local text
+ * layer - bank, header labels, date format and amount style, never values.
+ * An active template with the same hash extracts deterministically with its
+ * stored field_patterns/table_patterns. Below confidence_threshold the caller
+ * falls back to AI extraction, and a verified AI extraction teaches the template.
+ *
+ * Templates hold NO PII: only bank/card product names, labels and regexes.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type DateFormat =
+  | "DD/MM/YYYY"
+  | "DD-MM-YYYY"
+  | "DD/MM/YY"
+  | "DD-MMM-YYYY"
+  | "DD MMM YYYY"
+  | "DD MMM YY"
+  | "MMM DD" // year taken from the statement's own dates
+  | "YYYY-MM-DD";
+
+export type AmountStyle = "cr_suffix" | "signed" | "unsigned";
+
+export interface FieldPatterns {
+  bankName: string;
+  cardName?: string; // regex source, group 1 = card product
+  statementPeriod?: string; // regex source, groups 1/2 = period start/end
+}
+
+export interface HeaderPatterns {
+  markers: string[];
+}
+
+export interface TablePatterns {
+  dateFormat: DateFormat;
+  amountStyle: AmountStyle;
+  hasTimeColumn: boolean;
+  hasPointsColumn: boolean;
+  descriptionPosition?: "inline" | "above"; // "above": description printed on the line before date+amount
+}
+
+export interface StatementTemplate {
+  id: string;
+  bank_name: string;
+  template_hash: string;
+  template_version: number;
+  field_patterns: FieldPatterns;
+  header_patterns: HeaderPatterns;
+  table_patterns: TablePatterns;
+  confidence_threshold: number;
+}
+
+export interface StatementLayout {
+  templateHash: string;
+  bankName: string;
+  markers: string[];
+  dateFormat: DateFormat;
+  amountStyle: AmountStyle;
+}
+
+export interface TemplateTransaction {
+  date: string;
+  description: string;
+  amount: number;
+  merchant: string;
+}
+
+export interface TemplateExtraction {
+  bankName: string;
+  cardName?: string;
+  statementPeriod?: { start: string; end: string };
+  transactions: TemplateTransaction[];
+  remainingText: string; // statement text without the rows turned into transactions
+  confidence: number;
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// Longest/most specific formats first so DD/MM/YYYY isn't read as DD/MM/YY
+const DATE_PATTERNS: Array<{ format: DateFormat; source: string }> = [
+  { format: "YYYY-MM-DD", source: "\\d{4}-\\d{2}-\\d{2}" },
+  { format: "DD/MM/YYYY", source: "\\d{2}\\/\\d{2}\\/\\d{4}" },
+  { format: "DD-MM-YYYY", source: "\\d{2}-\\d{2}-\\d{4}" },
+  { format: "DD-MMM-YYYY", source: "\\d{2}-[A-Za-z]{3}-\\d{4}" },
+  { format: "DD MMM YYYY", source: "\\d{2} [A-Za-z]{3} \\d{4}" },
+  { format: "DD MMM YY", source: "\\d{2} [A-Za-z]{3} \\d{2}(?!\\d)" },
+  { format: "DD/MM/YY", source: "\\d{2}\\/\\d{2}\\/\\d{2}(?!\\d)" },
+  { format: "MMM DD", source: "[A-Z][a-z]{2} \\d{2}(?![\\d,])" },
+];
+
+const AMOUNT_SOURCE = "-?[\\d,]+\\.\\d{2}";
+const CURRENCY_PREFIX = "(?:₹|Rs\\.?|INR)?\\s*";
+const DIRECTION_SUFFIX = "(?:\\s*(?<direction>Cr|CR|Dr|DR))?";
+
+// Payments and refunds are credits even on layouts that print every amount unsigned
+const CREDIT_DESCRIPTION = /payment\s+received|thank\s+you|refund|reversal|cashback|cash\s+back/i;
+
+// Dates printed with a year anywhere on the statement, used to date "MMM DD" rows
+const FULL_DATE_PATTERNS: Array<{ regex: RegExp; format: DateFormat | "Month DD, YYYY" }> = [
+  { regex: /\b\d{2}\/\d{2}\/\d{4}\b/g, format: "DD/MM/YYYY" },
+  { regex: /\b\d{2}-[A-Za-z]{3}-\d{4}\b/g, format: "DD-MMM-YYYY" },
+  { regex: /\b\d{2} [A-Za-z]{3} \d{4}\b/g, format: "DD MMM YYYY" },
+  { regex: /\b[A-Z][a-z]+ \d{1,2}, \d{4}\b/g, format: "Month DD, YYYY" },
+];
+
+// Labels that describe a layout (not its values)
+const HEADER_MARKERS = [
+  "statement date",
+  "statement period",
+  "billing period",
+  "payment due date",
+  "total dues",
+  "total amount due",
+  "minimum amount due",
+  "credit limit",
+  "available credit limit",
+  "available cash limit",
+  "opening balance",
+  "closing balance",
+  "reward points",
+  "points earned",
+  "account summary",
+  "domestic transactions",
+  "international transactions",
+  "transaction details",
+];
+
+const BANK_KEYWORDS: Record<string, string[]> = {
+  "HDFC": ["hdfc bank"],
+  "ICICI": ["icici bank"],
+  "Axis": ["axis bank"],
+  "SBI": ["sbi card"],
+  "Kotak": ["kotak mahindra", "kotak bank"],
+  "American Express": ["american express", "americanexpress"],
+  "IndusInd": ["indusind"],
+  "Standard Chartered": ["standard chartered"],
+  "Yes Bank": ["yes bank"],
+  "IDFC First": ["idfc first"],
+  "RBL": ["rbl bank"],
+  "AU Small Finance": ["au small finance", "au bank"],
+  "HSBC": ["hsbc"],
+  "Citi": ["citibank"],
+};
+
+export function generateTemplateHash(structuralFeatures: string[]): string {
+  const sorted = [...structuralFeatures].sort().join("|");
+  let hash = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    const char = sorted.charCodeAt(i);
+    hash = ((hash << 5) - hash) + char;
+    hash = hash & hash;
+  }
+  return Math.abs(hash).toString(16).padStart(8, "0");
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function datePattern(format: DateFormat): string {
+  return DATE_PATTERNS.find((d) => d.format === format)!.source;
+}
+
+/**
+ * Convert a date printed in the given format to YYYY-MM-DD (null if invalid).
+ * Year-less formats need the statement's reference date; rows after its month belong to the prior year.
+ */
+export function toIsoDate(value: string, format: DateFormat, reference?: { year: number; month: number }): string | null {
+  const parts = value.trim().split(/[/\- ]/);
+  let year: number, month: number, day: number;
+
+  if (format === "YYYY-MM-DD") {
+    [year, month, day] = parts.map(Number);
+  } else if (format === "MMM DD") {
+    if (!reference) return null;
+    month = MONTHS.indexOf(parts[0].toLowerCase()) + 1;
+    day = Number(parts[1]);
+    year = month > reference.month ? reference.year - 1 : reference.year;
+  } else {
+    day = Number(parts[0]);
+    month = format.includes("MMM") ? MONTHS.indexOf(parts[1].toLowerCase()) + 1 : Number(parts[1]);
+    year = Number(parts[2]);
+    if (format.endsWith("YY") && !format.endsWith("YYYY")) year += 2000;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (Number.isNaN(date.getTime()) || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Render an ISO date the way a layout prints it (used to locate learned fields)
+ */
+function fromIsoDate(iso: string, format: DateFormat): string | null {
+  const match = iso.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const [, yyyy, mm, dd] = match;
+  const mmm = MONTHS[Number(mm) - 1];
+  if (!mmm) return null;
+  const Mmm = mmm[0].toUpperCase() + mmm.slice(1);
+
+  switch (format) {
+    case "YYYY-MM-DD": return iso;
+    case "DD/MM/YYYY": return `${dd}/${mm}/${yyyy}`;
+    case "DD-MM-YYYY": return `${dd}-${mm}-${yyyy}`;
+    case "DD/MM/YY": return `${dd}/${mm}/${yyyy.slice(2)}`;
+    case "DD-MMM-YYYY": return `${dd}-${Mmm}-${yyyy}`;
+    case "DD MMM YYYY": return `${dd} ${Mmm} ${yyyy}`;
+    case "DD MMM YY": return `${dd} ${Mmm} ${yyyy.slice(2)}`;
+    case "MMM DD": return `${Mmm} ${dd}`;
+  }
+}
+
+function fullDateToIso(value: string, format: DateFormat | "Month DD, YYYY"): string | null {
+  if (format !== "Month DD, YYYY") return toIsoDate(value, format);
+  const [monthName, day, year] = value.replace(",", "").split(" ");
+  const month = MONTHS.indexOf(monthName.slice(0, 3).toLowerCase()) + 1;
+  return month > 0 ? toIsoDate(`${day.padStart(2, "0")}/${String(month).padStart(2, "0")}/${year}`, "DD/MM/YYYY") : null;
+}
+
+/**
+ * First date printed with a year in the text ("02/08/2025", "December 10, 2025"):
+ * YYYY-MM-DD plus where the printed date ends
+ */
+export function findFullDate(text: string): { iso: string; end: number } | null {
+  let first: { index: number; iso: string; end: number } | null = null;
+  for (const { regex, format } of FULL_DATE_PATTERNS) {
+    for (const match of text.matchAll(regex)) {
+      const iso = fullDateToIso(match[0], format);
+      if (iso && (!first || match.index! < first.index)) {
+        first = { index: match.index!, iso, end: match.index! + match[0].length };
+      }
+    }
+  }
+  return first ? { iso: first.iso, end: first.end } : null;
+}
+
+/**
+ * Latest date printed with a year (statement/due date) - anchors year-less rows
+ */
+function referenceDate(text: string): { year: number; month: number } | undefined {
+  let latest: string | null = null;
+  for (const { regex, format } of FULL_DATE_PATTERNS) {
+    for (const match of text.matchAll(regex)) {
+      const iso = fullDateToIso(match[0], format);
+      if (iso && (!latest || iso > latest)) latest = iso;
+    }
+  }
+  if (!latest) return undefined;
+  return { year: Number(latest.slice(0, 4)), month: Number(latest.slice(5, 7)) };
+}
+
+function buildRowRegex(table: TablePatterns): RegExp {
+  const time = table.hasTimeColumn ? "(?:\\s+\\d{2}:\\d{2}(?::\\d{2})?)?" : "";
+  const points = table.hasPointsColumn ? "(?:\\s+(?<points>-?\\d{1,6}))?" : "";
+  return new RegExp(
+    `^(?<date>${datePattern(table.dateFormat)})${time}(?:\\s+(?<description>.+?))??${points}\\s+${CURRENCY_PREFIX}(?<amount>${AMOUNT_SOURCE})${DIRECTION_SUFFIX}$`
+  );
+}
+
+/**
+ * Indexes of lines that look like transaction rows for a date format, whatever the template says.
+ * Used as the denominator for template coverage.
+ */
+function candidateRows(lines: string[], format: DateFormat): number[] {
+  const startsWithDate = new RegExp(`^${datePattern(format)}(?!\\w)`);
+  const endsWithAmount = new RegExp(`\\s${CURRENCY_PREFIX}${AMOUNT_SOURCE}${DIRECTION_SUFFIX}$`);
+  const rows: number[] = [];
+  lines.forEach((line, i) => {
+    if (startsWithDate.test(line) && endsWithAmount.test(line)) rows.push(i);
+  });
+  return rows;
+}
+
+/**
+ * Fingerprint a statement layout from its local text layer.
+ * Returns null when the bank or the transaction date format can't be recognised.
+ */
+export function detectLayout(lines: string[]): StatementLayout | null {
+  const lower = lines.join("\n").toLowerCase();
+
+  // The issuer is named in the header; other banks may appear later (payment sources, payee details)
+  let bankName: string | undefined;
+  let firstMention = Infinity;
+  for (const [bank, keywords] of Object.entries(BANK_KEYWORDS)) {
+    for (const kw of keywords) {
+      const index = lower.indexOf(kw);
+      if (index !== -1 && index < firstMention) {
+        bankName = bank;
+        firstMention = index;
+      }
+    }
+  }
+  if (!bankName) return null;
+
+  let dateFormat: DateFormat | null = null;
+  let rows: string[] = [];
+  for (const { format } of DATE_PATTERNS) {
+    const found = candidateRows(lines, format);
+    if (found.length > rows.length) {
+      rows = found.map((i) => lines[i]);
+      dateFormat = format;
+    }
+  }
+  if (!dateFormat) return null;
+
+  const credits = rows.filter((r) => /(Cr|CR)$/.test(r)).length;
+  const negatives = rows.filter((r) => new RegExp(`\\s-[\\d,]+\\.\\d{2}$`).test(r)).length;
+  const amountStyle: AmountStyle = credits > 0 ? "cr_suffix" : negatives > 0 ? "signed" : "unsigned";
+
+  const markers = HEADER_MARKERS.filter((marker) => lower.includes(marker));
+  const features = [
+    `bank:${bankName}`,
+    `date:${dateFormat}`,
+    `amount:${amountStyle}`,
+    ...markers.map((m) => `marker:${m}`),
+  ];
+
+  return {
+    templateHash: generateTemplateHash(features),
+    bankName,
+    markers,
+    dateFormat,
+    amountStyle,
+  };
+}
+
+export async function findTemplate(
+  supabase: SupabaseClient,
+  templateHash: string
+): Promise<StatementTemplate | null> {
+  const { data, error } = await supabase
+    .from("statement_templates")
+    .select("id, bank_name, template_hash, template_version, field_patterns, header_patterns, table_patterns, confidence_threshold")
+    .eq("template_hash", templateHash)
+    .eq("is_active", true)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[TEMPLATE] Lookup error:", error);
+    return null;
+  }
+  if (!data) return null;
+
+  // Rows created before learning was added may have empty patterns
+  const table = data.table_patterns as Partial<TablePatterns>;
+  if (!table?.dateFormat) return null;
+
+  return { ...data, confidence_threshold: Number(data.confidence_threshold) } as StatementTemplate;
+}
+
+/**
+ * Extract a statement deterministically with a template.
+ * Confidence = 80% row coverage (matched rows / date+amount lines) + 20% field patterns found.
+ */
+export function applyTemplate(
+  template: Pick<StatementTemplate, "field_patterns" | "table_patterns">,
+  lines: string[]
+): TemplateExtraction {
+  const { field_patterns: fields, table_patterns: table } = template;
+  const text = lines.join("\n");
+  let fieldsExpected = 0;
+  let fieldsFound = 0;
+
+  let cardName: string | undefined;
+  if (fields.cardName) {
+    fieldsExpected++;
+    cardName = text.match(new RegExp(fields.cardName, "i"))?.[1]?.trim();
+    if (cardName) fieldsFound++;
+  }
+
+  const reference = referenceDate(text);
+
+  let statementPeriod: { start: string; end: string } | undefined;
+  if (fields.statementPeriod) {
+    fieldsExpected++;
+    const match = text.match(new RegExp(fields.statementPeriod, "i"));
+    const start = match ? toIsoDate(match[1], table.dateFormat, reference) : null;
+    const end = match ? toIsoDate(match[2], table.dateFormat, reference) : null;
+    if (start && end) {
+      statementPeriod = { start, end };
+      fieldsFound++;
+    }
+  }
+
+  const rowRegex = buildRowRegex(table);
+  const candidates = candidateRows(lines, table.dateFormat);
+  const candidateSet = new Set(candidates);
+  const consumed = new Set<number>();
+  const transactions: TemplateTransaction[] = [];
+
+  for (const index of candidates) {
+    const groups = lines[index].match(rowRegex)?.groups;
+    if (!groups) continue;
+
+    const date = toIsoDate(groups.date, table.dateFormat, reference);
+    const magnitude = parseFloat(groups.amount.replace(/,/g, ""));
+    if (!date || Number.isNaN(magnitude)) continue;
+
+    let description = groups.description?.trim() || "";
+    const above = index - 1;
+    if (!description && table.descriptionPosition === "above" && above >= 0 && !candidateSet.has(above) && !consumed.has(above)) {
+      description = lines[above].trim();
+      consumed.add(above);
+    }
+    if (!description) continue;
+
+    // Debits are negative, credits positive (same convention as the AI prompt)
+    const isCredit = table.amountStyle === "cr_suffix"
+      ? /^cr$/i.test(groups.direction || "")
+      : (table.amountStyle === "signed" && magnitude < 0) || CREDIT_DESCRIPTION.test(description);
+    const amount = isCredit ? Math.abs(magnitude) : -Math.abs(magnitude);
+
+    transactions.push({ date, description, amount, merchant: description });
+    consumed.add(index);
+  }
+
+  const coverage = candidates.length > 0 ? transactions.length / candidates.length : 0;
+  const fieldScore = fieldsExpected > 0 ? fieldsFound / fieldsExpected : 1;
+  const confidence = transactions.length > 0 ? Math.round((0.8 * coverage + 0.2 * fieldScore) * 100) / 100 : 0;
+
+  return {
+    bankName: fields.bankName,
+    cardName,
+    statementPeriod,
+    transactions,
+    remainingText: lines.filter((_, i) => !consumed.has(i)).join("\n"),
+    confidence,
+  };
+}
+
+/**
+ * Build a label-anchored period pattern from a line printing both AI-extracted dates
+ */
+function learnPeriodPattern(lines: string[], period: { start?: string; end?: string }, format: DateFormat): string | undefined {
+  if (!period.start || !period.end) return undefined;
+  const start = fromIsoDate(period.start, format);
+  const end = fromIsoDate(period.end, format);
+  if (!start || !end) return undefined;
+
+  for (const line of lines) {
+    const startIdx = line.indexOf(start);
+    const endIdx = line.indexOf(end, startIdx + start.length);
+    if (startIdx === -1 || endIdx === -1) continue;
+
+    // Only letters in the anchor label - never store anything that could be a value
+    const label = line.slice(0, startIdx).match(/([A-Za-z][A-Za-z ]{2,40})[:\s]*$/)?.[1]?.trim();
+    const separator = line.slice(startIdx + start.length, endIdx).trim();
+    if (!label || !/^(to|-|–|till)?$/i.test(separator)) continue;
+
+    const date = datePattern(format);
+    return `${escapeRegex(label)}[:\\s]*(${date})\\s*(?:to|-|–|till)?\\s*(${date})`;
+  }
+  return undefined;
+}
+
+function learnTablePatterns(lines: string[], layout: StatementLayout): TablePatterns {
+  const rows = candidateRows(lines, layout.dateFormat).map((i) => lines[i]);
+  const date = datePattern(layout.dateFormat);
+  const afterDate = new RegExp(`^${date}\\s+\\d{2}:\\d{2}`);
+  const pointsBeforeAmount = new RegExp(`^${date}(?:\\s+\\d{2}:\\d{2}(?::\\d{2})?)?\\s+\\S.*\\s\\d{1,6}\\s+${CURRENCY_PREFIX}${AMOUNT_SOURCE}${DIRECTION_SUFFIX}$`);
+  const dateAndAmountOnly = new RegExp(`^${date}\\s+${CURRENCY_PREFIX}${AMOUNT_SOURCE}${DIRECTION_SUFFIX}$`);
+  const majority = (pattern: RegExp) => rows.filter((r) => pattern.test(r)).length > rows.length / 2;
+
+  // Optional columns are enabled when most rows carry them
+  return {
+    dateFormat: layout.dateFormat,
+    amountStyle: layout.amountStyle,
+    hasTimeColumn: majority(afterDate),
+    hasPointsColumn: majority(pointsBeforeAmount),
+    descriptionPosition: majority(dateAndAmountOnly) ? "above" : "inline",
+  };
+}
+
+// Generic field patterns for layouts without a learned template
+const GENERIC_CARD_NAME = "\\b((?!Bank\\b)[A-Z][A-Za-z]{2,}(?: (?!Bank\\b)[A-Z][A-Za-z]{2,}){0,2}) Credit Card\\b";
+
+/**
+ * Patterns inferred from the layout alone (no AI ground truth), for
+ * deterministic extraction of text-layer statements without a template
+ */
+export function inferTemplate(
+  layout: StatementLayout,
+  lines: string[]
+): Pick<StatementTemplate, "field_patterns" | "table_patterns"> {
+  const date = datePattern(layout.dateFormat);
+  return {
+    field_patterns: {
+      bankName: layout.bankName,
+      cardName: GENERIC_CARD_NAME,
+      statementPeriod: `(?:statement|billing)\\s+period[:\\s]*(?:from\\s+)?(${date})\\s*(?:to|-|–|till)\\s*(${date})`,
+    },
+    table_patterns: learnTablePatterns(lines, layout),
+  };
+}
+
+/**
+ * Check a candidate template reproduces the AI extraction closely enough to trust it
+ */
+function agreesWithAI(extraction: TemplateExtraction, aiTransactions: Array<{ amount?: number | string }>): boolean {
+  const aiAmounts = aiTransactions
+    .map((tx) => (typeof tx.amount === "string" ? parseFloat(tx.amount.replace(/[^0-9.-]/g, "")) : tx.amount ?? NaN))
+    .filter((a) => !Number.isNaN(a));
+
+  if (aiAmounts.length === 0 || extraction.transactions.length !== aiAmounts.length) return false;
+
+  const sum = (values: number[]) => values.reduce((s, v) => s + v, 0);
+  const aiTotal = sum(aiAmounts);
+  const templateTotal = sum(extraction.transactions.map((tx) => tx.amount));
+  return Math.abs(aiTotal - templateTotal) <= Math.max(1, Math.abs(aiTotal) * 0.01);
+}
+
+/**
+ * Learn (or re-learn) a template from a successful AI extraction.
+ * Only stored when the derived patterns reproduce the AI's transactions.
+ */
+export async function learnTemplate(
+  supabase: SupabaseClient,
+  layout: StatementLayout,
+  lines: string[],
+  aiData: {
+    bankName?: string;
+    cardName?: string;
+    statementPeriod?: { start?: string; end?: string };
+    transactions?: Array<{ amount?: number | string }>;
+  },
+  existing: StatementTemplate | null
+): Promise<string | null> {
+  const cardName = aiData.cardName?.trim();
+  // Keep the AI's bank naming so template and AI parses land on the same credit_cards row
+  const bankName = aiData.bankName?.trim() || layout.bankName;
+  const field_patterns: FieldPatterns = {
+    bankName,
+    cardName: cardName && lines.some((l) => l.toLowerCase().includes(cardName.toLowerCase()))
+      ? `\\b(${escapeRegex(cardName)})\\b`
+      : undefined,
+    statementPeriod: learnPeriodPattern(lines, aiData.statementPeriod || {}, layout.dateFormat),
+  };
+  const table_patterns = learnTablePatterns(lines, layout);
+  const header_patterns: HeaderPatterns = { markers: layout.markers };
+
+  const extraction = applyTemplate({ field_patterns, table_patterns }, lines);
+  if (!agreesWithAI(extraction, aiData.transactions || [])) {
+    console.log(`[TEMPLATE] Not learning ${layout.templateHash}: patterns disagree with AI extraction`);
+    return existing?.id || null;
+  }
+
+  if (existing) {
+    const { error } = await supabase
+      .from("statement_templates")
+      .update({ field_patterns, header_patterns, table_patterns, template_version: existing.template_version + 1 })
+      .eq("id", existing.id);
+
+    if (error) console.error("[TEMPLATE] Update error:", error);
+    else console.log(`[TEMPLATE] Re-learned ${layout.templateHash} (v${existing.template_version + 1})`);
+    return existing.id;
+  }
+
+  // ignoreDuplicates leaves templates deactivated by an admin untouched
+  const { data, error } = await supabase
+    .from("statement_templates")
+    .upsert(
+      { bank_name: bankName, template_hash: layout.templateHash, field_patterns, header_patterns, table_patterns },
+      { onConflict: "template_hash", ignoreDuplicates: true }
+    )
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    console.error("[TEMPLATE] Insert error:", error);
+    return null;
+  }
+  if (!data) return null;
+
+  console.log(`[TEMPLATE] Learned new template ${layout.templateHash} for ${bankName}`);
+  return data.id;
+}
+
+/**
+ * Record a template extraction outcome (success/failure counters)
+ */
+export async function recordTemplateOutcome(
+  supabase: SupabaseClient,
+  templateId: string,
+  success: boolean
+): Promise<void> {
+  const { error } = await supabase.rpc("record_template_extraction", {
+    _template_id: templateId,
+    _success: success,
+  });
+  if (error) console.error("[TEMPLATE] Stats update error:", error);
+}
@@ -0,0 +1,134 @@
+/**
+ * Tool-calling agent loop
+ *
+ * The model is offered the tools in tools.ts; each round its tool calls are run against the
+ * user's data and the results fed back, until it answers in text (or the round limit forces
+ * an answer). Tool calls and results are reported through onEvent as they happen, so the
+ * streaming response can show them before the answer.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { ChatMessage, ChatStreamEvent } from "./types.ts";
+import { AGENT_TOOLS, executeTool } from "./tools.ts";
+import { completeChat, withModelFallback, type LlmError, type LlmMessage } from "../_shared/llm.ts";
+
+const MAX_TOOL_ROUNDS = 4;
+// Tool results are fed back to the model as JSON; very large results are cut
+const MAX_TOOL_RESULT_CHARS = 12000;
+
+export interface ToolCallRecord {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  ok: boolean;
+  summary: string;
+}
+
+export interface AgentAnswer {
+  model: string; // the model that answered (a fallback when the first was unavailable)
+  failedModels: string[]; // models skipped on the way, with the reason
+  content: string;
+  tokensInput: number;
+  tokensOutput: number;
+  toolCalls: ToolCallRecord[];
+  toolResults: string[]; // serialized results, used as evaluation context
+}
+
+export type AgentResult =
+  | ({ success: true } & AgentAnswer)
+  | { success: false; error: LlmError }; // 429/402 are shown to the user as such
+
+function parseArguments(raw: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(raw || "{}");
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * System prompt addition for tool mode (with today's date for relative periods)
+ */
+export function agentInstructions(selectedCardId?: string): string {
+  const today = new Date().toISOString().slice(0, 10);
+  const scope = selectedCardId
+    ? `\nThe user has selected the card with card_id "${selectedCardId}" - pass it to the tools unless they ask about other cards.`
+    : "";
+  return `
+
+TOOLS:
+You can call tools that query the user's own data. For any question about amounts spent, merchants,
+categories, date ranges, points balances, dues or expiring points, call the tools instead of estimating
+from the context above. Quote figures exactly as the tools return them (₹ amounts, counts, dates) and say
+which period and filters they cover. If a tool returns no transactions, say so - do not guess.
+Today's date is ${today}.${scope}`;
+}
+
+/**
+ * Run the tool-calling loop and return the model's final answer
+ */
+export async function runAgent(options: {
+  supabase: SupabaseClient;
+  userId: string;
+  models: string[]; // preferred first, then fallbacks (model-router.ts)
+  messages: ChatMessage[];
+  onEvent: (event: ChatStreamEvent) => void;
+}): Promise<AgentResult> {
+  const { supabase, userId, onEvent } = options;
+  let models = options.models;
+  const conversation: LlmMessage[] = [...options.messages];
+  const result: AgentAnswer = {
+    model: models[0],
+    failedModels: [],
+    content: "",
+    tokensInput: 0,
+    tokensOutput: 0,
+    toolCalls: [],
+    toolResults: [],
+  };
+
+  for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+    const toolsAllowed = round < MAX_TOOL_ROUNDS;
+    const { model, result: response, failed } = await withModelFallback(models, (candidate) =>
+      completeChat(
+        { model: candidate, messages: conversation, tools: AGENT_TOOLS, tool_choice: toolsAllowed ? "auto" : "none" },
+        { label: "[AGENT]" }
+      )
+    );
+    if (!response.success) return { success: false, error: response.error };
+
+    // Later rounds stay with the model that answered
+    result.model = model;
+    result.failedModels.push(...failed);
+    models = models.slice(models.indexOf(model));
+
+    result.tokensInput += response.usage.tokensInput;
+    result.tokensOutput += response.usage.tokensOutput;
+
+    const toolCalls = toolsAllowed ? response.toolCalls : [];
+    if (toolCalls.length === 0) {
+      result.content = response.content;
+      return { success: true, ...result };
+    }
+
+    conversation.push({ role: "assistant", content: response.content || null, tool_calls: toolCalls });
+
+    for (const call of toolCalls) {
+      const args = parseArguments(call.function.arguments);
+      onEvent({ type: "tool_call", id: call.id, name: call.function.name, arguments: args });
+
+      const outcome = await executeTool(supabase, userId, call.function.name, call.function.arguments);
+      console.log(`[AGENT] ${call.function.name} ${call.function.arguments} → ${outcome.summary}`);
+      onEvent({ type: "tool_result", id: call.id, name: call.function.name, ok: outcome.ok, summary: outcome.summary, result: outcome.result });
+
+      const serialized = JSON.stringify(outcome.result).slice(0, MAX_TOOL_RESULT_CHARS);
+      conversation.push({ role: "tool", tool_call_id: call.id, content: serialized });
+      result.toolCalls.push({ id: call.id, name: call.function.name, arguments: args, ok: outcome.ok, summary: outcome.summary });
+      result.toolResults.push(`${call.function.name}: ${serialized}`);
+    }
+  }
+
+  // Unreachable: the last round runs with tool_choice "none"
+  return { success: true, ...result };
+}
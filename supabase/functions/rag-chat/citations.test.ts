@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { citedSources, numberContext, toCitation } from "./citations.ts";
+import type { RetrievedContext } from "./types.ts";
+
+const context: RetrievedContext = {
+  documentChunks: [
+    { id: "chunk:c1", type: "statement", label: "HDFC Regalia statement (2025-03-31), page 2", text: "Swiggy ₹1,240", documentId: "d1", page: 2 },
+  ],
+  benefitsContext: [
+    { id: "benefit:b1", type: "benefit", label: "HDFC Regalia: Lounge access", text: "12 domestic lounge visits a year", sourceUrl: "https://example.com/regalia" },
+  ],
+  transactionSummary: { id: "transactions:all", type: "transactions", label: "User spending by category (40 transactions)", text: "{}", cardId: null },
+  userCards: { id: "cards:all", type: "cards", label: "Your cards and points balances", text: "HDFC Regalia: 12,000 points", cardId: null },
+};
+
+describe("citations", () => {
+  it("numbers context in prompt order", () => {
+    expect(numberContext(context).map((item) => [item.marker, item.id])).toEqual([
+      [1, "cards:all"],
+      [2, "chunk:c1"],
+      [3, "transactions:all"],
+      [4, "benefit:b1"],
+    ]);
+  });
+
+  it("resolves single and grouped markers, ignoring unknown numbers", () => {
+    const citations = numberContext(context).map(toCitation);
+    const answer = "You get 12 lounge visits [4] and spent ₹1,240 on Swiggy [2, 1]. See also [9].";
+
+    expect(citedSources(citations, answer).map((c) => c.marker)).toEqual([1, 2, 4]);
+    expect(citedSources(citations, "No markers here")).toEqual([]);
+  });
+
+  it("keeps the source fields and drops the full text", () => {
+    const [, statement] = numberContext(context).map(toCitation);
+    expect(statement).toMatchObject({ id: "chunk:c1", documentId: "d1", page: 2, snippet: "Swiggy ₹1,240" });
+    expect(statement).not.toHaveProperty("text");
+  });
+});
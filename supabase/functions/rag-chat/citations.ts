@@ -0,0 +1,51 @@
+/**
+ * Source citations
+ *
+ * Retrieved context items are numbered in the prompt ([1], [2], ...) and the model cites
+ * them inline. After the answer, the markers it actually used are resolved back to their
+ * sources (statement page, benefit page, transaction aggregate) for the chat footnotes.
+ */
+
+import type { Citation, ContextItem, RetrievedContext } from "./types.ts";
+
+const SNIPPET_LENGTH = 160;
+
+// "[2]" or "[1, 3]"
+const MARKER_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+export interface NumberedItem extends ContextItem {
+  marker: number;
+}
+
+/**
+ * Number the context in prompt order: cards, statements, spending, benefits
+ */
+export function numberContext(context: RetrievedContext): NumberedItem[] {
+  const ordered = [
+    ...(context.userCards ? [context.userCards] : []),
+    ...context.documentChunks,
+    ...(context.transactionSummary ? [context.transactionSummary] : []),
+    ...context.benefitsContext,
+  ];
+  return ordered.map((item, i) => ({ ...item, marker: i + 1 }));
+}
+
+export function toCitation(item: NumberedItem): Citation {
+  const { text, ...source } = item;
+  const snippet = text.replace(/\s+/g, " ").trim();
+  return {
+    ...source,
+    snippet: snippet.length > SNIPPET_LENGTH ? `${snippet.slice(0, SNIPPET_LENGTH)}…` : snippet,
+  };
+}
+
+/**
+ * The sources an answer cites, in marker order. Markers that match no source are ignored.
+ */
+export function citedSources(citations: Citation[], answer: string): Citation[] {
+  const used = new Set<number>();
+  for (const match of answer.matchAll(MARKER_PATTERN)) {
+    for (const n of match[1].split(",")) used.add(Number(n.trim()));
+  }
+  return citations.filter((c) => used.has(c.marker)).sort((a, b) => a.marker - b.marker);
+}
@@ -0,0 +1,119 @@
+/**
+ * Server-side chat history
+ *
+ * Each turn is stored in chat_messages under a chat_conversations thread. The prompt
+ * history is loaded from here by conversation id - the client only sends the new message.
+ */
+
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { ChatMessage, Citation } from "./types.ts";
+import type { ToolCallRecord } from "./agent.ts";
+
+// Prior turns replayed to the model (the oldest are dropped first)
+const HISTORY_TURN_LIMIT = 20;
+const TITLE_MAX_LENGTH = 60;
+
+export interface StoredTurn {
+  role: "user" | "assistant";
+  content: string;
+  model?: string;
+  cached?: boolean;
+  personalized?: boolean;
+  contextSources?: string[];
+  followUpQuestions?: string[];
+  toolCalls?: ToolCallRecord[];
+  citations?: Citation[];
+}
+
+/**
+ * Title for a new thread: the first question, cut at a word boundary
+ */
+export function conversationTitle(question: string): string {
+  const text = question.replace(/\s+/g, " ").trim();
+  if (text.length <= TITLE_MAX_LENGTH) return text || "New conversation";
+  const cut = text.slice(0, TITLE_MAX_LENGTH);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${(lastSpace > TITLE_MAX_LENGTH / 2 ? cut.slice(0, lastSpace) : cut).trim()}…`;
+}
+
+/**
+ * Resolve the thread for a request: the named conversation if it belongs to the user,
+ * otherwise a new one titled after the question. Returns null for an unknown id.
+ */
+export async function resolveConversation(
+  supabase: SupabaseClient,
+  userId: string,
+  conversationId: string | undefined,
+  question: string,
+  cardId?: string
+): Promise<{ id: string; created: boolean } | null> {
+  if (conversationId) {
+    const { data, error } = await supabase
+      .from("chat_conversations")
+      .select("id")
+      .eq("id", conversationId)
+      .eq("user_id", userId)
+      .maybeSingle();
+    if (error) console.error("Conversation lookup error:", error);
+    return data ? { id: data.id, created: false } : null;
+  }
+
+  const { data, error } = await supabase
+    .from("chat_conversations")
+    .insert({ user_id: userId, title: conversationTitle(question), card_id: cardId ?? null })
+    .select("id")
+    .single();
+  if (error || !data) throw new Error(`Failed to create conversation: ${error?.message}`);
+  return { id: data.id, created: true };
+}
+
+/**
+ * Most recent turns of a conversation, oldest first
+ */
+export async function loadHistory(supabase: SupabaseClient, conversationId: string): Promise<ChatMessage[]> {
+  const { data, error } = await supabase
+    .from("chat_messages")
+    .select("role, content")
+    .eq("conversation_id", conversationId)
+    .order("created_at", { ascending: false })
+    .limit(HISTORY_TURN_LIMIT);
+
+  if (error) {
+    console.error("History load error:", error);
+    return [];
+  }
+  return (data ?? []).reverse().map((m) => ({ role: m.role as ChatMessage["role"], content: m.content }));
+}
+
+/**
+ * Store one turn and bump the conversation in the thread list
+ */
+export async function saveTurn(
+  supabase: SupabaseClient,
+  userId: string,
+  conversationId: string,
+  turn: StoredTurn
+): Promise<void> {
+  const { error } = await supabase.from("chat_messages").insert({
+    user_id: userId,
+    conversation_id: conversationId,
+    role: turn.role,
+    content: turn.content,
+    model: turn.model ?? null,
+    cached: turn.cached ?? false,
+    personalized: turn.personalized ?? null,
+    context_sources: turn.contextSources ?? null,
+    follow_up_questions: turn.followUpQuestions ?? null,
+    tool_calls: turn.toolCalls?.length ? turn.toolCalls : null,
+    citations: turn.citations?.length ? turn.citations : null,
+  });
+  if (error) {
+    console.error("Chat turn save error:", error);
+    return;
+  }
+
+  await supabase
+    .from("chat_conversations")
+    .update({ last_message_at: new Date().toISOString() })
+    .eq("id", conversationId);
+}
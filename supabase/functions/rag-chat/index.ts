@@ -2,23 +2,49 @@
  * RAG Chat Edge Function - Semantic Search Enhanced
  * 
  * Features:
- * - Vector embeddings for semantic cache lookup (92% similarity threshold)
+ * - Vector embeddings for semantic cache lookup (threshold and TTL per task type), scoped per user,
+ *   card and data version (public scope for answers built without user data, curated scope for
+ *   admin-pinned answers)
  * - Multi-source context retrieval (documents, benefits, transactions)
- * - Dynamic model routing based on task complexity
+ * - Model routing (model-router.ts): a per-task policy of ranked models with context limits and a
+ *   cost cap, query complexity and per-user monthly budgets; fallbacks on 429/5xx, and the reason
+ *   logged with each usage row. Costs come from the versioned price table (_shared/model-prices.ts)
  * - RAGAS-style evaluation metrics
- * - Streaming support with follow-up question generation
+ * - Streaming support; follow-up questions are generated from the finished answer and sent
+ *   after it with citations and answer metadata (model, tokens, cost) as typed SSE events
+ * - Follow-ups rewritten into standalone questions (query-rewrite.ts) for cache lookup and retrieval
+ * - Tool-calling mode (agent.ts, tools.ts): exact figures from user-scoped transaction, card and
+ *   benefit queries; tool calls and results stream as typed SSE events
+ * - Per-user and per-organization quotas (_shared/quotas.ts): requests per minute and monthly
+ *   tokens/cost; refused with a 429 "quota_exceeded" error, and the allowance left is reported in
+ *   the answer metadata
+ * - Server-side conversation history (conversations.ts): turns are stored per thread and
+ *   replayed from the database, never from a client-sent history
+ * - Source citations (citations.ts): context items are numbered, the model cites them inline and
+ *   the cited sources are sent as a typed "citations" event once the answer is complete
  */
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 
-import { MODEL_COSTS, SYSTEM_PROMPTS } from "./types.ts";
-import type { RagRequest, ChatMessage } from "./types.ts";
-import { checkSemanticCache, storeInCache } from "./semantic-cache.ts";
+import { SYSTEM_PROMPTS } from "./types.ts";
+import type { RagRequest, ChatMessage, Citation, ChatStreamEvent, AnswerMetadata } from "./types.ts";
+import { checkSemanticCache, storeInCache, resolveCacheScopes, PUBLIC_CACHE_SCOPE } from "./semantic-cache.ts";
 import { retrieveContext, buildContextSection } from "./retrieval.ts";
-import { selectModel, calculateCost } from "./model-router.ts";
+import { routeModel, loadRoutingPolicy, loadRemainingBudget } from "./model-router.ts";
+import { estimateTokens } from "./ranking.ts";
 import { generateFollowUpQuestions } from "./follow-up.ts";
 import { calculateMetrics, logTokenUsage, logEvaluation } from "./metrics.ts";
+import { resolveConversation, loadHistory, saveTurn } from "./conversations.ts";
+import { rewriteQuery } from "./query-rewrite.ts";
+import { runAgent, agentInstructions } from "./agent.ts";
+import { citedSources } from "./citations.ts";
+import type { AgentAnswer } from "./agent.ts";
+import { authenticateRequest, authErrorBody } from "../_shared/auth.ts";
+import { completeChat, streamChat, withModelFallback } from "../_shared/llm.ts";
+import { calculateCost, loadPriceTable } from "../_shared/model-prices.ts";
+import { checkQuota, deductUsage } from "../_shared/quotas.ts";
+import type { QuotaAllowance } from "../_shared/quotas.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -35,32 +61,116 @@ serve(async (req) => {
   try {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-
-    if (!LOVABLE_API_KEY) {
-      throw new Error("LOVABLE_API_KEY is not configured");
-    }
+    // Only handed to the embedding helpers; model calls are configured in _shared/llm.ts
+    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY") ?? "";
 
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
     const {
+      message,
+      conversationId: requestedConversationId,
       messages,
-      userId,
+      userId: claimedUserId,
       taskType = "chat",
       includeContext = true,
       stream = true,
       selectedCardId,
       selectedCardName,
+      agentMode = false,
+      followUps = true,
     }: RagRequest = await req.json();
 
-    const lastMessage = messages[messages.length - 1]?.content || "";
+    // Cards, transactions and statements are read for the token's user only
+    const auth = await authenticateRequest(req, supabase, claimedUserId);
+    if (!auth.success) {
+      return new Response(JSON.stringify(authErrorBody(auth)), {
+        status: auth.status,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+    const userId = auth.caller.userId ?? undefined;
+
+    const lastMessage = (message ?? messages?.filter((m) => m.role === "user").pop()?.content ?? "").trim();
+    if (!lastMessage) {
+      return new Response(JSON.stringify({ error: "message is required" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Quotas are enforced before any work is done; service calls without a user are not limited
+    let quota: QuotaAllowance[] = [];
+    if (userId) {
+      const check = await checkQuota(supabase, userId);
+      if (!check.allowed) {
+        return new Response(
+          JSON.stringify({
+            error: check.exceeded.message,
+            code: "quota_exceeded",
+            quota: check.exceeded,
+            allowances: check.allowances,
+          }),
+          {
+            status: 429,
+            headers: {
+              ...corsHeaders,
+              "Content-Type": "application/json",
+              "Retry-After": String(check.exceeded.retryAfterSeconds),
+            },
+          }
+        );
+      }
+      quota = check.allowances;
+    }
+
+    // Thread history comes from the database; service calls without a user are single-turn
+    let conversationId: string | undefined;
+    let history: ChatMessage[] = [];
+    if (userId) {
+      const conversation = await resolveConversation(supabase, userId, requestedConversationId, lastMessage, selectedCardId);
+      if (!conversation) {
+        return new Response(JSON.stringify({ error: "Conversation not found" }), {
+          status: 404,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+      conversationId = conversation.id;
+      if (!conversation.created) history = await loadHistory(supabase, conversationId);
+      await saveTurn(supabase, userId, conversationId, { role: "user", content: lastMessage });
+    }
+
+    // Follow-ups are suggested from the finished answer, unless the caller opted out
+    const suggestFollowUps = (answer: string, context: string[]): Promise<string[]> =>
+      followUps ? generateFollowUpQuestions(lastMessage, answer, context) : Promise.resolve([]);
+
+    const prices = await loadPriceTable(supabase);
+    const answerMetadata = (model: string, tokensInput: number, tokensOutput: number, cached = false): AnswerMetadata => {
+      const cost = cached ? 0 : calculateCost(prices, model, tokensInput, tokensOutput);
+      return {
+        model,
+        cached,
+        conversationId,
+        tokensInput,
+        tokensOutput,
+        cost,
+        latencyMs: Date.now() - startTime,
+        quota: userId ? deductUsage(quota, tokensInput + tokensOutput, cost) : undefined,
+      };
+    };
+
     console.log(`Processing ${taskType} query: ${lastMessage.substring(0, 50)}... (card: ${selectedCardName || 'all'})`);
 
+    // Step 0: Resolve follow-ups against the recent turns - the cache and retrieval see the standalone question
+    const { query: searchQuery, rewritten } = await rewriteQuery(lastMessage, history, selectedCardName);
+    if (rewritten) console.log(`Rewrote query: ${searchQuery.substring(0, 80)}`);
+    const rewrittenQuery = rewritten ? searchQuery : undefined;
 
     // Step 1: Check semantic cache (hybrid exact + vector search)
-    // IMPORTANT: cache MUST be scoped by user + selected card to avoid reusing generic answers.
-    const cacheScope = `${userId || "anon"}:${selectedCardId || "all"}`;
-    const cachedResponse = await checkSemanticCache(supabase, lastMessage, LOVABLE_API_KEY, cacheScope);
+    // IMPORTANT: cache MUST be scoped by user + selected card + data version to avoid reusing
+    // another user's or an outdated answer. Tool-calling answers come from live data, so they bypass the cache
+    const useTools = agentMode && !!userId;
+    const cacheScopes = await resolveCacheScopes(supabase, userId, selectedCardId);
+    const cachedResponse = useTools ? null : await checkSemanticCache(supabase, searchQuery, LOVABLE_API_KEY, cacheScopes.lookup, taskType);
 
 
     if (cachedResponse) {
@@ -79,21 +189,30 @@ serve(async (req) => {
       );
 
       // Generate follow-up questions for cached response
-      const followUpQuestions = await generateFollowUpQuestions(
-        lastMessage,
-        cachedResponse.response,
-        [],
-        LOVABLE_API_KEY
-      );
+      const followUpQuestions = await suggestFollowUps(cachedResponse.response, []);
+
+      if (userId && conversationId) {
+        await saveTurn(supabase, userId, conversationId, {
+          role: "assistant",
+          content: cachedResponse.response,
+          model: cachedResponse.model_used,
+          cached: true,
+          followUpQuestions,
+          citations: cachedResponse.citations,
+        });
+      }
 
       return new Response(
         JSON.stringify({
           content: cachedResponse.response,
           cached: true,
+          conversationId,
           semanticMatch: (cachedResponse.similarity || 1) < 1,
           similarity: cachedResponse.similarity,
           model: cachedResponse.model_used,
           followUpQuestions,
+          citations: cachedResponse.citations ?? [],
+          metadata: answerMetadata(cachedResponse.model_used, 0, 0, true),
         }),
         {
           status: 200,
@@ -105,19 +224,22 @@ serve(async (req) => {
     // Step 2: Retrieve relevant context using semantic search
     let contextSection = "";
     let allContext: string[] = [];
+    let citations: Citation[] = [];
     let isPersonalized = false;
     let contextSources: string[] = [];
 
     if (includeContext && userId) {
       console.log(`Retrieving context for user: ${userId}, card: ${selectedCardId || 'all'}`);
-      const context = await retrieveContext(supabase, lastMessage, userId, LOVABLE_API_KEY, selectedCardId, selectedCardName);
+      const context = await retrieveContext(supabase, searchQuery, userId, LOVABLE_API_KEY, selectedCardId);
 
-      contextSection = buildContextSection(context);
+      const built = buildContextSection(context);
+      contextSection = built.text;
+      citations = built.citations;
       allContext = [
-        ...(context.userCards ? [context.userCards] : []),
-        ...context.documentChunks,
-        ...context.benefitsContext,
-        ...(context.transactionSummary ? [context.transactionSummary] : []),
+        ...(context.userCards ? [context.userCards.text] : []),
+        ...context.documentChunks.map((c) => c.text),
+        ...context.benefitsContext.map((b) => b.text),
+        ...(context.transactionSummary ? [context.transactionSummary.text] : []),
       ];
       
       // Determine personalization status based on user-specific data
@@ -140,154 +262,269 @@ serve(async (req) => {
       console.log(`Skipping context: includeContext=${includeContext}, userId=${userId || 'MISSING'}`);
     }
 
-    // Step 3: Select appropriate model
-    const { model: selectedModel, reason } = selectModel(taskType, contextSection.length);
-    console.log(`Selected model: ${selectedModel} (${reason})`);
+    // Answers built from the user's data stay in their scope. General answers to a first message
+    // are shared; later turns may draw on what the user said earlier, so they stay private
+    const storeScope = !isPersonalized && history.length === 0 ? PUBLIC_CACHE_SCOPE : cacheScopes.personal ?? PUBLIC_CACHE_SCOPE;
 
-    // Step 4: Build prompt with context
+    // Step 3: Build prompt with context
     const systemPrompt = SYSTEM_PROMPTS[taskType] || SYSTEM_PROMPTS.chat;
     const enhancedMessages: ChatMessage[] = [
       { role: "system", content: systemPrompt + contextSection },
-      ...messages,
+      ...history,
+      { role: "user", content: lastMessage },
     ];
 
-    // Step 5: Call AI API
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: selectedModel,
-        messages: enhancedMessages,
-        stream,
-      }),
+    // Step 4: Route to a model - task policy, query complexity, cost cap and the user's monthly budget.
+    // The model that actually answers (a fallback, when the first is unavailable) is recorded with the reason
+    const route = routeModel({
+      taskType,
+      query: searchQuery,
+      promptTokens: enhancedMessages.reduce((sum, m) => sum + estimateTokens(m.content), 0),
+      contextTokens: estimateTokens(contextSection),
+      prices,
+      remainingBudget: userId ? await loadRemainingBudget(supabase, userId) : null,
+      policy: loadRoutingPolicy(),
     });
+    const candidateModels = [route.model, ...route.fallbacks];
+    let selectedModel = route.model;
+    let routingReason = route.reason;
+    const answeredBy = (model: string, failed: string[]) => {
+      selectedModel = model;
+      if (failed.length > 0) routingReason += `, fell back from ${failed.join(", ")}`;
+    };
+    console.log(`Selected model: ${selectedModel} (${routingReason}, est. $${route.estimatedCost.toFixed(6)})`);
+
+    // Step 4b: Tool-calling mode - the model queries the user's data through typed tools
+    if (useTools && userId) {
+      enhancedMessages[0].content += agentInstructions(selectedCardId);
+
+      // Usage and evaluation for the finished answer (the cache is skipped for live data)
+      const logAnswer = async (answer: AgentAnswer) => {
+        const latency = Date.now() - startTime;
+        const estimatedCost = calculateCost(prices, selectedModel, answer.tokensInput, answer.tokensOutput);
+        const evaluationContext = [...answer.toolResults, ...allContext];
+        const metrics = calculateMetrics(searchQuery, answer.content, evaluationContext);
+        if (answer.toolCalls.length > 0) {
+          isPersonalized = true;
+          contextSources.push("tools");
+        }
 
-    if (!response.ok) {
-      const status = response.status;
-      if (status === 429) {
-        return new Response(JSON.stringify({ error: "Rate limit exceeded" }), {
-          status: 429,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-      if (status === 402) {
-        return new Response(JSON.stringify({ error: "AI credits exhausted" }), {
-          status: 402,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
+        await logTokenUsage(supabase, userId, selectedModel, answer.tokensInput, answer.tokensOutput, estimatedCost, taskType, false, routingReason);
+        await logEvaluation(supabase, userId, lastMessage, answer.content, evaluationContext, metrics, selectedModel, latency, rewrittenQuery);
+        console.log(`[AGENT] Answered with ${answer.toolCalls.length} tool calls, ${answer.tokensOutput} tokens, ${latency}ms`);
+      };
+
+      const saveAnswerTurn = async (answer: AgentAnswer, followUpQuestions: string[], cited: Citation[]) => {
+        if (conversationId) {
+          await saveTurn(supabase, userId, conversationId, {
+            role: "assistant",
+            content: answer.content,
+            model: selectedModel,
+            personalized: isPersonalized,
+            contextSources,
+            followUpQuestions,
+            toolCalls: answer.toolCalls,
+            citations: cited,
+          });
+        }
+      };
+
+      if (!stream) {
+        const outcome = await runAgent({ supabase, userId, models: candidateModels, messages: enhancedMessages, onEvent: () => {} });
+        if (!outcome.success) {
+          return new Response(JSON.stringify({ error: outcome.error.message }), {
+            status: outcome.error.status,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+        answeredBy(outcome.model, outcome.failedModels);
+        await logAnswer(outcome);
+        const followUpQuestions = await suggestFollowUps(outcome.content, allContext);
+        const cited = citedSources(citations, outcome.content);
+        await saveAnswerTurn(outcome, followUpQuestions, cited);
+        return new Response(
+          JSON.stringify({
+            content: outcome.content,
+            model: selectedModel,
+            cached: false,
+            conversationId,
+            followUpQuestions,
+            personalized: isPersonalized,
+            contextSources,
+            toolCalls: outcome.toolCalls,
+            citations: cited,
+            metadata: answerMetadata(selectedModel, outcome.tokensInput, outcome.tokensOutput),
+          }),
+          { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
       }
-      throw new Error(`AI API error: ${status}`);
-    }
 
-    if (stream) {
-      // Streaming response handling
-      const decoder = new TextDecoder();
-      let fullResponse = "";
-      let tokensInput = 0;
-      let tokensOutput = 0;
-
-      const transformStream = new TransformStream({
-        async transform(chunk, controller) {
-          controller.enqueue(chunk);
-          const text = decoder.decode(chunk, { stream: true });
-
-          // Parse chunks to collect response
-          const lines = text.split("\n");
-          for (const line of lines) {
-            if (line.startsWith("data: ") && !line.includes("[DONE]")) {
-              try {
-                const data = JSON.parse(line.slice(6));
-                const content = data.choices?.[0]?.delta?.content;
-                if (content) fullResponse += content;
-
-                if (data.usage) {
-                  tokensInput = data.usage.prompt_tokens || 0;
-                  tokensOutput = data.usage.completion_tokens || 0;
-                }
-              } catch {
-                // Ignore parse errors
-              }
+      // Stream: tool_call/tool_result events as they happen, then the answer and the post-answer events
+      const encoder = new TextEncoder();
+      let agentClientConnected = true;
+      const agentStream = new ReadableStream({
+        async start(controller) {
+          // A client that has gone away must not stop the answer from being logged and saved
+          const send = (payload: ChatStreamEvent | object) => {
+            if (!agentClientConnected) return;
+            try {
+              controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
+            } catch {
+              agentClientConnected = false;
             }
+          };
+          const close = () => {
+            if (agentClientConnected) controller.close();
+          };
+          try {
+            const outcome = await runAgent({ supabase, userId, models: candidateModels, messages: enhancedMessages, onEvent: send });
+            if (!outcome.success) {
+              send({ type: "error", status: outcome.error.status, error: outcome.error.message });
+              close();
+              return;
+            }
+            answeredBy(outcome.model, outcome.failedModels);
+            await logAnswer(outcome);
+            send({ choices: [{ delta: { content: outcome.content } }] });
+            const cited = citedSources(citations, outcome.content);
+            send({ type: "citations", citations: cited });
+            send({ type: "metadata", metadata: answerMetadata(selectedModel, outcome.tokensInput, outcome.tokensOutput) });
+            const followUpQuestions = agentClientConnected ? await suggestFollowUps(outcome.content, allContext) : [];
+            if (followUps) send({ type: "follow_ups", questions: followUpQuestions });
+            await saveAnswerTurn(outcome, followUpQuestions, cited);
+            close();
+          } catch (e) {
+            console.error("[AGENT] Error:", e);
+            send({ type: "error", status: 500, error: "Failed to answer" });
+            close();
           }
         },
-        async flush() {
-          // Post-stream processing
-          const latency = Date.now() - startTime;
-          const estimatedCost = calculateCost(selectedModel, tokensInput, tokensOutput, MODEL_COSTS);
-          const metrics = calculateMetrics(lastMessage, fullResponse, allContext);
-
-          // Store in semantic cache with embedding
-          await storeInCache(
-            supabase,
-            lastMessage,
-            fullResponse,
-            selectedModel,
-            tokensInput,
-            tokensOutput,
-            LOVABLE_API_KEY,
-            cacheScope
-          );
-
-          // Log token usage
-          await logTokenUsage(
-            supabase,
-            userId,
-            selectedModel,
-            tokensInput,
-            tokensOutput,
-            estimatedCost,
-            taskType,
-            false
-          );
-
-          // Log evaluation
-          await logEvaluation(
-            supabase,
-            userId,
-            lastMessage,
-            fullResponse,
-            allContext,
-            metrics,
-            selectedModel,
-            latency
-          );
-
-          console.log(`Response completed: ${tokensOutput} tokens, ${latency}ms, cost: $${estimatedCost.toFixed(6)}`);
+        cancel() {
+          agentClientConnected = false;
         },
       });
 
-      // Generate follow-up questions
-      const followUpQuestions = await generateFollowUpQuestions(
-        lastMessage,
-        "",
-        allContext,
-        LOVABLE_API_KEY
-      );
+      return new Response(agentStream, {
+        headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
+      });
+    }
 
-      const transformedStream = response.body!.pipeThrough(transformStream);
+    // Step 5: Call AI API (retries, timeouts and error mapping live in the shared client)
+    if (stream) {
+      const { model, result: streamed, failed } = await withModelFallback(candidateModels, (candidate) =>
+        streamChat({ model: candidate, messages: enhancedMessages })
+      );
+      if (!streamed.success) {
+        return new Response(JSON.stringify({ error: streamed.error.message }), {
+          status: streamed.error.status,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+      answeredBy(model, failed);
 
-      // Append follow-up questions as final SSE event
-      const questionEvent = `\n\ndata: ${JSON.stringify({ followUpQuestions })}\n\n`;
-      const questionBytes = new TextEncoder().encode(questionEvent);
+      // Content chunks pass straight through; everything that depends on the complete
+      // answer is sent after it as typed events
+      const encoder = new TextEncoder();
 
+      let clientConnected = true;
       const combinedStream = new ReadableStream({
         async start(controller) {
-          const reader = transformedStream.getReader();
+          // Writes to a client that has gone away are dropped: the upstream answer is still read
+          // to the end, and its usage, evaluation and turn are recorded all the same
+          const enqueue = (bytes: Uint8Array) => {
+            if (!clientConnected) return;
+            try {
+              controller.enqueue(bytes);
+            } catch {
+              clientConnected = false;
+            }
+          };
+          const send = (event: ChatStreamEvent) => enqueue(encoder.encode(`\n\ndata: ${JSON.stringify(event)}\n\n`));
+          const reader = streamed.body.getReader();
           try {
             while (true) {
               const { done, value } = await reader.read();
               if (done) break;
-              controller.enqueue(value);
+              enqueue(value);
             }
-            controller.enqueue(questionBytes);
-            controller.close();
+            const { content: fullResponse, usage: { tokensInput, tokensOutput } } = await streamed.done;
+
+            // The answer is complete: record what it cost and how it scored before anything else
+            // is sent, so a disconnect during the post-answer events loses nothing
+            const cited = citedSources(citations, fullResponse);
+            const metadata = answerMetadata(selectedModel, tokensInput, tokensOutput);
+            const metrics = calculateMetrics(searchQuery, fullResponse, allContext);
+
+            // Log token usage
+            await logTokenUsage(
+              supabase,
+              userId,
+              selectedModel,
+              tokensInput,
+              tokensOutput,
+              metadata.cost,
+              taskType,
+              false,
+              routingReason
+            );
+
+            // Log evaluation
+            await logEvaluation(
+              supabase,
+              userId,
+              lastMessage,
+              fullResponse,
+              allContext,
+              metrics,
+              selectedModel,
+              metadata.latencyMs,
+              rewrittenQuery
+            );
+
+            // Store in semantic cache with embedding
+            await storeInCache(
+              supabase,
+              searchQuery,
+              fullResponse,
+              selectedModel,
+              tokensInput,
+              tokensOutput,
+              LOVABLE_API_KEY,
+              storeScope,
+              taskType,
+              cited
+            );
+
+            // Then resolve its citation markers and report what it cost
+            send({ type: "citations", citations: cited });
+            send({ type: "metadata", metadata });
+
+            // Follow-ups are grounded in the answer just streamed, so they come last (and are
+            // skipped when nobody is listening)
+            const followUpQuestions = fullResponse && clientConnected ? await suggestFollowUps(fullResponse, allContext) : [];
+            if (followUps) send({ type: "follow_ups", questions: followUpQuestions });
+
+            if (userId && conversationId && fullResponse) {
+              await saveTurn(supabase, userId, conversationId, {
+                role: "assistant",
+                content: fullResponse,
+                model: selectedModel,
+                personalized: isPersonalized,
+                contextSources,
+                followUpQuestions,
+                citations: cited,
+              });
+            }
+
+            console.log(`Response completed: ${tokensOutput} tokens, ${metadata.latencyMs}ms, cost: $${metadata.cost.toFixed(6)}${clientConnected ? "" : " (client disconnected)"}`);
+            if (clientConnected) controller.close();
           } catch (e) {
-            controller.error(e);
+            if (clientConnected) controller.error(e);
           }
         },
+        cancel() {
+          clientConnected = false;
+        },
       });
 
       return new Response(combinedStream, {
@@ -295,25 +532,34 @@ serve(async (req) => {
       });
     } else {
       // Non-streaming response
-      const data = await response.json();
-      const content = data.choices?.[0]?.message?.content || "";
-      const tokensInput = data.usage?.prompt_tokens || 0;
-      const tokensOutput = data.usage?.completion_tokens || 0;
+      const { model, result: completion, failed } = await withModelFallback(candidateModels, (candidate) =>
+        completeChat({ model: candidate, messages: enhancedMessages })
+      );
+      if (!completion.success) {
+        return new Response(JSON.stringify({ error: completion.error.message }), {
+          status: completion.error.status,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+      answeredBy(model, failed);
+      const { content, usage: { tokensInput, tokensOutput } } = completion;
       const latency = Date.now() - startTime;
 
-      const estimatedCost = calculateCost(selectedModel, tokensInput, tokensOutput, MODEL_COSTS);
-      const metrics = calculateMetrics(lastMessage, content, allContext);
+      const estimatedCost = calculateCost(prices, selectedModel, tokensInput, tokensOutput);
+      const metrics = calculateMetrics(searchQuery, content, allContext);
 
       // Store in semantic cache with embedding
       await storeInCache(
         supabase,
-        lastMessage,
+        searchQuery,
         content,
         selectedModel,
         tokensInput,
         tokensOutput,
         LOVABLE_API_KEY,
-        cacheScope
+        storeScope,
+        taskType,
+        citedSources(citations, content)
       );
 
       // Log usage and evaluation
@@ -325,7 +571,8 @@ serve(async (req) => {
         tokensOutput,
         estimatedCost,
         taskType,
-        false
+        false,
+        routingReason
       );
 
       await logEvaluation(
@@ -336,25 +583,37 @@ serve(async (req) => {
         allContext,
         metrics,
         selectedModel,
-        latency
+        latency,
+        rewrittenQuery
       );
 
       // Generate follow-up questions
-      const followUpQuestions = await generateFollowUpQuestions(
-        lastMessage,
-        content,
-        allContext,
-        LOVABLE_API_KEY
-      );
+      const followUpQuestions = await suggestFollowUps(content, allContext);
+
+      const cited = citedSources(citations, content);
+      if (userId && conversationId) {
+        await saveTurn(supabase, userId, conversationId, {
+          role: "assistant",
+          content,
+          model: selectedModel,
+          personalized: isPersonalized,
+          contextSources,
+          followUpQuestions,
+          citations: cited,
+        });
+      }
 
       return new Response(
         JSON.stringify({
           content,
           model: selectedModel,
           cached: false,
+          conversationId,
           followUpQuestions,
           personalized: isPersonalized,
           contextSources,
+          citations: cited,
+          metadata: answerMetadata(selectedModel, tokensInput, tokensOutput),
         }),
         {
           status: 200,
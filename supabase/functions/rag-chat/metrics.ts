@@ -1,17 +1,23 @@
 /**
  * RAGAS-style evaluation metrics
+ *
+ * Answers are scored here inline by word overlap, a cheap fallback; the evaluate-answers worker
+ * rescores a sample with a judge model and records its own evaluator on the row.
  */
 
 import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
 
+// Stored in ai_evaluations.evaluator for the inline scores
+export const WORD_OVERLAP_EVALUATOR = "word-overlap-v1";
+
 interface EvaluationMetrics {
   faithfulness: number;
   relevance: number;
 }
 
 /**
- * Calculate RAGAS-style metrics for response quality
- * In production, this would use a separate LLM call for evaluation
+ * Approximate faithfulness and relevance by the words the response shares with the context
+ * and the query
  */
 export function calculateMetrics(
   query: string,
@@ -39,7 +45,7 @@ export function calculateMetrics(
 }
 
 /**
- * Log token usage and costs
+ * Log token usage and costs, with the reason the model was chosen
  */
 export async function logTokenUsage(
   supabase: SupabaseClient,
@@ -49,7 +55,8 @@ export async function logTokenUsage(
   tokensOutput: number,
   estimatedCost: number,
   queryType: string,
-  cacheHit: boolean
+  cacheHit: boolean,
+  routingReason?: string
 ): Promise<void> {
   await supabase.from("token_usage").insert({
     user_id: userId,
@@ -59,6 +66,7 @@ export async function logTokenUsage(
     estimated_cost: estimatedCost,
     query_type: queryType,
     cache_hit: cacheHit,
+    routing_reason: routingReason ?? null,
   });
 }
 
@@ -73,16 +81,19 @@ export async function logEvaluation(
   context: string[],
   metrics: EvaluationMetrics,
   model: string,
-  latencyMs: number
+  latencyMs: number,
+  rewrittenQuery?: string // standalone question used for retrieval, when it differs from query
 ): Promise<void> {
   await supabase.from("ai_evaluations").insert({
     user_id: userId,
     query,
+    rewritten_query: rewrittenQuery ?? null,
     response,
     context_used: context.slice(0, 5),
     faithfulness_score: metrics.faithfulness,
     relevance_score: metrics.relevance,
     model_used: model,
     latency_ms: latencyMs,
+    evaluator: WORD_OVERLAP_EVALUATOR,
   });
 }
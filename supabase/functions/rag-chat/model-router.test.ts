@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { loadRoutingPolicy, routeModel, type RoutingInput } from "./model-router.ts";
+import { DEFAULT_MODEL_PRICES, calculateCost, type ModelPrice } from "../_shared/model-prices.ts";
+
+function route(overrides: Partial<RoutingInput>) {
+  return routeModel({
+    taskType: "analysis",
+    query: "How many points did I earn last month?",
+    promptTokens: 1500,
+    contextTokens: 800,
+    prices: DEFAULT_MODEL_PRICES,
+    ...overrides,
+  });
+}
+
+describe("model routing", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("keeps the premium model for complex queries and falls back down the ranked list", () => {
+    expect(route({})).toMatchObject({
+      model: "google/gemini-3-flash-preview",
+      fallbacks: ["google/gemini-2.5-flash"],
+      complexity: "simple",
+      reason: "analysis policy, simple query",
+    });
+
+    expect(route({ query: "Should I move my dining spends from Regalia to Infinia?" })).toMatchObject({
+      model: "google/gemini-2.5-pro",
+      fallbacks: ["google/gemini-3-flash-preview", "google/gemini-2.5-flash"],
+      complexity: "complex",
+    });
+    expect(route({ contextTokens: 4000 }).model).toBe("google/gemini-2.5-pro");
+  });
+
+  it("steps down when the cost cap or the monthly budget rules a model out", () => {
+    const complex = { query: "Compare Regalia and Infinia for travel", remainingBudget: 0.005 };
+    expect(route(complex)).toMatchObject({
+      model: "google/gemini-3-flash-preview",
+      reason: "analysis policy, complex query, google/gemini-2.5-pro over remaining monthly budget",
+    });
+
+    expect(route({ ...complex, remainingBudget: 0 })).toMatchObject({
+      model: "google/gemini-2.5-flash",
+      reason: "analysis policy, complex query, monthly budget exhausted, cheapest model",
+    });
+
+    vi.stubEnv("MODEL_ROUTING_POLICY", JSON.stringify({
+      chat: { models: [{ model: "openai/gpt-5-mini", maxContextTokens: 400000 }], maxCostPerRequest: 0.002, expectedOutputTokens: 500 },
+      parsing: { models: [] },
+    }));
+    const policy = loadRoutingPolicy();
+    expect(route({ taskType: "chat", policy }).model).toBe("openai/gpt-5-mini");
+    expect(route({ taskType: "parsing", policy }).model).toBe("google/gemini-3-flash-preview");
+  });
+
+  it("prices usage with the price in force at the time", () => {
+    const prices: ModelPrice[] = [
+      ...DEFAULT_MODEL_PRICES,
+      { model: "google/gemini-2.5-flash", effectiveFrom: "2026-09-01T00:00:00Z", inputPerMillion: 0.15, outputPerMillion: 0.6 },
+    ];
+
+    expect(calculateCost(prices, "google/gemini-2.5-flash", 1_000_000, 0, new Date("2026-08-31T23:59:59Z"))).toBeCloseTo(0.075);
+    expect(calculateCost(prices, "google/gemini-2.5-flash", 1_000_000, 0, new Date("2026-09-01T00:00:00Z"))).toBeCloseTo(0.15);
+    expect(calculateCost(prices, "unknown/model", 0, 1_000_000)).toBeCloseTo(0.4);
+  });
+});
@@ -1,68 +1,215 @@
 /**
- * Model routing based on task complexity and context size
+ * Model routing: a declarative policy per task type
+ *
+ * Each task type has a ranked list of models (preferred first) with their context limits, a cap
+ * on the estimated cost of one request and the answer length that estimate assumes. The router
+ * keeps the models that fit the prompt, the query's complexity and the cap - tightened to what
+ * is left of the user's monthly budget, when they have one - in policy order: the first answers,
+ * the rest are fallbacks for when it is rate limited or unavailable. When nothing fits the cap
+ * the cheapest model is used rather than refusing to answer.
+ *
+ * MODEL_ROUTING_POLICY (JSON, Deno env) replaces the policy of the task types it names, e.g.
+ * {"chat": {"models": [{"model": "google/gemini-2.5-flash", "maxContextTokens": 1000000}],
+ *           "maxCostPerRequest": 0.005, "expectedOutputTokens": 800}}
  */
 
-import type { ModelCosts, MODEL_COSTS } from "./types.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
 
-type TaskType = "chat" | "analysis" | "recommendation" | "parsing" | "extraction";
+import { calculateCost, type ModelPrice } from "../_shared/model-prices.ts";
 
-interface ModelSelection {
+export type TaskType = "chat" | "analysis" | "recommendation" | "parsing" | "extraction";
+export type Complexity = "simple" | "complex";
+
+export interface ModelRoute {
+  model: string;
+  maxContextTokens: number;
+  complexOnly?: boolean; // kept for complex queries (large context or multi-part reasoning)
+}
+
+export interface TaskRoutingPolicy {
+  models: ModelRoute[]; // preferred first
+  maxCostPerRequest: number; // USD, estimated from the prompt and expectedOutputTokens
+  expectedOutputTokens: number;
+}
+
+export type RoutingPolicy = Record<TaskType, TaskRoutingPolicy>;
+
+export interface RoutingInput {
+  taskType: TaskType;
+  query: string;
+  promptTokens: number; // the whole prompt: system prompt, context, history and message
+  contextTokens: number; // the retrieved context alone
+  prices: ModelPrice[];
+  remainingBudget?: number | null; // USD left this month; null without a budget
+  policy?: RoutingPolicy;
+}
+
+export interface RoutingDecision {
   model: string;
-  reason: string;
+  fallbacks: string[];
+  complexity: Complexity;
+  estimatedCost: number; // USD, for the chosen model
+  reason: string; // logged with the usage row
 }
 
+const GEMINI_CONTEXT_TOKENS = 1_000_000;
+
+export const DEFAULT_ROUTING_POLICY: RoutingPolicy = {
+  chat: {
+    models: [
+      { model: "google/gemini-3-flash-preview", maxContextTokens: GEMINI_CONTEXT_TOKENS },
+      { model: "google/gemini-2.5-flash", maxContextTokens: GEMINI_CONTEXT_TOKENS },
+    ],
+    maxCostPerRequest: 0.01,
+    expectedOutputTokens: 1000,
+  },
+  analysis: {
+    models: [
+      { model: "google/gemini-2.5-pro", maxContextTokens: GEMINI_CONTEXT_TOKENS, complexOnly: true },
+      { model: "google/gemini-3-flash-preview", maxContextTokens: GEMINI_CONTEXT_TOKENS },
+      { model: "google/gemini-2.5-flash", maxContextTokens: GEMINI_CONTEXT_TOKENS },
+    ],
+    maxCostPerRequest: 0.05,
+    expectedOutputTokens: 2000,
+  },
+  recommendation: {
+    models: [
+      { model: "google/gemini-2.5-pro", maxContextTokens: GEMINI_CONTEXT_TOKENS, complexOnly: true },
+      { model: "google/gemini-3-flash-preview", maxContextTokens: GEMINI_CONTEXT_TOKENS },
+      { model: "google/gemini-2.5-flash", maxContextTokens: GEMINI_CONTEXT_TOKENS },
+    ],
+    maxCostPerRequest: 0.05,
+    expectedOutputTokens: 2000,
+  },
+  parsing: {
+    models: [
+      { model: "google/gemini-3-flash-preview", maxContextTokens: GEMINI_CONTEXT_TOKENS },
+      { model: "google/gemini-2.5-flash", maxContextTokens: GEMINI_CONTEXT_TOKENS },
+    ],
+    maxCostPerRequest: 0.02,
+    expectedOutputTokens: 4000,
+  },
+  extraction: {
+    models: [
+      { model: "google/gemini-3-flash-preview", maxContextTokens: GEMINI_CONTEXT_TOKENS },
+      { model: "google/gemini-2.5-flash", maxContextTokens: GEMINI_CONTEXT_TOKENS },
+    ],
+    maxCostPerRequest: 0.02,
+    expectedOutputTokens: 4000,
+  },
+};
+
+// ~10,000 characters of retrieved context
+const COMPLEX_CONTEXT_TOKENS = 2500;
+const COMPLEX_QUERY_WORDS = 40;
+const COMPLEX_QUERY_PATTERN =
+  /\b(compare|comparison|versus|vs\.?|optimi[sz]e|strategy|plan|break[- ]?even|trade-?offs?|pros and cons|should i)\b/i;
+
 /**
- * Select appropriate model based on task type and context length
+ * Complex: a large context to reason over, or a comparison / planning / multi-part question
  */
-export function selectModel(taskType: TaskType, contextLength: number): ModelSelection {
-  // Complex reasoning tasks with large context
-  if ((taskType === "analysis" || taskType === "recommendation") && contextLength > 10000) {
-    return {
-      model: "google/gemini-2.5-pro",
-      reason: "Large context + complex reasoning",
-    };
-  }
+export function estimateComplexity(query: string, contextTokens: number): Complexity {
+  const questions = query.match(/\?/g)?.length ?? 0;
+  const words = query.trim().split(/\s+/).length;
+  return contextTokens > COMPLEX_CONTEXT_TOKENS || COMPLEX_QUERY_PATTERN.test(query) || questions > 1 || words > COMPLEX_QUERY_WORDS
+    ? "complex"
+    : "simple";
+}
 
-  // Complex reasoning tasks with normal context
-  if (taskType === "analysis" || taskType === "recommendation") {
-    return {
-      model: "google/gemini-3-flash-preview",
-      reason: "Complex reasoning task",
-    };
-  }
+/**
+ * Choose the model for a request and the fallbacks behind it
+ */
+export function routeModel(input: RoutingInput): RoutingDecision {
+  const policy = (input.policy ?? DEFAULT_ROUTING_POLICY)[input.taskType] ?? DEFAULT_ROUTING_POLICY.chat;
+  const complexity = estimateComplexity(input.query, input.contextTokens);
+  const estimate = (route: ModelRoute) =>
+    calculateCost(input.prices, route.model, input.promptTokens, policy.expectedOutputTokens);
 
-  // Chat - use fast model for responsiveness
-  if (taskType === "chat") {
-    return {
-      model: "google/gemini-3-flash-preview",
-      reason: "Fast chat interaction",
-    };
-  }
+  const budget = input.remainingBudget ?? Infinity;
+  const cap = Math.min(policy.maxCostPerRequest, Math.max(budget, 0));
+  const capName = budget < policy.maxCostPerRequest ? "remaining monthly budget" : "cost cap";
 
-  // Parsing and extraction (needs precision)
-  if (taskType === "parsing" || taskType === "extraction") {
-    return {
-      model: "google/gemini-3-flash-preview",
-      reason: "Precision extraction task",
-    };
+  const fitting = policy.models.filter((r) => r.maxContextTokens >= input.promptTokens);
+  const eligible = fitting.filter((r) => !r.complexOnly || complexity === "complex");
+  const affordable = eligible.filter((r) => estimate(r) <= cap);
+
+  const reasons = [`${input.taskType} policy`, `${complexity} query`];
+  let routes: ModelRoute[];
+  if (affordable.length > 0) {
+    routes = affordable;
+    if (affordable[0] !== eligible[0]) reasons.push(`${eligible[0].model} over ${capName}`);
+  } else {
+    // Nothing fits the cap (or the prompt is over every limit): the cheapest candidate answers
+    const pool = eligible.length > 0 ? eligible : fitting.length > 0 ? fitting : policy.models;
+    routes = [...pool].sort((a, b) => estimate(a) - estimate(b));
+    reasons.push(
+      fitting.length === 0
+        ? "prompt over every context limit"
+        : budget <= 0
+        ? "monthly budget exhausted, cheapest model"
+        : `every model over ${capName}, cheapest model`
+    );
   }
 
-  // Default
   return {
-    model: "google/gemini-3-flash-preview",
-    reason: "Default model",
+    model: routes[0].model,
+    fallbacks: routes.slice(1).map((r) => r.model),
+    complexity,
+    estimatedCost: estimate(routes[0]),
+    reason: reasons.join(", "),
   };
 }
 
+function isTaskPolicy(value: unknown): value is TaskRoutingPolicy {
+  const policy = value as TaskRoutingPolicy;
+  return (
+    !!policy &&
+    Array.isArray(policy.models) &&
+    policy.models.length > 0 &&
+    policy.models.every((r) => typeof r?.model === "string" && Number(r.maxContextTokens) > 0) &&
+    Number(policy.maxCostPerRequest) > 0 &&
+    Number(policy.expectedOutputTokens) > 0
+  );
+}
+
 /**
- * Calculate estimated cost for a request
+ * The default policy with any task types overridden by MODEL_ROUTING_POLICY. Invalid
+ * overrides are logged and ignored.
  */
-export function calculateCost(
-  model: string,
-  tokensInput: number,
-  tokensOutput: number,
-  modelCosts: Record<string, ModelCosts>
-): number {
-  const costs = modelCosts[model] || modelCosts["google/gemini-3-flash-preview"];
-  return (tokensInput * costs.input + tokensOutput * costs.output) / 1_000_000;
+export function loadRoutingPolicy(): RoutingPolicy {
+  const raw = Deno.env.get("MODEL_ROUTING_POLICY");
+  if (!raw) return DEFAULT_ROUTING_POLICY;
+
+  let overrides: Record<string, unknown>;
+  try {
+    overrides = JSON.parse(raw);
+  } catch {
+    console.error("MODEL_ROUTING_POLICY is not valid JSON - using the default policy");
+    return DEFAULT_ROUTING_POLICY;
+  }
+
+  const policy = { ...DEFAULT_ROUTING_POLICY };
+  for (const [taskType, override] of Object.entries(overrides ?? {})) {
+    if (taskType in policy && isTaskPolicy(override)) {
+      policy[taskType as TaskType] = override;
+    } else {
+      console.error(`Ignoring MODEL_ROUTING_POLICY entry "${taskType}"`);
+    }
+  }
+  return policy;
+}
+
+/**
+ * USD left of the user's monthly budget, or null when they have none (or it can't be read)
+ */
+export async function loadRemainingBudget(supabase: SupabaseClient, userId: string): Promise<number | null> {
+  const { data, error } = await supabase.rpc("user_budget_status", { p_user_id: userId });
+  if (error) {
+    console.error("Budget lookup failed:", error.message);
+    return null;
+  }
+
+  const status = data?.[0];
+  if (!status || status.monthly_limit_usd === null) return null;
+  return Number(status.monthly_limit_usd) - Number(status.spent_usd);
 }
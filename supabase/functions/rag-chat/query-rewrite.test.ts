@@ -0,0 +1,52 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { needsRewrite, rewriteQuery } from "./query-rewrite.ts";
+import type { ChatMessage } from "./types.ts";
+
+const history: ChatMessage[] = [
+  { role: "user", content: "What is the reward rate on my HDFC Regalia for travel?" },
+  { role: "assistant", content: "Regalia earns 4 reward points per ₹150 on travel bookings." },
+];
+
+function mockCompletion(content: string) {
+  const fetchMock = vi.fn().mockResolvedValue(
+    new Response(JSON.stringify({ choices: [{ message: { content } }] }), { status: 200 })
+  );
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+describe("query rewriting", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("only rewrites follow-ups that lean on earlier turns", () => {
+    expect(needsRewrite("and what about for dining?", history)).toBe(true);
+    expect(needsRewrite("how about my other card?", history)).toBe(true);
+    expect(needsRewrite("dining?", history)).toBe(true);
+    expect(needsRewrite("Which lounges can I access with the Amex Platinum Travel card?", history)).toBe(false);
+    expect(needsRewrite("and what about for dining?", [])).toBe(false);
+  });
+
+  it("uses the model's standalone question and falls back to the message", async () => {
+    const fetchMock = mockCompletion('"What is the reward rate on my HDFC Regalia for dining?"');
+    await expect(rewriteQuery("and what about for dining?", history, "HDFC Regalia")).resolves.toEqual({
+      query: "What is the reward rate on my HDFC Regalia for dining?",
+      rewritten: true,
+    });
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).messages[0].content).toContain("Selected card: HDFC Regalia");
+
+    mockCompletion("");
+    await expect(rewriteQuery("what about dining?", history)).resolves.toEqual({
+      query: "what about dining?",
+      rewritten: false,
+    });
+
+    const skipped = mockCompletion("unused");
+    await expect(rewriteQuery("Best card for fuel spends in India?", history)).resolves.toEqual({
+      query: "Best card for fuel spends in India?",
+      rewritten: false,
+    });
+    expect(skipped).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Conversation-aware query rewriting
+ *
+ * Follow-ups like "and what about for dining?" only make sense next to the previous turns.
+ * Before cache lookup and retrieval they are rewritten into a standalone question using the
+ * recent history and the selected card; self-contained questions are used as they are.
+ */
+
+import type { ChatMessage } from "./types.ts";
+import { completeChat } from "../_shared/llm.ts";
+
+const REWRITE_MODEL = "google/gemini-2.5-flash";
+const HISTORY_TURNS = 6;
+const TURN_PREVIEW_LENGTH = 300;
+const MAX_QUERY_LENGTH = 300;
+
+// References that need the earlier turns to resolve
+const FOLLOW_UP_PATTERN =
+  /\b(it|its|that|this|those|these|they|them|there|other|another|same|also|too|instead|else|more|again|previous|above)\b|^(and|but|so|or|what about|how about)\b/i;
+
+export interface QueryRewrite {
+  query: string; // used for cache lookup and retrieval
+  rewritten: boolean;
+}
+
+/**
+ * Whether a message depends on the conversation so far
+ */
+export function needsRewrite(question: string, history: ChatMessage[]): boolean {
+  if (!history.some((m) => m.role === "user")) return false;
+  const words = question.trim().split(/\s+/);
+  return words.length <= 4 || FOLLOW_UP_PATTERN.test(question.trim());
+}
+
+/**
+ * Rewrite a follow-up into a standalone question. Falls back to the original message
+ * when no rewrite is needed or the model call fails.
+ */
+export async function rewriteQuery(
+  question: string,
+  history: ChatMessage[],
+  selectedCardName?: string
+): Promise<QueryRewrite> {
+  if (!needsRewrite(question, history)) return { query: question, rewritten: false };
+
+  const transcript = history
+    .filter((m) => m.role !== "system")
+    .slice(-HISTORY_TURNS)
+    .map((m) => `${m.role === "user" ? "User" : "Assistant"}: ${m.content.substring(0, TURN_PREVIEW_LENGTH)}`)
+    .join("\n");
+
+  const prompt = `Rewrite the user's latest message about credit card rewards as a standalone question that can be understood without the conversation.
+
+Conversation so far:
+${transcript}
+${selectedCardName ? `\nSelected card: ${selectedCardName}\n` : ""}
+Latest message: "${question}"
+
+Rules:
+- Resolve references ("it", "that card", "the other one", "what about dining?") using the conversation${selectedCardName ? " and the selected card" : ""}
+- Keep the user's intent, card names, categories, amounts and dates; add nothing else
+- If the message is already standalone, return it unchanged
+- Return ONLY the question, no quotes or explanation`;
+
+  // No retries: this sits in front of every follow-up, and the original message is a fine fallback
+  const result = await completeChat(
+    { model: REWRITE_MODEL, messages: [{ role: "user", content: prompt }], max_tokens: 100, temperature: 0 },
+    { maxRetries: 0, label: "[REWRITE]" }
+  );
+  if (!result.success) {
+    console.warn(`Query rewrite failed: ${result.error.code}`);
+    return { query: question, rewritten: false };
+  }
+
+  const query = result.content
+    .trim()
+    .replace(/^["'“]+|["'”]+$/g, "")
+    .trim();
+
+  if (!query || query.length > MAX_QUERY_LENGTH || query.toLowerCase() === question.toLowerCase()) {
+    return { query: question, rewritten: false };
+  }
+  return { query, rewritten: true };
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { estimateTokens, fuseRankings, packContext, rerank } from "./ranking.ts";
+import type { ContextItem } from "./types.ts";
+
+function chunk(id: string, text = "Swiggy ₹1,240 on 12 Mar"): ContextItem {
+  return { id, type: "statement", label: `chunk ${id}`, text };
+}
+
+describe("hybrid ranking", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("ranks items found by both searches above items found by one", () => {
+    const vector = [chunk("a"), chunk("b"), chunk("c")];
+    const text = [chunk("c"), chunk("d")];
+
+    const fused = fuseRankings([vector, text]);
+    expect(fused.map((r) => r.item.id)).toEqual(["c", "a", "b", "d"]);
+    expect(fused[0].score).toBeCloseTo(1 / 63 + 1 / 61);
+  });
+
+  it("packs the best items that fit the budget, skipping ones that don't", () => {
+    const long = chunk("long", "x".repeat(400));
+    const ranked = fuseRankings([[chunk("a"), long, chunk("b")]]);
+    const budget = 2 * (estimateTokens("chunk a") + estimateTokens(chunk("a").text));
+
+    expect(packContext(ranked, budget).map((item) => item.id)).toEqual(["a", "b"]);
+    expect(packContext(ranked, 0)).toEqual([]);
+  });
+
+  it("reorders by the reranker and keeps the fused order when it fails", async () => {
+    const ranked = fuseRankings([[chunk("a"), chunk("b"), chunk("c")]]);
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue(
+        new Response(JSON.stringify({ choices: [{ message: { content: "[2, 0]" } }] }), { status: 200 })
+      )
+    );
+    expect((await rerank("swiggy spend", ranked)).map((r) => r.item.id)).toEqual(["c", "a"]);
+
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("", { status: 500 })));
+    expect(await rerank("swiggy spend", ranked)).toBe(ranked);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Hybrid ranking for retrieval
+ *
+ * Vector and full-text candidates are fused with reciprocal rank fusion (scores from the two
+ * searches aren't comparable, their ranks are), optionally reordered by an LLM reranker, and
+ * packed into a token budget instead of taking a fixed number of hits per source.
+ */
+
+import type { ContextItem } from "./types.ts";
+import { completeChat } from "../_shared/llm.ts";
+
+// Standard RRF constant: damps the advantage of the very top ranks
+const RRF_K = 60;
+const RERANK_MODEL = "google/gemini-2.5-flash-lite";
+const RERANK_PREVIEW_LENGTH = 400;
+
+export interface RankedItem {
+  item: ContextItem;
+  score: number;
+}
+
+/**
+ * Rough token count for budgeting (~4 characters per token for English text)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Reciprocal rank fusion: each list contributes 1 / (k + rank) for the items it ranks.
+ * Items found by several searches rise above items found by one.
+ */
+export function fuseRankings(lists: ContextItem[][], k: number = RRF_K): RankedItem[] {
+  const fused = new Map<string, RankedItem>();
+  for (const list of lists) {
+    list.forEach((item, index) => {
+      const entry = fused.get(item.id) ?? { item, score: 0 };
+      entry.score += 1 / (k + index + 1);
+      fused.set(item.id, entry);
+    });
+  }
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Take the best-ranked items that fit the token budget. An item that doesn't fit is
+ * skipped so a smaller, lower-ranked one can still use the remaining space.
+ */
+export function packContext(ranked: RankedItem[], tokenBudget: number): ContextItem[] {
+  const packed: ContextItem[] = [];
+  let used = 0;
+  for (const { item } of ranked) {
+    const tokens = estimateTokens(item.label) + estimateTokens(item.text);
+    if (used + tokens > tokenBudget) continue;
+    packed.push(item);
+    used += tokens;
+  }
+  return packed;
+}
+
+/**
+ * Reorder candidates by an LLM's relevance judgement, dropping the ones it leaves out.
+ * An empty or unusable ranking, or any failure, returns the input unchanged.
+ */
+export async function rerank(query: string, ranked: RankedItem[]): Promise<RankedItem[]> {
+  if (ranked.length < 2) return ranked;
+
+  const candidates = ranked
+    .map(({ item }, i) => `[${i}] ${item.label}\n${item.text.replace(/\s+/g, " ").substring(0, RERANK_PREVIEW_LENGTH)}`)
+    .join("\n\n");
+
+  const prompt = `Rank these passages by how useful they are for answering the question about credit cards and rewards.
+
+Question: "${query}"
+
+Passages:
+${candidates}
+
+Return ONLY a JSON array of passage numbers, most useful first. Leave out passages that don't help.`;
+
+  // No retries: a slow reranker delays every answer, and the fused order is a fine fallback
+  const result = await completeChat(
+    { model: RERANK_MODEL, messages: [{ role: "user", content: prompt }], max_tokens: 200, temperature: 0 },
+    { maxRetries: 0, label: "[RERANK]" }
+  );
+  if (!result.success) {
+    console.warn(`Rerank failed: ${result.error.code}`);
+    return ranked;
+  }
+
+  const match = result.content.match(/\[[\d,\s]*\]/);
+  if (!match) return ranked;
+
+  try {
+    const order: number[] = JSON.parse(match[0]);
+    const seen = new Set<number>();
+    const reordered: RankedItem[] = [];
+    for (const index of order) {
+      if (Number.isInteger(index) && ranked[index] && !seen.has(index)) {
+        seen.add(index);
+        reordered.push(ranked[index]);
+      }
+    }
+    return reordered.length > 0 ? reordered : ranked;
+  } catch (error) {
+    console.error("Rerank error:", error);
+    return ranked;
+  }
+}
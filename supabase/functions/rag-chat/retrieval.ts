@@ -1,6 +1,7 @@
 /**
- * RAG retrieval module - semantic search across multiple sources
- * Uses vector embeddings for document and benefits search
+ * RAG retrieval module - hybrid search across multiple sources
+ * Statement chunks and benefits are found by vector and full-text search, fused and
+ * packed into a token budget (ranking.ts); cards and spending are always included.
  */
 
 import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
@@ -9,66 +10,116 @@ import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
 const embeddings = await import("../_shared/embeddings.ts");
 const { generateEmbedding, embeddingToVector } = embeddings;
 
-import type { RetrievedContext } from "./types.ts";
+import type { ContextItem, RetrievedContext } from "./types.ts";
+import { numberContext, toCitation } from "./citations.ts";
+import { fuseRankings, packContext, rerank } from "./ranking.ts";
+import type { Citation } from "./types.ts";
 
-const DEFAULT_MATCH_COUNT = 5;
+// Candidates fetched from each search before fusion
+const CANDIDATE_COUNT = 20;
+// Prompt budget for statement chunks and benefits together
+const CONTEXT_TOKEN_BUDGET = 2500;
+// Only the top fused candidates are sent to the reranker
+const RERANK_CANDIDATES = 20;
+// Vector hits below this similarity are dropped in SQL (unrelated text still gets a score)
+const MIN_SIMILARITY = 0.25;
 
 /**
- * Retrieve relevant context using semantic search across all sources
- * @param selectedCardId - If provided, filter transaction/card data to this card only
+ * Filters passed to the search RPCs. A selected card scopes statements to that card and
+ * benefits to its card_catalog entry - or to its bank when the card isn't catalogued.
+ */
+interface SearchFilters {
+  cardId?: string;
+  catalogCardId?: string;
+  bank?: string;
+}
+
+/**
+ * Retrieve relevant context using hybrid search across all sources.
+ * Without embeddings (provider not configured or failing) the full-text search alone ranks the candidates.
+ * @param selectedCardId - If provided, filter statements, transactions, cards and benefits to this card
  */
 export async function retrieveContext(
   supabase: SupabaseClient,
   query: string,
   userId: string,
   apiKey: string,
-  selectedCardId?: string,
-  selectedCardName?: string
+  selectedCardId?: string
 ): Promise<RetrievedContext> {
+  const [vectorString, filters] = await Promise.all([
+    embedQuery(query, apiKey),
+    resolveSearchFilters(supabase, userId, selectedCardId),
+  ]);
+  if (!vectorString) console.log("Embeddings not available, using full-text retrieval only");
+
+  // Run all searches in parallel for efficiency
+  const [docVector, docText, benefitVector, benefitText, transactionSummary, userCards] = await Promise.all([
+    vectorString ? searchDocuments(supabase, vectorString, userId, filters) : Promise.resolve([]),
+    searchDocumentsText(supabase, query, userId, filters),
+    vectorString ? searchBenefits(supabase, vectorString, filters) : Promise.resolve([]),
+    searchBenefitsText(supabase, query, filters),
+    // Get aggregated transaction data (filtered by card if selected)
+    getTransactionSummary(supabase, userId, selectedCardId),
+    // Get user's credit cards (filtered if card selected)
+    getUserCards(supabase, userId, selectedCardId),
+  ]);
+
+  // Chunks and benefits compete for the same budget; fused scores are comparable across them
+  let ranked = [...fuseRankings([docVector, docText]), ...fuseRankings([benefitVector, benefitText])]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, RERANK_CANDIDATES);
+
+  if (Deno.env.get("RAG_RERANK") === "llm") {
+    ranked = await rerank(query, ranked);
+  }
+
+  const packed = packContext(ranked, CONTEXT_TOKEN_BUDGET);
   const result: RetrievedContext = {
-    documentChunks: [],
-    benefitsContext: [],
-    transactionSummary: null,
-    userCards: null,
+    documentChunks: packed.filter((item) => item.type === "statement"),
+    benefitsContext: packed.filter((item) => item.type === "benefit"),
+    transactionSummary,
+    userCards,
   };
 
+  console.log(
+    `Retrieved context: docs ${docVector.length} vector/${docText.length} text, benefits ${benefitVector.length} vector/${benefitText.length} text → packed ${result.documentChunks.length} docs, ${result.benefitsContext.length} benefits, cards: ${userCards ? 'yes' : 'no'}`
+  );
+
+  return result;
+}
+
+async function embedQuery(query: string, apiKey: string): Promise<string | null> {
   try {
-    // Generate embedding for the query
     const { embedding } = await generateEmbedding(query, apiKey);
-    const vectorString = embeddingToVector(embedding);
-
-    // Check if embeddings are available
-    if (vectorString) {
-      // Run semantic search in parallel for efficiency
-      const [docResults, benefitsResults, transactionResults, userCardsData] = await Promise.all([
-        // Semantic search on user's document chunks
-        searchDocuments(supabase, vectorString, userId),
-        // Semantic search on card benefits knowledge base (optionally filtered to the selected card)
-        searchBenefits(supabase, vectorString, selectedCardName),
-        // Get aggregated transaction data (filtered by card if selected)
-        getTransactionSummary(supabase, userId, selectedCardId),
-        // Get user's credit cards (filtered if card selected)
-        getUserCards(supabase, userId, selectedCardId),
-      ]);
-
-      result.documentChunks = docResults;
-      result.benefitsContext = benefitsResults;
-      result.transactionSummary = transactionResults;
-      result.userCards = userCardsData;
-
-      console.log(`Retrieved context: ${docResults.length} docs, ${benefitsResults.length} benefits, cards: ${userCardsData ? 'yes' : 'no'}`);
-    } else {
-      // Embeddings not available, use fallback retrieval
-      console.log("Embeddings not available, using text-based retrieval");
-      return await fallbackRetrieval(supabase, userId, selectedCardId, selectedCardName);
-    }
+    return embeddingToVector(embedding);
   } catch (error) {
-    console.error("Context retrieval error:", error);
-    // Fall back to non-semantic retrieval
-    return await fallbackRetrieval(supabase, userId, selectedCardId, selectedCardName);
+    console.error("Query embedding error:", error);
+    return null;
   }
+}
 
-  return result;
+async function resolveSearchFilters(
+  supabase: SupabaseClient,
+  userId: string,
+  selectedCardId?: string
+): Promise<SearchFilters> {
+  if (!selectedCardId) return {};
+
+  const { data: card, error } = await supabase
+    .from("credit_cards")
+    .select("bank_name, catalog_card_id")
+    .eq("id", selectedCardId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error || !card) {
+    if (error) console.error("Selected card lookup error:", error);
+    return { cardId: selectedCardId };
+  }
+  if (!card.catalog_card_id) console.log(`Card ${selectedCardId} is not in the card catalog - scoping benefits to ${card.bank_name}`);
+  return card.catalog_card_id
+    ? { cardId: selectedCardId, catalogCardId: card.catalog_card_id }
+    : { cardId: selectedCardId, bank: card.bank_name };
 }
 
 /**
@@ -77,12 +128,15 @@ export async function retrieveContext(
 async function searchDocuments(
   supabase: SupabaseClient,
   queryVector: string,
-  userId: string
-): Promise<string[]> {
+  userId: string,
+  filters: SearchFilters
+): Promise<ContextItem[]> {
   const { data, error } = await supabase.rpc("search_documents", {
     query_emb: queryVector,
     user_uuid: userId,
-    match_count: DEFAULT_MATCH_COUNT,
+    match_count: CANDIDATE_COUNT,
+    filter_card_id: filters.cardId,
+    min_similarity: MIN_SIMILARITY,
   });
 
   if (error) {
@@ -90,10 +144,82 @@ async function searchDocuments(
     return [];
   }
 
-  return (data || []).map((d: { chunk_text: string; similarity: number }) => {
-    const similarityPct = (d.similarity * 100).toFixed(0);
-    return `[Relevance: ${similarityPct}%] ${d.chunk_text}`;
+  return (data || []).map((d: { id: string; chunk_text: string; metadata: ChunkMetadata | null }) =>
+    chunkItem(d.id, d.chunk_text, d.metadata)
+  );
+}
+
+/**
+ * Full-text search on user's document chunks (exact terms: merchants, card names, amounts)
+ */
+async function searchDocumentsText(
+  supabase: SupabaseClient,
+  query: string,
+  userId: string,
+  filters: SearchFilters
+): Promise<ContextItem[]> {
+  const { data, error } = await supabase.rpc("search_documents_text", {
+    query_text: query,
+    user_uuid: userId,
+    match_count: CANDIDATE_COUNT,
+    filter_card_id: filters.cardId,
   });
+
+  if (error) {
+    console.error("Document text search error:", error);
+    return [];
+  }
+
+  return (data || []).map((d: { id: string; chunk_text: string; metadata: ChunkMetadata | null }) =>
+    chunkItem(d.id, d.chunk_text, d.metadata)
+  );
+}
+
+// Written by parse-pdf's chunking.ts
+interface ChunkMetadata {
+  document_id?: string;
+  bank_name?: string;
+  card_name?: string;
+  statement_period?: { start?: string; end?: string };
+  page?: number | null;
+  section?: string;
+}
+
+function chunkItem(id: string, text: string, metadata: ChunkMetadata | null): ContextItem {
+  const card = [metadata?.bank_name, metadata?.card_name].filter(Boolean).join(" ");
+  const period = metadata?.statement_period?.end || metadata?.statement_period?.start;
+  const label = [
+    `${card || "Uploaded"} statement${period ? ` (${period})` : ""}`,
+    metadata?.page ? `page ${metadata.page}` : metadata?.section?.replace(/_/g, " "),
+  ].filter(Boolean).join(", ");
+
+  return {
+    id: `chunk:${id}`,
+    type: "statement",
+    label,
+    text,
+    documentId: metadata?.document_id,
+    page: metadata?.page ?? null,
+  };
+}
+
+interface BenefitRow {
+  id: string;
+  bank_name: string;
+  card_name: string;
+  benefit_title: string;
+  benefit_description: string;
+  source_url: string | null;
+}
+
+function benefitItem(b: BenefitRow): ContextItem {
+  return {
+    id: `benefit:${b.id}`,
+    type: "benefit",
+    label: `${b.bank_name} ${b.card_name}: ${b.benefit_title}`,
+    text: `${b.bank_name} ${b.card_name}: ${b.benefit_title} - ${b.benefit_description}`,
+    sourceUrl: b.source_url ?? null,
+  };
 }
 
 /**
@@ -102,11 +228,14 @@ async function searchDocuments(
 async function searchBenefits(
   supabase: SupabaseClient,
   queryVector: string,
-  selectedCardName?: string
-): Promise<string[]> {
+  filters: SearchFilters
+): Promise<ContextItem[]> {
   const { data, error } = await supabase.rpc("search_benefits", {
     query_emb: queryVector,
-    match_count: DEFAULT_MATCH_COUNT,
+    match_count: CANDIDATE_COUNT,
+    filter_catalog_card_id: filters.catalogCardId,
+    filter_bank: filters.bank,
+    min_similarity: MIN_SIMILARITY,
   });
 
   if (error) {
@@ -114,39 +243,30 @@ async function searchBenefits(
     return [];
   }
 
-  type BenefitHit = { key: string; text: string };
+  return (data || []).map(benefitItem);
+}
 
-  const all: BenefitHit[] = (data || []).map((b: {
-    bank_name: string;
-    card_name: string;
-    benefit_title: string;
-    benefit_description: string;
-    similarity: number;
-  }) => {
-    const similarityPct = (b.similarity * 100).toFixed(0);
-    return {
-      key: `${b.bank_name} ${b.card_name}`.toLowerCase(),
-      text: `[Match: ${similarityPct}%] ${b.bank_name} ${b.card_name}: ${b.benefit_title} - ${b.benefit_description}`,
-    };
+/**
+ * Full-text search on card benefits knowledge base
+ */
+async function searchBenefitsText(
+  supabase: SupabaseClient,
+  query: string,
+  filters: SearchFilters
+): Promise<ContextItem[]> {
+  const { data, error } = await supabase.rpc("search_benefits_text", {
+    query_text: query,
+    match_count: CANDIDATE_COUNT,
+    filter_catalog_card_id: filters.catalogCardId,
+    filter_bank: filters.bank,
   });
 
-  // If a card is selected, keep benefits tightly scoped to that card name.
-  // (This prevents the model from mixing in other banks/cards for card-specific questions.)
-  if (selectedCardName) {
-    const selectedKey = selectedCardName.toLowerCase().trim();
-    const filtered = all.filter(
-      (x: BenefitHit) => x.key === selectedKey || x.key.includes(selectedKey) || selectedKey.includes(x.key)
-    );
-
-    const byBankFallback = all.filter((x: BenefitHit) => {
-      const bankToken = selectedKey.split(" ")[0] || "";
-      return bankToken ? x.key.includes(bankToken) : false;
-    });
-
-    return (filtered.length > 0 ? filtered : byBankFallback).map((x: BenefitHit) => x.text);
+  if (error) {
+    console.error("Benefits text search error:", error);
+    return [];
   }
 
-  return all.map((x: BenefitHit) => x.text);
+  return (data || []).map(benefitItem);
 }
 
 /**
@@ -157,7 +277,7 @@ async function getTransactionSummary(
   supabase: SupabaseClient,
   userId: string,
   selectedCardId?: string
-): Promise<string | null> {
+): Promise<ContextItem | null> {
   let query = supabase
     .from("transactions")
     .select("category, amount, points_earned, card_id")
@@ -185,7 +305,13 @@ async function getTransactionSummary(
   }, {} as Record<string, { amount: number; points: number; count: number }>);
 
   const prefix = selectedCardId ? "Selected card" : "User";
-  return `${prefix} spending summary by category: ${JSON.stringify(summary)}`;
+  return {
+    id: `transactions:${selectedCardId || "all"}`,
+    type: "transactions",
+    label: `${prefix} spending by category (${transactions.length} transactions)`,
+    text: `${prefix} spending summary by category: ${JSON.stringify(summary)}`,
+    cardId: selectedCardId ?? null,
+  };
 }
 
 /**
@@ -196,7 +322,7 @@ async function getUserCards(
   supabase: SupabaseClient,
   userId: string,
   selectedCardId?: string
-): Promise<string | null> {
+): Promise<ContextItem | null> {
   let query = supabase
     .from("credit_cards")
     .select("id, bank_name, card_name, points, point_value, last_four")
@@ -226,80 +352,61 @@ async function getUserCards(
     ? `Selected Card Details` 
     : `User's Credit Cards (${cards.length} cards, ${totalPoints.toLocaleString()} total points, ~₹${totalValue.toFixed(0)} total value)`;
 
-  return `${header}:\n${cardsSummary}`;
-}
-
-/**
- * Fallback to simple text retrieval if semantic search fails
- * IMPORTANT: This must retrieve ALL context sources, not just documents
- */
-async function fallbackRetrieval(
-  supabase: SupabaseClient,
-  userId: string,
-  selectedCardId?: string,
-  selectedCardName?: string
-): Promise<RetrievedContext> {
-  console.log("Using fallback non-semantic retrieval with full context");
-
-  const [docsResult, benefitsResult, transactionSummary, userCards] = await Promise.all([
-    supabase
-      .from("document_chunks")
-      .select("chunk_text")
-      .eq("user_id", userId)
-      .limit(10),
-    supabase
-      .from("card_benefits")
-      .select("bank_name, card_name, benefit_title, benefit_description")
-      .eq("is_active", true)
-      .limit(25),
-    // Include transaction summary in fallback (filtered by card if selected)
-    getTransactionSummary(supabase, userId, selectedCardId),
-    // Include user cards in fallback (filtered by card if selected)
-    getUserCards(supabase, userId, selectedCardId),
-  ]);
-
-  const allBenefits = (benefitsResult.data || []).map(
-    (b) => `${b.bank_name} ${b.card_name}: ${b.benefit_title} - ${b.benefit_description}`
-  );
-
-  const benefitsContext = selectedCardName
-    ? allBenefits.filter((t) => t.toLowerCase().includes(selectedCardName.toLowerCase()))
-    : allBenefits;
-
   return {
-    documentChunks: (docsResult.data || []).map((d) => d.chunk_text),
-    benefitsContext,
-    transactionSummary,
-    userCards,
+    id: `cards:${selectedCardId || "all"}`,
+    type: "cards",
+    label: selectedCardId ? "Selected card points balance" : "Your cards and points balances",
+    text: `${header}:\n${cardsSummary}`,
+    cardId: selectedCardId ?? null,
   };
 }
 
 /**
- * Build context section for the LLM prompt
+ * Build context section for the LLM prompt. Items are numbered for inline citations;
+ * the returned citations resolve those numbers to their sources.
  */
-export function buildContextSection(context: RetrievedContext): string {
+export function buildContextSection(context: RetrievedContext): { text: string; citations: Citation[] } {
+  const numbered = numberContext(context);
+  const render = (type: string) =>
+    numbered
+      .filter((item) => item.type === type)
+      .map((item) => `[${item.marker}] (${item.label})\n${item.text}`);
+
   const sections: string[] = [];
 
   // User's cards go first (most important for personalization)
-  if (context.userCards) {
-    sections.push("## Your Credit Cards\n" + context.userCards);
+  const cards = render("cards");
+  if (cards.length > 0) {
+    sections.push("## Your Credit Cards\n" + cards.join("\n\n"));
   }
 
-  if (context.documentChunks.length > 0) {
-    sections.push("## Your Statement Data\n" + context.documentChunks.join("\n\n"));
+  const statements = render("statement");
+  if (statements.length > 0) {
+    sections.push("## Your Statement Data\n" + statements.join("\n\n"));
   }
 
-  if (context.transactionSummary) {
-    sections.push("## Spending Patterns\n" + context.transactionSummary);
+  const spending = render("transactions");
+  if (spending.length > 0) {
+    sections.push("## Spending Patterns\n" + spending.join("\n\n"));
   }
 
-  if (context.benefitsContext.length > 0) {
-    sections.push("## Card Benefits Knowledge Base\n" + context.benefitsContext.join("\n\n"));
+  const benefits = render("benefit");
+  if (benefits.length > 0) {
+    sections.push("## Card Benefits Knowledge Base\n" + benefits.join("\n\n"));
   }
 
   if (sections.length === 0) {
-    return "\n\nNOTE: No user data is available yet. The user may need to upload their credit card statements or add their cards to get personalized recommendations.";
+    return {
+      text: "\n\nNOTE: No user data is available yet. The user may need to upload their credit card statements or add their cards to get personalized recommendations.",
+      citations: [],
+    };
   }
 
-  return "\n\nRELEVANT CONTEXT (Use this data to answer the user's question):\n" + sections.join("\n\n---\n\n");
+  return {
+    text:
+      "\n\nRELEVANT CONTEXT (Use this data to answer the user's question):\n" +
+      "Each item is numbered. Cite the items you use with their number in square brackets right after the fact they support, e.g. \"earns 5X points [3]\". Only cite numbers listed here.\n\n" +
+      sections.join("\n\n---\n\n"),
+    citations: numbered.map(toCitation),
+  };
 }
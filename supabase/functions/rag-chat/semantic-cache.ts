@@ -1,6 +1,14 @@
 /**
  * Semantic caching with vector embeddings
  * Uses pgvector for similarity search beyond exact hash matching
+ *
+ * Entries are scoped: answers built from a user's data live in that user's scope (per
+ * selected card) and are keyed by the user's data version, so a new upload or card edit
+ * retires them. Answers built without user data go to a shared public scope, and answers
+ * pinned by an admin to the curated scope are served to everyone.
+ *
+ * Threshold and TTL are configured per task type (see _shared/query-cache.ts). Every lookup
+ * is logged with the closest entry found, hit or not, for the analytics similarity bands.
  */
 
 import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
@@ -9,84 +17,135 @@ import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
 const embeddings = await import("../_shared/embeddings.ts");
 const { generateEmbedding, embeddingToVector } = embeddings;
 
-import type { CacheEntry } from "./types.ts";
+import {
+  CURATED_CACHE_SCOPE,
+  PUBLIC_CACHE_SCOPE,
+  cacheExpiry,
+  generateCacheKey,
+  loadCacheSettings,
+  type CacheScope,
+} from "../_shared/query-cache.ts";
+import type { CacheEntry, Citation } from "./types.ts";
 
-const SIMILARITY_THRESHOLD = 0.92; // 92% similarity for cache hits
-const CACHE_TTL_DAYS = 7;
+export { PUBLIC_CACHE_SCOPE, type CacheScope };
+
+// Near misses down to this similarity are still logged, so the bands show what a lower threshold would serve
+const LOOKUP_LOG_FLOOR = 0.8;
 
 /**
- * Generate SHA-256 hash for exact cache matching
+ * Scopes for a request, in lookup order: curated answers, the user's own scope, and the public
+ * scope only while the user has no personal data (version 0) - otherwise a shared generic answer
+ * would replace a personalized one.
  */
-export async function generateCacheKey(query: string, scope: string = ""): Promise<string> {
-  const encoder = new TextEncoder();
-  // Scope the cache to avoid cross-user / cross-card leakage (e.g., same question with different card selected)
-  const data = encoder.encode(`${scope}::${query.toLowerCase().trim()}`);
-  const hashBuffer = await crypto.subtle.digest("SHA-256", data);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  return hashArray.map((b) => b.toString(16).padStart(2, "0")).join("");
+export async function resolveCacheScopes(
+  supabase: SupabaseClient,
+  userId?: string,
+  selectedCardId?: string
+): Promise<{ personal: CacheScope | null; lookup: CacheScope[] }> {
+  if (!userId) return { personal: null, lookup: [CURATED_CACHE_SCOPE, PUBLIC_CACHE_SCOPE] };
+
+  const { data, error } = await supabase
+    .from("user_data_versions")
+    .select("version")
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) console.error("Data version lookup error:", error);
+
+  const personal: CacheScope = { scope: `user:${userId}:card:${selectedCardId || "all"}`, version: data?.version ?? 0 };
+  return {
+    personal,
+    lookup: personal.version === 0
+      ? [CURATED_CACHE_SCOPE, personal, PUBLIC_CACHE_SCOPE]
+      : [CURATED_CACHE_SCOPE, personal],
+  };
 }
 
 /**
- * Check cache using hybrid approach:
+ * Check cache using hybrid approach, trying each scope in order:
  * 1. First try exact hash match (fastest)
- * 2. If no exact match, try semantic similarity search
+ * 2. If no exact match, try semantic similarity search within the scope
  */
 export async function checkSemanticCache(
   supabase: SupabaseClient,
   query: string,
   apiKey: string,
-  scope: string = ""
+  scopes: CacheScope[],
+  taskType: string
 ): Promise<CacheEntry | null> {
-  // Step 1: Try exact hash match first (free, no embedding cost)
-  const cacheKey = await generateCacheKey(query, scope);
-
-  
-  const { data: exactMatch } = await supabase
-    .from("query_cache")
-    .select("id, query_text, response, model_used")
-    .eq("query_hash", cacheKey)
-    .gt("expires_at", new Date().toISOString())
-    .maybeSingle();
+  const settings = await loadCacheSettings(supabase, taskType);
+  const threshold = settings.similarityThreshold;
 
-  if (exactMatch) {
-    console.log("Cache hit: exact hash match");
-    await updateCacheHitCount(supabase, exactMatch.id);
-    return { ...exactMatch, similarity: 1.0 };
+  // Step 1: Try exact hash match first (free, no embedding cost)
+  for (const scope of scopes) {
+    const cacheKey = await generateCacheKey(query, scope);
+    const { data: exactMatch } = await supabase
+      .from("query_cache")
+      .select("id, query_text, response, model_used, citations")
+      .eq("query_hash", cacheKey)
+      .eq("scope", scope.scope)
+      .eq("task_type", taskType)
+      .gt("expires_at", new Date().toISOString())
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (exactMatch) {
+      console.log(`Cache hit: exact hash match (${scope.scope.startsWith("user:") ? "user" : scope.scope} scope)`);
+      await updateCacheHitCount(supabase, exactMatch.id);
+      await logLookup(supabase, taskType, "exact", 1.0, threshold);
+      return {
+        ...exactMatch,
+        citations: (exactMatch.citations as unknown as Citation[] | null) ?? undefined,
+        similarity: 1.0,
+      };
+    }
   }
 
   // Step 2: Try semantic similarity search using embeddings
   try {
     const { embedding } = await generateEmbedding(query, apiKey);
     const vectorString = embeddingToVector(embedding);
+    let closest: number | null = null;
+
+    for (const scope of scopes) {
+      // Search below the threshold so near misses are measured; only matches above it are served
+      const { data: semanticMatches, error } = await supabase
+        .rpc("find_similar_cache", {
+          query_emb: vectorString,
+          cache_scope: scope.scope,
+          cache_task_type: taskType,
+          scope_version: scope.version,
+          similarity_threshold: Math.min(threshold, LOOKUP_LOG_FLOOR),
+          max_results: 1,
+        });
+
+      if (error) {
+        console.error("Semantic cache search error:", error);
+        return null;
+      }
+
+      const match = semanticMatches?.[0];
+      if (!match) continue;
+      closest = Math.max(closest ?? 0, match.similarity);
+      if (match.similarity < threshold) continue;
 
-    const { data: semanticMatches, error } = await supabase
-      .rpc("find_similar_cache", {
-        query_emb: vectorString,
-        similarity_threshold: SIMILARITY_THRESHOLD,
-        max_results: 1,
-      });
-
-    if (error) {
-      console.error("Semantic cache search error:", error);
-      return null;
-    }
-
-    if (semanticMatches && semanticMatches.length > 0) {
-      const match = semanticMatches[0];
       console.log(`Cache hit: semantic match (${(match.similarity * 100).toFixed(1)}% similar)`);
-      
+
       // Update hit count for the matched entry
       await updateCacheHitCount(supabase, match.id);
-      
+      await logLookup(supabase, taskType, "semantic", match.similarity, threshold);
+
       return {
         id: match.id,
         query_text: match.query_text,
         response: match.response,
-        model_used: "cached",
+        model_used: match.model_used,
         similarity: match.similarity,
+        citations: (match.citations as unknown as Citation[] | null) ?? undefined,
       };
     }
 
+    await logLookup(supabase, taskType, "miss", closest, threshold);
     return null;
   } catch (error) {
     console.error("Semantic cache lookup failed:", error);
@@ -105,12 +164,14 @@ export async function storeInCache(
   tokensInput: number,
   tokensOutput: number,
   apiKey: string,
-  scope: string = ""
+  scope: CacheScope,
+  taskType: string,
+  citations: Citation[] = []
 ): Promise<void> {
   try {
     const cacheKey = await generateCacheKey(query, scope);
+    const settings = await loadCacheSettings(supabase, taskType);
 
-    
     // Generate embedding for semantic search
     const { embedding } = await generateEmbedding(query, apiKey);
     const vectorString = embeddingToVector(embedding);
@@ -123,6 +184,11 @@ export async function storeInCache(
       model_used: model,
       tokens_input: tokensInput,
       tokens_output: tokensOutput,
+      citations: citations.length > 0 ? citations : null,
+      scope: scope.scope,
+      data_version: scope.version,
+      task_type: taskType,
+      expires_at: cacheExpiry(settings),
     });
 
     console.log("Response cached with embedding for semantic search");
@@ -132,6 +198,28 @@ export async function storeInCache(
   }
 }
 
+/**
+ * Record how a lookup was answered and the closest entry found (null when nothing came near)
+ */
+async function logLookup(
+  supabase: SupabaseClient,
+  taskType: string,
+  matchType: "exact" | "semantic" | "miss",
+  similarity: number | null,
+  threshold: number
+): Promise<void> {
+  const { error } = await supabase.from("cache_lookups").insert({
+    task_type: taskType,
+    match_type: matchType,
+    similarity,
+    threshold,
+  });
+
+  if (error) {
+    console.error("Failed to log cache lookup:", error);
+  }
+}
+
 /**
  * Update hit count for a cache entry using dedicated function
  */
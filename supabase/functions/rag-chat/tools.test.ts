@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { summarizeTotals, type TransactionTotalsRow } from "./tools.ts";
+
+const cards = new Map([["card-1", "HDFC Regalia ****1234"]]);
+
+const totals = (
+  group_key: string | null,
+  transaction_count: number,
+  total_spent: number | string,
+  total_credits: number | string,
+  points_earned: number,
+  first_date: string,
+  last_date: string
+): TransactionTotalsRow => ({ group_key, transaction_count, total_spent, total_credits, points_earned, first_date, last_date });
+
+// transaction_totals() grouped by merchant, for 4 transactions in March
+const byMerchant = [
+  totals("AMAZON PAY", 1, "1299.00", "0", 34, "2025-03-14", "2025-03-14"),
+  totals("SWIGGY BANGALORE", 2, "670.50", "0", 18, "2025-03-09", "2025-03-28"),
+  totals("REFUND AMAZON", 1, "0", "300.00", 0, "2025-03-02", "2025-03-02"),
+];
+
+describe("agent transaction tool", () => {
+  it("adds up exact totals across groups and returns the largest groups first", () => {
+    const result = summarizeTotals([...byMerchant].reverse(), { group_by: "merchant", limit: 2 }, cards);
+
+    expect(result).toMatchObject({
+      transaction_count: 4,
+      total_spent: 1969.5,
+      total_credits: 300,
+      points_earned: 52,
+      first_date: "2025-03-02",
+      last_date: "2025-03-28",
+      group_count: 3,
+    });
+    expect(result.groups).toEqual([
+      { merchant: "AMAZON PAY", amount: 1299, count: 1, points: 34 },
+      { merchant: "SWIGGY BANGALORE", amount: 670.5, count: 2, points: 18 },
+    ]);
+  });
+
+  it("labels card groups by card name and reports zero totals when nothing matches", () => {
+    const result = summarizeTotals([
+      totals("card-1", 3, "1969.50", "0", 52, "2025-03-09", "2025-03-28"),
+      totals(null, 1, "80.00", "0", 0, "2025-03-11", "2025-03-11"),
+    ], { group_by: "card" }, cards);
+    expect(result.groups).toEqual([
+      { card: "HDFC Regalia ****1234", amount: 1969.5, count: 3, points: 52 },
+      { card: "Unassigned", amount: 80, count: 1, points: 0 },
+    ]);
+
+    expect(summarizeTotals([], {}, cards)).toEqual({
+      transaction_count: 0,
+      total_spent: 0,
+      total_credits: 0,
+      points_earned: 0,
+      first_date: null,
+      last_date: null,
+    });
+  });
+});
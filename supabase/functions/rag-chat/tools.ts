@@ -0,0 +1,402 @@
+/**
+ * Agent tools - typed, user-scoped data access for tool-calling mode
+ *
+ * The model answers numeric questions ("how much did I spend at Swiggy in March?") by calling
+ * these tools instead of estimating from the prompt's spending summary. Every query is filtered
+ * by the authenticated user's id; a card_id the user doesn't own is rejected.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const DEFAULT_LIST_LIMIT = 20;
+const MAX_LIST_LIMIT = 50;
+const DEFAULT_GROUP_LIMIT = 10;
+const MAX_GROUP_LIMIT = 25;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export type ToolName = "query_transactions" | "get_card_balances" | "lookup_benefits";
+
+export interface ToolDefinition {
+  type: "function";
+  function: {
+    name: ToolName;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+export interface ToolOutcome {
+  ok: boolean;
+  result: unknown;
+  summary: string; // one line for the chat UI
+}
+
+export interface TransactionQuery {
+  start_date?: string;
+  end_date?: string;
+  merchant?: string;
+  category?: string;
+  card_id?: string;
+  type?: "debit" | "credit" | "all";
+  group_by?: "merchant" | "category" | "card" | "month";
+  limit?: number;
+}
+
+export interface TransactionRow {
+  transaction_date: string;
+  description: string;
+  merchant_name: string | null;
+  category: string | null;
+  amount: number;
+  points_earned: number | null;
+  card_id: string | null;
+}
+
+// A row of transaction_totals(): one per group, or one with a null key when not grouped
+export interface TransactionTotalsRow {
+  group_key: string | null;
+  transaction_count: number;
+  total_spent: number | string; // DECIMAL columns may arrive as strings
+  total_credits: number | string;
+  points_earned: number;
+  first_date: string | null;
+  last_date: string | null;
+}
+
+export const AGENT_TOOLS: ToolDefinition[] = [
+  {
+    type: "function",
+    function: {
+      name: "query_transactions",
+      description:
+        "Query the user's imported card transactions. Returns exact totals (spent, credits, points) for the filters, plus either the matching transactions or totals grouped by merchant, category, card or month. Debits (purchases) are returned by default.",
+      parameters: {
+        type: "object",
+        properties: {
+          start_date: { type: "string", description: "Inclusive start date, YYYY-MM-DD" },
+          end_date: { type: "string", description: "Inclusive end date, YYYY-MM-DD" },
+          merchant: { type: "string", description: "Merchant name or part of the description, e.g. \"swiggy\"" },
+          category: {
+            type: "string",
+            description: "Spend category: Travel, Dining, Shopping, Fuel, Entertainment, Utilities, Insurance, Healthcare, Groceries, Education, Financial, Other",
+          },
+          card_id: { type: "string", description: "Limit to one card (ids come from get_card_balances)" },
+          type: { type: "string", enum: ["debit", "credit", "all"], description: "debit = purchases (default), credit = refunds and payments" },
+          group_by: { type: "string", enum: ["merchant", "category", "card", "month"], description: "Return totals per group, largest first, instead of individual transactions" },
+          limit: { type: "integer", description: `Transactions (max ${MAX_LIST_LIMIT}) or groups (max ${MAX_GROUP_LIMIT}) to return` },
+        },
+        additionalProperties: false,
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_card_balances",
+      description:
+        "Get the user's cards with their reward points balance and estimated value, the latest statement's dues and due date, and upcoming points expiries.",
+      parameters: {
+        type: "object",
+        properties: {
+          card_id: { type: "string", description: "Only this card" },
+        },
+        additionalProperties: false,
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "lookup_benefits",
+      description: "Look up card benefits (earn rates, lounge access, fee waivers, transfer partners) in the benefits knowledge base.",
+      parameters: {
+        type: "object",
+        properties: {
+          card_name: { type: "string", description: "Card or bank name, e.g. \"Regalia\" or \"HDFC\"" },
+          category: { type: "string", description: "Benefit category, e.g. \"travel\" or \"dining\"" },
+          keyword: { type: "string", description: "Word to find in the benefit title or description" },
+        },
+        additionalProperties: false,
+      },
+    },
+  },
+];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const formatInr = (value: number) => `₹${value.toLocaleString("en-IN", { maximumFractionDigits: 2 })}`;
+
+// PostgREST filter values: drop characters that change the filter syntax
+const sanitizeTerm = (value: string) => value.replace(/[,()%*\\]/g, " ").trim().slice(0, 60);
+
+function clampLimit(value: unknown, fallback: number, max: number): number {
+  const n = typeof value === "number" ? Math.floor(value) : fallback;
+  return Math.min(Math.max(n, 1), max);
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+async function userCardNames(supabase: SupabaseClient, userId: string): Promise<Map<string, string>> {
+  const { data } = await supabase
+    .from("credit_cards")
+    .select("id, bank_name, card_name, last_four")
+    .eq("user_id", userId);
+  return new Map(
+    (data || []).map((c) => [c.id, `${c.bank_name} ${c.card_name}${c.last_four ? ` ****${c.last_four}` : ""}`])
+  );
+}
+
+function groupLabel(key: string | null, groupBy: NonNullable<TransactionQuery["group_by"]>, cards: Map<string, string>): string {
+  if (groupBy === "card") return (key && cards.get(key)) || "Unassigned";
+  return key || "Unassigned";
+}
+
+/**
+ * Exact totals, and groups largest first, from transaction_totals() rows for the query's filters.
+ * Spend is the absolute value of debits (stored negative); credits are positive amounts.
+ */
+export function summarizeTotals(
+  rows: TransactionTotalsRow[],
+  query: TransactionQuery,
+  cards: Map<string, string>
+): Record<string, unknown> {
+  const dates = rows.flatMap((r) => [r.first_date, r.last_date]).filter((d): d is string => Boolean(d)).sort();
+  const totals = {
+    transaction_count: rows.reduce((sum, r) => sum + r.transaction_count, 0),
+    total_spent: round2(rows.reduce((sum, r) => sum + Number(r.total_spent), 0)),
+    total_credits: round2(rows.reduce((sum, r) => sum + Number(r.total_credits), 0)),
+    points_earned: rows.reduce((sum, r) => sum + Number(r.points_earned), 0),
+    first_date: dates[0] ?? null,
+    last_date: dates[dates.length - 1] ?? null,
+  };
+  if (!query.group_by) return totals;
+
+  const limit = clampLimit(query.limit, DEFAULT_GROUP_LIMIT, MAX_GROUP_LIMIT);
+  const groups = rows
+    .map((r) => ({
+      [query.group_by!]: groupLabel(r.group_key, query.group_by!, cards),
+      amount: round2(Number(r.total_spent) + Number(r.total_credits)),
+      count: r.transaction_count,
+      points: Number(r.points_earned),
+    }))
+    .sort((a, b) => b.amount - a.amount);
+  return { ...totals, group_count: groups.length, groups: groups.slice(0, limit) };
+}
+
+async function queryTransactions(supabase: SupabaseClient, userId: string, args: Record<string, unknown>): Promise<ToolOutcome> {
+  const query: TransactionQuery = {
+    start_date: optionalString(args.start_date),
+    end_date: optionalString(args.end_date),
+    merchant: optionalString(args.merchant),
+    category: optionalString(args.category),
+    card_id: optionalString(args.card_id),
+    type: args.type === "credit" || args.type === "all" ? args.type : "debit",
+    group_by: ["merchant", "category", "card", "month"].includes(args.group_by as string)
+      ? (args.group_by as TransactionQuery["group_by"])
+      : undefined,
+    limit: typeof args.limit === "number" ? args.limit : undefined,
+  };
+
+  for (const field of ["start_date", "end_date"] as const) {
+    if (query[field] && !ISO_DATE.test(query[field]!)) {
+      return { ok: false, result: { error: `${field} must be YYYY-MM-DD` }, summary: `Invalid ${field}` };
+    }
+  }
+
+  const cards = await userCardNames(supabase, userId);
+  if (query.card_id && !cards.has(query.card_id)) {
+    return { ok: false, result: { error: "Unknown card_id" }, summary: "Unknown card" };
+  }
+
+  // Totals (and groups) are aggregated in the database over every matching row
+  const category = query.category ? sanitizeTerm(query.category) : undefined;
+  const merchant = query.merchant ? sanitizeTerm(query.merchant) : undefined;
+  const { data: totalsData, error: totalsError } = await supabase.rpc("transaction_totals", {
+    p_user_id: userId,
+    p_start_date: query.start_date ?? null,
+    p_end_date: query.end_date ?? null,
+    p_card_id: query.card_id ?? null,
+    p_category: category || null,
+    p_merchant: merchant || null,
+    p_type: query.type,
+    p_group_by: query.group_by ?? null,
+  });
+  if (totalsError) {
+    console.error("[TOOLS] Transaction totals error:", totalsError);
+    return { ok: false, result: { error: "Transaction lookup failed" }, summary: "Transaction lookup failed" };
+  }
+  const summary = summarizeTotals((totalsData || []) as TransactionTotalsRow[], query, cards);
+  const count = summary.transaction_count as number;
+  const amount = (query.type === "credit" ? summary.total_credits : summary.total_spent) as number;
+  const outcomeSummary = `${count} transaction${count === 1 ? "" : "s"}, ${formatInr(amount)} ${query.type === "credit" ? "credited" : "spent"}`;
+
+  if (query.group_by) {
+    return { ok: true, result: { filters: query, ...summary }, summary: outcomeSummary };
+  }
+
+  // Ungrouped: the most recent matching transactions
+  const limit = clampLimit(query.limit, DEFAULT_LIST_LIMIT, MAX_LIST_LIMIT);
+  let request = supabase
+    .from("transactions")
+    .select("transaction_date, description, merchant_name, category, amount, points_earned, card_id")
+    .eq("user_id", userId);
+  if (query.start_date) request = request.gte("transaction_date", query.start_date);
+  if (query.end_date) request = request.lte("transaction_date", query.end_date);
+  if (query.card_id) request = request.eq("card_id", query.card_id);
+  if (category) request = request.ilike("category", `%${category}%`);
+  if (merchant) request = request.or(`merchant_name.ilike.*${merchant}*,description.ilike.*${merchant}*`);
+  if (query.type === "debit") request = request.lt("amount", 0);
+  if (query.type === "credit") request = request.gt("amount", 0);
+
+  const { data, error } = await request.order("transaction_date", { ascending: false }).limit(limit);
+  if (error) {
+    console.error("[TOOLS] Transaction query error:", error);
+    return { ok: false, result: { error: "Transaction lookup failed" }, summary: "Transaction lookup failed" };
+  }
+
+  const rows = (data || []) as TransactionRow[];
+  return {
+    ok: true,
+    result: {
+      filters: query,
+      ...summary,
+      transactions: rows.map((r) => ({
+        date: r.transaction_date,
+        description: r.description,
+        category: r.category,
+        amount: r.amount,
+        card: (r.card_id && cards.get(r.card_id)) || null,
+      })),
+      more_transactions: Math.max(count - rows.length, 0),
+    },
+    summary: outcomeSummary,
+  };
+}
+
+async function getCardBalances(supabase: SupabaseClient, userId: string, args: Record<string, unknown>): Promise<ToolOutcome> {
+  const cardId = optionalString(args.card_id);
+  const today = new Date().toISOString().slice(0, 10);
+
+  let cardsQuery = supabase
+    .from("credit_cards")
+    .select("id, bank_name, card_name, last_four, points, point_value")
+    .eq("user_id", userId);
+  if (cardId) cardsQuery = cardsQuery.eq("id", cardId);
+
+  const [cardsRes, summariesRes, expiryRes] = await Promise.all([
+    cardsQuery,
+    supabase
+      .from("statement_summaries")
+      .select("card_id, statement_end, total_amount_due, minimum_amount_due, payment_due_date, closing_reward_points")
+      .eq("user_id", userId)
+      .order("statement_end", { ascending: false }),
+    supabase
+      .from("points_expiry_ledger")
+      .select("card_id, expiry_date, points, is_estimate")
+      .eq("user_id", userId)
+      .gte("expiry_date", today)
+      .order("expiry_date", { ascending: true }),
+  ]);
+
+  if (cardsRes.error) {
+    console.error("[TOOLS] Card lookup error:", cardsRes.error);
+    return { ok: false, result: { error: "Card lookup failed" }, summary: "Card lookup failed" };
+  }
+  if (cardId && !cardsRes.data?.length) {
+    return { ok: false, result: { error: "Unknown card_id" }, summary: "Unknown card" };
+  }
+
+  const cards = (cardsRes.data || []).map((c) => {
+    const pointValue = c.point_value || 0.25;
+    const statement = (summariesRes.data || []).find((s) => s.card_id === c.id) || null;
+    return {
+      card_id: c.id,
+      card: `${c.bank_name} ${c.card_name}${c.last_four ? ` ****${c.last_four}` : ""}`,
+      points: c.points || 0,
+      point_value_inr: pointValue,
+      estimated_value_inr: round2((c.points || 0) * pointValue),
+      latest_statement: statement && {
+        statement_end: statement.statement_end,
+        total_amount_due: statement.total_amount_due,
+        minimum_amount_due: statement.minimum_amount_due,
+        payment_due_date: statement.payment_due_date,
+        closing_reward_points: statement.closing_reward_points,
+      },
+      expiring_points: (expiryRes.data || [])
+        .filter((e) => e.card_id === c.id)
+        .map((e) => ({ date: e.expiry_date, points: e.points, approximate: e.is_estimate })),
+    };
+  });
+
+  const totalPoints = cards.reduce((sum, c) => sum + c.points, 0);
+  return {
+    ok: true,
+    result: { cards, total_points: totalPoints },
+    summary: `${cards.length} card${cards.length === 1 ? "" : "s"}, ${totalPoints.toLocaleString("en-IN")} points`,
+  };
+}
+
+async function lookupBenefits(supabase: SupabaseClient, args: Record<string, unknown>): Promise<ToolOutcome> {
+  let request = supabase
+    .from("card_benefits")
+    .select("bank_name, card_name, benefit_category, benefit_title, benefit_description, conditions, value_estimate")
+    .eq("is_active", true);
+
+  const cardName = optionalString(args.card_name);
+  const category = optionalString(args.category);
+  const keyword = optionalString(args.keyword);
+  if (cardName) {
+    const term = sanitizeTerm(cardName);
+    request = request.or(`card_name.ilike.*${term}*,bank_name.ilike.*${term}*`);
+  }
+  if (category) request = request.ilike("benefit_category", `%${sanitizeTerm(category)}%`);
+  // Full-text match on the title, description and card (search_tsv), so every benefit is searched
+  if (keyword) request = request.textSearch("search_tsv", keyword, { type: "plain", config: "english" });
+
+  const { data, error } = await request.limit(10);
+  if (error) {
+    console.error("[TOOLS] Benefits lookup error:", error);
+    return { ok: false, result: { error: "Benefits lookup failed" }, summary: "Benefits lookup failed" };
+  }
+
+  const benefits = (data || []).map((b) => ({
+    card: `${b.bank_name} ${b.card_name}`,
+    category: b.benefit_category,
+    title: b.benefit_title,
+    description: b.benefit_description,
+    conditions: b.conditions,
+    value_estimate: b.value_estimate,
+  }));
+  return { ok: true, result: { benefits }, summary: `${benefits.length} benefit${benefits.length === 1 ? "" : "s"} found` };
+}
+
+/**
+ * Run a tool the model called. Arguments arrive as the model's JSON string.
+ */
+export async function executeTool(
+  supabase: SupabaseClient,
+  userId: string,
+  name: string,
+  rawArguments: string
+): Promise<ToolOutcome> {
+  let args: Record<string, unknown>;
+  try {
+    const parsed = rawArguments ? JSON.parse(rawArguments) : {};
+    args = parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return { ok: false, result: { error: "Arguments are not valid JSON" }, summary: "Invalid arguments" };
+  }
+
+  switch (name) {
+    case "query_transactions":
+      return queryTransactions(supabase, userId, args);
+    case "get_card_balances":
+      return getCardBalances(supabase, userId, args);
+    case "lookup_benefits":
+      return lookupBenefits(supabase, args);
+    default:
+      return { ok: false, result: { error: `Unknown tool: ${name}` }, summary: "Unknown tool" };
+  }
+}
@@ -2,26 +2,61 @@
  * Type definitions for RAG chat function
  */
 
+import type { QuotaAllowance } from "../_shared/quotas.ts";
+
 export interface ChatMessage {
   role: "user" | "assistant" | "system";
   content: string;
 }
 
 export interface RagRequest {
-  messages: ChatMessage[];
-  userId?: string;
+  message?: string; // the new user turn; prior turns are loaded by conversationId
+  conversationId?: string; // omitted to start a new conversation
+  messages?: ChatMessage[]; // legacy clients: only the last user message is read
+  userId?: string; // optional; must match the bearer token's user (the service role names the user)
   taskType?: "chat" | "analysis" | "recommendation" | "parsing" | "extraction";
   includeContext?: boolean;
   stream?: boolean;
   selectedCardId?: string;
   selectedCardName?: string;
+  agentMode?: boolean; // tool-calling mode: exact figures from the user's data (tools.ts)
+  followUps?: boolean; // false skips follow-up suggestions (default true)
+}
+
+/**
+ * Typed events in the streaming response, sent alongside the model's content chunks.
+ * Once the answer text is complete: citations, then metadata, then follow_ups (if requested).
+ */
+export type ChatStreamEvent =
+  | { type: "tool_call"; id: string; name: string; arguments: Record<string, unknown> }
+  | { type: "tool_result"; id: string; name: string; ok: boolean; summary: string; result: unknown }
+  | { type: "citations"; citations: Citation[] }
+  | { type: "metadata"; metadata: AnswerMetadata }
+  | { type: "follow_ups"; questions: string[] }
+  | { type: "error"; status: number; error: string };
+
+/**
+ * Facts about a finished answer, sent as the "metadata" event (and in JSON responses)
+ */
+export interface AnswerMetadata {
+  model: string;
+  cached: boolean;
+  conversationId?: string;
+  tokensInput: number;
+  tokensOutput: number;
+  cost: number; // estimated USD
+  latencyMs: number;
+  quota?: QuotaAllowance[]; // what is left of the user's quotas after this answer
 }
 
 export interface RagResponse {
   content: string;
   cached: boolean;
   model: string;
+  metadata?: AnswerMetadata;
   followUpQuestions?: string[];
+  conversationId?: string;
+  citations?: Citation[];
   semanticMatch?: boolean;
   similarity?: number;
 }
@@ -32,27 +67,40 @@ export interface CacheEntry {
   response: string;
   model_used: string;
   similarity?: number;
+  citations?: Citation[];
 }
 
-export interface RetrievedContext {
-  documentChunks: string[];
-  benefitsContext: string[];
-  transactionSummary: string | null;
-  userCards: string | null;
+export type ContextSourceType = "statement" | "benefit" | "transactions" | "cards";
+
+/**
+ * One retrieved context item. The id is stable for the same source row
+ * ("chunk:<id>", "benefit:<id>", "transactions:<card id|all>", "cards:<card id|all>").
+ */
+export interface ContextItem {
+  id: string;
+  type: ContextSourceType;
+  label: string; // provenance shown in the footnote, e.g. "HDFC Regalia statement, page 2"
+  text: string;
+  documentId?: string; // statement chunks: opens the PDF
+  page?: number | null;
+  sourceUrl?: string | null; // benefits: the bank's page
+  cardId?: string | null; // transactions/cards: filters the /transactions view
 }
 
-export interface ModelCosts {
-  input: number;
-  output: number;
+/**
+ * A context item as cited by an answer: marker is the [n] the model writes inline
+ */
+export interface Citation extends Omit<ContextItem, "text"> {
+  marker: number;
+  snippet: string;
 }
 
-export const MODEL_COSTS: Record<string, ModelCosts> = {
-  "google/gemini-3-flash-preview": { input: 0.10, output: 0.40 },
-  "google/gemini-2.5-flash": { input: 0.075, output: 0.30 },
-  "google/gemini-2.5-pro": { input: 1.25, output: 5.00 },
-  "openai/gpt-5": { input: 5.00, output: 15.00 },
-  "openai/gpt-5-mini": { input: 0.15, output: 0.60 },
-};
+export interface RetrievedContext {
+  documentChunks: ContextItem[];
+  benefitsContext: ContextItem[];
+  transactionSummary: ContextItem | null;
+  userCards: ContextItem | null;
+}
 
 export const SYSTEM_PROMPTS: Record<string, string> = {
   chat: `You are RewardIQ, an expert Credit Card Reward Intelligence Assistant.
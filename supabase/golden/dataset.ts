@@ -0,0 +1,95 @@
+/**
+ * Golden dataset: fixture users (cards, transactions, statement chunks), benefit fixtures and
+ * the questions asked of rag-chat with the facts and sources a good answer contains.
+ *
+ * golden-set.json carries a version: bump it whenever a case, its expectations or the fixtures
+ * change, so runs are only compared with runs of the same dataset.
+ */
+
+import goldenSet from "./golden-set.json";
+
+export interface FixtureCard {
+  key: string;
+  bank_name: string;
+  card_name: string;
+  last_four: string;
+  points: number;
+  point_value: number;
+}
+
+export interface FixtureTransaction {
+  card: string; // FixtureCard key
+  transaction_date: string;
+  description: string;
+  merchant_name: string;
+  category: string;
+  amount: number;
+  points_earned: number;
+}
+
+export interface FixtureStatement {
+  card: string;
+  statement_start: string;
+  statement_end: string;
+  chunks: { page: number; section: string; text: string }[];
+}
+
+export interface FixtureUser {
+  key: string;
+  email: string;
+  cards: FixtureCard[];
+  transactions: FixtureTransaction[];
+  statements: FixtureStatement[];
+}
+
+export interface FixtureBenefit {
+  key: string;
+  bank_name: string;
+  card_name: string;
+  benefit_category: string;
+  benefit_title: string;
+  benefit_description: string;
+}
+
+export interface ExpectedSource {
+  type: "cards" | "transactions" | "statement" | "benefit";
+  label?: string; // case-insensitive substring of the citation label
+}
+
+export interface GoldenCase {
+  id: string;
+  user: string; // FixtureUser key
+  card?: string; // selected card (FixtureCard key)
+  taskType?: "chat" | "analysis" | "recommendation";
+  question: string;
+  expectedFacts: string[]; // each must appear in the answer (numbers match however they're formatted)
+  expectedSources: ExpectedSource[]; // each must be cited
+  forbiddenFacts?: string[]; // must not appear, e.g. another user's data
+}
+
+export interface GoldenSet {
+  version: number;
+  description: string;
+  users: FixtureUser[];
+  benefits: FixtureBenefit[];
+  cases: GoldenCase[];
+}
+
+/**
+ * The dataset, with every case's user and card checked against the fixtures
+ */
+export function loadGoldenSet(): GoldenSet {
+  const dataset = goldenSet as GoldenSet;
+  const ids = new Set<string>();
+  for (const c of dataset.cases) {
+    if (ids.has(c.id)) throw new Error(`Duplicate golden case ${c.id}`);
+    ids.add(c.id);
+
+    const user = dataset.users.find((u) => u.key === c.user);
+    if (!user) throw new Error(`Golden case ${c.id}: unknown user ${c.user}`);
+    if (c.card && !user.cards.some((card) => card.key === c.card)) {
+      throw new Error(`Golden case ${c.id}: ${c.user} has no card ${c.card}`);
+    }
+  }
+  return dataset;
+}
@@ -0,0 +1,19 @@
+import { describe, it, expect } from "vitest";
+import { loadGoldenSet } from "./dataset.ts";
+import { goldenEnv, runGoldenSet, writeReport } from "./runner.ts";
+
+const env = goldenEnv();
+const RUN_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Needs a local stack with the functions served (see runner.ts); skipped otherwise
+describe.skipIf(!env)("golden set against the local rag-chat", () => {
+  it("answers every case without regressing on the previous run", async () => {
+    const dataset = loadGoldenSet();
+    const report = await runGoldenSet(dataset, env!);
+    const { diff, markdownFile } = await writeReport(env!, report);
+
+    console.log(`Golden set: ${report.summary.passed}/${report.summary.cases} passed - report in ${markdownFile}`);
+    expect(report.cases).toHaveLength(dataset.cases.length);
+    expect(diff?.changes.filter((c) => c.change === "regressed") ?? []).toEqual([]);
+  }, RUN_TIMEOUT_MS);
+});
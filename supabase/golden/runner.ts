@@ -0,0 +1,155 @@
+/**
+ * Golden-set runner: seeds the fixtures, asks rag-chat every question as the fixture user,
+ * scores the answers and writes the report next to the previous run's.
+ *
+ * Runs against a local stack only (`supabase start`, then `supabase functions serve` with
+ * LLM_BACKEND=stub and LLM_STUB_MODE=grounded for the mock LLM, or replay / a real backend to
+ * judge prompt changes). Configuration (env):
+ * - GOLDEN_SUPABASE_URL:      API URL printed by `supabase status` (the harness is skipped without it)
+ * - GOLDEN_SERVICE_ROLE_KEY:  service role key, for seeding
+ * - GOLDEN_ANON_KEY:          anon key, for signing in as the fixture users
+ * - GOLDEN_FUNCTIONS_URL:     functions base URL (default: <GOLDEN_SUPABASE_URL>/functions/v1)
+ * - GOLDEN_PASSWORD:          fixture users' password (default: golden-set-password)
+ * - GOLDEN_REPORT_DIR:        where reports go (default: supabase/golden/reports)
+ * - GOLDEN_BASELINE:          report to compare with (default: the previous run in GOLDEN_REPORT_DIR)
+ * - GOLDEN_LABEL:             shown in the report, e.g. the branch or LLM backend
+ */
+
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { createClient } from "@supabase/supabase-js";
+
+import type { GoldenCase, GoldenSet } from "./dataset.ts";
+import { seedGoldenSet, type SeededUser } from "./seed.ts";
+import {
+  diffReports,
+  failedCase,
+  renderMarkdown,
+  scoreCase,
+  summarize,
+  type CaseResult,
+  type GoldenReport,
+  type RagAnswer,
+  type ReportDiff,
+} from "./scoring.ts";
+
+export interface GoldenEnv {
+  supabaseUrl: string;
+  serviceRoleKey: string;
+  anonKey: string;
+  functionsUrl: string;
+  password: string;
+  reportDir: string;
+  baseline: string | null;
+  label: string;
+}
+
+const LOCAL_HOSTS = new Set(["localhost", "127.0.0.1", "host.docker.internal", "kong"]);
+const LAST_RUN_FILE = "last-run.json";
+
+/**
+ * The harness configuration, or null when GOLDEN_SUPABASE_URL isn't set. Seeding replaces
+ * fixture data, so anything but a local stack is refused
+ */
+export function goldenEnv(env: Record<string, string | undefined> = process.env): GoldenEnv | null {
+  const supabaseUrl = env.GOLDEN_SUPABASE_URL;
+  if (!supabaseUrl) return null;
+
+  if (!LOCAL_HOSTS.has(new URL(supabaseUrl).hostname)) {
+    throw new Error(`The golden set only runs against a local Supabase stack, not ${supabaseUrl}`);
+  }
+  if (!env.GOLDEN_SERVICE_ROLE_KEY || !env.GOLDEN_ANON_KEY) {
+    throw new Error("GOLDEN_SERVICE_ROLE_KEY and GOLDEN_ANON_KEY are required (see `supabase status`)");
+  }
+
+  return {
+    supabaseUrl,
+    serviceRoleKey: env.GOLDEN_SERVICE_ROLE_KEY,
+    anonKey: env.GOLDEN_ANON_KEY,
+    functionsUrl: env.GOLDEN_FUNCTIONS_URL || `${supabaseUrl.replace(/\/$/, "")}/functions/v1`,
+    password: env.GOLDEN_PASSWORD || "golden-set-password",
+    reportDir: env.GOLDEN_REPORT_DIR || path.join("supabase", "golden", "reports"),
+    baseline: env.GOLDEN_BASELINE || null,
+    label: env.GOLDEN_LABEL || "",
+  };
+}
+
+async function askRagChat(env: GoldenEnv, accessToken: string, goldenCase: GoldenCase, user: SeededUser): Promise<RagAnswer> {
+  const response = await fetch(`${env.functionsUrl}/rag-chat`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      apikey: env.anonKey,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      message: goldenCase.question,
+      taskType: goldenCase.taskType ?? "chat",
+      stream: false,
+      followUps: false,
+      selectedCardId: goldenCase.card ? user.cardIds[goldenCase.card] : undefined,
+      selectedCardName: goldenCase.card ? user.cardNames[goldenCase.card] : undefined,
+    }),
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(`rag-chat ${response.status}: ${body.error ?? "no error message"}`);
+  return body as RagAnswer;
+}
+
+/**
+ * Seed, ask every question and score the answers. A failed question is recorded, not thrown
+ */
+export async function runGoldenSet(dataset: GoldenSet, env: GoldenEnv): Promise<GoldenReport> {
+  const admin = createClient(env.supabaseUrl, env.serviceRoleKey, { auth: { persistSession: false } });
+  const users = await seedGoldenSet(admin, dataset, env.password);
+
+  const tokens: Record<string, string> = {};
+  for (const [key, user] of Object.entries(users)) {
+    const client = createClient(env.supabaseUrl, env.anonKey, { auth: { persistSession: false } });
+    const { data, error } = await client.auth.signInWithPassword({ email: user.email, password: env.password });
+    if (error || !data.session) throw new Error(`Could not sign in as ${user.email}: ${error?.message}`);
+    tokens[key] = data.session.access_token;
+  }
+
+  const results: CaseResult[] = [];
+  for (const goldenCase of dataset.cases) {
+    try {
+      const answer = await askRagChat(env, tokens[goldenCase.user], goldenCase, users[goldenCase.user]);
+      results.push(scoreCase(goldenCase, answer));
+    } catch (error) {
+      results.push(failedCase(goldenCase, error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  return {
+    datasetVersion: dataset.version,
+    runAt: new Date().toISOString(),
+    label: env.label,
+    summary: summarize(results),
+    cases: results,
+  };
+}
+
+async function readReport(file: string): Promise<GoldenReport | null> {
+  try {
+    return JSON.parse(await readFile(file, "utf8")) as GoldenReport;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Diff against the baseline (or the previous run), then write last-run.json and report.md
+ */
+export async function writeReport(env: GoldenEnv, report: GoldenReport): Promise<{ diff: ReportDiff | null; markdownFile: string }> {
+  await mkdir(env.reportDir, { recursive: true });
+  const lastRunFile = path.join(env.reportDir, LAST_RUN_FILE);
+  const previous = await readReport(env.baseline ?? lastRunFile);
+  const diff = previous ? diffReports(previous, report) : null;
+
+  const markdownFile = path.join(env.reportDir, "report.md");
+  await writeFile(lastRunFile, JSON.stringify(report, null, 2));
+  await writeFile(markdownFile, renderMarkdown(report, diff));
+  return { diff, markdownFile };
+}
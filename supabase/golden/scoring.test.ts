@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { loadGoldenSet, type GoldenCase } from "./dataset.ts";
+import { containsFact, diffReports, renderMarkdown, scoreCase, summarize, type GoldenReport } from "./scoring.ts";
+
+const statementCase: GoldenCase = {
+  id: "statement-due",
+  user: "asha",
+  question: "What is my total amount due?",
+  expectedFacts: ["₹21,650", "20 Oct 2026"],
+  expectedSources: [{ type: "statement", label: "Infinia" }],
+  forbiddenFacts: ["SimplyCLICK"],
+};
+
+function report(cases: GoldenReport["cases"], runAt: string): GoldenReport {
+  return { datasetVersion: 1, runAt, label: "", summary: summarize(cases), cases };
+}
+
+describe("golden set scoring", () => {
+  it("matches facts however numbers are formatted, but only whole numbers", () => {
+    expect(containsFact("Your total due is Rs. 21650, payable by 20 Oct 2026", "₹21,650")).toBe(true);
+    expect(containsFact('{"Dining":{"amount":3650,"points":121}}', "3650")).toBe(true);
+    expect(containsFact("You spent ₹36,500", "3650")).toBe(false);
+    expect(containsFact("Earn 5X points", "5x")).toBe(true);
+  });
+
+  it("scores facts, cited sources and leaks of other users' data", () => {
+    const answer = {
+      content: "Total amount due ₹21,650 [1]. Your SimplyCLICK card also earns points [2].",
+      citations: [
+        { marker: 1, type: "statement", label: "HDFC Infinia statement (2026-09-30), page 1" },
+        { marker: 2, type: "cards", label: "Your cards and points balances" },
+      ],
+      metadata: { model: "google/gemini-3-flash-preview", cached: false, cost: 0.0004, latencyMs: 900 },
+    };
+
+    expect(scoreCase(statementCase, answer)).toMatchObject({
+      passed: false,
+      factRecall: 0.5,
+      sourceRecall: 1,
+      sourcePrecision: 0.5,
+      missingFacts: ["20 Oct 2026"],
+      forbiddenFound: ["SimplyCLICK"],
+    });
+  });
+
+  it("diffs runs case by case and renders the report", () => {
+    const fixed = scoreCase(statementCase, {
+      content: "₹21,650 is due on 20 Oct 2026 [1]",
+      citations: [{ marker: 1, type: "statement", label: "HDFC Infinia statement" }],
+    });
+    const failing = scoreCase(statementCase, { content: "I couldn't find that in your data." });
+    const previous = report([failing, { ...failing, id: "dropped" }], "2026-10-18T10:00:00.000Z");
+    const current = report([fixed, { ...fixed, id: "added" }], "2026-10-19T10:00:00.000Z");
+
+    const diff = diffReports(previous, current);
+    expect(diff.summary).toEqual({ passed: 2, factRecall: 1, sourceRecall: 1 });
+    expect(diff.changes.map((c) => [c.id, c.change])).toEqual([
+      ["statement-due", "fixed"],
+      ["added", "new"],
+      ["dropped", "removed"],
+    ]);
+    expect(diffReports(current, previous).changes[0]).toMatchObject({
+      change: "regressed",
+      detail: 'missing facts "₹21,650", "20 Oct 2026"; missing sources statement "Infinia"',
+    });
+
+    const markdown = renderMarkdown(current, diff);
+    expect(markdown).toContain("## Golden set v1: 2/2 passed");
+    expect(markdown).toContain("| Fact recall | 100.0% | +100.0% |");
+    expect(markdown).toContain("- **fixed** `statement-due`: now passes");
+  });
+
+  it("ships a dataset whose cases all refer to fixtures", () => {
+    const dataset = loadGoldenSet();
+    expect(dataset.version).toBeGreaterThan(0);
+    expect(dataset.cases.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Golden-set scoring, run-to-run diffs and the markdown report
+ *
+ * A case passes when every expected fact appears in the answer, every expected source is
+ * cited and no forbidden fact appears. Fact recall and source recall/precision are averaged
+ * over the cases that got an answer; a case that errored scores zero.
+ */
+
+import type { ExpectedSource, GoldenCase } from "./dataset.ts";
+
+// The parts of a rag-chat JSON response the harness reads
+export interface RagAnswer {
+  content: string;
+  citations?: { marker: number; type: string; label: string }[];
+  metadata?: { model: string; cached: boolean; cost: number; latencyMs: number };
+}
+
+export interface CaseResult {
+  id: string;
+  passed: boolean;
+  factRecall: number;
+  sourceRecall: number;
+  sourcePrecision: number | null; // null when nothing was cited
+  missingFacts: string[];
+  missingSources: ExpectedSource[];
+  forbiddenFound: string[];
+  model: string | null;
+  cached: boolean;
+  cost: number;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface RunSummary {
+  cases: number;
+  passed: number;
+  factRecall: number;
+  sourceRecall: number;
+  sourcePrecision: number | null;
+  totalCost: number;
+  meanLatencyMs: number;
+}
+
+export interface GoldenReport {
+  datasetVersion: number;
+  runAt: string;
+  label: string; // what was run, e.g. the branch or LLM backend
+  summary: RunSummary;
+  cases: CaseResult[];
+}
+
+export type CaseChange = "fixed" | "regressed" | "new" | "removed" | "score_up" | "score_down";
+
+export interface ReportDiff {
+  comparable: boolean; // false when the dataset versions differ
+  previousRunAt: string;
+  summary: Record<"passed" | "factRecall" | "sourceRecall", number>; // current minus previous
+  changes: { id: string; change: CaseChange; detail: string }[];
+}
+
+/**
+ * Lowercase, without currency markers or digit-group commas, so "₹21,650" matches "Rs. 21650"
+ */
+export function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/₹|\brs\.?\s?|\binr\s?/g, "")
+    .replace(/(?<=\d),(?=\d)/g, "")
+    .replace(/\s+/g, " ");
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Whether a fact appears in the answer; numbers must match whole ("3650" isn't found in "36500")
+ */
+export function containsFact(answer: string, fact: string): boolean {
+  const normalized = normalizeText(fact).trim();
+  const pattern = `${/^\d/.test(normalized) ? "(?<![\\d.])" : ""}${escapeRegExp(normalized)}${/\d$/.test(normalized) ? "(?![\\d])" : ""}`;
+  return new RegExp(pattern).test(normalizeText(answer));
+}
+
+function sourceMatches(expected: ExpectedSource, citation: { type: string; label: string }): boolean {
+  return citation.type === expected.type &&
+    (!expected.label || citation.label.toLowerCase().includes(expected.label.toLowerCase()));
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+export function scoreCase(goldenCase: GoldenCase, answer: RagAnswer): CaseResult {
+  const citations = answer.citations ?? [];
+  const missingFacts = goldenCase.expectedFacts.filter((f) => !containsFact(answer.content, f));
+  const missingSources = goldenCase.expectedSources.filter((s) => !citations.some((c) => sourceMatches(s, c)));
+  const forbiddenFound = (goldenCase.forbiddenFacts ?? []).filter((f) => containsFact(answer.content, f));
+  const relevantCitations = citations.filter((c) => goldenCase.expectedSources.some((s) => sourceMatches(s, c)));
+
+  const recall = (missing: number, total: number) => (total === 0 ? 1 : round((total - missing) / total));
+  return {
+    id: goldenCase.id,
+    passed: missingFacts.length === 0 && missingSources.length === 0 && forbiddenFound.length === 0,
+    factRecall: recall(missingFacts.length, goldenCase.expectedFacts.length),
+    sourceRecall: recall(missingSources.length, goldenCase.expectedSources.length),
+    sourcePrecision: citations.length > 0 ? round(relevantCitations.length / citations.length) : null,
+    missingFacts,
+    missingSources,
+    forbiddenFound,
+    model: answer.metadata?.model ?? null,
+    cached: answer.metadata?.cached ?? false,
+    cost: answer.metadata?.cost ?? 0,
+    latencyMs: answer.metadata?.latencyMs ?? 0,
+  };
+}
+
+export function failedCase(goldenCase: GoldenCase, error: string): CaseResult {
+  return {
+    id: goldenCase.id,
+    passed: false,
+    factRecall: 0,
+    sourceRecall: 0,
+    sourcePrecision: null,
+    missingFacts: goldenCase.expectedFacts,
+    missingSources: goldenCase.expectedSources,
+    forbiddenFound: [],
+    model: null,
+    cached: false,
+    cost: 0,
+    latencyMs: 0,
+    error,
+  };
+}
+
+export function summarize(results: CaseResult[]): RunSummary {
+  const mean = (values: number[]) => (values.length > 0 ? round(values.reduce((a, b) => a + b, 0) / values.length) : 0);
+  const precisions = results.filter((r) => r.sourcePrecision !== null).map((r) => r.sourcePrecision!);
+  return {
+    cases: results.length,
+    passed: results.filter((r) => r.passed).length,
+    factRecall: mean(results.map((r) => r.factRecall)),
+    sourceRecall: mean(results.map((r) => r.sourceRecall)),
+    sourcePrecision: precisions.length > 0 ? mean(precisions) : null,
+    totalCost: results.reduce((sum, r) => sum + r.cost, 0),
+    meanLatencyMs: Math.round(mean(results.filter((r) => !r.error).map((r) => r.latencyMs))),
+  };
+}
+
+/**
+ * What changed since the previous run, case by case
+ */
+export function diffReports(previous: GoldenReport, current: GoldenReport): ReportDiff {
+  const before = new Map(previous.cases.map((c) => [c.id, c]));
+  const after = new Map(current.cases.map((c) => [c.id, c]));
+  const changes: ReportDiff["changes"] = [];
+
+  for (const result of current.cases) {
+    const old = before.get(result.id);
+    if (!old) {
+      changes.push({ id: result.id, change: "new", detail: result.passed ? "passes" : "fails" });
+    } else if (old.passed !== result.passed) {
+      changes.push({
+        id: result.id,
+        change: result.passed ? "fixed" : "regressed",
+        detail: result.passed ? "now passes" : describeFailure(result),
+      });
+    } else {
+      const delta = round(result.factRecall + result.sourceRecall - old.factRecall - old.sourceRecall);
+      if (delta !== 0) {
+        changes.push({
+          id: result.id,
+          change: delta > 0 ? "score_up" : "score_down",
+          detail: `fact recall ${old.factRecall} → ${result.factRecall}, source recall ${old.sourceRecall} → ${result.sourceRecall}`,
+        });
+      }
+    }
+  }
+  for (const old of previous.cases) {
+    if (!after.has(old.id)) changes.push({ id: old.id, change: "removed", detail: "no longer in the dataset" });
+  }
+
+  return {
+    comparable: previous.datasetVersion === current.datasetVersion,
+    previousRunAt: previous.runAt,
+    summary: {
+      passed: current.summary.passed - previous.summary.passed,
+      factRecall: round(current.summary.factRecall - previous.summary.factRecall),
+      sourceRecall: round(current.summary.sourceRecall - previous.summary.sourceRecall),
+    },
+    changes,
+  };
+}
+
+function describeFailure(result: CaseResult): string {
+  if (result.error) return `error: ${result.error}`;
+  return [
+    result.missingFacts.length > 0 ? `missing facts ${result.missingFacts.map((f) => `"${f}"`).join(", ")}` : null,
+    result.missingSources.length > 0
+      ? `missing sources ${result.missingSources.map((s) => (s.label ? `${s.type} "${s.label}"` : s.type)).join(", ")}`
+      : null,
+    result.forbiddenFound.length > 0 ? `forbidden ${result.forbiddenFound.map((f) => `"${f}"`).join(", ")}` : null,
+  ].filter(Boolean).join("; ");
+}
+
+const percent = (value: number | null) => (value === null ? "-" : `${(value * 100).toFixed(1)}%`);
+const signed = (value: number, format: (v: number) => string) => (value > 0 ? `+${format(value)}` : value < 0 ? `-${format(-value)}` : "±0");
+
+/**
+ * The report to attach to a PR
+ */
+export function renderMarkdown(report: GoldenReport, diff: ReportDiff | null): string {
+  const s = report.summary;
+  const lines = [
+    `## Golden set v${report.datasetVersion}: ${s.passed}/${s.cases} passed`,
+    "",
+    `Run ${report.runAt}${report.label ? ` (${report.label})` : ""}` +
+      (diff ? `, compared with ${diff.previousRunAt}${diff.comparable ? "" : " - a different dataset version, so case changes are indicative only"}` : ", no previous run"),
+    "",
+    "| Metric | This run | Change |",
+    "|--------|----------|--------|",
+    `| Passed | ${s.passed}/${s.cases} | ${diff ? signed(diff.summary.passed, String) : "-"} |`,
+    `| Fact recall | ${percent(s.factRecall)} | ${diff ? signed(diff.summary.factRecall, percent) : "-"} |`,
+    `| Source recall | ${percent(s.sourceRecall)} | ${diff ? signed(diff.summary.sourceRecall, percent) : "-"} |`,
+    `| Source precision | ${percent(s.sourcePrecision)} | |`,
+    `| Cost | $${s.totalCost.toFixed(4)} | |`,
+    `| Mean latency | ${s.meanLatencyMs}ms | |`,
+  ];
+
+  if (diff && diff.changes.length > 0) {
+    lines.push("", "### Changes since the previous run", "");
+    for (const change of diff.changes) lines.push(`- **${change.change}** \`${change.id}\`: ${change.detail}`);
+  }
+
+  const failing = report.cases.filter((c) => !c.passed);
+  if (failing.length > 0) {
+    lines.push("", "### Failing cases", "");
+    for (const result of failing) lines.push(`- \`${result.id}\`: ${describeFailure(result)}`);
+  }
+
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,126 @@
+/**
+ * Seeds the golden fixtures into a local Supabase database
+ *
+ * Fixture users are created once (email + GOLDEN_PASSWORD) and their cards, transactions and
+ * statement chunks are replaced on every run; benefit fixtures are replaced by their
+ * golden.test source URL. Each run also bumps the users' data version, so no answer cached by
+ * an earlier run is served, and lifts their AI quotas so the whole set can run at once.
+ * Chunks are stored without embeddings: retrieval finds them by full-text search.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { FixtureUser, GoldenSet } from "./dataset.ts";
+
+export const FIXTURE_SOURCE_URL = "https://golden.test/benefits/";
+
+export interface SeededUser {
+  id: string;
+  email: string;
+  cardIds: Record<string, string>; // FixtureCard key -> credit_cards id
+  cardNames: Record<string, string>;
+}
+
+async function fixtureUserId(supabase: SupabaseClient, email: string, password: string): Promise<string> {
+  const { data: created, error } = await supabase.auth.admin.createUser({ email, password, email_confirm: true });
+  if (created.user) return created.user.id;
+
+  // Already created by an earlier run
+  const { data: listed, error: listError } = await supabase.auth.admin.listUsers({ perPage: 1000 });
+  const existing = listed?.users.find((u) => u.email === email);
+  if (!existing) throw new Error(`Could not create fixture user ${email}: ${error?.message ?? listError?.message}`);
+  await supabase.auth.admin.updateUserById(existing.id, { password });
+  return existing.id;
+}
+
+async function check(label: string, request: PromiseLike<{ error: { message: string } | null }>): Promise<void> {
+  const { error } = await request;
+  if (error) throw new Error(`Seeding ${label} failed: ${error.message}`);
+}
+
+async function seedUser(supabase: SupabaseClient, user: FixtureUser, password: string): Promise<SeededUser> {
+  const id = await fixtureUserId(supabase, user.email, password);
+
+  await check("chunks", supabase.from("document_chunks").delete().eq("user_id", id));
+  await check("statements", supabase.from("pdf_documents").delete().eq("user_id", id));
+  await check("transactions", supabase.from("transactions").delete().eq("user_id", id));
+  await check("cards", supabase.from("credit_cards").delete().eq("user_id", id));
+
+  const cardIds: Record<string, string> = {};
+  const cardNames: Record<string, string> = {};
+  for (const { key, ...card } of user.cards) {
+    const { data, error } = await supabase.from("credit_cards").insert({ ...card, user_id: id }).select("id").single();
+    if (error || !data) throw new Error(`Seeding card ${key} failed: ${error?.message}`);
+    cardIds[key] = data.id;
+    cardNames[key] = `${card.bank_name} ${card.card_name}`;
+  }
+
+  if (user.transactions.length > 0) {
+    await check("transactions", supabase.from("transactions").insert(
+      user.transactions.map(({ card, ...t }) => ({ ...t, user_id: id, card_id: cardIds[card] }))
+    ));
+  }
+
+  for (const statement of user.statements) {
+    const fileName = `golden-${statement.card}-${statement.statement_end}.pdf`;
+    const { data: document, error } = await supabase
+      .from("pdf_documents")
+      .insert({
+        user_id: id,
+        card_id: cardIds[statement.card],
+        file_name: fileName,
+        file_path: `${id}/golden/${fileName}`,
+        statement_start: statement.statement_start,
+        statement_end: statement.statement_end,
+      })
+      .select("id")
+      .single();
+    if (error || !document) throw new Error(`Seeding statement ${fileName} failed: ${error?.message}`);
+
+    const card = user.cards.find((c) => c.key === statement.card)!;
+    await check("chunks", supabase.from("document_chunks").insert(
+      statement.chunks.map((chunk, i) => ({
+        user_id: id,
+        document_id: document.id,
+        chunk_index: i,
+        chunk_text: chunk.text,
+        metadata: {
+          document_id: document.id,
+          bank_name: card.bank_name,
+          card_name: card.card_name,
+          statement_period: { start: statement.statement_start, end: statement.statement_end },
+          page: chunk.page,
+          section: chunk.section,
+        },
+      }))
+    ));
+  }
+
+  await check("quota", supabase.from("ai_quotas").upsert(
+    { user_id: id, requests_per_minute: null, monthly_tokens: null, monthly_cost_usd: null },
+    { onConflict: "user_id" }
+  ));
+  await check("data version", supabase.rpc("bump_user_data_version", { user_uuid: id }));
+
+  return { id, email: user.email, cardIds, cardNames };
+}
+
+/**
+ * Seed every fixture; returns the seeded users by key
+ */
+export async function seedGoldenSet(
+  supabase: SupabaseClient,
+  dataset: GoldenSet,
+  password: string
+): Promise<Record<string, SeededUser>> {
+  await check("benefits", supabase.from("card_benefits").delete().like("source_url", `${FIXTURE_SOURCE_URL}%`));
+  await check("benefits", supabase.from("card_benefits").insert(
+    dataset.benefits.map(({ key, ...benefit }) => ({ ...benefit, source_url: `${FIXTURE_SOURCE_URL}${key}`, is_active: true }))
+  ));
+
+  const users: Record<string, SeededUser> = {};
+  for (const user of dataset.users) {
+    users[user.key] = await seedUser(supabase, user, password);
+  }
+  return users;
+}
@@ -0,0 +1,97 @@
+-- Embeddings are now generated for chunks, benefits and cache entries.
+-- Rows written before the embedding provider existed have NULL vectors;
+-- exclude them from similarity search instead of ranking them with NULL scores.
+
+CREATE OR REPLACE FUNCTION public.find_similar_cache(
+  query_emb vector(1536),
+  similarity_threshold FLOAT DEFAULT 0.92,
+  max_results INT DEFAULT 1
+)
+RETURNS TABLE (
+  id UUID,
+  query_text TEXT,
+  response TEXT,
+  similarity FLOAT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT 
+    qc.id,
+    qc.query_text,
+    qc.response,
+    1 - (qc.query_embedding <=> query_emb) as similarity
+  FROM public.query_cache qc
+  WHERE qc.expires_at > now()
+    AND qc.query_embedding IS NOT NULL
+    AND 1 - (qc.query_embedding <=> query_emb) > similarity_threshold
+  ORDER BY qc.query_embedding <=> query_emb
+  LIMIT max_results;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_documents(
+  user_uuid UUID,
+  query_emb vector(1536),
+  match_count INT DEFAULT 5
+)
+RETURNS TABLE (
+  id UUID,
+  chunk_text TEXT,
+  metadata JSONB,
+  similarity FLOAT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT 
+    dc.id,
+    dc.chunk_text,
+    dc.metadata,
+    1 - (dc.embedding <=> query_emb) as similarity
+  FROM public.document_chunks dc
+  WHERE dc.user_id = user_uuid
+    AND dc.embedding IS NOT NULL
+  ORDER BY dc.embedding <=> query_emb
+  LIMIT match_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_benefits(
+  query_emb vector(1536),
+  match_count INT DEFAULT 5
+)
+RETURNS TABLE (
+  id UUID,
+  bank_name TEXT,
+  card_name TEXT,
+  benefit_title TEXT,
+  benefit_description TEXT,
+  similarity FLOAT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT 
+    cb.id,
+    cb.bank_name,
+    cb.card_name,
+    cb.benefit_title,
+    cb.benefit_description,
+    1 - (cb.embedding <=> query_emb) as similarity
+  FROM public.card_benefits cb
+  WHERE cb.is_active = true
+    AND cb.embedding IS NOT NULL
+  ORDER BY cb.embedding <=> query_emb
+  LIMIT match_count;
+END;
+$$;
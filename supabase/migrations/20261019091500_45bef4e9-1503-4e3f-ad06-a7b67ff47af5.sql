@@ -0,0 +1,6 @@
+-- Statement chunking: parse-pdf re-indexes a document by upserting on
+-- (document_id, chunk_index) and deleting leftover chunks, so re-parsing
+-- the same statement never duplicates RAG context.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_document_chunks_document_chunk
+ON public.document_chunks (document_id, chunk_index);
+
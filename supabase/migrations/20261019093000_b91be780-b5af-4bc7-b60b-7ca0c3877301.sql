@@ -0,0 +1,21 @@
+-- Record statement template extraction outcomes atomically
+-- (parse-pdf runs concurrently, so counters are not read-modify-written client side)
+CREATE OR REPLACE FUNCTION public.record_template_extraction(_template_id uuid, _success boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE statement_templates
+  SET
+    extraction_success_count = extraction_success_count + CASE WHEN _success THEN 1 ELSE 0 END,
+    extraction_failure_count = extraction_failure_count + CASE WHEN _success THEN 0 ELSE 1 END,
+    last_successful_extraction = CASE WHEN _success THEN now() ELSE last_successful_extraction END
+  WHERE id = _template_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_template_extraction(uuid, boolean) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_template_extraction(uuid, boolean) TO service_role;
+
@@ -0,0 +1,49 @@
+-- Duplicate statement detection: uploaded file hash, card and statement period per document
+ALTER TABLE public.pdf_documents
+  ADD COLUMN content_hash TEXT,
+  ADD COLUMN card_id UUID REFERENCES public.credit_cards(id) ON DELETE SET NULL,
+  ADD COLUMN statement_start DATE,
+  ADD COLUMN statement_end DATE;
+
+CREATE INDEX idx_pdf_documents_content_hash ON public.pdf_documents(user_id, content_hash);
+CREATE INDEX idx_pdf_documents_card_period ON public.pdf_documents(card_id, statement_start, statement_end);
+
+-- Backfill card and period for documents parsed before this migration
+UPDATE public.pdf_documents d
+SET
+  statement_start = CASE WHEN d.parsed_data->'statement_period'->>'start' ~ '^\d{4}-\d{2}-\d{2}$'
+    THEN (d.parsed_data->'statement_period'->>'start')::date END,
+  statement_end = CASE WHEN d.parsed_data->'statement_period'->>'end' ~ '^\d{4}-\d{2}-\d{2}$'
+    THEN (d.parsed_data->'statement_period'->>'end')::date END,
+  card_id = (
+    SELECT t.card_id FROM public.transactions t
+    WHERE t.document_id = d.id AND t.card_id IS NOT NULL
+    LIMIT 1
+  )
+WHERE d.parsed_data IS NOT NULL;
+
+-- Transaction fingerprint: sha256 of date | amount | normalized merchant | occurrence
+-- (occurrence keeps genuine same-day repeats on one statement apart)
+ALTER TABLE public.transactions ADD COLUMN fingerprint TEXT;
+
+-- Backfill; occurrences are counted per card so earlier double imports stay distinct
+UPDATE public.transactions t
+SET fingerprint = f.fingerprint
+FROM (
+  SELECT
+    id,
+    encode(sha256(convert_to(
+      transaction_date::text || '|' || round(amount::numeric, 2)::text || '|' || normalized || '|' ||
+      row_number() OVER (PARTITION BY user_id, card_id, transaction_date, round(amount::numeric, 2), normalized ORDER BY created_at, id)::text,
+      'UTF8'
+    )), 'hex') AS fingerprint
+  FROM (
+    SELECT
+      id, user_id, card_id, transaction_date, amount, created_at,
+      btrim(regexp_replace(lower(coalesce(merchant_name, description)), '[^a-z0-9]+', ' ', 'g')) AS normalized
+    FROM public.transactions
+  ) n
+) f
+WHERE t.id = f.id;
+
+CREATE UNIQUE INDEX idx_transactions_fingerprint ON public.transactions(user_id, card_id, fingerprint);
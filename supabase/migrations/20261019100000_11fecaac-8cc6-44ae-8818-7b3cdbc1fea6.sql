@@ -0,0 +1,32 @@
+-- Parse jobs: stage and progress of each parse-pdf run, followed by the upload page
+CREATE TABLE public.parse_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  document_id UUID REFERENCES public.pdf_documents(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+  stage TEXT NOT NULL DEFAULT 'queued',
+  progress INTEGER NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+  pages_total INTEGER,
+  pages_processed INTEGER NOT NULL DEFAULT 0,
+  result JSONB, -- final parse-pdf response body (success or structured error)
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+ALTER TABLE public.parse_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Written by parse-pdf (service role); users only follow their own jobs
+CREATE POLICY "Users can view their own parse jobs"
+ON public.parse_jobs FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_parse_jobs_document ON public.parse_jobs(document_id, created_at DESC);
+
+CREATE TRIGGER update_parse_jobs_updated_at
+BEFORE UPDATE ON public.parse_jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Allow clients to subscribe to progress updates
+ALTER PUBLICATION supabase_realtime ADD TABLE public.parse_jobs;
@@ -0,0 +1,41 @@
+-- Statement summaries: dues, limits and the reward balance printed on each statement
+CREATE TABLE public.statement_summaries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  document_id UUID NOT NULL UNIQUE REFERENCES public.pdf_documents(id) ON DELETE CASCADE,
+  card_id UUID REFERENCES public.credit_cards(id) ON DELETE SET NULL,
+  statement_start DATE,
+  statement_end DATE,
+  opening_reward_points INTEGER,
+  closing_reward_points INTEGER,
+  points_earned INTEGER,
+  points_redeemed INTEGER,
+  points_expired INTEGER,
+  total_amount_due NUMERIC(12, 2),
+  minimum_amount_due NUMERIC(12, 2),
+  payment_due_date DATE,
+  credit_limit NUMERIC(12, 2),
+  available_credit_limit NUMERIC(12, 2),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.statement_summaries ENABLE ROW LEVEL SECURITY;
+
+-- Written by parse-pdf (service role)
+CREATE POLICY "Users can view their own statement summaries"
+ON public.statement_summaries FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Latest statement per card: its closing reward balance is the card's points
+CREATE INDEX idx_statement_summaries_card ON public.statement_summaries(card_id, statement_end DESC);
+
+CREATE TRIGGER update_statement_summaries_updated_at
+BEFORE UPDATE ON public.statement_summaries
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Payment reminders created from the statement due date
+ALTER TABLE public.user_alerts DROP CONSTRAINT user_alerts_alert_type_check;
+ALTER TABLE public.user_alerts ADD CONSTRAINT user_alerts_alert_type_check
+  CHECK (alert_type IN ('expiring_points', 'milestone', 'new_partner', 'promo', 'security', 'payment_due'));
@@ -0,0 +1,150 @@
+-- Points expiry ledger: reward points scheduled to lapse, per card, from the latest statement
+CREATE TABLE public.points_expiry_ledger (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  card_id UUID NOT NULL REFERENCES public.credit_cards(id) ON DELETE CASCADE,
+  document_id UUID REFERENCES public.pdf_documents(id) ON DELETE SET NULL,
+  expiry_date DATE NOT NULL,
+  points INTEGER NOT NULL CHECK (points > 0),
+  -- "Expiring in the next N days" columns: expiry_date is the latest possible date
+  is_estimate BOOLEAN NOT NULL DEFAULT false,
+  -- Last alert raised for the entry and its priority (alerts are only repeated on escalation)
+  alert_id UUID REFERENCES public.user_alerts(id) ON DELETE SET NULL,
+  alerted_priority TEXT CHECK (alerted_priority IN ('low', 'medium', 'high', 'urgent')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (card_id, expiry_date)
+);
+
+ALTER TABLE public.points_expiry_ledger ENABLE ROW LEVEL SECURITY;
+
+-- Written by parse-pdf and the alert job (service role)
+CREATE POLICY "Users can view their own points expiry"
+ON public.points_expiry_ledger FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_points_expiry_ledger_date ON public.points_expiry_ledger(expiry_date);
+
+CREATE TRIGGER update_points_expiry_ledger_updated_at
+BEFORE UPDATE ON public.points_expiry_ledger
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Raise expiring_points alerts for ledger entries due within 60 days, escalating priority
+-- as the date approaches. An unread alert for the same card and date is updated instead of
+-- duplicated; a read or dismissed one is raised again only when its priority escalates.
+-- Also escalates unread payment reminders. Returns the number of alerts raised or updated.
+CREATE OR REPLACE FUNCTION public.generate_expiring_points_alerts(_user_id uuid DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _levels CONSTANT TEXT[] := ARRAY['low', 'medium', 'high', 'urgent'];
+  _entry RECORD;
+  _days INTEGER;
+  _priority TEXT;
+  _alert_id UUID;
+  _title TEXT;
+  _description TEXT;
+  _changed INTEGER := 0;
+BEGIN
+  -- Lapsed points are no longer actionable
+  DELETE FROM user_alerts a
+  USING points_expiry_ledger l
+  WHERE a.id = l.alert_id
+    AND l.expiry_date < current_date
+    AND (_user_id IS NULL OR l.user_id = _user_id);
+  DELETE FROM points_expiry_ledger
+  WHERE expiry_date < current_date
+    AND (_user_id IS NULL OR user_id = _user_id);
+
+  FOR _entry IN
+    SELECT l.*, c.bank_name, c.card_name
+    FROM points_expiry_ledger l
+    JOIN credit_cards c ON c.id = l.card_id
+    WHERE l.expiry_date <= current_date + 60
+      AND (_user_id IS NULL OR l.user_id = _user_id)
+  LOOP
+    _days := _entry.expiry_date - current_date;
+    _priority := CASE
+      WHEN _days <= 7 THEN 'urgent'
+      WHEN _days <= 14 THEN 'high'
+      WHEN _days <= 30 THEN 'medium'
+      ELSE 'low'
+    END;
+
+    CONTINUE WHEN _entry.alerted_priority IS NOT NULL
+      AND array_position(_levels, _priority) <= array_position(_levels, _entry.alerted_priority);
+
+    _title := to_char(_entry.points, 'FM999,999,999') || ' points expire '
+      || CASE WHEN _entry.is_estimate THEN 'by ' ELSE 'on ' END
+      || to_char(_entry.expiry_date, 'FMDD Mon YYYY');
+    _description := format(
+      '%s %s - %s left to redeem or transfer them.',
+      _entry.bank_name,
+      _entry.card_name,
+      CASE WHEN _days = 0 THEN 'last day' WHEN _days = 1 THEN '1 day' ELSE _days || ' days' END
+    );
+
+    SELECT id INTO _alert_id
+    FROM user_alerts
+    WHERE user_id = _entry.user_id
+      AND card_id = _entry.card_id
+      AND alert_type = 'expiring_points'
+      AND is_read = false
+      AND (id = _entry.alert_id OR expires_at::date BETWEEN _entry.expiry_date AND _entry.expiry_date + 1)
+    ORDER BY (id = _entry.alert_id) DESC, created_at DESC
+    LIMIT 1;
+
+    IF _alert_id IS NOT NULL THEN
+      UPDATE user_alerts
+      SET priority = _priority, title = _title, description = _description
+      WHERE id = _alert_id;
+    ELSE
+      INSERT INTO user_alerts (user_id, card_id, alert_type, title, description, priority, expires_at)
+      VALUES (
+        _entry.user_id,
+        _entry.card_id,
+        'expiring_points',
+        _title,
+        _description,
+        _priority,
+        (_entry.expiry_date + 1)::timestamptz
+      )
+      RETURNING id INTO _alert_id;
+    END IF;
+
+    UPDATE points_expiry_ledger
+    SET alert_id = _alert_id, alerted_priority = _priority
+    WHERE id = _entry.id;
+    _changed := _changed + 1;
+  END LOOP;
+
+  -- Payment reminders (expiring the day after the due date) escalate the same way
+  UPDATE user_alerts
+  SET priority = CASE
+    WHEN expires_at::date - 1 - current_date <= 3 THEN 'urgent'
+    ELSE 'high'
+  END
+  WHERE alert_type = 'payment_due'
+    AND is_read = false
+    AND expires_at > now()
+    AND expires_at::date - 1 - current_date <= 7
+    AND priority IS DISTINCT FROM 'urgent'
+    AND (_user_id IS NULL OR user_id = _user_id);
+
+  RETURN _changed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_expiring_points_alerts(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.generate_expiring_points_alerts(uuid) TO service_role;
+
+-- Daily run (parse-pdf also runs it for the uploading user right after a statement is imported)
+SELECT cron.schedule(
+  'generate-expiring-points-alerts',
+  '30 2 * * *',
+  $$SELECT public.generate_expiring_points_alerts()$$
+);
@@ -0,0 +1,59 @@
+-- Chat conversations: titled threads whose turns are stored server-side by rag-chat
+CREATE TABLE public.chat_conversations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  card_id UUID REFERENCES public.credit_cards(id) ON DELETE SET NULL,
+  last_message_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.chat_conversations ENABLE ROW LEVEL SECURITY;
+
+-- Created by rag-chat (service role); users list, rename and delete their own
+CREATE POLICY "Users can view their own conversations"
+ON public.chat_conversations FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own conversations"
+ON public.chat_conversations FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own conversations"
+ON public.chat_conversations FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_chat_conversations_user ON public.chat_conversations(user_id, last_message_at DESC);
+
+CREATE TRIGGER update_chat_conversations_updated_at
+BEFORE UPDATE ON public.chat_conversations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Turns belong to a conversation and keep the assistant's response metadata
+ALTER TABLE public.chat_messages
+  ADD COLUMN conversation_id UUID REFERENCES public.chat_conversations(id) ON DELETE CASCADE,
+  ADD COLUMN model TEXT,
+  ADD COLUMN cached BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN personalized BOOLEAN,
+  ADD COLUMN context_sources TEXT[],
+  ADD COLUMN follow_up_questions TEXT[];
+
+-- Existing messages move into one conversation per user
+INSERT INTO public.chat_conversations (user_id, title, last_message_at, created_at)
+SELECT user_id, 'Earlier conversation', max(created_at), min(created_at)
+FROM public.chat_messages
+GROUP BY user_id;
+
+UPDATE public.chat_messages m
+SET conversation_id = c.id
+FROM public.chat_conversations c
+WHERE c.user_id = m.user_id AND c.title = 'Earlier conversation';
+
+ALTER TABLE public.chat_messages ALTER COLUMN conversation_id SET NOT NULL;
+
+CREATE INDEX idx_chat_messages_conversation ON public.chat_messages(conversation_id, created_at);
+
+-- History is written by rag-chat only, so a client can't plant turns it will replay to the model
+DROP POLICY "Users can insert their own messages" ON public.chat_messages;
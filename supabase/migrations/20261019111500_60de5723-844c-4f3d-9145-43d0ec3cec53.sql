@@ -0,0 +1,3 @@
+-- Standalone question rag-chat used for cache lookup and retrieval, when it differs from
+-- the user's message (follow-ups rewritten with the conversation's recent turns)
+ALTER TABLE public.ai_evaluations ADD COLUMN rewritten_query TEXT;
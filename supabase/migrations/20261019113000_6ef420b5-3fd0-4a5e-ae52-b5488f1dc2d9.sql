@@ -0,0 +1,2 @@
+-- Tools the assistant called for a turn in tool-calling mode (name, arguments, result summary)
+ALTER TABLE public.chat_messages ADD COLUMN tool_calls JSONB;
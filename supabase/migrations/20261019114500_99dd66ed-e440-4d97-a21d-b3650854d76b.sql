@@ -0,0 +1,43 @@
+-- Citations: benefit hits carry their source page, and answers keep the sources they cite
+
+-- The return type changes, so the function is recreated
+DROP FUNCTION IF EXISTS public.search_benefits(vector, integer);
+
+CREATE FUNCTION public.search_benefits(
+  query_emb vector(1536),
+  match_count INT DEFAULT 5
+)
+RETURNS TABLE (
+  id UUID,
+  bank_name TEXT,
+  card_name TEXT,
+  benefit_title TEXT,
+  benefit_description TEXT,
+  source_url TEXT,
+  similarity FLOAT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT 
+    cb.id,
+    cb.bank_name,
+    cb.card_name,
+    cb.benefit_title,
+    cb.benefit_description,
+    cb.source_url,
+    1 - (cb.embedding <=> query_emb) as similarity
+  FROM public.card_benefits cb
+  WHERE cb.is_active = true
+    AND cb.embedding IS NOT NULL
+  ORDER BY cb.embedding <=> query_emb
+  LIMIT match_count;
+END;
+$$;
+
+-- Sources cited by an answer (marker number, type, label and link target)
+ALTER TABLE public.chat_messages ADD COLUMN citations JSONB;
+ALTER TABLE public.query_cache ADD COLUMN citations JSONB;
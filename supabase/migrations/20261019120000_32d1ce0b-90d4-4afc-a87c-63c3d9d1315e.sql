@@ -0,0 +1,98 @@
+-- Hybrid retrieval: full-text search next to the vector search, fused in rag-chat.
+-- Generated tsvector columns keep the lexical index in step with the text.
+
+ALTER TABLE public.document_chunks
+  ADD COLUMN search_tsv tsvector GENERATED ALWAYS AS (to_tsvector('english', coalesce(chunk_text, ''))) STORED;
+
+-- Title terms outweigh description terms; bank and card names match either
+ALTER TABLE public.card_benefits
+  ADD COLUMN search_tsv tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(bank_name, '') || ' ' || coalesce(card_name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(benefit_title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(benefit_description, '')), 'B')
+  ) STORED;
+
+CREATE INDEX idx_document_chunks_search_tsv ON public.document_chunks USING GIN (search_tsv);
+CREATE INDEX idx_card_benefits_search_tsv ON public.card_benefits USING GIN (search_tsv);
+
+-- Questions are natural language, so any query term may match (OR), ranked by cover density
+CREATE OR REPLACE FUNCTION public.search_documents_text(
+  user_uuid UUID,
+  query_text TEXT,
+  match_count INT DEFAULT 20
+)
+RETURNS TABLE (
+  id UUID,
+  chunk_text TEXT,
+  metadata JSONB,
+  rank FLOAT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  q tsquery := nullif(replace(plainto_tsquery('english', query_text)::text, '&', '|'), '')::tsquery;
+BEGIN
+  IF q IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    dc.id,
+    dc.chunk_text,
+    dc.metadata,
+    ts_rank_cd(dc.search_tsv, q)::FLOAT
+  FROM public.document_chunks dc
+  WHERE dc.user_id = user_uuid
+    AND dc.search_tsv @@ q
+  ORDER BY ts_rank_cd(dc.search_tsv, q) DESC
+  LIMIT match_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_benefits_text(
+  query_text TEXT,
+  match_count INT DEFAULT 20
+)
+RETURNS TABLE (
+  id UUID,
+  bank_name TEXT,
+  card_name TEXT,
+  benefit_title TEXT,
+  benefit_description TEXT,
+  source_url TEXT,
+  rank FLOAT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  q tsquery := nullif(replace(plainto_tsquery('english', query_text)::text, '&', '|'), '')::tsquery;
+BEGIN
+  IF q IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    cb.id,
+    cb.bank_name,
+    cb.card_name,
+    cb.benefit_title,
+    cb.benefit_description,
+    cb.source_url,
+    ts_rank_cd(cb.search_tsv, q)::FLOAT
+  FROM public.card_benefits cb
+  WHERE cb.is_active = true
+    AND cb.search_tsv @@ q
+  ORDER BY ts_rank_cd(cb.search_tsv, q) DESC
+  LIMIT match_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.search_documents_text(uuid, text, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_documents_text(uuid, text, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION public.search_benefits_text(text, integer) TO service_role;
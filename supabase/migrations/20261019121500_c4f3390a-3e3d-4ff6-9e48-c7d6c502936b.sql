@@ -0,0 +1,302 @@
+-- Card catalogue: one canonical row per bank + card, linking users' credit_cards to the
+-- card_benefits knowledge base by id instead of by name matching.
+-- Search RPCs take card/bank/category filters and a similarity floor, applied in SQL
+-- before the match limit.
+
+-- "HDFC Bank" + "Regalia Credit Card" and "HDFC" + "HDFC Regalia" both become "hdfc:regalia"
+CREATE OR REPLACE FUNCTION public.card_catalog_key(bank TEXT, card TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  b TEXT := regexp_replace(regexp_replace(lower(coalesce(bank, '')), '\m(bank|card|cards|ltd|limited)\M', '', 'g'), '[^a-z0-9]', '', 'g');
+  c TEXT := regexp_replace(regexp_replace(lower(coalesce(card, '')), '\m(credit|debit|card|bank)\M', '', 'g'), '[^a-z0-9]', '', 'g');
+BEGIN
+  IF b <> '' AND length(c) > length(b) AND left(c, length(b)) = b THEN
+    c := substr(c, length(b) + 1);
+  END IF;
+  RETURN b || ':' || c;
+END;
+$$;
+
+CREATE TABLE public.card_catalog (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  bank_name TEXT NOT NULL,
+  card_name TEXT NOT NULL,
+  card_key TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.card_catalog ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read the card catalog"
+ON public.card_catalog FOR SELECT
+USING (true);
+
+CREATE TRIGGER update_card_catalog_updated_at
+BEFORE UPDATE ON public.card_catalog
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.card_benefits
+  ADD COLUMN catalog_card_id UUID REFERENCES public.card_catalog(id) ON DELETE SET NULL;
+ALTER TABLE public.credit_cards
+  ADD COLUMN catalog_card_id UUID REFERENCES public.card_catalog(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_card_benefits_catalog_card_id ON public.card_benefits(catalog_card_id);
+CREATE INDEX idx_credit_cards_catalog_card_id ON public.credit_cards(catalog_card_id);
+
+-- Backfill: the benefits knowledge base defines the catalogue
+INSERT INTO public.card_catalog (bank_name, card_name, card_key)
+SELECT DISTINCT ON (public.card_catalog_key(bank_name, card_name)) bank_name, card_name, public.card_catalog_key(bank_name, card_name)
+FROM public.card_benefits
+ORDER BY public.card_catalog_key(bank_name, card_name), last_updated DESC
+ON CONFLICT (card_key) DO NOTHING;
+
+UPDATE public.card_benefits cb
+SET catalog_card_id = cc.id
+FROM public.card_catalog cc
+WHERE cc.card_key = public.card_catalog_key(cb.bank_name, cb.card_name);
+
+UPDATE public.credit_cards c
+SET catalog_card_id = cc.id
+FROM public.card_catalog cc
+WHERE cc.card_key = public.card_catalog_key(c.bank_name, c.card_name);
+
+-- New benefits add their card to the catalogue (and link users' cards that were waiting for it)
+CREATE OR REPLACE FUNCTION public.link_card_benefit_to_catalog()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  catalog_key TEXT := public.card_catalog_key(NEW.bank_name, NEW.card_name);
+  new_id UUID;
+BEGIN
+  INSERT INTO public.card_catalog (bank_name, card_name, card_key)
+  VALUES (NEW.bank_name, NEW.card_name, catalog_key)
+  ON CONFLICT (card_key) DO NOTHING
+  RETURNING id INTO new_id;
+
+  IF new_id IS NOT NULL THEN
+    UPDATE public.credit_cards
+    SET catalog_card_id = new_id
+    WHERE catalog_card_id IS NULL
+      AND public.card_catalog_key(bank_name, card_name) = catalog_key;
+  END IF;
+
+  SELECT id INTO NEW.catalog_card_id FROM public.card_catalog WHERE card_key = catalog_key;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER link_card_benefits_to_catalog
+BEFORE INSERT OR UPDATE OF bank_name, card_name ON public.card_benefits
+FOR EACH ROW
+EXECUTE FUNCTION public.link_card_benefit_to_catalog();
+
+-- Users' cards only link to existing catalogue entries
+CREATE OR REPLACE FUNCTION public.link_credit_card_to_catalog()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT id INTO NEW.catalog_card_id
+  FROM public.card_catalog
+  WHERE card_key = public.card_catalog_key(NEW.bank_name, NEW.card_name);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER link_credit_cards_to_catalog
+BEFORE INSERT OR UPDATE OF bank_name, card_name ON public.credit_cards
+FOR EACH ROW
+EXECUTE FUNCTION public.link_credit_card_to_catalog();
+
+-- Filtered search. The argument lists change, so the functions are recreated
+DROP FUNCTION IF EXISTS public.search_documents(uuid, vector, integer);
+DROP FUNCTION IF EXISTS public.search_benefits(vector, integer);
+DROP FUNCTION IF EXISTS public.search_documents_text(uuid, text, integer);
+DROP FUNCTION IF EXISTS public.search_benefits_text(text, integer);
+
+-- filter_card_id is the user's credit_cards id (chunks link to it through their statement)
+CREATE FUNCTION public.search_documents(
+  user_uuid UUID,
+  query_emb vector(1536),
+  match_count INT DEFAULT 5,
+  filter_card_id UUID DEFAULT NULL,
+  filter_bank TEXT DEFAULT NULL,
+  min_similarity FLOAT DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  chunk_text TEXT,
+  metadata JSONB,
+  similarity FLOAT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    dc.id,
+    dc.chunk_text,
+    dc.metadata,
+    1 - (dc.embedding <=> query_emb) as similarity
+  FROM public.document_chunks dc
+  LEFT JOIN public.pdf_documents pd ON pd.id = dc.document_id
+  WHERE dc.user_id = user_uuid
+    AND dc.embedding IS NOT NULL
+    AND (filter_card_id IS NULL OR pd.card_id = filter_card_id)
+    AND (filter_bank IS NULL OR split_part(public.card_catalog_key(dc.metadata->>'bank_name', ''), ':', 1) = split_part(public.card_catalog_key(filter_bank, ''), ':', 1))
+    AND 1 - (dc.embedding <=> query_emb) >= min_similarity
+  ORDER BY dc.embedding <=> query_emb
+  LIMIT match_count;
+END;
+$$;
+
+CREATE FUNCTION public.search_benefits(
+  query_emb vector(1536),
+  match_count INT DEFAULT 5,
+  filter_catalog_card_id UUID DEFAULT NULL,
+  filter_bank TEXT DEFAULT NULL,
+  filter_category TEXT DEFAULT NULL,
+  min_similarity FLOAT DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  bank_name TEXT,
+  card_name TEXT,
+  benefit_title TEXT,
+  benefit_description TEXT,
+  source_url TEXT,
+  similarity FLOAT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    cb.id,
+    cb.bank_name,
+    cb.card_name,
+    cb.benefit_title,
+    cb.benefit_description,
+    cb.source_url,
+    1 - (cb.embedding <=> query_emb) as similarity
+  FROM public.card_benefits cb
+  WHERE cb.is_active = true
+    AND cb.embedding IS NOT NULL
+    AND (filter_catalog_card_id IS NULL OR cb.catalog_card_id = filter_catalog_card_id)
+    AND (filter_bank IS NULL OR split_part(public.card_catalog_key(cb.bank_name, ''), ':', 1) = split_part(public.card_catalog_key(filter_bank, ''), ':', 1))
+    AND (filter_category IS NULL OR lower(cb.benefit_category) = lower(filter_category))
+    AND 1 - (cb.embedding <=> query_emb) >= min_similarity
+  ORDER BY cb.embedding <=> query_emb
+  LIMIT match_count;
+END;
+$$;
+
+CREATE FUNCTION public.search_documents_text(
+  user_uuid UUID,
+  query_text TEXT,
+  match_count INT DEFAULT 20,
+  filter_card_id UUID DEFAULT NULL,
+  filter_bank TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  chunk_text TEXT,
+  metadata JSONB,
+  rank FLOAT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  q tsquery := nullif(replace(plainto_tsquery('english', query_text)::text, '&', '|'), '')::tsquery;
+BEGIN
+  IF q IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    dc.id,
+    dc.chunk_text,
+    dc.metadata,
+    ts_rank_cd(dc.search_tsv, q)::FLOAT
+  FROM public.document_chunks dc
+  LEFT JOIN public.pdf_documents pd ON pd.id = dc.document_id
+  WHERE dc.user_id = user_uuid
+    AND dc.search_tsv @@ q
+    AND (filter_card_id IS NULL OR pd.card_id = filter_card_id)
+    AND (filter_bank IS NULL OR split_part(public.card_catalog_key(dc.metadata->>'bank_name', ''), ':', 1) = split_part(public.card_catalog_key(filter_bank, ''), ':', 1))
+  ORDER BY ts_rank_cd(dc.search_tsv, q) DESC
+  LIMIT match_count;
+END;
+$$;
+
+CREATE FUNCTION public.search_benefits_text(
+  query_text TEXT,
+  match_count INT DEFAULT 20,
+  filter_catalog_card_id UUID DEFAULT NULL,
+  filter_bank TEXT DEFAULT NULL,
+  filter_category TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  bank_name TEXT,
+  card_name TEXT,
+  benefit_title TEXT,
+  benefit_description TEXT,
+  source_url TEXT,
+  rank FLOAT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  q tsquery := nullif(replace(plainto_tsquery('english', query_text)::text, '&', '|'), '')::tsquery;
+BEGIN
+  IF q IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    cb.id,
+    cb.bank_name,
+    cb.card_name,
+    cb.benefit_title,
+    cb.benefit_description,
+    cb.source_url,
+    ts_rank_cd(cb.search_tsv, q)::FLOAT
+  FROM public.card_benefits cb
+  WHERE cb.is_active = true
+    AND cb.search_tsv @@ q
+    AND (filter_catalog_card_id IS NULL OR cb.catalog_card_id = filter_catalog_card_id)
+    AND (filter_bank IS NULL OR split_part(public.card_catalog_key(cb.bank_name, ''), ':', 1) = split_part(public.card_catalog_key(filter_bank, ''), ':', 1))
+    AND (filter_category IS NULL OR lower(cb.benefit_category) = lower(filter_category))
+  ORDER BY ts_rank_cd(cb.search_tsv, q) DESC
+  LIMIT match_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.search_documents(uuid, vector, integer, uuid, text, double precision) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.search_documents_text(uuid, text, integer, uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_documents(uuid, vector, integer, uuid, text, double precision) TO service_role;
+GRANT EXECUTE ON FUNCTION public.search_documents_text(uuid, text, integer, uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.search_benefits(vector, integer, uuid, text, text, double precision) TO service_role;
+GRANT EXECUTE ON FUNCTION public.search_benefits_text(text, integer, uuid, text, text) TO service_role;
@@ -0,0 +1,136 @@
+-- Cache scoping: every cache row carries the scope it was answered for ('public' for
+-- answers built without user data, 'user:<id>:card:<id|all>' otherwise) and the user's
+-- data version at the time. find_similar_cache filters on both, so a semantic hit can't
+-- return another user's answer or one computed before the user's latest upload.
+
+-- Rows written before scoping can't be attributed safely: retire them
+ALTER TABLE public.query_cache ADD COLUMN scope TEXT;
+UPDATE public.query_cache SET scope = 'legacy', expires_at = LEAST(expires_at, now());
+ALTER TABLE public.query_cache ALTER COLUMN scope SET NOT NULL;
+ALTER TABLE public.query_cache ALTER COLUMN scope SET DEFAULT 'public';
+ALTER TABLE public.query_cache ADD COLUMN data_version BIGINT NOT NULL DEFAULT 0;
+
+CREATE INDEX idx_query_cache_scope ON public.query_cache(scope, data_version, expires_at);
+
+-- Per-user data version, bumped whenever cards or imported statements change
+CREATE TABLE public.user_data_versions (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  version BIGINT NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.user_data_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own data version"
+ON public.user_data_versions FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_user_data_versions_updated_at
+BEFORE UPDATE ON public.user_data_versions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Users who already have data start at version 1 (version 0 means "no personal data yet")
+INSERT INTO public.user_data_versions (user_id, version)
+SELECT DISTINCT user_id, 1 FROM public.credit_cards
+UNION
+SELECT DISTINCT user_id, 1 FROM public.pdf_documents
+ON CONFLICT (user_id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.bump_user_data_version(user_uuid UUID)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_version BIGINT;
+BEGIN
+  UPDATE public.user_data_versions
+  SET version = version + 1
+  WHERE user_id = user_uuid
+  RETURNING version INTO new_version;
+
+  -- First change for this user (skipped while the account itself is being deleted)
+  IF new_version IS NULL THEN
+    INSERT INTO public.user_data_versions (user_id, version)
+    SELECT user_uuid, 1
+    WHERE EXISTS (SELECT 1 FROM auth.users WHERE id = user_uuid)
+    ON CONFLICT (user_id) DO UPDATE SET version = public.user_data_versions.version + 1
+    RETURNING version INTO new_version;
+  END IF;
+
+  RETURN COALESCE(new_version, 0);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.bump_user_data_version(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.bump_user_data_version(uuid) TO service_role;
+
+-- Card edits (from the app or parse-pdf) and statement deletions change what answers depend on
+CREATE OR REPLACE FUNCTION public.bump_data_version_on_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.bump_user_data_version(COALESCE(NEW.user_id, OLD.user_id));
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER bump_data_version_on_credit_cards
+AFTER INSERT OR UPDATE OR DELETE ON public.credit_cards
+FOR EACH ROW
+EXECUTE FUNCTION public.bump_data_version_on_change();
+
+CREATE TRIGGER bump_data_version_on_pdf_documents_delete
+AFTER DELETE ON public.pdf_documents
+FOR EACH ROW
+EXECUTE FUNCTION public.bump_data_version_on_change();
+
+-- Scoped semantic lookup. The arguments and result change, so the function is recreated
+DROP FUNCTION IF EXISTS public.find_similar_cache(vector, double precision, integer);
+
+CREATE FUNCTION public.find_similar_cache(
+  query_emb vector(1536),
+  cache_scope TEXT,
+  scope_version BIGINT DEFAULT 0,
+  similarity_threshold FLOAT DEFAULT 0.92,
+  max_results INT DEFAULT 1
+)
+RETURNS TABLE (
+  id UUID,
+  query_text TEXT,
+  response TEXT,
+  model_used TEXT,
+  citations JSONB,
+  similarity FLOAT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    qc.id,
+    qc.query_text,
+    qc.response,
+    qc.model_used,
+    qc.citations,
+    1 - (qc.query_embedding <=> query_emb) as similarity
+  FROM public.query_cache qc
+  WHERE qc.expires_at > now()
+    AND qc.scope = cache_scope
+    AND qc.data_version = scope_version
+    AND qc.query_embedding IS NOT NULL
+    AND 1 - (qc.query_embedding <=> query_emb) > similarity_threshold
+  ORDER BY qc.query_embedding <=> query_emb
+  LIMIT max_results;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_similar_cache(vector, text, bigint, double precision, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.find_similar_cache(vector, text, bigint, double precision, integer) TO service_role;
@@ -0,0 +1,140 @@
+-- Cache administration: per-task-type threshold and TTL, pinned (curated) answers,
+-- and a lookup log recording the best similarity seen, so the threshold can be tuned from data.
+
+-- Entries belong to the task type they answered; pinned entries never expire and survive purges
+ALTER TABLE public.query_cache ADD COLUMN task_type TEXT NOT NULL DEFAULT 'chat';
+ALTER TABLE public.query_cache ADD COLUMN pinned BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX idx_query_cache_hit_count ON public.query_cache(hit_count DESC);
+
+-- Threshold and TTL per task type; 'default' applies to task types without a row
+CREATE TABLE public.cache_settings (
+  task_type TEXT NOT NULL PRIMARY KEY,
+  similarity_threshold FLOAT NOT NULL CHECK (similarity_threshold > 0 AND similarity_threshold <= 1),
+  ttl_days INTEGER NOT NULL CHECK (ttl_days > 0),
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.cache_settings ENABLE ROW LEVEL SECURITY;
+
+-- Read and written by edge functions only
+CREATE POLICY "No direct access to cache settings"
+ON public.cache_settings FOR ALL
+USING (false);
+
+CREATE TRIGGER update_cache_settings_updated_at
+BEFORE UPDATE ON public.cache_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.cache_settings (task_type, similarity_threshold, ttl_days)
+VALUES ('default', 0.92, 7);
+
+-- One row per cache lookup: how it was answered and the closest entry found
+CREATE TABLE public.cache_lookups (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  task_type TEXT NOT NULL,
+  match_type TEXT NOT NULL CHECK (match_type IN ('exact', 'semantic', 'miss')),
+  similarity FLOAT,
+  threshold FLOAT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.cache_lookups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "No direct access to cache lookups"
+ON public.cache_lookups FOR ALL
+USING (false);
+
+CREATE INDEX idx_cache_lookups_created_at ON public.cache_lookups(created_at DESC);
+
+-- Semantic lookup within a task type. The arguments change, so the function is recreated
+DROP FUNCTION IF EXISTS public.find_similar_cache(vector, text, bigint, double precision, integer);
+
+CREATE FUNCTION public.find_similar_cache(
+  query_emb vector(1536),
+  cache_scope TEXT,
+  cache_task_type TEXT,
+  scope_version BIGINT DEFAULT 0,
+  similarity_threshold FLOAT DEFAULT 0.92,
+  max_results INT DEFAULT 1
+)
+RETURNS TABLE (
+  id UUID,
+  query_text TEXT,
+  response TEXT,
+  model_used TEXT,
+  citations JSONB,
+  similarity FLOAT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    qc.id,
+    qc.query_text,
+    qc.response,
+    qc.model_used,
+    qc.citations,
+    1 - (qc.query_embedding <=> query_emb) as similarity
+  FROM public.query_cache qc
+  WHERE qc.expires_at > now()
+    AND qc.scope = cache_scope
+    AND qc.task_type = cache_task_type
+    AND qc.data_version = scope_version
+    AND qc.query_embedding IS NOT NULL
+    AND 1 - (qc.query_embedding <=> query_emb) > similarity_threshold
+  ORDER BY qc.query_embedding <=> query_emb
+  LIMIT max_results;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_similar_cache(vector, text, text, bigint, double precision, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.find_similar_cache(vector, text, text, bigint, double precision, integer) TO service_role;
+
+-- Near-duplicate pairs among the most-hit live entries of the same scope and task type;
+-- the analytics function groups them into clusters
+CREATE OR REPLACE FUNCTION public.cache_duplicate_pairs(
+  similarity_floor FLOAT DEFAULT 0.9,
+  max_entries INT DEFAULT 200
+)
+RETURNS TABLE (
+  entry_a UUID,
+  entry_b UUID,
+  similarity FLOAT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH top_entries AS (
+    SELECT qc.id, qc.scope, qc.task_type, qc.query_embedding
+    FROM public.query_cache qc
+    WHERE qc.expires_at > now()
+      AND qc.query_embedding IS NOT NULL
+    ORDER BY qc.hit_count DESC NULLS LAST
+    LIMIT max_entries
+  )
+  SELECT
+    a.id,
+    b.id,
+    1 - (a.query_embedding <=> b.query_embedding)
+  FROM top_entries a
+  JOIN top_entries b
+    ON a.id < b.id
+   AND a.scope = b.scope
+   AND a.task_type = b.task_type
+  WHERE 1 - (a.query_embedding <=> b.query_embedding) >= similarity_floor
+  ORDER BY a.query_embedding <=> b.query_embedding;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cache_duplicate_pairs(double precision, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.cache_duplicate_pairs(double precision, integer) TO service_role;
@@ -0,0 +1,80 @@
+-- Model routing: a versioned price table (a price change is a new row, so costs logged before it
+-- keep the price they were charged at), optional monthly budgets per user, and the routing
+-- decision recorded with each usage row.
+
+CREATE TABLE public.model_prices (
+  model TEXT NOT NULL,
+  effective_from TIMESTAMP WITH TIME ZONE NOT NULL,
+  input_per_million DECIMAL(10,4) NOT NULL CHECK (input_per_million >= 0),
+  output_per_million DECIMAL(10,4) NOT NULL CHECK (output_per_million >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (model, effective_from)
+);
+
+ALTER TABLE public.model_prices ENABLE ROW LEVEL SECURITY;
+
+-- Read by edge functions only
+CREATE POLICY "No direct access to model prices"
+ON public.model_prices FOR ALL
+USING (false);
+
+-- USD per million tokens
+INSERT INTO public.model_prices (model, effective_from, input_per_million, output_per_million)
+VALUES
+  ('google/gemini-3-flash-preview', '2026-01-01T00:00:00Z', 0.10, 0.40),
+  ('google/gemini-2.5-flash', '2026-01-01T00:00:00Z', 0.075, 0.30),
+  ('google/gemini-2.5-flash-lite', '2026-01-01T00:00:00Z', 0.10, 0.40),
+  ('google/gemini-2.5-pro', '2026-01-01T00:00:00Z', 1.25, 5.00),
+  ('openai/gpt-5', '2026-01-01T00:00:00Z', 5.00, 15.00),
+  ('openai/gpt-5-mini', '2026-01-01T00:00:00Z', 0.15, 0.60);
+
+-- Monthly AI spend limit per user (USD). Users without a row are not limited
+CREATE TABLE public.user_budgets (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  monthly_limit_usd DECIMAL(10,4) NOT NULL CHECK (monthly_limit_usd >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.user_budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own budget"
+ON public.user_budgets FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_user_budgets_updated_at
+BEFORE UPDATE ON public.user_budgets
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Why the model was chosen (task policy, complexity, caps, fallbacks)
+ALTER TABLE public.token_usage ADD COLUMN routing_reason TEXT;
+
+CREATE INDEX idx_token_usage_user_created_at ON public.token_usage(user_id, created_at DESC);
+
+-- A user's limit (NULL when unlimited) and spend since the start of the current month (UTC)
+CREATE OR REPLACE FUNCTION public.user_budget_status(p_user_id UUID)
+RETURNS TABLE (
+  monthly_limit_usd DECIMAL,
+  spent_usd DECIMAL
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    (SELECT ub.monthly_limit_usd FROM public.user_budgets ub WHERE ub.user_id = p_user_id),
+    COALESCE((
+      SELECT SUM(tu.estimated_cost)
+      FROM public.token_usage tu
+      WHERE tu.user_id = p_user_id
+        AND tu.created_at >= date_trunc('month', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'
+    ), 0);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.user_budget_status(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.user_budget_status(uuid) TO service_role;
@@ -0,0 +1,189 @@
+-- AI quotas: requests per minute and monthly token / cost allowances per user and per
+-- organization. Token and cost usage come from token_usage; the request rate from ai_requests,
+-- one row per admitted request. (user_budgets only steers routing to cheaper models; quotas refuse.)
+
+CREATE TABLE public.organizations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- A user belongs to at most one organization
+CREATE TABLE public.organization_members (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_organization_members_organization_id ON public.organization_members(organization_id);
+
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organization"
+ON public.organizations FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.organization_members m
+  WHERE m.organization_id = organizations.id AND m.user_id = auth.uid()
+));
+
+CREATE POLICY "Users can view their own membership"
+ON public.organization_members FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_organizations_updated_at
+BEFORE UPDATE ON public.organizations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A row is for one user, one organization, or neither: the default for users without their own.
+-- NULL limits are unlimited
+CREATE TABLE public.ai_quotas (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  organization_id UUID UNIQUE REFERENCES public.organizations(id) ON DELETE CASCADE,
+  requests_per_minute INTEGER CHECK (requests_per_minute > 0),
+  monthly_tokens BIGINT CHECK (monthly_tokens >= 0),
+  monthly_cost_usd DECIMAL(10,4) CHECK (monthly_cost_usd >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (user_id IS NULL OR organization_id IS NULL)
+);
+
+CREATE UNIQUE INDEX idx_ai_quotas_default ON public.ai_quotas ((true))
+WHERE user_id IS NULL AND organization_id IS NULL;
+
+ALTER TABLE public.ai_quotas ENABLE ROW LEVEL SECURITY;
+
+-- Read through the rag-chat and analytics functions only
+CREATE POLICY "No direct access to AI quotas"
+ON public.ai_quotas FOR ALL
+USING (false);
+
+CREATE TRIGGER update_ai_quotas_updated_at
+BEFORE UPDATE ON public.ai_quotas
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.ai_quotas (requests_per_minute, monthly_tokens, monthly_cost_usd)
+VALUES (20, 2000000, 10.00);
+
+CREATE TABLE public.ai_requests (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_ai_requests_user_created_at ON public.ai_requests(user_id, created_at DESC);
+
+ALTER TABLE public.ai_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "No direct access to AI requests"
+ON public.ai_requests FOR ALL
+USING (false);
+
+-- The quotas that apply to a user with their usage: one 'user' row (their own quota or the
+-- default) and an 'organization' row when their organization has a quota. No row: unlimited
+CREATE OR REPLACE FUNCTION public.ai_quota_usage(p_user_id UUID)
+RETURNS TABLE (
+  scope TEXT,
+  requests_per_minute INTEGER,
+  monthly_tokens BIGINT,
+  monthly_cost_usd DECIMAL,
+  requests_last_minute INTEGER,
+  oldest_request_at TIMESTAMP WITH TIME ZONE,
+  tokens_used BIGINT,
+  cost_used DECIMAL
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  month_start TIMESTAMP WITH TIME ZONE := date_trunc('month', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+  org_id UUID;
+BEGIN
+  RETURN QUERY
+  SELECT
+    'user'::TEXT,
+    q.requests_per_minute,
+    q.monthly_tokens,
+    q.monthly_cost_usd,
+    r.requests,
+    r.oldest,
+    u.tokens,
+    u.cost
+  FROM (
+    SELECT q0.requests_per_minute, q0.monthly_tokens, q0.monthly_cost_usd
+    FROM public.ai_quotas q0
+    WHERE q0.user_id = p_user_id
+       OR (q0.user_id IS NULL AND q0.organization_id IS NULL)
+    ORDER BY q0.user_id NULLS LAST
+    LIMIT 1
+  ) q
+  CROSS JOIN (
+    SELECT COUNT(*)::INTEGER AS requests, MIN(ar.created_at) AS oldest
+    FROM public.ai_requests ar
+    WHERE ar.user_id = p_user_id AND ar.created_at > now() - interval '1 minute'
+  ) r
+  CROSS JOIN (
+    SELECT COALESCE(SUM(tu.tokens_input + tu.tokens_output), 0)::BIGINT AS tokens,
+           COALESCE(SUM(tu.estimated_cost), 0) AS cost
+    FROM public.token_usage tu
+    WHERE tu.user_id = p_user_id AND tu.created_at >= month_start
+  ) u;
+
+  SELECT m.organization_id INTO org_id
+  FROM public.organization_members m
+  WHERE m.user_id = p_user_id;
+
+  IF org_id IS NOT NULL THEN
+    RETURN QUERY
+    SELECT
+      'organization'::TEXT,
+      q.requests_per_minute,
+      q.monthly_tokens,
+      q.monthly_cost_usd,
+      r.requests,
+      r.oldest,
+      u.tokens,
+      u.cost
+    FROM public.ai_quotas q
+    CROSS JOIN (
+      SELECT COUNT(*)::INTEGER AS requests, MIN(ar.created_at) AS oldest
+      FROM public.ai_requests ar
+      JOIN public.organization_members m ON m.user_id = ar.user_id
+      WHERE m.organization_id = org_id AND ar.created_at > now() - interval '1 minute'
+    ) r
+    CROSS JOIN (
+      SELECT COALESCE(SUM(tu.tokens_input + tu.tokens_output), 0)::BIGINT AS tokens,
+             COALESCE(SUM(tu.estimated_cost), 0) AS cost
+      FROM public.token_usage tu
+      JOIN public.organization_members m ON m.user_id = tu.user_id
+      WHERE m.organization_id = org_id AND tu.created_at >= month_start
+    ) u
+    WHERE q.organization_id = org_id;
+  END IF;
+END;
+$$;
+
+-- Record an admitted request; rows older than an hour are no longer needed for the rate limit
+CREATE OR REPLACE FUNCTION public.record_ai_request(p_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.ai_requests (user_id) VALUES (p_user_id);
+  DELETE FROM public.ai_requests
+  WHERE user_id = p_user_id AND created_at < now() - interval '1 hour';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.ai_quota_usage(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.ai_quota_usage(uuid) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.record_ai_request(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_ai_request(uuid) TO service_role;
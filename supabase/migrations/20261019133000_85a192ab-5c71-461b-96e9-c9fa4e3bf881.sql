@@ -0,0 +1,39 @@
+-- LLM-as-judge evaluations: rag-chat scores every answer inline by word overlap; the
+-- evaluate-answers worker samples rows and rescores them with a judge model. The evaluator
+-- column records which method (and version) produced the scores on a row.
+
+ALTER TABLE public.ai_evaluations
+  ADD COLUMN evaluator TEXT NOT NULL DEFAULT 'word-overlap-v1',
+  ADD COLUMN judge_model TEXT,
+  ADD COLUMN judged_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN context_precision_score DECIMAL(3,2),
+  ADD COLUMN context_recall_score DECIMAL(3,2),
+  ADD COLUMN hallucinated_numbers TEXT[],
+  -- Claim-level verdicts, context relevance and the question's information needs
+  ADD COLUMN judge_details JSONB;
+
+CREATE INDEX idx_ai_evaluations_evaluator_created_at ON public.ai_evaluations(evaluator, created_at DESC);
+
+-- A random sample of the last p_max_age_days' rows not yet scored by the given evaluator
+CREATE OR REPLACE FUNCTION public.sample_unjudged_evaluations(
+  p_evaluator TEXT,
+  p_limit INTEGER DEFAULT 20,
+  p_max_age_days INTEGER DEFAULT 30
+)
+RETURNS SETOF public.ai_evaluations
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT *
+  FROM public.ai_evaluations e
+  WHERE e.evaluator IS DISTINCT FROM p_evaluator
+    AND e.created_at > now() - make_interval(days => p_max_age_days)
+    AND length(e.response) > 0
+  ORDER BY random()
+  LIMIT p_limit;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.sample_unjudged_evaluations(text, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.sample_unjudged_evaluations(text, integer, integer) TO service_role;
@@ -0,0 +1,60 @@
+-- Admit AI requests atomically: reading ai_quota_usage() and then calling record_ai_request()
+-- let a burst of concurrent requests all pass the check before any of them was recorded.
+-- admit_ai_request() checks and records under one lock per quota owner (the user's
+-- organization when they have one, else the user), so concurrent requests queue for it.
+
+-- The user's quotas and usage with the decision: every row's admitted is true when the request
+-- was recorded (usage then includes it), false when a quota had nothing left. No row: unlimited,
+-- and recorded
+CREATE OR REPLACE FUNCTION public.admit_ai_request(p_user_id UUID)
+RETURNS TABLE (
+  admitted BOOLEAN,
+  scope TEXT,
+  requests_per_minute INTEGER,
+  monthly_tokens BIGINT,
+  monthly_cost_usd DECIMAL,
+  requests_last_minute INTEGER,
+  oldest_request_at TIMESTAMP WITH TIME ZONE,
+  tokens_used BIGINT,
+  cost_used DECIMAL
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  org_id UUID;
+  over_quota BOOLEAN;
+BEGIN
+  SELECT m.organization_id INTO org_id
+  FROM public.organization_members m
+  WHERE m.user_id = p_user_id;
+
+  -- Held until the calling transaction ends, i.e. until this request is recorded
+  PERFORM pg_advisory_xact_lock(hashtextextended('ai_quota:' || COALESCE(org_id, p_user_id)::TEXT, 0));
+
+  SELECT COALESCE(bool_or(
+    (u.requests_per_minute IS NOT NULL AND u.requests_last_minute >= u.requests_per_minute)
+    OR (u.monthly_tokens IS NOT NULL AND u.tokens_used >= u.monthly_tokens)
+    OR (u.monthly_cost_usd IS NOT NULL AND u.cost_used >= u.monthly_cost_usd)
+  ), false) INTO over_quota
+  FROM public.ai_quota_usage(p_user_id) u;
+
+  IF NOT over_quota THEN
+    INSERT INTO public.ai_requests (user_id) VALUES (p_user_id);
+    DELETE FROM public.ai_requests ar
+    WHERE ar.user_id = p_user_id AND ar.created_at < now() - interval '1 hour';
+  END IF;
+
+  RETURN QUERY
+  SELECT NOT over_quota, u.scope, u.requests_per_minute, u.monthly_tokens, u.monthly_cost_usd,
+         u.requests_last_minute, u.oldest_request_at, u.tokens_used, u.cost_used
+  FROM public.ai_quota_usage(p_user_id) u;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.admit_ai_request(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.admit_ai_request(uuid) TO service_role;
+
+-- Superseded by admit_ai_request()
+DROP FUNCTION public.record_ai_request(uuid);
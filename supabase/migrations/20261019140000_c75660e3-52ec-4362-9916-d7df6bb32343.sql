@@ -0,0 +1,60 @@
+-- Exact transaction totals for the agent's query_transactions tool. Aggregating in the database
+-- covers every matching row; the PostgREST row cap (max_rows) would truncate a client-side scan.
+
+-- One row per group (largest amount first), or a single row with a NULL group_key when
+-- p_group_by is NULL. Spend is the absolute value of debits (stored negative). Groups:
+-- 'merchant' (upper-cased merchant, else description), 'category', 'card' (card id) or 'month'
+CREATE OR REPLACE FUNCTION public.transaction_totals(
+  p_user_id UUID,
+  p_start_date DATE DEFAULT NULL,
+  p_end_date DATE DEFAULT NULL,
+  p_card_id UUID DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_merchant TEXT DEFAULT NULL,
+  p_type TEXT DEFAULT 'debit',
+  p_group_by TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  group_key TEXT,
+  transaction_count INTEGER,
+  total_spent DECIMAL,
+  total_credits DECIMAL,
+  points_earned BIGINT,
+  first_date DATE,
+  last_date DATE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    CASE p_group_by
+      WHEN 'merchant' THEN upper(trim(coalesce(nullif(t.merchant_name, ''), t.description)))
+      WHEN 'category' THEN coalesce(t.category, 'Uncategorized')
+      WHEN 'card' THEN t.card_id::TEXT
+      WHEN 'month' THEN to_char(t.transaction_date, 'YYYY-MM')
+    END AS key,
+    COUNT(*)::INTEGER,
+    COALESCE(SUM(-t.amount) FILTER (WHERE t.amount < 0), 0),
+    COALESCE(SUM(t.amount) FILTER (WHERE t.amount > 0), 0),
+    COALESCE(SUM(t.points_earned), 0)::BIGINT,
+    MIN(t.transaction_date),
+    MAX(t.transaction_date)
+  FROM public.transactions t
+  WHERE t.user_id = p_user_id
+    AND (p_start_date IS NULL OR t.transaction_date >= p_start_date)
+    AND (p_end_date IS NULL OR t.transaction_date <= p_end_date)
+    AND (p_card_id IS NULL OR t.card_id = p_card_id)
+    AND (p_category IS NULL OR t.category ILIKE '%' || p_category || '%')
+    AND (p_merchant IS NULL OR t.merchant_name ILIKE '%' || p_merchant || '%' OR t.description ILIKE '%' || p_merchant || '%')
+    AND (p_type = 'all' OR (p_type = 'credit' AND t.amount > 0) OR (p_type <> 'credit' AND t.amount < 0))
+  GROUP BY 1
+  ORDER BY SUM(abs(t.amount)) DESC;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.transaction_totals(uuid, date, date, uuid, text, text, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.transaction_totals(uuid, date, date, uuid, text, text, text, text) TO service_role;
@@ -5,10 +5,38 @@ import path from "path";
 export default defineConfig({
   plugins: [react()],
   test: {
-    environment: "jsdom",
     globals: true,
-    setupFiles: ["./src/test/setup.ts"],
-    include: ["src/**/*.{test,spec}.{ts,tsx}"],
+    projects: [
+      {
+        extends: true,
+        test: {
+          name: "app",
+          environment: "jsdom",
+          setupFiles: ["./src/test/setup.ts"],
+          include: ["src/**/*.{test,spec}.{ts,tsx}"],
+        },
+      },
+      {
+        // Edge function modules without remote imports, tested offline against fixtures
+        extends: true,
+        test: {
+          name: "functions",
+          environment: "node",
+          setupFiles: ["./supabase/functions/_test/setup.ts"],
+          include: ["supabase/functions/**/*.test.ts"],
+        },
+      },
+      {
+        // Golden-set regression harness: scoring always, the full run against a local stack
+        // when GOLDEN_SUPABASE_URL is set (supabase/golden/runner.ts)
+        extends: true,
+        test: {
+          name: "golden",
+          environment: "node",
+          include: ["supabase/golden/**/*.test.ts"],
+        },
+      },
+    ],
   },
   resolve: {
     alias: { "@": path.resolve(__dirname, "./src") },